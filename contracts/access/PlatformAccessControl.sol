@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+
+// Roles shared by every platform contract. DEFAULT_ADMIN_ROLE grants the platform admin, operator and
+// pauser roles; operators onboard organizers, gate scanners and keepers. Deployments put the admin
+// roles behind a timelock but leave the operator role with the owner, so onboarding is immediate.
+abstract contract PlatformAccessControl is AccessControl {
+    // Wiring, fee settings and sweeping funds
+    bytes32 public constant PLATFORM_ADMIN_ROLE = keccak256("PLATFORM_ADMIN_ROLE");
+    // Creates events; each event is then managed by its own organizer
+    bytes32 public constant ORGANIZER_ROLE = keccak256("ORGANIZER_ROLE");
+    // Door staff redeeming signed check-in challenges
+    bytes32 public constant GATE_SCANNER_ROLE = keccak256("GATE_SCANNER_ROLE");
+    // Automation: refund batches and waitlist clean-up
+    bytes32 public constant KEEPER_ROLE = keccak256("KEEPER_ROLE");
+    // Grants and revokes the three roles above
+    bytes32 public constant OPERATOR_ROLE = keccak256("OPERATOR_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    constructor() {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(PLATFORM_ADMIN_ROLE, msg.sender);
+        _grantRole(OPERATOR_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        _setRoleAdmin(ORGANIZER_ROLE, OPERATOR_ROLE);
+        _setRoleAdmin(GATE_SCANNER_ROLE, OPERATOR_ROLE);
+        _setRoleAdmin(KEEPER_ROLE, OPERATOR_ROLE);
+    }
+}
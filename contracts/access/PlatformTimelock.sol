@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/governance/TimelockController.sol";
+
+// Holds PLATFORM_ADMIN_ROLE and DEFAULT_ADMIN_ROLE on the core contracts, so wiring, fee and
+// sweep changes are proposed, wait out the delay in public, and only then execute. Proposers
+// and executors are usually a single multisig; proposers may also cancel.
+contract PlatformTimelock is TimelockController {
+    constructor(uint256 minDelay, address[] memory proposers, address[] memory executors)
+        TimelockController(minDelay, proposers, executors, address(0))
+    {}
+}
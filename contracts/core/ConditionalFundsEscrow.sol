@@ -1,16 +1,29 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
+import "../access/PlatformAccessControl.sol";
 import "../interfaces/IConditionalFundsEscrow.sol";
 import "../interfaces/IEventManager.sol";
 
-contract ConditionalFundsEscrow is IConditionalFundsEscrow, Ownable, ReentrancyGuard, Pausable {
+contract ConditionalFundsEscrow is IConditionalFundsEscrow, PlatformAccessControl, ReentrancyGuard, Pausable {
     address private immutable _eventManager;
     mapping(uint256 => mapping(uint256 => Payment)) private payments;
 
+    // Takes deposits from users joining a waitlist that requires one
+    address public waitlistManager;
+    // eventId => zoneId => user => deposit held while the user is on the waitlist
+    mapping(uint256 => mapping(uint256 => mapping(address => WaitlistDeposit))) private waitlistDeposits;
+    // recipient => deposit payouts whose push transfer reverted, claimable with withdrawPendingPayout
+    mapping(address => uint256) private pendingPayouts;
+    // Held deposits plus pending payouts; never swept by withdrawStuckFunds
+    uint256 public totalDepositsHeld;
+    // Ticket payments still Pending release or refund; never swept by withdrawStuckFunds
+    uint256 public totalPaymentsHeld;
+
+    uint256 public constant PAYOUT_TRANSFER_GAS = 30_000;
+
     struct Payment {
         address payer;
         uint256 amount;
@@ -18,16 +31,33 @@ contract ConditionalFundsEscrow is IConditionalFundsEscrow, Ownable, ReentrancyG
         bool waitlistRefundEnabled;
     }
 
+    struct WaitlistDeposit {
+        uint256 amount;
+        // Share of the deposit the organizer keeps if the user lets an offer lapse
+        uint256 forfeitBps;
+    }
+
     modifier onlyEventManager() {
         require(msg.sender == _eventManager, "Caller is not the EventManager contract");
         _;
     }
 
-    constructor(address eventManagerAddress) Ownable(msg.sender) {
+    modifier onlyWaitlistManager() {
+        require(msg.sender == waitlistManager, "Caller is not the WaitlistManager");
+        _;
+    }
+
+    constructor(address eventManagerAddress) {
         require(eventManagerAddress != address(0), "Invalid EventManager address");
         _eventManager = eventManagerAddress;
     }
 
+    function setWaitlistManager(address newWaitlistManager) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(newWaitlistManager != address(0), "Invalid WaitlistManager address");
+        waitlistManager = newWaitlistManager;
+        emit WaitlistManagerUpdated(newWaitlistManager);
+    }
+
     function depositPayment(uint256 eventId, uint256 ticketId)
         external
         payable
@@ -44,6 +74,7 @@ contract ConditionalFundsEscrow is IConditionalFundsEscrow, Ownable, ReentrancyG
             status: PaymentStatus.Pending,
             waitlistRefundEnabled: false
         });
+        totalPaymentsHeld += msg.value;
 
         emit PaymentDeposited(eventId, msg.sender, msg.value);
     }
@@ -65,6 +96,7 @@ contract ConditionalFundsEscrow is IConditionalFundsEscrow, Ownable, ReentrancyG
         );
 
         payment.status = PaymentStatus.Released;
+        totalPaymentsHeld -= payment.amount;
 
         // Send funds to the event organizer
         address organizer = IEventManager(_eventManager).getOrganizer(eventId);
@@ -86,6 +118,7 @@ contract ConditionalFundsEscrow is IConditionalFundsEscrow, Ownable, ReentrancyG
 
         uint256 amount = payment.amount;
         payment.status = PaymentStatus.Refunded;
+        totalPaymentsHeld -= amount;
 
         (bool success, ) = payable(msg.sender).call{value: amount}("");
         require(success, "Refund transfer to payer failed");
@@ -106,6 +139,109 @@ contract ConditionalFundsEscrow is IConditionalFundsEscrow, Ownable, ReentrancyG
         emit WaitlistRefundEnabled(eventId, ticketId);
     }
 
+    function holdWaitlistDeposit(uint256 eventId, uint256 zoneId, address user, uint256 forfeitBps)
+        external
+        payable
+        override
+        nonReentrant
+        whenNotPaused
+        onlyWaitlistManager
+    {
+        require(msg.value > 0, "Deposit amount must be greater than zero");
+        require(forfeitBps <= 10_000, "Forfeit exceeds the deposit");
+        require(waitlistDeposits[eventId][zoneId][user].amount == 0, "Waitlist deposit already held");
+
+        waitlistDeposits[eventId][zoneId][user] = WaitlistDeposit({amount: msg.value, forfeitBps: forfeitBps});
+        totalDepositsHeld += msg.value;
+        emit WaitlistDepositHeld(eventId, zoneId, user, msg.value);
+    }
+
+    // Returns the whole deposit to the user; a no-op when none is held
+    function refundWaitlistDeposit(uint256 eventId, uint256 zoneId, address user)
+        external
+        override
+        nonReentrant
+        onlyWaitlistManager
+        returns (uint256)
+    {
+        uint256 amount = _takeDeposit(eventId, zoneId, user);
+        if (amount == 0) return 0;
+
+        _payOut(user, amount);
+        emit WaitlistDepositRefunded(eventId, zoneId, user, amount);
+        return amount;
+    }
+
+    // Sends the deposit to WaitlistManager, which puts it towards the price of an accepted offer
+    function applyWaitlistDeposit(uint256 eventId, uint256 zoneId, address user)
+        external
+        override
+        nonReentrant
+        onlyWaitlistManager
+        returns (uint256)
+    {
+        uint256 amount = _takeDeposit(eventId, zoneId, user);
+        if (amount == 0) return 0;
+
+        totalDepositsHeld -= amount;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Transfer of waitlist deposit failed");
+
+        emit WaitlistDepositApplied(eventId, zoneId, user, amount);
+        return amount;
+    }
+
+    // A no-show on an offer: the organizer keeps the forfeit share and the rest goes back to the user
+    function forfeitWaitlistDeposit(uint256 eventId, uint256 zoneId, address user)
+        external
+        override
+        nonReentrant
+        onlyWaitlistManager
+        returns (uint256)
+    {
+        uint256 forfeitBps = waitlistDeposits[eventId][zoneId][user].forfeitBps;
+        uint256 amount = _takeDeposit(eventId, zoneId, user);
+        if (amount == 0) return 0;
+
+        uint256 forfeited = (amount * forfeitBps) / 10_000;
+        if (forfeited > 0) {
+            _payOut(IEventManager(_eventManager).getOrganizer(eventId), forfeited);
+        }
+        if (amount > forfeited) {
+            _payOut(user, amount - forfeited);
+        }
+
+        emit WaitlistDepositForfeited(eventId, zoneId, user, forfeited, amount - forfeited);
+        return forfeited;
+    }
+
+    function withdrawPendingPayout() external override nonReentrant {
+        uint256 amount = pendingPayouts[msg.sender];
+        require(amount > 0, "No pending payout");
+
+        pendingPayouts[msg.sender] = 0;
+        totalDepositsHeld -= amount;
+
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Transfer of payout failed");
+
+        emit PendingPayoutWithdrawn(msg.sender, amount);
+    }
+
+    function getWaitlistDeposit(uint256 eventId, uint256 zoneId, address user)
+        external
+        view
+        override
+        returns (uint256 amount, uint256 forfeitBps)
+    {
+        WaitlistDeposit memory deposit = waitlistDeposits[eventId][zoneId][user];
+        return (deposit.amount, deposit.forfeitBps);
+    }
+
+    function getPendingPayout(address recipient) external view override returns (uint256) {
+        return pendingPayouts[recipient];
+    }
+
     function getPaymentStatus(uint256 eventId, uint256 ticketId)
         external
         view
@@ -123,16 +259,33 @@ contract ConditionalFundsEscrow is IConditionalFundsEscrow, Ownable, ReentrancyG
         return payments[eventId][ticketId].amount;
     }
 
-    function pause() external onlyOwner {
+    function pause() external onlyRole(PAUSER_ROLE) {
         _pause();
     }
 
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(PAUSER_ROLE) {
         _unpause();
     }
 
-    function withdrawStuckFunds() external onlyOwner {
-        (bool success, ) = payable(owner()).call{value: address(this).balance}("");
+    function withdrawStuckFunds() external onlyRole(PLATFORM_ADMIN_ROLE) {
+        uint256 stuck = address(this).balance - totalDepositsHeld - totalPaymentsHeld;
+        (bool success, ) = payable(IEventManager(_eventManager).treasury()).call{value: stuck}("");
         require(success, "Transfer failed");
     }
+
+    function _takeDeposit(uint256 eventId, uint256 zoneId, address user) private returns (uint256 amount) {
+        amount = waitlistDeposits[eventId][zoneId][user].amount;
+        delete waitlistDeposits[eventId][zoneId][user];
+    }
+
+    // A recipient that rejects the transfer cannot hold up the waitlist; the amount waits for them
+    function _payOut(address recipient, uint256 amount) private {
+        (bool success, ) = payable(recipient).call{value: amount, gas: PAYOUT_TRANSFER_GAS}("");
+        if (success) {
+            totalDepositsHeld -= amount;
+        } else {
+            pendingPayouts[recipient] += amount;
+            emit PayoutDeferred(recipient, amount);
+        }
+    }
 }
@@ -1,49 +1,152 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
+import "../access/PlatformAccessControl.sol";
 import "../interfaces/IEventManager.sol";
 import "../interfaces/IRefundEscrow.sol";
-
-contract EventManager is IEventManager, Ownable, ReentrancyGuard, Pausable {
+import "../interfaces/ITicketFactory.sol";
+import "../interfaces/IWaitlistManager.sol";
+import "../interfaces/IPresaleManager.sol";
+import "../libraries/EventRevenue.sol";
+import "../libraries/ZoneCapacity.sol";
+import "../libraries/ZonePricing.sol";
+
+contract EventManager is IEventManager, PlatformAccessControl, ReentrancyGuard, Pausable {
     uint256 private _eventIds;
-    uint256 private _ticketIds;
     IRefundEscrow public refundEscrow;
+    // Mints the ERC-721 for every seat sold or issued here
+    ITicketFactory public ticketFactory;
+    // Offered refunded seats before they go back on general sale
+    IWaitlistManager public waitlistManager;
+    // Gates zones in presale and redeems promo codes; every zone is on general sale while unset
+    IPresaleManager public presaleManager;
 
     // eventId => Event struct
     mapping(uint256 => Event) private _events;
     // eventId => zoneId => Zone struct
     mapping(uint256 => mapping(uint256 => Zone)) private _eventZones;
-    // eventId => user => bool (true if user has a ticket for this event)
-    mapping(uint256 => mapping(address => bool)) private _hasTicket;
-    // eventId => accumulated revenue for organizer
+    // eventId => user => number of tickets bought or issued to the user for this event
+    mapping(uint256 => mapping(address => uint256)) private _ticketCounts;
+    // eventId => per-wallet ticket cap (0 means DEFAULT_WALLET_TICKET_LIMIT)
+    mapping(uint256 => uint256) private _walletTicketLimits;
+    // eventId => seconds before the event during which tickets cannot change hands (0 = no lock)
+    mapping(uint256 => uint256) private _transferLockWindows;
+    // eventId => resale fee split, fixed when the event is created
+    mapping(uint256 => ResaleFees) private _resaleFees;
+    // eventId => organizer share of the ticket payments held in RefundEscrow
     mapping(uint256 => uint256) private _eventRevenue;
-    // eventId => number of zones
-    mapping(uint256 => uint256) private _zoneCount;
-
-    uint256 public constant PLATFORM_FEE_PERCENTAGE = 5;
+    // eventId => platform share of the ticket payments held in RefundEscrow
+    mapping(uint256 => uint256) private _eventPlatformFees;
+    // ticketId => platform fee booked when the ticket was sold
+    mapping(uint256 => uint256) private _ticketPlatformFees;
+    // eventId => zoneId => seats in each row; empty for general admission zones
+    mapping(uint256 => mapping(uint256 => uint256[])) private _seatRows;
+    // eventId => zoneId => seatNumber => ticketId holding the seat (0 when free)
+    mapping(uint256 => mapping(uint256 => mapping(uint256 => uint256))) private _seatTickets;
+    // eventId => zoneId => seat numbers issued and added seats awaiting a waitlist offer (general admission)
+    mapping(uint256 => mapping(uint256 => ZoneCapacity.Seats)) private _zoneSeats;
+    // eventId => zoneId => early-bird tiers, checked in order; the first one still running sets the price
+    mapping(uint256 => mapping(uint256 => PriceTier[])) private _priceTiers;
+    // eventId => zoneId => demand pricing applied on top of the tier or zone price
+    mapping(uint256 => mapping(uint256 => DemandCurve)) private _demandCurves;
+
+    uint256 public constant MAX_PLATFORM_FEE_PERCENTAGE = 10;
+    uint256 public platformFeePercentage = 5;
     uint256 public constant MIN_EVENT_DELAY = 1 days;
+    uint256 public constant DEFAULT_WALLET_TICKET_LIMIT = 1;
+    uint256 public constant MAX_TICKETS_PER_PURCHASE = 10;
+    uint256 public constant MAX_SEAT_QUERY = 1000;
+    uint256 public constant MAX_TRANSFER_LOCK_WINDOW = 7 days;
+    uint256 public constant BPS_DENOMINATOR = ZonePricing.BPS_DENOMINATOR;
+    uint256 public constant MAX_RESALE_PLATFORM_FEE_BPS = 1_000;
+    uint256 public constant MAX_RESALE_ROYALTY_BPS = 2_500;
+    uint256 public constant MAX_PRICE_TIERS = ZonePricing.MAX_PRICE_TIERS;
+    uint256 public constant MAX_SEATS_OFFERED_PER_CALL = ZoneCapacity.MAX_OFFERS_PER_CALL;
+    // Platform resale fee applied to newly created events
+    uint256 public resalePlatformFeeBps = 500;
+    // Cap on organizer royalty plus payee share for newly created events
+    uint256 public maxResaleRoyaltyBps = 1_000;
+    // Receives platform fees here and in the escrows and ResaleManager
+    address public override treasury;
 
-    // Add the missing event declarations here
     event RefundEscrowUpdated(address indexed newEscrow);
+    event TicketFactoryUpdated(address indexed newTicketFactory);
+    event WaitlistManagerUpdated(address indexed newWaitlistManager);
+    event PresaleManagerUpdated(address indexed newPresaleManager);
     event RevenueWithdrawn(uint256 indexed eventId, address indexed organizer, uint256 amount);
+    event PlatformFeeUpdated(uint256 newFeePercentage);
+    event PlatformFeeCollected(uint256 indexed eventId, uint256 amount);
+    event WalletTicketLimitUpdated(uint256 indexed eventId, uint256 limit);
+    event ResalePlatformFeeUpdated(uint256 feeBps);
+    event MaxResaleRoyaltyUpdated(uint256 royaltyBps);
+    event TreasuryUpdated(address indexed newTreasury);
+
+    modifier onlyRefundEscrow() {
+        require(msg.sender == address(refundEscrow), "Caller is not the RefundEscrow");
+        _;
+    }
+
+    modifier onlyWaitlistManager() {
+        require(msg.sender == address(waitlistManager), "Caller is not the WaitlistManager");
+        _;
+    }
 
-    constructor() Ownable(msg.sender) {
+    constructor() {
         _eventIds = 0;
-        _ticketIds = 0;
+        treasury = msg.sender;
     }
 
-    // Rest of the contract remains exactly the same...
-    // ... all other functions remain unchanged ...
 
-    function setRefundEscrow(address newEscrow) external onlyOwner {
+    function setRefundEscrow(address newEscrow) external onlyRole(PLATFORM_ADMIN_ROLE) {
         require(newEscrow != address(0), "Invalid escrow address");
         refundEscrow = IRefundEscrow(newEscrow);
         emit RefundEscrowUpdated(newEscrow);
     }
 
+    function setTicketFactory(address newTicketFactory) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(newTicketFactory != address(0), "Invalid TicketFactory address");
+        ticketFactory = ITicketFactory(newTicketFactory);
+        emit TicketFactoryUpdated(newTicketFactory);
+    }
+
+    function setWaitlistManager(address newWaitlistManager) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(newWaitlistManager != address(0), "Invalid Waitlist manager address");
+        waitlistManager = IWaitlistManager(newWaitlistManager);
+        emit WaitlistManagerUpdated(newWaitlistManager);
+    }
+
+    function setPresaleManager(address newPresaleManager) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(newPresaleManager != address(0), "Invalid PresaleManager address");
+        presaleManager = IPresaleManager(newPresaleManager);
+        emit PresaleManagerUpdated(newPresaleManager);
+    }
+
+    function setTreasury(address newTreasury) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(newTreasury != address(0), "Invalid treasury address");
+        treasury = newTreasury;
+        emit TreasuryUpdated(newTreasury);
+    }
+
+    function setPlatformFeePercentage(uint256 newFeePercentage) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(newFeePercentage <= MAX_PLATFORM_FEE_PERCENTAGE, "Platform fee exceeds maximum");
+        platformFeePercentage = newFeePercentage;
+        emit PlatformFeeUpdated(newFeePercentage);
+    }
+
+    function setResalePlatformFee(uint256 feeBps) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(feeBps <= MAX_RESALE_PLATFORM_FEE_BPS, "Resale platform fee exceeds maximum");
+        resalePlatformFeeBps = feeBps;
+        emit ResalePlatformFeeUpdated(feeBps);
+    }
+
+    function setMaxResaleRoyalty(uint256 royaltyBps) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(royaltyBps <= MAX_RESALE_ROYALTY_BPS, "Resale royalty cap exceeds maximum");
+        maxResaleRoyaltyBps = royaltyBps;
+        emit MaxResaleRoyaltyUpdated(royaltyBps);
+    }
+
     function createEvent(
         string memory name,
         uint256 date,
@@ -51,6 +154,49 @@ contract EventManager is IEventManager, Ownable, ReentrancyGuard, Pausable {
         uint256[] memory zoneCapacities,
         uint256[] memory zonePrices
     ) external override whenNotPaused returns (uint256) {
+        uint256 newEventId = _createEvent(name, date, basePrice, zoneCapacities, zonePrices);
+        _setResaleFees(newEventId, 0, address(0), 0);
+        return newEventId;
+    }
+
+    // Same as createEvent, plus the organizer's share of every resale and an optional
+    // artist or charity payee, both in basis points of the resale price
+    function createEventWithResaleFees(
+        string memory name,
+        uint256 date,
+        uint256 basePrice,
+        uint256[] memory zoneCapacities,
+        uint256[] memory zonePrices,
+        uint256 organizerRoyaltyBps,
+        address payee,
+        uint256 payeeBps
+    ) external override whenNotPaused returns (uint256) {
+        uint256 newEventId = _createEvent(name, date, basePrice, zoneCapacities, zonePrices);
+        _setResaleFees(newEventId, organizerRoyaltyBps, payee, payeeBps);
+        return newEventId;
+    }
+
+    function _setResaleFees(uint256 eventId, uint256 organizerRoyaltyBps, address payee, uint256 payeeBps) private {
+        require((payee == address(0)) == (payeeBps == 0), "Invalid resale payee");
+        require(organizerRoyaltyBps + payeeBps <= maxResaleRoyaltyBps, "Resale royalty exceeds maximum");
+
+        _resaleFees[eventId] = ResaleFees({
+            platformFeeBps: resalePlatformFeeBps,
+            organizerRoyaltyBps: organizerRoyaltyBps,
+            payee: payee,
+            payeeBps: payeeBps
+        });
+        emit ResaleFeesConfigured(eventId, resalePlatformFeeBps, organizerRoyaltyBps, payee, payeeBps);
+    }
+
+    function _createEvent(
+        string memory name,
+        uint256 date,
+        uint256 basePrice,
+        uint256[] memory zoneCapacities,
+        uint256[] memory zonePrices
+    ) private returns (uint256) {
+        _checkRole(ORGANIZER_ROLE);
         require(bytes(name).length > 0, "Event name cannot be empty");
         require(date > block.timestamp + MIN_EVENT_DELAY, "Event date must be at least one day in the future");
         require(zoneCapacities.length == zonePrices.length, "Zone capacities and prices arrays must match");
@@ -79,15 +225,35 @@ contract EventManager is IEventManager, Ownable, ReentrancyGuard, Pausable {
             });
         }
 
-        _zoneCount[newEventId] = zoneCapacities.length;
         emit EventCreated(newEventId, name, date, msg.sender);
         return newEventId;
     }
 
+    // Replaces the zone's pricing schedule; sales already made keep the price they were made at
+    function setPriceSchedule(
+        uint256 eventId,
+        uint256 zoneId,
+        PriceTier[] calldata tiers,
+        DemandCurve calldata demandCurve
+    ) external override {
+        Event storage event_ = _editableEvent(eventId);
+        require(zoneId < event_.zoneCount, "Zone does not exist");
+
+        ZonePricing.setSchedule(
+            _eventZones[eventId][zoneId],
+            _priceTiers[eventId][zoneId],
+            _demandCurves[eventId][zoneId],
+            eventId,
+            zoneId,
+            tiers,
+            demandCurve
+        );
+    }
+
     function cancelEvent(uint256 eventId) external override whenNotPaused {
-        require(eventId <= _eventIds && eventId > 0, "Event ID does not exist");
+        _requireEvent(eventId);
         Event storage event_ = _events[eventId];
-        require(event_.organizer == msg.sender || msg.sender == owner(), "Not event organizer or owner");
+        _requireOrganizerOrAdmin(eventId);
         require(!event_.cancelled, "Event already cancelled");
         require(block.timestamp <= event_.date, "Event already occurred");
 
@@ -99,6 +265,67 @@ contract EventManager is IEventManager, Ownable, ReentrancyGuard, Pausable {
         }
     }
 
+    // Moves the event and lets holders who bought before the move refund in full for a while
+    function rescheduleEvent(uint256 eventId, uint256 newDate) external override whenNotPaused {
+        Event storage event_ = _editableEvent(eventId);
+        require(newDate > block.timestamp + MIN_EVENT_DELAY, "Event date must be at least one day in the future");
+        require(newDate != event_.date, "Event is already on this date");
+
+        uint256 oldDate = event_.date;
+        event_.date = newDate;
+        emit EventRescheduled(eventId, oldDate, newDate);
+
+        if (address(refundEscrow) != address(0)) {
+            refundEscrow.openRescheduleRefunds(eventId);
+        }
+    }
+
+    function addZone(uint256 eventId, uint256 capacity, uint256 price)
+        external
+        override
+        whenNotPaused
+        returns (uint256 zoneId)
+    {
+        Event storage event_ = _editableEvent(eventId);
+        require(capacity > 0, "Zone capacity must be greater than zero");
+        require(price >= event_.basePrice, "Zone price must be >= base price");
+
+        zoneId = event_.zoneCount;
+        _eventZones[eventId][zoneId] = Zone({capacity: capacity, price: price, availableSeats: capacity});
+        event_.zoneCount++;
+        emit ZoneAdded(eventId, zoneId, capacity, price);
+    }
+
+    // Added seats are offered to the waitlist a batch at a time; seated zones keep the capacity of their seat map
+    function updateZoneCapacity(uint256 eventId, uint256 zoneId, uint256 newCapacity)
+        external
+        override
+        whenNotPaused
+    {
+        Event storage event_ = _editableEvent(eventId);
+        require(zoneId < event_.zoneCount, "Zone does not exist");
+        require(_seatRows[eventId][zoneId].length == 0, "Zone has a seat map");
+
+        ZoneCapacity.update(
+            _eventZones[eventId][zoneId],
+            _zoneSeats[eventId][zoneId],
+            waitlistManager,
+            eventId,
+            zoneId,
+            newCapacity
+        );
+    }
+
+    // Added seats beyond MAX_SEATS_OFFERED_PER_CALL wait for this; anyone may push them along
+    function offerAddedSeats(uint256 eventId, uint256 zoneId) external override whenNotPaused {
+        _requireZone(eventId, zoneId);
+        Event storage event_ = _events[eventId];
+        require(!event_.cancelled, "Event cancelled");
+        require(block.timestamp < event_.date, "Event already occurred");
+
+        ZoneCapacity.offerAwaiting(_eventZones[eventId][zoneId], _zoneSeats[eventId][zoneId], waitlistManager, eventId, zoneId);
+    }
+
     function purchaseTicket(uint256 eventId, uint256 zoneId)
         external
         payable
@@ -106,63 +333,380 @@ contract EventManager is IEventManager, Ownable, ReentrancyGuard, Pausable {
         nonReentrant
         whenNotPaused
     {
-        require(eventId <= _eventIds && eventId > 0, "Invalid event ID");
+        address[] memory recipients = new address[](1);
+        recipients[0] = msg.sender;
+        _purchaseTickets(eventId, zoneId, recipients, new uint256[](0), new bytes32[](0), 0);
+    }
+
+    // Buys one ticket with a presale allowlist proof and/or a promo code; either may be empty
+    function purchaseTicketWithAccess(
+        uint256 eventId,
+        uint256 zoneId,
+        bytes32[] calldata proof,
+        string calldata promoCode
+    )
+        external
+        payable
+        override
+        nonReentrant
+        whenNotPaused
+        returns (uint256)
+    {
+        uint256 discountBps = 0;
+        if (bytes(promoCode).length > 0) {
+            require(address(presaleManager) != address(0), "PresaleManager not set");
+            discountBps = presaleManager.redeemPromoCode(eventId, promoCode, msg.sender);
+        }
+
+        address[] memory recipients = new address[](1);
+        recipients[0] = msg.sender;
+        return _purchaseTickets(eventId, zoneId, recipients, new uint256[](0), proof, discountBps)[0];
+    }
+
+    function purchaseTickets(uint256 eventId, uint256 zoneId, uint256 quantity)
+        external
+        payable
+        override
+        nonReentrant
+        whenNotPaused
+        returns (uint256[] memory)
+    {
+        require(quantity > 0 && quantity <= MAX_TICKETS_PER_PURCHASE, "Invalid ticket quantity");
+        require(quantity <= getWalletTicketLimit(eventId), "Quantity exceeds wallet ticket limit");
+
+        address[] memory recipients = new address[](quantity);
+        for (uint256 i = 0; i < quantity; i++) {
+            recipients[i] = msg.sender;
+        }
+        return _purchaseTickets(eventId, zoneId, recipients, new uint256[](0), new bytes32[](0), 0);
+    }
+
+    // The caller pays for one ticket per recipient; each recipient's wallet cap still applies
+    function purchaseGroupTickets(uint256 eventId, uint256 zoneId, address[] calldata recipients)
+        external
+        payable
+        override
+        nonReentrant
+        whenNotPaused
+        returns (uint256[] memory ticketIds)
+    {
+        require(recipients.length > 0 && recipients.length <= MAX_TICKETS_PER_PURCHASE, "Invalid ticket quantity");
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(recipients[i] != address(0), "Invalid recipient address");
+        }
+
+        ticketIds = _purchaseTickets(eventId, zoneId, recipients, new uint256[](0), new bytes32[](0), 0);
+        emit GroupTicketsPurchased(eventId, zoneId, msg.sender, ticketIds);
+    }
+
+    // Reserves the chosen seats in a zone with a seat map; the whole purchase reverts if any seat is taken
+    function purchaseSeats(uint256 eventId, uint256 zoneId, uint256[] calldata seatNumbers)
+        external
+        payable
+        override
+        nonReentrant
+        whenNotPaused
+        returns (uint256[] memory)
+    {
+        require(seatNumbers.length > 0 && seatNumbers.length <= MAX_TICKETS_PER_PURCHASE, "Invalid ticket quantity");
+        require(seatNumbers.length <= getWalletTicketLimit(eventId), "Quantity exceeds wallet ticket limit");
+
+        address[] memory recipients = new address[](seatNumbers.length);
+        for (uint256 i = 0; i < seatNumbers.length; i++) {
+            recipients[i] = msg.sender;
+        }
+        return _purchaseTickets(eventId, zoneId, recipients, seatNumbers, new bytes32[](0), 0);
+    }
+
+    function issueTicket(uint256 eventId, uint256 zoneId, address to)
+        external
+        override
+        nonReentrant
+        whenNotPaused
+        returns (uint256)
+    {
+        _requireEvent(eventId);
+        _requireOrganizerOrAdmin(eventId);
+        require(to != address(0), "Invalid recipient address");
+
+        uint256 newTicketId = _mintTicket(eventId, zoneId, to, 0, 0);
+        emit TicketIssued(eventId, newTicketId, to);
+        return newTicketId;
+    }
+
+    function issueSeat(uint256 eventId, uint256 zoneId, uint256 seatNumber, address to)
+        external
+        override
+        nonReentrant
+        whenNotPaused
+        returns (uint256)
+    {
+        _requireEvent(eventId);
+        _requireOrganizerOrAdmin(eventId);
+        require(to != address(0), "Invalid recipient address");
+        require(seatNumber > 0, "Invalid seat number");
+
+        uint256 newTicketId = _mintTicket(eventId, zoneId, to, 0, seatNumber);
+        emit TicketIssued(eventId, newTicketId, to);
+        return newTicketId;
+    }
+
+    // Seats are numbered 1..capacity row by row, so the row lengths must add up to the zone capacity.
+    // The map can only change while the zone has no tickets out.
+    function configureSeatMap(uint256 eventId, uint256 zoneId, uint256[] calldata rowLengths)
+        external
+        override
+        whenNotPaused
+    {
+        _requireEvent(eventId);
         Event storage event_ = _events[eventId];
+        _requireOrganizerOrAdmin(eventId);
         require(!event_.cancelled, "Event cancelled");
-        require(block.timestamp < event_.date, "Event already occurred");
-        require(!_hasTicket[eventId][msg.sender], "Already purchased ticket");
-        require(zoneId < event_.zoneCount, "Invalid zone ID");
+        require(zoneId < event_.zoneCount, "Zone does not exist");
 
         Zone storage zone = _eventZones[eventId][zoneId];
-        require(zone.availableSeats > 0, "No seats available in zone");
-        require(msg.value >= zone.price, "Insufficient payment");
+        require(zone.availableSeats == zone.capacity, "Zone already has tickets");
+        require(rowLengths.length > 0, "Seat map must have at least one row");
 
-        _ticketIds++;
-        uint256 newTicketId = _ticketIds;
+        uint256 seatCount;
+        for (uint256 i = 0; i < rowLengths.length; i++) {
+            require(rowLengths[i] > 0, "Seat map row cannot be empty");
+            seatCount += rowLengths[i];
+        }
+        require(seatCount == zone.capacity, "Seat map does not match zone capacity");
 
-        zone.availableSeats--;
-        _hasTicket[eventId][msg.sender] = true;
+        _seatRows[eventId][zoneId] = rowLengths;
+        emit SeatMapConfigured(eventId, zoneId, rowLengths);
+    }
 
-        // Calculate fees and organizer revenue
-        uint256 platformFee = (zone.price * PLATFORM_FEE_PERCENTAGE) / 100;
-        uint256 organizerPayment = zone.price - platformFee;
+    // Called by RefundEscrow when a holder refunds a ticket: burns it and reopens the seat, or
+    // holds the seat while it is offered to the zone's waitlist
+    function releaseRefundedTicket(uint256 eventId, uint256 ticketId) external override onlyRefundEscrow {
+        address holder = ticketFactory.ownerOf(ticketId);
+        (, uint256 price, , uint256 seatNumber, , , , uint256 zoneId) = ticketFactory.getTicketDetails(ticketId);
+
+        uint256 platformFee = _ticketPlatformFees[ticketId];
+        _eventRevenue[eventId] -= price - platformFee;
+        _eventPlatformFees[eventId] -= platformFee;
+        delete _ticketPlatformFees[ticketId];
+
+        if (address(waitlistManager) != address(0) && waitlistManager.offerReleasedSeat(eventId, zoneId, seatNumber)) {
+            emit SeatHeldForWaitlist(eventId, zoneId, seatNumber);
+        } else {
+            _releaseSeat(eventId, zoneId, seatNumber);
+        }
+        // The holder may have bought the ticket on resale and never been counted
+        if (_ticketCounts[eventId][holder] > 0) {
+            _ticketCounts[eventId][holder]--;
+        }
 
-        // Store organizer's payment as event revenue
-        _eventRevenue[eventId] += organizerPayment;
+        ticketFactory.burnTicket(ticketId);
+        emit TicketRefunded(eventId, ticketId, holder);
+    }
 
-        // Send platform fee immediately to owner
-        (bool feeSuccess, ) = payable(owner()).call{value: platformFee}("");
-        require(feeSuccess, "Platform fee transfer failed");
+    // Sells a held seat to the waitlisted user who accepted its offer; WaitlistManager forwards
+    // exactly the current zone price, which is escrowed like any other sale
+    function fillReleasedSeat(uint256 eventId, uint256 zoneId, uint256 seatNumber, address buyer)
+        external
+        payable
+        override
+        nonReentrant
+        whenNotPaused
+        onlyWaitlistManager
+        returns (uint256 ticketId)
+    {
+        Event storage event_ = _events[eventId];
+        require(!event_.cancelled, "Event cancelled");
+        require(block.timestamp < event_.date, "Event already occurred");
+        require(_ticketCounts[eventId][buyer] < getWalletTicketLimit(eventId), "Already purchased ticket");
+        Zone storage zone = _eventZones[eventId][zoneId];
+        uint256 price = _priceAt(eventId, zoneId, zone.capacity - zone.availableSeats);
+        require(msg.value == price, "Payment must match the zone price");
+
+        _ticketCounts[eventId][buyer]++;
+        ticketId = ticketFactory.mintTicket(buyer, eventId, zoneId, seatNumber, price);
+        if (_seatRows[eventId][zoneId].length > 0) {
+            _seatTickets[eventId][zoneId][seatNumber] = ticketId;
+            emit SeatAssigned(eventId, zoneId, seatNumber, ticketId);
+        }
+        _bookSale(eventId, ticketId, price, buyer, buyer);
+    }
+
+    // Puts a held seat back on general sale once nobody on the waitlist wants it
+    function releaseHeldSeat(uint256 eventId, uint256 zoneId, uint256 seatNumber)
+        external
+        override
+        onlyWaitlistManager
+    {
+        _releaseSeat(eventId, zoneId, seatNumber);
+    }
+
+    // Organizer-issued move of a ticket to a new holder; allowed even inside the transfer lock
+    function moveTicket(uint256 ticketId, address to) external override nonReentrant whenNotPaused {
+        require(address(ticketFactory) != address(0), "TicketFactory not set");
+        require(to != address(0), "Invalid recipient address");
+        (uint256 eventId, , bool used, , , , , ) = ticketFactory.getTicketDetails(ticketId);
+        _requireEvent(eventId);
+        _requireOrganizerOrAdmin(eventId);
+        require(!used, "This ticket has already been used");
+
+        ticketFactory.moveTicket(ticketId, to);
+    }
+
+    // seatNumbers is either empty (general admission) or holds one seat per recipient. The payer's
+    // allowlist proof is only needed while the zone is in presale.
+    function _purchaseTickets(
+        uint256 eventId,
+        uint256 zoneId,
+        address[] memory recipients,
+        uint256[] memory seatNumbers,
+        bytes32[] memory proof,
+        uint256 discountBps
+    )
+        private
+        returns (uint256[] memory ticketIds)
+    {
+        _requireEvent(eventId);
+        require(address(refundEscrow) != address(0), "RefundEscrow not set");
+        if (address(presaleManager) != address(0)) {
+            presaleManager.checkSaleOpen(eventId, zoneId, msg.sender, proof);
+        }
+        Zone storage zone = _eventZones[eventId][zoneId];
+
+        // Each ticket is priced as it is minted, so a batch moves along the schedule like single sales
+        ticketIds = new uint256[](recipients.length);
+        uint256[] memory prices = new uint256[](recipients.length);
+        uint256 totalPrice = 0;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            uint256 seatNumber = seatNumbers.length > 0 ? seatNumbers[i] : 0;
+            prices[i] = _priceAt(eventId, zoneId, zone.capacity - zone.availableSeats);
+            prices[i] -= (prices[i] * discountBps) / BPS_DENOMINATOR;
+            totalPrice += prices[i];
+            ticketIds[i] = _mintTicket(eventId, zoneId, recipients[i], prices[i], seatNumber);
+        }
+        require(msg.value >= totalPrice, "Insufficient payment");
+
+        for (uint256 i = 0; i < ticketIds.length; i++) {
+            _bookSale(eventId, ticketIds[i], prices[i], msg.sender, recipients[i]);
+        }
 
         // Refund any excess payment
-        if (msg.value > zone.price) {
-            uint256 excess = msg.value - zone.price;
+        if (msg.value > totalPrice) {
+            uint256 excess = msg.value - totalPrice;
             (bool refundSuccess, ) = payable(msg.sender).call{value: excess}("");
             require(refundSuccess, "Refund failed");
         }
+    }
+
+    // Books the split now, but holds the full price in escrow until the event concludes
+    function _bookSale(uint256 eventId, uint256 ticketId, uint256 price, address payer, address holder) private {
+        uint256 platformFee = (price * platformFeePercentage) / 100;
+        _eventRevenue[eventId] += price - platformFee;
+        _eventPlatformFees[eventId] += platformFee;
+        _ticketPlatformFees[ticketId] = platformFee;
 
-        emit TicketPurchased(eventId, newTicketId, msg.sender);
+        emit SaleBooked(eventId, ticketId, price, platformFee);
+        refundEscrow.depositPayment{value: price}(eventId, ticketId, payer);
+        emit TicketPurchased(eventId, ticketId, holder);
     }
 
-    function withdrawEventRevenue(uint256 eventId) external nonReentrant {
-        require(eventId <= _eventIds && eventId > 0, "Invalid event ID");
+    function _priceAt(uint256 eventId, uint256 zoneId, uint256 sold) private view returns (uint256) {
+        return ZonePricing.priceAt(
+            _eventZones[eventId][zoneId],
+            _priceTiers[eventId][zoneId],
+            _demandCurves[eventId][zoneId],
+            sold
+        );
+    }
+
+    // Event the caller may edit: organized by them (or any, for a platform admin), live and not yet held
+    function _editableEvent(uint256 eventId) private view returns (Event storage event_) {
+        _requireEvent(eventId);
+        _requireOrganizerOrAdmin(eventId);
+        event_ = _events[eventId];
+        require(!event_.cancelled, "Event cancelled");
+        require(block.timestamp < event_.date, "Event already occurred");
+    }
+
+    function _requireEvent(uint256 eventId) private view {
+        require(eventId <= _eventIds && eventId > 0, "Event ID does not exist");
+    }
+
+    function _requireZone(uint256 eventId, uint256 zoneId) private view {
+        _requireEvent(eventId);
+        require(zoneId < _events[eventId].zoneCount, "Zone does not exist");
+    }
+
+    function _requireOrganizerOrAdmin(uint256 eventId) private view {
+        require(
+            _events[eventId].organizer == msg.sender || hasRole(PLATFORM_ADMIN_ROLE, msg.sender),
+            "Not event organizer or platform admin"
+        );
+    }
+
+    function _releaseSeat(uint256 eventId, uint256 zoneId, uint256 seatNumber) private {
+        _eventZones[eventId][zoneId].availableSeats++;
+        if (_seatRows[eventId][zoneId].length > 0) {
+            uint256 ticketId = _seatTickets[eventId][zoneId][seatNumber];
+            delete _seatTickets[eventId][zoneId][seatNumber];
+            emit SeatReleased(eventId, zoneId, seatNumber, ticketId);
+        }
+    }
+
+    // Takes a seat out of the zone and mints the matching NFT, so seat counts and
+    // token supply can never drift apart. seatNumber is 0 for general admission zones.
+    function _mintTicket(
+        uint256 eventId,
+        uint256 zoneId,
+        address to,
+        uint256 price,
+        uint256 seatNumber
+    ) private returns (uint256) {
+        require(address(ticketFactory) != address(0), "TicketFactory not set");
         Event storage event_ = _events[eventId];
-        require(event_.organizer == msg.sender, "Caller not organizer");
-        require(block.timestamp > event_.date, "Event not ended yet");
+        require(!event_.cancelled, "Event cancelled");
+        require(block.timestamp < event_.date, "Event already occurred");
+        require(_ticketCounts[eventId][to] < getWalletTicketLimit(eventId), "Already purchased ticket");
+        require(zoneId < event_.zoneCount, "Invalid zone ID");
+
+        Zone storage zone = _eventZones[eventId][zoneId];
+        require(zone.availableSeats > 0, "No seats available in zone");
+
+        bool seated = _seatRows[eventId][zoneId].length > 0;
+        if (seated) {
+            require(seatNumber > 0, "Zone requires a seat selection");
+            require(seatNumber <= zone.capacity, "Invalid seat number");
+            require(_seatTickets[eventId][zoneId][seatNumber] == 0, "Seat already taken");
+        } else {
+            require(seatNumber == 0, "Zone has no seat map");
+        }
 
-        uint256 amount = _eventRevenue[eventId];
-        require(amount > 0, "No revenue");
+        zone.availableSeats--;
+        _ticketCounts[eventId][to]++;
 
-        _eventRevenue[eventId] = 0;
+        if (!seated) {
+            seatNumber = ++_zoneSeats[eventId][zoneId].lastNumber;
+        }
+        uint256 ticketId = ticketFactory.mintTicket(to, eventId, zoneId, seatNumber, price);
+        if (seated) {
+            _seatTickets[eventId][zoneId][seatNumber] = ticketId;
+            emit SeatAssigned(eventId, zoneId, seatNumber, ticketId);
+        }
+        return ticketId;
+    }
 
-        (bool success, ) = payable(msg.sender).call{value: amount}("");
-        require(success, "Transfer to organizer failed");
+    function withdrawEventRevenue(uint256 eventId) external nonReentrant {
+        _requireEvent(eventId);
+        Event storage event_ = _events[eventId];
+        require(event_.organizer == msg.sender, "Caller not organizer");
+        require(!event_.cancelled, "Event cancelled");
+        require(block.timestamp > event_.date, "Event not ended yet");
 
-        emit RevenueWithdrawn(eventId, msg.sender, amount);
+        EventRevenue.withdraw(_eventRevenue, _eventPlatformFees, refundEscrow, treasury, eventId, msg.sender);
     }
 
     function getEvent(uint256 eventId) external view override returns (EventView memory) {
-        require(eventId <= _eventIds && eventId > 0, "Event ID does not exist");
+        _requireEvent(eventId);
         Event storage event_ = _events[eventId];
         
         return EventView({
@@ -183,7 +727,7 @@ contract EventManager is IEventManager, Ownable, ReentrancyGuard, Pausable {
         bool cancelled,
         uint256 zoneCount
     ) {
-        require(eventId <= _eventIds && eventId > 0, "Event ID does not exist");
+        _requireEvent(eventId);
         Event storage event_ = _events[eventId];
         return (
             event_.name,
@@ -196,53 +740,160 @@ contract EventManager is IEventManager, Ownable, ReentrancyGuard, Pausable {
     }
 
     function getZone(uint256 eventId, uint256 zoneId) external view override returns (Zone memory) {
-        require(eventId <= _eventIds && eventId > 0, "Event ID does not exist");
-        require(zoneId < _events[eventId].zoneCount, "Zone does not exist");
+        _requireZone(eventId, zoneId);
         return _eventZones[eventId][zoneId];
     }
 
     function getZonePrice(uint256 eventId, uint256 zoneId) external view override returns (uint256) {
-        require(eventId <= _eventIds && eventId > 0, "Event ID does not exist");
-        require(zoneId < _events[eventId].zoneCount, "Zone does not exist");
-        return _eventZones[eventId][zoneId].price;
+        _requireZone(eventId, zoneId);
+        Zone storage zone = _eventZones[eventId][zoneId];
+        return _priceAt(eventId, zoneId, zone.capacity - zone.availableSeats);
+    }
+
+    // Total for the next `quantity` tickets of the zone bought in one purchase
+    function quoteTickets(uint256 eventId, uint256 zoneId, uint256 quantity)
+        external
+        view
+        override
+        returns (uint256 total)
+    {
+        _requireZone(eventId, zoneId);
+        return ZonePricing.quote(
+            _eventZones[eventId][zoneId],
+            _priceTiers[eventId][zoneId],
+            _demandCurves[eventId][zoneId],
+            quantity
+        );
+    }
+
+    function getPriceSchedule(uint256 eventId, uint256 zoneId)
+        external
+        view
+        override
+        returns (PriceTier[] memory tiers, DemandCurve memory demandCurve)
+    {
+        _requireZone(eventId, zoneId);
+        return (_priceTiers[eventId][zoneId], _demandCurves[eventId][zoneId]);
     }
 
     function getZoneCapacity(uint256 eventId, uint256 zoneId) external view override returns (uint256) {
-        require(eventId <= _eventIds && eventId > 0, "Event ID does not exist");
-        require(zoneId < _events[eventId].zoneCount, "Zone does not exist");
+        _requireZone(eventId, zoneId);
         return _eventZones[eventId][zoneId].capacity;
     }
 
+    function getSeatsAwaitingOffer(uint256 eventId, uint256 zoneId) external view override returns (uint256) {
+        _requireZone(eventId, zoneId);
+        return _zoneSeats[eventId][zoneId].awaitingOffer;
+    }
+
+    function getSeatMap(uint256 eventId, uint256 zoneId) external view override returns (uint256[] memory) {
+        _requireZone(eventId, zoneId);
+        return _seatRows[eventId][zoneId];
+    }
+
+    function getSeatTicket(uint256 eventId, uint256 zoneId, uint256 seatNumber)
+        external
+        view
+        override
+        returns (uint256)
+    {
+        _requireZone(eventId, zoneId);
+        return _seatTickets[eventId][zoneId][seatNumber];
+    }
+
+    // Ticket IDs for seats firstSeat..firstSeat+count-1 (0 for a free seat), for rendering availability
+    function getSeatTickets(uint256 eventId, uint256 zoneId, uint256 firstSeat, uint256 count)
+        external
+        view
+        returns (uint256[] memory ticketIds)
+    {
+        _requireZone(eventId, zoneId);
+        require(count <= MAX_SEAT_QUERY, "Seat query too large");
+
+        ticketIds = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            ticketIds[i] = _seatTickets[eventId][zoneId][firstSeat + i];
+        }
+    }
+
     function getZoneCount(uint256 eventId) external view override returns (uint256) {
-        require(eventId <= _eventIds && eventId > 0, "Event ID does not exist");
+        _requireEvent(eventId);
         return _events[eventId].zoneCount;
     }
 
     function hasEventConcluded(uint256 eventId) external view override returns (bool) {
-        require(eventId <= _eventIds && eventId > 0, "Event ID does not exist");
+        _requireEvent(eventId);
         return block.timestamp > _events[eventId].date;
     }
 
     function getOrganizer(uint256 eventId) external view override returns (address) {
-        require(eventId <= _eventIds && eventId > 0, "Event ID does not exist");
+        _requireEvent(eventId);
         return _events[eventId].organizer;
     }
 
     function getEventRevenue(uint256 eventId) external view returns (uint256) {
-        require(eventId <= _eventIds && eventId > 0, "Event ID does not exist");
+        _requireEvent(eventId);
         return _eventRevenue[eventId];
     }
 
+    function getResaleFees(uint256 eventId) external view override returns (ResaleFees memory) {
+        _requireEvent(eventId);
+        return _resaleFees[eventId];
+    }
+
+    function getTicketHolder(uint256 ticketId) external view override returns (address) {
+        return ticketFactory.ownerOf(ticketId);
+    }
+
     function hasTicket(uint256 eventId, address user) external view returns (bool) {
-        require(eventId <= _eventIds && eventId > 0, "Event ID does not exist");
-        return _hasTicket[eventId][user];
+        _requireEvent(eventId);
+        return _ticketCounts[eventId][user] > 0;
+    }
+
+    function getTicketCount(uint256 eventId, address user) external view returns (uint256) {
+        _requireEvent(eventId);
+        return _ticketCounts[eventId][user];
+    }
+
+    function getWalletTicketLimit(uint256 eventId) public view returns (uint256) {
+        uint256 limit = _walletTicketLimits[eventId];
+        return limit == 0 ? DEFAULT_WALLET_TICKET_LIMIT : limit;
+    }
+
+    function setWalletTicketLimit(uint256 eventId, uint256 limit) external {
+        _requireEvent(eventId);
+        _requireOrganizerOrAdmin(eventId);
+        require(limit > 0, "Wallet ticket limit must be greater than zero");
+
+        _walletTicketLimits[eventId] = limit;
+        emit WalletTicketLimitUpdated(eventId, limit);
+    }
+
+    function getTransferLockWindow(uint256 eventId) external view returns (uint256) {
+        _requireEvent(eventId);
+        return _transferLockWindows[eventId];
+    }
+
+    function setTransferLockWindow(uint256 eventId, uint256 window) external override {
+        _requireEvent(eventId);
+        _requireOrganizerOrAdmin(eventId);
+        require(window <= MAX_TRANSFER_LOCK_WINDOW, "Transfer lock window too long");
+
+        _transferLockWindows[eventId] = window;
+        emit TransferLockWindowUpdated(eventId, window);
+    }
+
+    // Tickets are locked from `window` seconds before the event onwards
+    function isTransferLocked(uint256 eventId) external view override returns (bool) {
+        uint256 window = _transferLockWindows[eventId];
+        return window > 0 && block.timestamp + window >= _events[eventId].date;
     }
 
-    function pause() external onlyOwner {
+    function pause() external onlyRole(PAUSER_ROLE) {
         _pause();
     }
 
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(PAUSER_ROLE) {
         _unpause();
     }
 
@@ -0,0 +1,162 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "../access/PlatformAccessControl.sol";
+import "../interfaces/IEventManager.sol";
+import "../interfaces/IPresaleManager.sol";
+
+// Per-zone presale allowlists and per-event promo codes. EventManager asks it whether a zone is
+// on sale to a buyer and redeems promo codes during a purchase.
+contract PresaleManager is IPresaleManager, PlatformAccessControl {
+    struct PromoCode {
+        uint256 discountBps;    // 0 for a code that was never added
+        bool redeemed;
+    }
+
+    IEventManager public immutable eventManager;
+
+    // eventId => zoneId => presale window and allowlist root
+    mapping(uint256 => mapping(uint256 => Presale)) private presales;
+    // eventId => keccak256(abi.encode(code, buyer)) => promo code
+    mapping(uint256 => mapping(bytes32 => PromoCode)) private promoCodes;
+    // eventId => zoneId => allowlist root => buyers who proved they are on it
+    mapping(uint256 => mapping(uint256 => mapping(bytes32 => mapping(address => bool)))) private verifiedBuyers;
+
+    uint256 public constant BPS_DENOMINATOR = 10_000;
+    uint256 public constant MAX_PROMO_CODES_PER_CALL = 200;
+
+    modifier onlyEventManager() {
+        require(msg.sender == address(eventManager), "Caller is not the EventManager");
+        _;
+    }
+
+    modifier onlyOrganizerOrAdmin(uint256 eventId) {
+        require(
+            eventManager.getOrganizer(eventId) == msg.sender || hasRole(PLATFORM_ADMIN_ROLE, msg.sender),
+            "Not event organizer or platform admin"
+        );
+        _;
+    }
+
+    constructor(address eventManagerAddress) {
+        require(eventManagerAddress != address(0), "Invalid EventManager address");
+        eventManager = IEventManager(eventManagerAddress);
+    }
+
+    // Leaves are keccak256(bytes.concat(keccak256(abi.encode(account)))), the encoding used by the
+    // SDK's buildAllowlist and OpenZeppelin's StandardMerkleTree
+    function setPresale(
+        uint256 eventId,
+        uint256 zoneId,
+        bytes32 merkleRoot,
+        uint256 startsAt,
+        uint256 endsAt
+    ) external override onlyOrganizerOrAdmin(eventId) {
+        require(zoneId < eventManager.getZoneCount(eventId), "Zone does not exist");
+        require(merkleRoot != bytes32(0), "Invalid Merkle root");
+        require(startsAt < endsAt, "Presale must end after it starts");
+
+        presales[eventId][zoneId] = Presale(merkleRoot, startsAt, endsAt);
+        emit PresaleConfigured(eventId, zoneId, merkleRoot, startsAt, endsAt);
+    }
+
+    function clearPresale(uint256 eventId, uint256 zoneId) external override onlyOrganizerOrAdmin(eventId) {
+        delete presales[eventId][zoneId];
+        emit PresaleCleared(eventId, zoneId);
+    }
+
+    // Each code is issued to one buyer and stored as keccak256(abi.encode(code, buyer)). It stays
+    // secret until redeemed, and a code copied from a pending purchase is no use to anyone else.
+    function addPromoCodes(uint256 eventId, bytes32[] calldata codeHashes, uint256 discountBps)
+        external
+        override
+        onlyOrganizerOrAdmin(eventId)
+    {
+        require(codeHashes.length > 0 && codeHashes.length <= MAX_PROMO_CODES_PER_CALL, "Invalid promo code count");
+        require(discountBps > 0 && discountBps < BPS_DENOMINATOR, "Invalid promo discount");
+
+        for (uint256 i = 0; i < codeHashes.length; i++) {
+            require(promoCodes[eventId][codeHashes[i]].discountBps == 0, "Promo code already exists");
+            promoCodes[eventId][codeHashes[i]] = PromoCode(discountBps, false);
+        }
+        emit PromoCodesAdded(eventId, codeHashes.length, discountBps);
+    }
+
+    // Records the caller as allowlisted, so purchases that take no proof (batches, group tickets
+    // and seats) are open to them for the rest of the presale. A new allowlist root starts over.
+    function verifyAllowlist(uint256 eventId, uint256 zoneId, bytes32[] calldata proof) external override {
+        bytes32 root = presales[eventId][zoneId].merkleRoot;
+        require(root != bytes32(0), "Zone has no presale");
+        require(MerkleProof.verifyCalldata(proof, root, _leaf(msg.sender)), "Not on the presale allowlist");
+
+        verifiedBuyers[eventId][zoneId][root][msg.sender] = true;
+        emit AllowlistVerified(eventId, zoneId, msg.sender);
+    }
+
+    // Reverts unless the zone is on sale to the buyer right now
+    function checkSaleOpen(uint256 eventId, uint256 zoneId, address buyer, bytes32[] calldata proof)
+        external
+        view
+        override
+    {
+        Presale memory presale = presales[eventId][zoneId];
+        if (presale.merkleRoot == bytes32(0) || block.timestamp >= presale.endsAt) return;
+
+        require(block.timestamp >= presale.startsAt, "Sales have not opened for this zone");
+        require(
+            verifiedBuyers[eventId][zoneId][presale.merkleRoot][buyer] ||
+                MerkleProof.verifyCalldata(proof, presale.merkleRoot, _leaf(buyer)),
+            "Not on the presale allowlist"
+        );
+    }
+
+    function redeemPromoCode(uint256 eventId, string calldata code, address buyer)
+        external
+        override
+        onlyEventManager
+        returns (uint256)
+    {
+        bytes32 codeHash = keccak256(abi.encode(code, buyer));
+        PromoCode storage promo = promoCodes[eventId][codeHash];
+        require(promo.discountBps > 0, "Invalid promo code");
+        require(!promo.redeemed, "Promo code already redeemed");
+
+        promo.redeemed = true;
+        emit PromoCodeRedeemed(eventId, codeHash, buyer, promo.discountBps);
+        return promo.discountBps;
+    }
+
+    function getPresale(uint256 eventId, uint256 zoneId) external view override returns (Presale memory) {
+        return presales[eventId][zoneId];
+    }
+
+    function isAllowlisted(uint256 eventId, uint256 zoneId, address account, bytes32[] calldata proof)
+        external
+        view
+        override
+        returns (bool)
+    {
+        bytes32 root = presales[eventId][zoneId].merkleRoot;
+        return root != bytes32(0) && MerkleProof.verifyCalldata(proof, root, _leaf(account));
+    }
+
+    function isVerified(uint256 eventId, uint256 zoneId, address account) external view override returns (bool) {
+        bytes32 root = presales[eventId][zoneId].merkleRoot;
+        return root != bytes32(0) && verifiedBuyers[eventId][zoneId][root][account];
+    }
+
+    function getPromoCode(uint256 eventId, bytes32 codeHash)
+        external
+        view
+        override
+        returns (uint256 discountBps, bool redeemed)
+    {
+        PromoCode memory promo = promoCodes[eventId][codeHash];
+        return (promo.discountBps, promo.redeemed);
+    }
+
+    function _leaf(address account) private pure returns (bytes32) {
+        return keccak256(bytes.concat(keccak256(abi.encode(account))));
+    }
+}
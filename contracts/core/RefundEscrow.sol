@@ -1,21 +1,39 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
+import "../access/PlatformAccessControl.sol";
 import "../interfaces/IRefundEscrow.sol";
 import "../interfaces/IEventManager.sol";
 
-contract RefundEscrow is IRefundEscrow, Ownable, ReentrancyGuard, Pausable {
+contract RefundEscrow is IRefundEscrow, PlatformAccessControl, ReentrancyGuard, Pausable {
     event TicketCancelled(uint256 indexed eventId, uint256 indexed ticketId, uint256 refundAmount);
     event EventCancelled(uint256 indexed eventId);
     event EventCancellationRefunded(uint256 indexed eventId, uint256 indexed ticketId, uint256 refundAmount);
+    event EventFundsReleased(uint256 indexed eventId, uint256 amount);
+    event RefundBatchProcessed(uint256 indexed eventId, uint256 refunded, uint256 cursor, uint256 total);
+    event RefundDeferred(uint256 indexed eventId, uint256 indexed ticketId, address indexed recipient, uint256 amount);
+    event PendingRefundWithdrawn(address indexed recipient, uint256 amount);
+    event RescheduleRefundsOpened(uint256 indexed eventId, uint256 deadline);
+    event RescheduleRefunded(uint256 indexed eventId, uint256 indexed ticketId, uint256 refundAmount);
     
     address private immutable _eventManager;
     mapping(uint256 => mapping(uint256 => Payment)) private payments;
     mapping(uint256 => bool) private eventCancelled;
     mapping(uint256 => mapping(uint256 => address)) private originalPayers;
+    // eventId => funds still held for the event's tickets
+    mapping(uint256 => uint256) private eventBalances;
+    mapping(uint256 => bool) private eventFundsReleased;
+    // eventId => ticket IDs in deposit order, walked by the batch refund cursor
+    mapping(uint256 => uint256[]) private eventTicketIds;
+    mapping(uint256 => uint256) private refundCursors;
+    // recipient => refunds whose push transfer reverted, claimable with withdrawPendingRefund
+    mapping(address => uint256) private pendingRefunds;
+    // eventId => time of the latest reschedule, and the end of the refund window it opened
+    mapping(uint256 => uint256) private rescheduledAt;
+    mapping(uint256 => uint256) private rescheduleRefundDeadlines;
+    uint256 private totalHeld;
     
     struct Payment {
         address payer;
@@ -27,43 +45,50 @@ contract RefundEscrow is IRefundEscrow, Ownable, ReentrancyGuard, Pausable {
     }
 
     uint256 public constant REFUND_WINDOW = 14 days;
+    uint256 public constant RESCHEDULE_REFUND_WINDOW = 7 days;
     uint256 public constant CANCELLATION_FEE_PERCENT = 5;
+    uint256 public constant MAX_REFUND_BATCH_SIZE = 200;
+    // Gas forwarded to each recipient, and kept back so a batch can always finish its bookkeeping
+    uint256 public constant REFUND_TRANSFER_GAS = 30_000;
+    uint256 public constant MIN_GAS_PER_REFUND = 100_000;
 
     modifier onlyEventManager() {
         require(msg.sender == _eventManager, "Caller is not the EventManager");
         _;
     }
 
-    constructor(address eventManagerAddress) Ownable(msg.sender) {
+    constructor(address eventManagerAddress) {
         require(eventManagerAddress != address(0), "Invalid EventManager address");
         _eventManager = eventManagerAddress;
     }
 
-    function depositPayment(uint256 eventId, uint256 ticketId) 
+    function depositPayment(uint256 eventId, uint256 ticketId, address payer) 
         external 
         payable 
         override 
         nonReentrant 
         whenNotPaused 
+        onlyEventManager 
     {
-        require(!paused(), "Pausable: paused");
         require(msg.value > 0, "Payment amount must be greater than zero");
+        require(payer != address(0), "Invalid payer address");
         require(payments[eventId][ticketId].payer == address(0), "A payment for this ticket already exists");
         require(!eventCancelled[eventId], "Cannot deposit payment for a cancelled event");
-        // Store the original transaction sender
-        address originalPayer = tx.origin;
-        originalPayers[eventId][ticketId] = originalPayer;
+        originalPayers[eventId][ticketId] = payer;
 
         payments[eventId][ticketId] = Payment({
-            payer: originalPayer,
+            payer: payer,
             amount: msg.value,
             status: PaymentStatus.Pending,
             waitlistRefundEnabled: false,
             refundDeadline: block.timestamp + REFUND_WINDOW,
             isCancelled: false
         });
+        eventBalances[eventId] += msg.value;
+        totalHeld += msg.value;
+        eventTicketIds[eventId].push(ticketId);
 
-        emit PaymentDeposited(eventId, originalPayer, msg.value);
+        emit PaymentDeposited(eventId, payer, msg.value);
     }
 
     function cancelTicket(uint256 eventId, uint256 ticketId) 
@@ -72,17 +97,25 @@ contract RefundEscrow is IRefundEscrow, Ownable, ReentrancyGuard, Pausable {
         whenNotPaused 
     {
         Payment storage payment = payments[eventId][ticketId];
-        require(payment.payer == originalPayers[eventId][ticketId], "Caller is not the owner of the ticket");
         require(!payment.isCancelled, "This ticket has already been cancelled");
+        require(payment.status == PaymentStatus.Pending, "Payment must be in a Pending status to be refunded");
         require(block.timestamp <= payment.refundDeadline, "Refund request exceeds the allowable refund window");
 
         payment.isCancelled = true;
+        payment.status = PaymentStatus.Refunded;
         uint256 refundAmount = payment.amount;
+        uint256 cancellationFee = 0;
         
         if (block.timestamp > payment.refundDeadline - 7 days) {
-            uint256 cancellationFee = (payment.amount * CANCELLATION_FEE_PERCENT) / 100;
+            cancellationFee = (payment.amount * CANCELLATION_FEE_PERCENT) / 100;
             refundAmount = payment.amount - cancellationFee;
-            payable(owner()).transfer(cancellationFee);
+        }
+
+        _returnTicket(eventId, ticketId, payment);
+
+        if (cancellationFee > 0) {
+            (bool feeSuccess, ) = payable(IEventManager(_eventManager).treasury()).call{value: cancellationFee}("");
+            require(feeSuccess, "Transfer of cancellation fee failed");
         }
 
         (bool success, ) = payable(msg.sender).call{value: refundAmount}("");
@@ -100,6 +133,37 @@ contract RefundEscrow is IRefundEscrow, Ownable, ReentrancyGuard, Pausable {
         emit EventCancelled(eventId);
     }
 
+    function openRescheduleRefunds(uint256 eventId) external override onlyEventManager whenNotPaused {
+        uint256 deadline = block.timestamp + RESCHEDULE_REFUND_WINDOW;
+        rescheduledAt[eventId] = block.timestamp;
+        rescheduleRefundDeadlines[eventId] = deadline;
+        emit RescheduleRefundsOpened(eventId, deadline);
+    }
+
+    // Holders of tickets bought before the event moved can hand them back for the full price,
+    // platform fee included, until the window closes
+    function claimRescheduleRefund(uint256 eventId, uint256 ticketId) external nonReentrant whenNotPaused {
+        require(block.timestamp <= rescheduleRefundDeadlines[eventId], "No reschedule refund window is open");
+        Payment storage payment = payments[eventId][ticketId];
+        require(payment.payer != address(0), "No payment held for this ticket");
+        require(!payment.isCancelled && payment.status == PaymentStatus.Pending, "This ticket has already been refunded");
+        require(
+            payment.refundDeadline - REFUND_WINDOW <= rescheduledAt[eventId],
+            "Ticket was bought after the event was rescheduled"
+        );
+
+        payment.isCancelled = true;
+        payment.status = PaymentStatus.Refunded;
+        uint256 refundAmount = payment.amount;
+        _returnTicket(eventId, ticketId, payment);
+
+        (bool success, ) = payable(msg.sender).call{value: refundAmount}("");
+        require(success, "Transfer of refund amount failed");
+
+        emit RescheduleRefunded(eventId, ticketId, refundAmount);
+    }
+
+    // Cancellation refunds the full ticket price, platform fee included, to the current holder
     function processEventCancellationRefund(uint256 eventId, uint256 ticketId) 
         external 
         nonReentrant 
@@ -107,11 +171,15 @@ contract RefundEscrow is IRefundEscrow, Ownable, ReentrancyGuard, Pausable {
     {
         require(eventCancelled[eventId], "Refunds cannot be processed for an event that has not been cancelled");
         Payment storage payment = payments[eventId][ticketId];
-        require(payment.payer == originalPayers[eventId][ticketId], "Caller is not the owner of the ticket");
-        require(!payment.isCancelled, "This ticket has already been refunded");
+        require(payment.payer != address(0), "No payment held for this ticket");
+        require(!payment.isCancelled && payment.status == PaymentStatus.Pending, "This ticket has already been refunded");
+        require(IEventManager(_eventManager).getTicketHolder(ticketId) == msg.sender, "Caller is not the owner of the ticket");
 
         payment.isCancelled = true;
+        payment.status = PaymentStatus.Refunded;
         uint256 refundAmount = payment.amount;
+        eventBalances[eventId] -= refundAmount;
+        totalHeld -= refundAmount;
         
         (bool success, ) = payable(msg.sender).call{value: refundAmount}("");
         require(success, "Transfer of refund amount failed");
@@ -119,6 +187,75 @@ contract RefundEscrow is IRefundEscrow, Ownable, ReentrancyGuard, Pausable {
         emit EventCancellationRefunded(eventId, ticketId, refundAmount);
     }
 
+    // Pushes cancellation refunds to holders, resuming from the event's cursor.
+    // Stops after maxCount tickets or when gas runs low; failed transfers become pending refunds.
+    function processEventRefundBatch(uint256 eventId, uint256 maxCount) 
+        external 
+        nonReentrant 
+        whenNotPaused 
+        returns (uint256 refunded, uint256 cursor)
+    {
+        require(eventCancelled[eventId], "Refunds cannot be processed for an event that has not been cancelled");
+        require(
+            hasRole(KEEPER_ROLE, msg.sender) ||
+                hasRole(PLATFORM_ADMIN_ROLE, msg.sender) ||
+                msg.sender == IEventManager(_eventManager).getOrganizer(eventId),
+            "Caller is not the organizer or a refund keeper"
+        );
+        require(maxCount > 0 && maxCount <= MAX_REFUND_BATCH_SIZE, "Invalid refund batch size");
+
+        uint256[] storage ticketIds = eventTicketIds[eventId];
+        cursor = refundCursors[eventId];
+        uint256 end = cursor + maxCount;
+        if (end > ticketIds.length) {
+            end = ticketIds.length;
+        }
+
+        while (cursor < end && gasleft() >= MIN_GAS_PER_REFUND) {
+            uint256 ticketId = ticketIds[cursor];
+            Payment storage payment = payments[eventId][ticketId];
+            cursor++;
+
+            // Tickets refunded individually or before the cancellation are skipped
+            if (payment.isCancelled || payment.status != PaymentStatus.Pending) {
+                continue;
+            }
+
+            address recipient = IEventManager(_eventManager).getTicketHolder(ticketId);
+            uint256 refundAmount = payment.amount;
+            payment.isCancelled = true;
+            payment.status = PaymentStatus.Refunded;
+            eventBalances[eventId] -= refundAmount;
+            refunded++;
+
+            (bool success, ) = payable(recipient).call{value: refundAmount, gas: REFUND_TRANSFER_GAS}("");
+            if (success) {
+                totalHeld -= refundAmount;
+            } else {
+                pendingRefunds[recipient] += refundAmount;
+                emit RefundDeferred(eventId, ticketId, recipient, refundAmount);
+            }
+
+            emit EventCancellationRefunded(eventId, ticketId, refundAmount);
+        }
+
+        refundCursors[eventId] = cursor;
+        emit RefundBatchProcessed(eventId, refunded, cursor, ticketIds.length);
+    }
+
+    function withdrawPendingRefund() external nonReentrant {
+        uint256 amount = pendingRefunds[msg.sender];
+        require(amount > 0, "No pending refund");
+
+        pendingRefunds[msg.sender] = 0;
+        totalHeld -= amount;
+
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Transfer of refund amount failed");
+
+        emit PendingRefundWithdrawn(msg.sender, amount);
+    }
+
     function releasePayment(uint256 eventId, uint256 ticketId) 
         external 
         override 
@@ -135,6 +272,30 @@ contract RefundEscrow is IRefundEscrow, Ownable, ReentrancyGuard, Pausable {
         emit PaymentReleased(eventId, payment.payer, payment.amount);
     }
 
+    // Sends everything still held for a concluded event to the EventManager for settlement
+    function releaseEventFunds(uint256 eventId) 
+        external 
+        override 
+        nonReentrant 
+        whenNotPaused 
+        onlyEventManager 
+        returns (uint256)
+    {
+        require(!eventCancelled[eventId], "Cannot release payment for a cancelled event");
+        require(!eventFundsReleased[eventId], "Event funds already released");
+
+        uint256 amount = eventBalances[eventId];
+        eventFundsReleased[eventId] = true;
+        eventBalances[eventId] = 0;
+        totalHeld -= amount;
+
+        (bool success, ) = payable(_eventManager).call{value: amount}("");
+        require(success, "Transfer of event funds failed");
+
+        emit EventFundsReleased(eventId, amount);
+        return amount;
+    }
+
     function refundPayment(uint256 eventId, uint256 ticketId) 
         external 
         override 
@@ -143,11 +304,11 @@ contract RefundEscrow is IRefundEscrow, Ownable, ReentrancyGuard, Pausable {
     {
         Payment storage payment = payments[eventId][ticketId];
         require(payment.status == PaymentStatus.Pending, "Payment must be in a Pending status to be refunded");
-        require(msg.sender == originalPayers[eventId][ticketId], "Caller is not the payer of this ticket");
         require(block.timestamp <= payment.refundDeadline, "Cannot refund payment as the refund window has expired");
         
         uint256 refundAmount = payment.amount;
         payment.status = PaymentStatus.Refunded;
+        _returnTicket(eventId, ticketId, payment);
         
         (bool success, ) = payable(msg.sender).call{value: refundAmount}("");
         require(success, "Transfer of refund amount to payer failed");
@@ -202,7 +363,11 @@ contract RefundEscrow is IRefundEscrow, Ownable, ReentrancyGuard, Pausable {
         override 
         returns (PaymentStatus) 
     {
-        return payments[eventId][ticketId].status;
+        PaymentStatus status = payments[eventId][ticketId].status;
+        if (status == PaymentStatus.Pending && eventFundsReleased[eventId]) {
+            return PaymentStatus.Released;
+        }
+        return status;
     }
 
     function getPaymentAmount(uint256 eventId, uint256 ticketId) 
@@ -222,16 +387,47 @@ contract RefundEscrow is IRefundEscrow, Ownable, ReentrancyGuard, Pausable {
         return originalPayers[eventId][ticketId];
     }
 
-    function pause() external onlyOwner {
+    function getEventBalance(uint256 eventId) external view returns (uint256) {
+        return eventBalances[eventId];
+    }
+
+    function getRefundProgress(uint256 eventId) external view returns (uint256 cursor, uint256 total) {
+        return (refundCursors[eventId], eventTicketIds[eventId].length);
+    }
+
+    function getPendingRefund(address recipient) external view returns (uint256) {
+        return pendingRefunds[recipient];
+    }
+
+    function getRescheduleRefundWindow(uint256 eventId) external view returns (uint256 openedAt, uint256 deadline) {
+        return (rescheduledAt[eventId], rescheduleRefundDeadlines[eventId]);
+    }
+
+    // Voluntary refunds hand the seat back: the EventManager burns the ticket and reopens it
+    function _returnTicket(uint256 eventId, uint256 ticketId, Payment storage payment) private {
+        require(payment.payer != address(0), "No payment held for this ticket");
+        require(!eventCancelled[eventId], "Use the event cancellation refund for a cancelled event");
+        require(!eventFundsReleased[eventId], "Event funds already released");
+        IEventManager eventManager = IEventManager(_eventManager);
+        require(!eventManager.hasEventConcluded(eventId), "Cannot refund a ticket after the event has concluded");
+        require(eventManager.getTicketHolder(ticketId) == msg.sender, "Caller is not the owner of the ticket");
+
+        eventBalances[eventId] -= payment.amount;
+        totalHeld -= payment.amount;
+        eventManager.releaseRefundedTicket(eventId, ticketId);
+    }
+
+    function pause() external onlyRole(PAUSER_ROLE) {
         _pause();
     }
 
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(PAUSER_ROLE) {
         _unpause();
     }
 
-    function withdrawStuckFunds() external onlyOwner {
-        (bool success, ) = payable(owner()).call{value: address(this).balance}("");
+    // Only funds that are not backing a ticket payment can be withdrawn
+    function withdrawStuckFunds() external onlyRole(PLATFORM_ADMIN_ROLE) {
+        (bool success, ) = payable(IEventManager(_eventManager).treasury()).call{value: address(this).balance - totalHeld}("");
         require(success, "Transfer failed");
     }
 }
\ No newline at end of file
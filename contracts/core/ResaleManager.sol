@@ -1,13 +1,20 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
+import "../access/PlatformAccessControl.sol";
+import "../interfaces/IEventManager.sol";
+import "../interfaces/IResaleManager.sol";
 import "../interfaces/ITicketFactory.sol";
+import "../interfaces/IWaitlistManager.sol";
 
-contract ResaleManager is Ownable, ReentrancyGuard, Pausable {
+// The platform's only secondary market. TicketFactory lets it move tickets without a
+// per-ticket approval and tells it when a listed ticket moves or is used.
+contract ResaleManager is IResaleManager, PlatformAccessControl, ReentrancyGuard, Pausable {
     ITicketFactory public ticketFactory;
+    // Gets first refusal on new listings for the ticket's zone
+    IWaitlistManager public waitlistManager;
 
     struct ResaleListing {
         address seller;
@@ -17,31 +24,51 @@ contract ResaleManager is Ownable, ReentrancyGuard, Pausable {
     }
 
     mapping(uint256 => ResaleListing) public resaleListings;
+    // Organizer royalties and payee shares waiting to be withdrawn
+    mapping(address => uint256) public royaltyBalances;
 
-    uint256 public constant PLATFORM_FEE_PERCENTAGE = 5;
     uint256 public constant MAX_RESALE_MARKUP = 110; // 110% of original price
     uint256 public constant RESALE_TIMEOUT = 7 days;
+    uint256 public constant BPS_DENOMINATOR = 10_000;
 
-    event TicketListed(uint256 indexed tokenId, address indexed seller, uint256 price);
-    event TicketUnlisted(uint256 indexed tokenId, address indexed seller);
-    event TicketResold(uint256 indexed tokenId, address indexed seller, address indexed buyer, uint256 price);
     event PlatformFeeCollected(uint256 indexed tokenId, uint256 amount);
+    event RoyaltyAccrued(uint256 indexed tokenId, address indexed recipient, uint256 amount);
+    event RoyaltyWithdrawn(address indexed recipient, uint256 amount);
+    event ListingImported(uint256 indexed tokenId, address indexed previousManager);
+    event WaitlistManagerUpdated(address indexed newWaitlistManager);
 
-    constructor(address ticketFactoryAddress) Ownable(msg.sender) {
+    modifier onlyTicketFactory() {
+        require(msg.sender == address(ticketFactory), "Caller is not the TicketFactory");
+        _;
+    }
+
+    modifier onlyWaitlistManager() {
+        require(msg.sender == address(waitlistManager), "Caller is not the WaitlistManager");
+        _;
+    }
+
+    constructor(address ticketFactoryAddress) {
         require(ticketFactoryAddress != address(0), "Invalid TicketFactory address");
         ticketFactory = ITicketFactory(ticketFactoryAddress);
     }
 
-    function listTicketForResale(uint256 tokenId, uint256 price) external whenNotPaused {
+    function listTicketForResale(uint256 tokenId, uint256 price) external override whenNotPaused {
         require(ticketFactory.ownerOf(tokenId) == msg.sender, "Caller is not the owner of the ticket");
 
-        // Properly destructure the return values
-        (, uint256 originalPrice, bool used, , , , ) = ticketFactory.getTicketDetails(tokenId);
+        (uint256 eventId, uint256 originalPrice, bool used, , , , , uint256 zoneId) =
+            ticketFactory.getTicketDetails(tokenId);
 
         require(!used, "Cannot list a ticket for Resale that has already been used");
         uint256 maxResalePrice = (originalPrice * MAX_RESALE_MARKUP) / 100;
         require(price <= maxResalePrice, "Resale price exceeds the maximum allowed markup of the original price");
+        // A listing that could never be bought would still reserve a waitlist offer
+        IEventManager eventManager = IEventManager(ticketFactory.eventManager());
+        require(!eventManager.getEvent(eventId).cancelled, "Event cancelled");
+        require(!eventManager.hasEventConcluded(eventId), "Event already occurred");
+        require(!eventManager.isTransferLocked(eventId), "Ticket transfers are locked for this event");
 
+        // Relisting starts over, so any offer on the previous listing is withdrawn first
+        _withdrawWaitlistOffer(tokenId);
         resaleListings[tokenId] = ResaleListing({
             seller: msg.sender,
             price: price,
@@ -50,48 +77,147 @@ contract ResaleManager is Ownable, ReentrancyGuard, Pausable {
         });
 
         emit TicketListed(tokenId, msg.sender, price);
+        if (address(waitlistManager) != address(0)) {
+            waitlistManager.offerListing(eventId, zoneId, tokenId);
+        }
     }
 
-    function cancelResaleListing(uint256 tokenId) external {
+    function cancelResaleListing(uint256 tokenId) external override {
         ResaleListing storage listing = resaleListings[tokenId];
         require(listing.seller == msg.sender, "Caller is not the seller of this ticket");
         require(listing.isActive, "Cannot cancel a resale listing that is not active");
 
         listing.isActive = false;
+        _withdrawWaitlistOffer(tokenId);
         emit TicketUnlisted(tokenId, msg.sender);
     }
 
-    function purchaseResaleTicket(uint256 tokenId) external payable nonReentrant whenNotPaused {
+    function purchaseResaleTicket(uint256 tokenId) external payable override nonReentrant whenNotPaused {
+        require(
+            address(waitlistManager) == address(0) || !waitlistManager.isListingReserved(tokenId),
+            "Listing is reserved for a waitlist offer"
+        );
+        _purchase(tokenId, msg.sender);
+    }
+
+    function purchaseReservedListing(uint256 tokenId, address buyer)
+        external
+        payable
+        override
+        nonReentrant
+        whenNotPaused
+        onlyWaitlistManager
+    {
+        _purchase(tokenId, buyer);
+    }
+
+    // Any overpayment goes back to msg.sender, which is the WaitlistManager for reserved listings
+    function _purchase(uint256 tokenId, address buyer) private {
         ResaleListing storage listing = resaleListings[tokenId];
         require(listing.isActive, "This ticket is not listed for resale");
         require(block.timestamp <= listing.listingTime + RESALE_TIMEOUT, "This resale listing has expired");
         require(msg.value >= listing.price, "Payment amount is less than the listed ticket price");
+        require(!_isStale(tokenId, listing), "This resale listing is stale");
 
         address seller = listing.seller;
-        uint256 platformFee = (listing.price * PLATFORM_FEE_PERCENTAGE) / 100;
-        uint256 sellerPayment = listing.price - platformFee;
+        uint256 price = listing.price;
+        (uint256 eventId, , , , , , , ) = ticketFactory.getTicketDetails(tokenId);
+        IEventManager eventManager = IEventManager(ticketFactory.eventManager());
+        IEventManager.ResaleFees memory fees = eventManager.getResaleFees(eventId);
 
-        // Refund excess payment
-        if (msg.value > listing.price) {
-            (bool refundSuccess, ) = payable(msg.sender).call{value: msg.value - listing.price}("");
-            require(refundSuccess, "Refund of excess payment to buyer failed");
+        // Every share is taken from the listing price only; any overpayment goes back to the buyer
+        uint256 platformFee = (price * fees.platformFeeBps) / BPS_DENOMINATOR;
+        uint256 organizerRoyalty = (price * fees.organizerRoyaltyBps) / BPS_DENOMINATOR;
+        uint256 payeeShare = (price * fees.payeeBps) / BPS_DENOMINATOR;
+        uint256 sellerPayment = price - platformFee - organizerRoyalty - payeeShare;
+
+        listing.isActive = false;
+        _withdrawWaitlistOffer(tokenId);
+        ticketFactory.transferFrom(seller, buyer, tokenId);
+
+        // Royalties are credited rather than pushed so a rejecting recipient cannot block sales
+        if (organizerRoyalty > 0) {
+            _accrueRoyalty(tokenId, eventManager.getOrganizer(eventId), organizerRoyalty);
+        }
+        if (payeeShare > 0) {
+            _accrueRoyalty(tokenId, fees.payee, payeeShare);
         }
 
-        // Transfer funds
         (bool sellerSuccess, ) = payable(seller).call{value: sellerPayment}("");
         require(sellerSuccess, "Transfer of funds to the ticket seller failed");
 
-        (bool platformFeeSuccess, ) = payable(owner()).call{value: platformFee}("");
-        require(platformFeeSuccess, "Transfer of platform fee failed");
+        if (platformFee > 0) {
+            (bool platformFeeSuccess, ) = payable(eventManager.treasury()).call{value: platformFee}("");
+            require(platformFeeSuccess, "Transfer of platform fee failed");
+        }
 
-        // Transfer ticket ownership
-        ticketFactory.transferFrom(seller, msg.sender, tokenId);
+        if (msg.value > price) {
+            (bool refundSuccess, ) = payable(msg.sender).call{value: msg.value - price}("");
+            require(refundSuccess, "Refund of excess payment to buyer failed");
+        }
+
+        emit TicketResold(tokenId, seller, buyer, price);
+        emit PlatformFeeCollected(tokenId, platformFee);
+    }
+
+    function withdrawRoyalties() external nonReentrant {
+        uint256 amount = royaltyBalances[msg.sender];
+        require(amount > 0, "No royalties to withdraw");
+
+        royaltyBalances[msg.sender] = 0;
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        require(success, "Royalty withdrawal failed");
+
+        emit RoyaltyWithdrawn(msg.sender, amount);
+    }
+
+    function clearListing(uint256 tokenId) external override onlyTicketFactory {
+        ResaleListing storage listing = resaleListings[tokenId];
+        if (listing.isActive) {
+            listing.isActive = false;
+            _withdrawWaitlistOffer(tokenId);
+            emit TicketUnlisted(tokenId, listing.seller);
+        }
+    }
+
+    // Anyone may close a listing that can no longer be filled: expired, used, or no longer
+    // held by the seller (e.g. listings created before TicketFactory reported transfers)
+    function delistStaleListing(uint256 tokenId) external {
+        ResaleListing storage listing = resaleListings[tokenId];
+        require(listing.isActive, "This ticket is not listed for resale");
+        require(
+            block.timestamp > listing.listingTime + RESALE_TIMEOUT || _isStale(tokenId, listing),
+            "Resale listing is still valid"
+        );
 
-        // Mark listing as inactive
         listing.isActive = false;
+        _withdrawWaitlistOffer(tokenId);
+        emit TicketUnlisted(tokenId, listing.seller);
+    }
 
-        emit TicketResold(tokenId, seller, msg.sender, listing.price);
-        emit PlatformFeeCollected(tokenId, platformFee);
+    // Copies still-valid listings from a ResaleManager this one replaces, keeping their
+    // seller, price and listing time. Listings that are inactive, expired or stale are skipped.
+    function importListings(address previousManager, uint256[] calldata tokenIds)
+        external
+        onlyRole(PLATFORM_ADMIN_ROLE)
+        returns (uint256 imported)
+    {
+        require(previousManager != address(0) && previousManager != address(this), "Invalid previous ResaleManager");
+
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            uint256 tokenId = tokenIds[i];
+            if (resaleListings[tokenId].isActive) continue;
+
+            (address seller, uint256 price, uint256 listingTime, bool isActive) =
+                ResaleManager(payable(previousManager)).getResaleListing(tokenId);
+            ResaleListing memory listing = ResaleListing(seller, price, listingTime, isActive);
+            if (!isActive || block.timestamp > listingTime + RESALE_TIMEOUT || _isStale(tokenId, listing)) continue;
+
+            resaleListings[tokenId] = listing;
+            imported++;
+            emit TicketListed(tokenId, seller, price);
+            emit ListingImported(tokenId, previousManager);
+        }
     }
 
     function getResaleListing(uint256 tokenId)
@@ -108,24 +234,57 @@ contract ResaleManager is Ownable, ReentrancyGuard, Pausable {
         return (listing.seller, listing.price, listing.listingTime, listing.isActive);
     }
 
+    function getActiveListing(uint256 tokenId) external view override returns (bool listed, uint256 price) {
+        listed = isListingValid(tokenId);
+        price = listed ? resaleListings[tokenId].price : 0;
+    }
+
     function isListingValid(uint256 tokenId) public view returns (bool) {
         ResaleListing memory listing = resaleListings[tokenId];
         return listing.isActive && block.timestamp <= listing.listingTime + RESALE_TIMEOUT;
     }
 
-    function setTicketFactory(address newTicketFactory) external onlyOwner {
+    function setWaitlistManager(address newWaitlistManager) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(newWaitlistManager != address(0), "Invalid Waitlist manager address");
+        waitlistManager = IWaitlistManager(newWaitlistManager);
+        emit WaitlistManagerUpdated(newWaitlistManager);
+    }
+
+    function setTicketFactory(address newTicketFactory) external onlyRole(PLATFORM_ADMIN_ROLE) {
         require(newTicketFactory != address(0), "Invalid TicketFactory address");
         ticketFactory = ITicketFactory(newTicketFactory);
     }
 
-    function pause() external onlyOwner {
+    function pause() external onlyRole(PAUSER_ROLE) {
         _pause();
     }
 
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(PAUSER_ROLE) {
         _unpause();
     }
 
+    function _accrueRoyalty(uint256 tokenId, address recipient, uint256 amount) private {
+        royaltyBalances[recipient] += amount;
+        emit RoyaltyAccrued(tokenId, recipient, amount);
+    }
+
+    function _withdrawWaitlistOffer(uint256 tokenId) private {
+        if (address(waitlistManager) != address(0)) {
+            waitlistManager.withdrawListingOffer(tokenId);
+        }
+    }
+
+    // A listing is stale once its ticket is burned, used or held by someone other than the seller
+    function _isStale(uint256 tokenId, ResaleListing memory listing) private view returns (bool) {
+        try ticketFactory.ownerOf(tokenId) returns (address holder) {
+            if (holder != listing.seller) return true;
+        } catch {
+            return true;
+        }
+        (, , bool used, , , , , ) = ticketFactory.getTicketDetails(tokenId);
+        return used;
+    }
+
     receive() external payable {
         revert("Direct payments are not accepted");
     }
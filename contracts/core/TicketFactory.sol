@@ -2,27 +2,28 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-
-interface IWaitlistManager {
-    function getNextWaitingUser(uint256 eventId, uint256 zoneId) external view returns (address);
-    function isUserWaiting(uint256 eventId, uint256 zoneId, address user) external view returns (bool);
-    function getWaitlistLength(uint256 eventId, uint256 zoneId) external view returns (uint256);
-}
-
-contract TicketFactory is ERC721, Ownable, ReentrancyGuard {
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/interfaces/IERC2981.sol";
+import "../access/PlatformAccessControl.sol";
+import "../interfaces/IEventManager.sol";
+import "../interfaces/IResaleManager.sol";
+import "../interfaces/IWaitlistManager.sol";
+
+contract TicketFactory is ERC721, IERC2981, PlatformAccessControl, ReentrancyGuard, EIP712 {
     uint256 private _tokenIds;
     IWaitlistManager public waitlistManager;
-    uint256 public constant PLATFORM_FEE_PERCENTAGE = 5;
-    uint256 public constant MAX_RESALE_MARKUP = 110; // 110% of original price
-
-    struct Event {
-        uint256 maxSupply;
-        uint256 currentSupply;
-        uint256 price;
-        bool isActive;
-    }
+    // EventManager owns events, zones, supply and pricing; it is the only minter
+    address public eventManager;
+    // The only marketplace; it moves tickets without per-token approval and is told when a ticket moves or is used
+    IResaleManager public resaleManager;
+    uint256 public constant MAX_CHECK_IN_LIFETIME = 5 minutes;
+    // Doors open this long before the event date and close this long after it
+    uint256 public constant CHECK_IN_OPENS_BEFORE = 6 hours;
+    uint256 public constant CHECK_IN_CLOSES_AFTER = 12 hours;
+    bytes32 public constant CHECK_IN_TYPEHASH =
+        keccak256("CheckIn(uint256 tokenId,uint256 gateNonce,uint256 deadline)");
 
     struct Ticket {
         uint256 eventId;
@@ -30,179 +31,107 @@ contract TicketFactory is ERC721, Ownable, ReentrancyGuard {
         bool used;
         uint256 seatNumber;
         bool isWaitlisted;
-        bool isResale;
-        uint256 resalePrice;
+        uint256 zoneId;
     }
 
-    mapping(uint256 => Event) public events;
     mapping(uint256 => Ticket) public tickets;
-    
-    event EventCreated(uint256 indexed eventId, uint256 maxSupply, uint256 price);
-    event TicketMinted(uint256 indexed tokenId, uint256 indexed eventId, uint256 price);
+    // Other contracts a platform admin allowed to move tickets between holders; none by default
+    mapping(address => bool) public transferAgents;
+    // token ID => gate nonce => consumed (each challenge can be redeemed once)
+    mapping(uint256 => mapping(uint256 => bool)) public usedGateNonces;
+
+    event TicketMinted(uint256 indexed tokenId, uint256 indexed eventId, uint256 zoneId, uint256 price);
     event TicketUsed(uint256 indexed tokenId);
+    event TicketBurned(uint256 indexed tokenId);
     event WaitlistTicketIssued(uint256 indexed tokenId, uint256 indexed eventId, address indexed user);
-    event TicketListedForResale(uint256 indexed tokenId, uint256 price);
-    event TicketPurchased(uint256 indexed tokenId, address indexed buyer, uint256 price);
-    event TicketResold(uint256 indexed tokenId, address indexed buyer, uint256 price);
+    event EventManagerUpdated(address indexed newEventManager);
+    event ResaleManagerUpdated(address indexed newResaleManager);
+    event TicketCheckedIn(uint256 indexed tokenId, address indexed scanner, uint256 gateNonce);
+    event TransferAgentUpdated(address indexed agent, bool approved);
+    event TicketMoved(uint256 indexed tokenId, address indexed from, address indexed to);
+
+    modifier onlyEventManager() {
+        require(msg.sender == eventManager, "Caller is not the EventManager");
+        _;
+    }
 
-    constructor(address waitlistManagerAddress) ERC721("Event Ticket", "TCKT") Ownable(msg.sender) {
+    constructor(address waitlistManagerAddress) ERC721("Event Ticket", "TCKT") EIP712("Event Ticket", "1") {
         require(waitlistManagerAddress != address(0), "Invalid Waitlist manager address");
         waitlistManager = IWaitlistManager(waitlistManagerAddress);
     }
 
-    function setWaitlistManager(address newWaitlistManager) external onlyOwner {
+    function setWaitlistManager(address newWaitlistManager) external onlyRole(PLATFORM_ADMIN_ROLE) {
         require(newWaitlistManager != address(0), "Invalid Waitlist manager address");
         waitlistManager = IWaitlistManager(newWaitlistManager);
     }
 
-    function createEvent(
-        uint256 eventId,
-        uint256 maxSupply,
-        uint256 price
-    ) external onlyOwner {
-        require(!events[eventId].isActive, "An active event with this ID already exists");
-        require(maxSupply > 0, "Ticket supply must be greater than zero");
-        require(price > 0, "Event ticket price must be greater than zero");
-
-        events[eventId] = Event({
-            maxSupply: maxSupply,
-            currentSupply: 0,
-            price: price,
-            isActive: true
-        });
+    function setEventManager(address newEventManager) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(newEventManager != address(0), "Invalid EventManager address");
+        eventManager = newEventManager;
+        emit EventManagerUpdated(newEventManager);
+    }
+
+    function setResaleManager(address newResaleManager) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(newResaleManager != address(0), "Invalid ResaleManager address");
+        resaleManager = IResaleManager(newResaleManager);
+        emit ResaleManagerUpdated(newResaleManager);
+    }
 
-        emit EventCreated(eventId, maxSupply, price);
+    function setTransferAgent(address agent, bool approved) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(agent != address(0), "Invalid transfer agent address");
+        transferAgents[agent] = approved;
+        emit TransferAgentUpdated(agent, approved);
     }
 
-    function issueTicket(
+    function mintTicket(
         address to,
         uint256 eventId,
-        uint256 seatNumber
-    ) external onlyOwner returns (uint256) {
-        Event storage event_ = events[eventId];
-        require(event_.isActive, "Tickets cannot be issued for an inactive event");
-        require(event_.currentSupply < event_.maxSupply, "Cannot issue tickets as the event is sold out");
-
-        // Check waitlist priority
-        address nextInWaitlist = waitlistManager.getNextWaitingUser(eventId, 0);
+        uint256 zoneId,
+        uint256 seatNumber,
+        uint256 price
+    ) external onlyEventManager returns (uint256) {
+        // Check waitlist priority; a user accepting a waitlist offer has already been served in order
+        address nextInWaitlist = waitlistManager.getNextWaitingUser(eventId, zoneId);
         require(
-            nextInWaitlist == address(0) || nextInWaitlist == to,
-            "Must issue to waitlist"
+            nextInWaitlist == address(0) ||
+                nextInWaitlist == to ||
+                waitlistManager.hasActiveOffer(eventId, zoneId, to),
+            "Must respect waitlist priority"
         );
 
         _tokenIds++;
         uint256 newTokenId = _tokenIds;
 
         _mint(to, newTokenId);
-        bool isWaitlisted = waitlistManager.isUserWaiting(eventId, 0, to);
+        bool isWaitlisted = waitlistManager.isUserWaiting(eventId, zoneId, to);
         tickets[newTokenId] = Ticket({
             eventId: eventId,
-            price: event_.price,
+            price: price,
             used: false,
             seatNumber: seatNumber,
             isWaitlisted: isWaitlisted,
-            isResale: false,
-            resalePrice: 0
+            zoneId: zoneId
         });
 
-        event_.currentSupply++;
-
         if (isWaitlisted) {
             emit WaitlistTicketIssued(newTokenId, eventId, to);
         }
 
-        emit TicketMinted(newTokenId, eventId, event_.price);
-        return newTokenId;
-    }
-
-    function purchaseTicket(uint256 eventId, uint256 seatNumber) 
-        external 
-        payable 
-        nonReentrant 
-        returns (uint256) 
-    {
-        Event storage event_ = events[eventId];
-        require(event_.isActive, "Tickets cannot be purchased for an inactive event");
-        require(event_.currentSupply < event_.maxSupply, "Tickets for this event are sold out");
-        require(msg.value >= event_.price, "Payment must be at least the ticket price");
-
-        // Check if there are users in waitlist
-        address nextInWaitlist = waitlistManager.getNextWaitingUser(eventId, 0);
-        require(nextInWaitlist == address(0) || nextInWaitlist == msg.sender, "Must respect waitlist priority");
-
-        uint256 platformFee = (event_.price * PLATFORM_FEE_PERCENTAGE) / 100;
-        uint256 refundAmount = msg.value - event_.price;
-
-        (bool platformSuccess, ) = payable(owner()).call{value: platformFee}("");
-        require(platformSuccess, "Transfer of platform fee to the contract owner failed");
-
-        if (refundAmount > 0) {
-            (bool refundSuccess, ) = payable(msg.sender).call{value: refundAmount}("");
-            require(refundSuccess, "Refund of excess payment to buyer failed");
-        }
-
-        _tokenIds++;
-        uint256 newTokenId = _tokenIds;
-
-        _mint(msg.sender, newTokenId);
-        bool isWaitlisted = waitlistManager.isUserWaiting(eventId, 0, msg.sender);
-        tickets[newTokenId] = Ticket({
-            eventId: eventId,
-            price: event_.price,
-            used: false,
-            seatNumber: seatNumber,
-            isWaitlisted: isWaitlisted,
-            isResale: false,
-            resalePrice: 0
-        });
-
-        event_.currentSupply++;
-        
-        if (isWaitlisted) {
-            emit WaitlistTicketIssued(newTokenId, eventId, msg.sender);
-        }
-        
-        emit TicketPurchased(newTokenId, msg.sender, event_.price);
-        emit TicketMinted(newTokenId, eventId, event_.price);
+        emit TicketMinted(newTokenId, eventId, zoneId, price);
         return newTokenId;
     }
 
-    // Rest of the functions remain unchanged...
-    function listForResale(uint256 tokenId, uint256 resalePrice) external {
-        require(ownerOf(tokenId) == msg.sender, "Not owner");
-        require(!tickets[tokenId].used, "Ticket used");
-        uint256 maxAllowedPrice = (tickets[tokenId].price * MAX_RESALE_MARKUP) / 100;
-        require(resalePrice <= maxAllowedPrice, "Price too high");
-
-        tickets[tokenId].isResale = true;
-        tickets[tokenId].resalePrice = resalePrice;
-        emit TicketListedForResale(tokenId, resalePrice);
+    function burnTicket(uint256 tokenId) external onlyEventManager {
+        _burn(tokenId);
+        delete tickets[tokenId];
+        emit TicketBurned(tokenId);
     }
 
-    function purchaseResaleTicket(uint256 tokenId) 
-        external 
-        payable 
-        nonReentrant 
-    {
-        Ticket storage ticket = tickets[tokenId];
-        require(ticket.isResale, "Ticket not listed for resale");
-        require(!ticket.used, "Cannot purchase a used ticket");
-        require(msg.value >= ticket.resalePrice, "Payment must be at least the resale price");
-
-        address seller = ownerOf(tokenId);
-        uint256 platformFee = (msg.value * PLATFORM_FEE_PERCENTAGE) / 100;
-        uint256 sellerPayment = msg.value - platformFee;
-
-        (bool platformSuccess, ) = payable(owner()).call{value: platformFee}("");
-        require(platformSuccess, "Transfer of platform fee to the contract owner failed");
-
-        (bool sellerSuccess, ) = payable(seller).call{value: sellerPayment}("");
-        require(sellerSuccess, "Transfer of payment to the ticket seller failed");
-
-        _transfer(seller, msg.sender, tokenId);
-        ticket.isResale = false;
-        
-        emit TicketResold(tokenId, msg.sender, ticket.resalePrice);
+    // Organizer-issued move (e.g. a name change at the box office); EventManager checks the caller
+    function moveTicket(uint256 tokenId, address to) external onlyEventManager {
+        address from = ownerOf(tokenId);
+        _transfer(from, to, tokenId);
+        emit TicketMoved(tokenId, from, to);
     }
 
     function getTicketDetails(uint256 tokenId) 
@@ -215,23 +144,90 @@ contract TicketFactory is ERC721, Ownable, ReentrancyGuard {
             uint256 seatNumber,
             bool isWaitlisted,
             bool isResale,
-            uint256 resalePrice
+            uint256 resalePrice,
+            uint256 zoneId
         ) 
     {
         Ticket memory ticket = tickets[tokenId];
+        if (address(resaleManager) != address(0)) {
+            (isResale, resalePrice) = resaleManager.getActiveListing(tokenId);
+        }
         return (
             ticket.eventId,
             ticket.price,
             ticket.used,
             ticket.seatNumber,
             ticket.isWaitlisted,
-            ticket.isResale,
-            ticket.resalePrice
+            isResale,
+            resalePrice,
+            ticket.zoneId
         );
     }
 
-    function getWaitlistCount(uint256 eventId) public view returns (uint256) {
-        return waitlistManager.getWaitlistLength(eventId, 0);
+    // Holder-initiated transfers (transferFrom / safeTransferFrom) only go through the
+    // ResaleManager or approved agents and stop once the event's transfer lock starts. Mints,
+    // burns and organizer moves call _update without an auth address.
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        if (auth != address(0) && to != address(0)) {
+            require(
+                msg.sender == address(resaleManager) || transferAgents[msg.sender],
+                "Ticket transfers must use an approved route"
+            );
+            require(!_isTransferLocked(tickets[tokenId].eventId), "Ticket transfers are locked for this event");
+        }
+        address from = super._update(to, tokenId, auth);
+        // Any move or burn invalidates the previous holder's listing
+        if (from != address(0)) {
+            _clearResaleListing(tokenId);
+        }
+        return from;
+    }
+
+    function _isAuthorized(address owner, address spender, uint256 tokenId) internal view override returns (bool) {
+        return
+            (spender != address(0) && spender == address(resaleManager)) ||
+            super._isAuthorized(owner, spender, tokenId);
+    }
+
+    function _clearResaleListing(uint256 tokenId) private {
+        if (address(resaleManager) != address(0)) {
+            resaleManager.clearListing(tokenId);
+        }
+    }
+
+    function _isTransferLocked(uint256 eventId) private view returns (bool) {
+        return IEventManager(eventManager).isTransferLocked(eventId);
+    }
+
+    // EIP-2981 allows a single receiver, so the organizer is reported for the event's whole
+    // royalty (organizer share plus any artist or charity payee). The platform fee is not a royalty.
+    function royaltyInfo(uint256 tokenId, uint256 salePrice)
+        external
+        view
+        override
+        returns (address receiver, uint256 royaltyAmount)
+    {
+        uint256 eventId = tickets[tokenId].eventId;
+        if (eventId == 0 || eventManager == address(0)) {
+            return (address(0), 0);
+        }
+        IEventManager.ResaleFees memory fees = IEventManager(eventManager).getResaleFees(eventId);
+        receiver = IEventManager(eventManager).getOrganizer(eventId);
+        royaltyAmount = (salePrice * (fees.organizerRoyaltyBps + fees.payeeBps)) / 10_000;
+    }
+
+    function supportsInterface(bytes4 interfaceId)
+        public
+        view
+        override(ERC721, AccessControl, IERC165)
+        returns (bool)
+    {
+        return interfaceId == type(IERC2981).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    // Waitlists are kept per zone; a queue in one zone never holds up sales in another
+    function getWaitlistCount(uint256 eventId, uint256 zoneId) public view returns (uint256) {
+        return waitlistManager.getWaitlistLength(eventId, zoneId);
     }
 
     function useTicket(uint256 tokenId) public {
@@ -239,6 +235,39 @@ contract TicketFactory is ERC721, Ownable, ReentrancyGuard {
         require(!tickets[tokenId].used, "This ticket has already been used");
         
         tickets[tokenId].used = true;
+        _clearResaleListing(tokenId);
+        emit TicketUsed(tokenId);
+    }
+
+    // Lets door staff redeem a ticket with the holder's EIP-712 signed check-in challenge
+    function checkInTicket(
+        uint256 tokenId,
+        uint256 gateNonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(hasRole(GATE_SCANNER_ROLE, msg.sender), "Caller is not an authorized gate scanner");
+        require(block.timestamp <= deadline, "Check-in challenge has expired");
+        require(deadline <= block.timestamp + MAX_CHECK_IN_LIFETIME, "Check-in challenge lifetime too long");
+        require(!usedGateNonces[tokenId][gateNonce], "Check-in challenge already used");
+        require(!tickets[tokenId].used, "This ticket has already been used");
+
+        IEventManager.EventView memory ticketEvent = IEventManager(eventManager).getEvent(tickets[tokenId].eventId);
+        require(!ticketEvent.cancelled, "Event cancelled");
+        require(
+            block.timestamp + CHECK_IN_OPENS_BEFORE >= ticketEvent.date &&
+                block.timestamp <= ticketEvent.date + CHECK_IN_CLOSES_AFTER,
+            "Event is not admitting guests"
+        );
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(CHECK_IN_TYPEHASH, tokenId, gateNonce, deadline)));
+        require(ECDSA.recover(digest, signature) == ownerOf(tokenId), "Signature is not from the ticket holder");
+
+        usedGateNonces[tokenId][gateNonce] = true;
+        tickets[tokenId].used = true;
+        _clearResaleListing(tokenId);
+
+        emit TicketCheckedIn(tokenId, msg.sender, gateNonce);
         emit TicketUsed(tokenId);
     }
-}
\ No newline at end of file
+}
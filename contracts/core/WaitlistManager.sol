@@ -1,141 +1,316 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
+import "../access/PlatformAccessControl.sol";
+import "../interfaces/IEventManager.sol";
+import "../interfaces/IResaleManager.sol";
+import "../interfaces/IConditionalFundsEscrow.sol";
 
-contract WaitlistManager is Ownable, ReentrancyGuard, Pausable {
+contract WaitlistManager is PlatformAccessControl, ReentrancyGuard, Pausable {
     struct WaitlistEntry {
-        address user;
         uint256 timestamp;
-        bool isActive;
+        // Join order within the zone, used to put users back in line when an offer is withdrawn
+        uint256 sequence;
+        bool isWaiting;
         bool hasOffer;
         uint256 offerExpiry;
+        // Resale listing on offer, or 0 when the offer is a refunded seat
+        uint256 offeredTicketId;
+        uint256 offeredSeat;
+    }
+
+    struct DepositTerms {
+        uint256 amount;
+        // Share of the deposit forfeited to the organizer when an offer lapses
+        uint256 forfeitBps;
+    }
+
+    struct ListingOffer {
+        uint256 eventId;
+        uint256 zoneId;
+        address user;
     }
 
+    // Users waiting without an offer form a doubly linked queue in join order, so joins, leaves and
+    // lookups of the head are O(1) however many users have come and gone. Users holding an offer
+    // are taken off the queue and tracked in offerHolders until they buy, leave or lose the offer.
     struct ZoneWaitlist {
-        WaitlistEntry[] entries;
-        mapping(address => uint256) userIndex;
-        mapping(address => bool) isWaiting;
+        address head;
+        address tail;
+        uint256 length;
+        uint256 joinCount;
+        mapping(address => address) next;
+        mapping(address => address) prev;
+        mapping(address => WaitlistEntry) entries;
+        address[] offerHolders;
+        // offerHolders index + 1, or 0 when the user holds no offer
+        mapping(address => uint256) offerIndex;
     }
 
     mapping(uint256 => mapping(uint256 => ZoneWaitlist)) private waitlists;
+    // tokenId => waitlisted user the resale listing is reserved for
+    mapping(uint256 => ListingOffer) private listingOffers;
+
+    // Hands refunded seats to the waitlist and mints them on acceptance
+    IEventManager public eventManager;
+    // Reserves new listings for the waitlist and sells them on acceptance
+    IResaleManager public resaleManager;
+    // Holds the deposits of events that charge one to join their waitlists
+    IConditionalFundsEscrow public fundsEscrow;
+    // eventId => deposit required to join a waitlist of the event; free to join when unset
+    mapping(uint256 => DepositTerms) private depositTerms;
     
     uint256 public constant OFFER_DURATION = 24 hours;
     
     event JoinedWaitlist(uint256 indexed eventId, uint256 indexed zoneId, address user);
     event LeftWaitlist(uint256 indexed eventId, uint256 indexed zoneId, address user);
-    event WaitlistPurchaseOffered(uint256 indexed eventId, uint256 indexed zoneId, address user);
+    event WaitlistPurchaseOffered(
+        uint256 indexed eventId,
+        uint256 indexed zoneId,
+        address user,
+        uint256 ticketId,
+        uint256 seatNumber,
+        uint256 expiresAt
+    );
     event WaitlistPurchaseCompleted(uint256 indexed eventId, uint256 indexed zoneId, address user);
     event WaitlistOfferExpired(uint256 indexed eventId, uint256 indexed zoneId, address user);
+    event WaitlistOfferWithdrawn(uint256 indexed eventId, uint256 indexed zoneId, address user);
+    event EventManagerUpdated(address indexed newEventManager);
+    event ResaleManagerUpdated(address indexed newResaleManager);
+    event FundsEscrowUpdated(address indexed newFundsEscrow);
+    event WaitlistDepositSet(uint256 indexed eventId, uint256 amount, uint256 forfeitBps);
 
-    constructor() Ownable(msg.sender) {}
+    modifier onlyEventManager() {
+        require(msg.sender == address(eventManager), "Caller is not the EventManager");
+        _;
+    }
+
+    modifier onlyResaleManager() {
+        require(msg.sender == address(resaleManager), "Caller is not the ResaleManager");
+        _;
+    }
+
+    function setEventManager(address newEventManager) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(newEventManager != address(0), "Invalid EventManager address");
+        eventManager = IEventManager(newEventManager);
+        emit EventManagerUpdated(newEventManager);
+    }
+
+    function setResaleManager(address newResaleManager) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(newResaleManager != address(0), "Invalid ResaleManager address");
+        resaleManager = IResaleManager(newResaleManager);
+        emit ResaleManagerUpdated(newResaleManager);
+    }
+
+    function setFundsEscrow(address newFundsEscrow) external onlyRole(PLATFORM_ADMIN_ROLE) {
+        require(newFundsEscrow != address(0), "Invalid ConditionalFundsEscrow address");
+        fundsEscrow = IConditionalFundsEscrow(newFundsEscrow);
+        emit FundsEscrowUpdated(newFundsEscrow);
+    }
+
+    // New terms apply to users joining from now on; everyone already waiting keeps the deposit
+    // and forfeit share they joined with
+    function setWaitlistDeposit(uint256 eventId, uint256 amount, uint256 forfeitBps) external {
+        require(msg.sender == eventManager.getOrganizer(eventId), "Caller is not the event organizer");
+        require(forfeitBps <= 10_000, "Forfeit exceeds the deposit");
+        require(amount == 0 || address(fundsEscrow) != address(0), "Waitlist deposits need a ConditionalFundsEscrow");
+
+        depositTerms[eventId] = DepositTerms(amount, forfeitBps);
+        emit WaitlistDepositSet(eventId, amount, forfeitBps);
+    }
 
     function joinWaitlist(uint256 eventId, uint256 zoneId) 
         external 
+        payable
         nonReentrant 
         whenNotPaused 
     {
         ZoneWaitlist storage waitlist = waitlists[eventId][zoneId];
-        require(!waitlist.isWaiting[msg.sender], "Caller is already in the waitlist for this event and zone");
+        require(!waitlist.entries[msg.sender].isWaiting, "Caller is already in the waitlist for this event and zone");
+        DepositTerms memory terms = depositTerms[eventId];
+        require(msg.value == terms.amount, "Incorrect waitlist deposit");
         
-        waitlist.entries.push(WaitlistEntry({
-            user: msg.sender,
+        waitlist.joinCount++;
+        waitlist.entries[msg.sender] = WaitlistEntry({
             timestamp: block.timestamp,
-            isActive: true,
+            sequence: waitlist.joinCount,
+            isWaiting: true,
             hasOffer: false,
-            offerExpiry: 0
-        }));
-        
-        waitlist.userIndex[msg.sender] = waitlist.entries.length - 1;
-        waitlist.isWaiting[msg.sender] = true;
+            offerExpiry: 0,
+            offeredTicketId: 0,
+            offeredSeat: 0
+        });
+        _insertAfter(waitlist, waitlist.tail, msg.sender);
+        if (terms.amount > 0) {
+            fundsEscrow.holdWaitlistDeposit{value: msg.value}(eventId, zoneId, msg.sender, terms.forfeitBps);
+        }
         
         emit JoinedWaitlist(eventId, zoneId, msg.sender);
     }
 
+    // Leaving while holding an offer passes the seat or listing to the next user in line
     function leaveWaitlist(uint256 eventId, uint256 zoneId) 
         external 
+        nonReentrant
         whenNotPaused 
     {
         ZoneWaitlist storage waitlist = waitlists[eventId][zoneId];
-        require(waitlist.isWaiting[msg.sender], "Caller is not in the waitlist for this event and zone");
-        
-        uint256 index = waitlist.userIndex[msg.sender];
-        waitlist.entries[index].isActive = false;
-        waitlist.isWaiting[msg.sender] = false;
+        require(waitlist.entries[msg.sender].isWaiting, "Caller is not in the waitlist for this event and zone");
         
+        _removeEntry(eventId, zoneId, msg.sender);
+        _refundDeposit(eventId, zoneId, msg.sender);
         emit LeftWaitlist(eventId, zoneId, msg.sender);
     }
 
-    function offerTicketToWaitlisted(uint256 eventId, uint256 zoneId, address user)
+    // Once the event is over or cancelled anyone can take a user off the waitlist and return
+    // their deposit in full. A user whose offer lapsed forfeits as if expireOffer had run.
+    function refundUnservedDeposit(uint256 eventId, uint256 zoneId, address user)
         external
-        whenNotPaused
+        nonReentrant
     {
-        ZoneWaitlist storage waitlist = waitlists[eventId][zoneId];
-        require(waitlist.isWaiting[user], "User is not in the waitlist for this event and zone");
-        
-        uint256 index = waitlist.userIndex[user];
-        WaitlistEntry storage entry = waitlist.entries[index];
-        require(!entry.hasOffer, "User already has an active ticket offer for this event and zone");
-        
-        entry.hasOffer = true;
-        entry.offerExpiry = block.timestamp + OFFER_DURATION;
-        
-        emit WaitlistPurchaseOffered(eventId, zoneId, user);
+        WaitlistEntry storage entry = waitlists[eventId][zoneId].entries[user];
+        require(entry.isWaiting, "User is not in the waitlist for this event and zone");
+        require(_isEventOver(eventId), "Event has not concluded or been cancelled");
+
+        _dismissEntry(eventId, zoneId, user);
     }
 
+    // Called by EventManager when a refunded seat would reopen. Returns false when nobody is
+    // waiting, in which case the seat goes back on general sale.
+    function offerReleasedSeat(uint256 eventId, uint256 zoneId, uint256 seatNumber)
+        external
+        onlyEventManager
+        returns (bool)
+    {
+        return _offerToNext(eventId, zoneId, 0, seatNumber);
+    }
+
+    // Called by ResaleManager for every new listing; while the offer runs only its holder can buy
+    function offerListing(uint256 eventId, uint256 zoneId, uint256 tokenId)
+        external
+        onlyResaleManager
+        returns (bool)
+    {
+        return _offerToNext(eventId, zoneId, tokenId, 0);
+    }
+
+    // Called by ResaleManager when a listing closes. An offer holder still inside their window
+    // keeps their place in line; one whose offer had lapsed leaves the waitlist as in expireOffer.
+    function withdrawListingOffer(uint256 tokenId) external onlyResaleManager {
+        ListingOffer memory offer = listingOffers[tokenId];
+        if (offer.user == address(0)) return;
+
+        delete listingOffers[tokenId];
+        ZoneWaitlist storage waitlist = waitlists[offer.eventId][offer.zoneId];
+        WaitlistEntry storage entry = waitlist.entries[offer.user];
+        _removeOfferHolder(waitlist, offer.user);
+        if (block.timestamp > entry.offerExpiry) {
+            // The listing is closing, so there is nothing to pass on to the next user
+            delete waitlist.entries[offer.user];
+            emit WaitlistOfferExpired(offer.eventId, offer.zoneId, offer.user);
+            _forfeitDeposit(offer.eventId, offer.zoneId, offer.user);
+            return;
+        }
+
+        _clearOffer(entry);
+        _requeue(waitlist, offer.user);
+        emit WaitlistOfferWithdrawn(offer.eventId, offer.zoneId, offer.user);
+    }
+
+    // Accepts the caller's offer. A refunded seat is paid into RefundEscrow and minted; a resale
+    // listing pays the seller and moves the ticket. Either way it happens in this transaction.
     function completeWaitlistPurchase(uint256 eventId, uint256 zoneId)
         external
+        payable
+        nonReentrant
         whenNotPaused
     {
         ZoneWaitlist storage waitlist = waitlists[eventId][zoneId];
-        require(waitlist.isWaiting[msg.sender], "Caller is not in the waitlist for this event and zone");
+        require(waitlist.entries[msg.sender].isWaiting, "Caller is not in the waitlist for this event and zone");
         
-        uint256 index = waitlist.userIndex[msg.sender];
-        WaitlistEntry storage entry = waitlist.entries[index];
+        WaitlistEntry storage entry = waitlist.entries[msg.sender];
         require(entry.hasOffer, "Caller does not have an active ticket offer for this event and zone");
         require(block.timestamp <= entry.offerExpiry, "The ticket offer for this event and zone has expired");
-        
-        entry.isActive = false;
-        waitlist.isWaiting[msg.sender] = false;
+
+        uint256 price = _offerPrice(eventId, zoneId, entry);
+        uint256 deposit = _depositOf(eventId, zoneId, msg.sender);
+        require(msg.value + deposit >= price, "Insufficient payment");
+        if (deposit > 0) {
+            fundsEscrow.applyWaitlistDeposit(eventId, zoneId, msg.sender);
+        }
+
+        // The offer stays open until the purchase is done so TicketFactory lets the buyer skip the queue
+        if (entry.offeredTicketId != 0) {
+            delete listingOffers[entry.offeredTicketId];
+            resaleManager.purchaseReservedListing{value: price}(entry.offeredTicketId, msg.sender);
+        } else {
+            eventManager.fillReleasedSeat{value: price}(eventId, zoneId, entry.offeredSeat, msg.sender);
+        }
+
+        _removeOfferHolder(waitlist, msg.sender);
+        delete waitlist.entries[msg.sender];
+
+        if (msg.value + deposit > price) {
+            (bool refundSuccess, ) = payable(msg.sender).call{value: msg.value + deposit - price}("");
+            require(refundSuccess, "Refund failed");
+        }
         
         emit WaitlistPurchaseCompleted(eventId, zoneId, msg.sender);
     }
 
+    // Anyone (normally the waitlist keeper) can expire a lapsed offer. The user leaves the
+    // waitlist and the seat or listing is offered to the next user in line.
     function expireOffer(uint256 eventId, uint256 zoneId, address user)
         external
+        nonReentrant
         whenNotPaused
     {
         ZoneWaitlist storage waitlist = waitlists[eventId][zoneId];
-        require(waitlist.isWaiting[user], "User is not in the waitlist for this event and zone");
+        require(waitlist.entries[user].isWaiting, "User is not in the waitlist for this event and zone");
         
-        uint256 index = waitlist.userIndex[user];
-        WaitlistEntry storage entry = waitlist.entries[index];
+        WaitlistEntry storage entry = waitlist.entries[user];
         require(entry.hasOffer, "User does not have an active ticket offer for this event and zone");
         require(block.timestamp > entry.offerExpiry, "The ticket offer for this event and zone has not expired");
         
-        entry.hasOffer = false;
-        entry.offerExpiry = 0;
-        
         emit WaitlistOfferExpired(eventId, zoneId, user);
+        _removeEntry(eventId, zoneId, user);
+        _forfeitDeposit(eventId, zoneId, user);
     }
 
     function getNextWaitingUser(uint256 eventId, uint256 zoneId) 
         external 
         view 
         returns (address) 
+    {
+        return waitlists[eventId][zoneId].head;
+    }
+
+    // Users currently holding an offer, expired or not; the waitlist keeper walks this list
+    function getOfferHolders(uint256 eventId, uint256 zoneId) external view returns (address[] memory) {
+        return waitlists[eventId][zoneId].offerHolders;
+    }
+
+    function getOffer(uint256 eventId, uint256 zoneId, address user)
+        external
+        view
+        returns (uint256 ticketId, uint256 seatNumber, uint256 expiresAt, uint256 price)
     {
         ZoneWaitlist storage waitlist = waitlists[eventId][zoneId];
-        
-        for (uint256 i = 0; i < waitlist.entries.length; i++) {
-            WaitlistEntry memory entry = waitlist.entries[i];
-            if (entry.isActive && !entry.hasOffer) {
-                return entry.user;
-            }
-        }
-        
-        return address(0);
+        require(waitlist.entries[user].isWaiting, "User is not in the waitlist for this event and zone");
+
+        WaitlistEntry storage entry = waitlist.entries[user];
+        require(entry.hasOffer, "User does not have an active ticket offer for this event and zone");
+        return (entry.offeredTicketId, entry.offeredSeat, entry.offerExpiry, _offerPrice(eventId, zoneId, entry));
+    }
+
+    // A listing stays reserved until its offer is accepted, withdrawn or lapses
+    function isListingReserved(uint256 tokenId) external view returns (bool) {
+        ListingOffer memory offer = listingOffers[tokenId];
+        if (offer.user == address(0)) return false;
+
+        return block.timestamp <= waitlists[offer.eventId][offer.zoneId].entries[offer.user].offerExpiry;
     }
 
     function getWaitlistPosition(uint256 eventId, uint256 zoneId, address user)
@@ -144,17 +319,21 @@ contract WaitlistManager is Ownable, ReentrancyGuard, Pausable {
         returns (uint256)
     {
         ZoneWaitlist storage waitlist = waitlists[eventId][zoneId];
-        require(waitlist.isWaiting[user], "User is not in the waitlist for this event and zone");
+        require(waitlist.entries[user].isWaiting, "User is not in the waitlist for this event and zone");
         
+        // Everyone still on the waitlist who joined earlier, whether queued or holding an offer
+        uint256 sequence = waitlist.entries[user].sequence;
         uint256 position = 1;
-        uint256 userIndex = waitlist.userIndex[user];
-        
-        for (uint256 i = 0; i < userIndex; i++) {
-            if (waitlist.entries[i].isActive) {
+        for (uint256 i = 0; i < waitlist.offerHolders.length; i++) {
+            if (waitlist.entries[waitlist.offerHolders[i]].sequence < sequence) {
                 position++;
             }
         }
-        
+        address current = waitlist.head;
+        while (current != address(0) && waitlist.entries[current].sequence < sequence) {
+            position++;
+            current = waitlist.next[current];
+        }
         return position;
     }
 
@@ -163,16 +342,17 @@ contract WaitlistManager is Ownable, ReentrancyGuard, Pausable {
         view
         returns (uint256)
     {
-        ZoneWaitlist storage waitlist = waitlists[eventId][zoneId];
-        uint256 activeCount = 0;
-        
-        for (uint256 i = 0; i < waitlist.entries.length; i++) {
-            if (waitlist.entries[i].isActive && !waitlist.entries[i].hasOffer) {
-                activeCount++;
-            }
-        }
-        
-        return activeCount;
+        return waitlists[eventId][zoneId].length;
+    }
+
+    function getDepositTerms(uint256 eventId) external view returns (uint256 amount, uint256 forfeitBps) {
+        DepositTerms memory terms = depositTerms[eventId];
+        return (terms.amount, terms.forfeitBps);
+    }
+
+    // Deposit held for the user; it is put towards the price when they accept an offer
+    function getDeposit(uint256 eventId, uint256 zoneId, address user) external view returns (uint256) {
+        return _depositOf(eventId, zoneId, user);
     }
 
     function isUserWaiting(uint256 eventId, uint256 zoneId, address user)
@@ -180,7 +360,7 @@ contract WaitlistManager is Ownable, ReentrancyGuard, Pausable {
         view
         returns (bool)
     {
-        return waitlists[eventId][zoneId].isWaiting[user];
+        return waitlists[eventId][zoneId].entries[user].isWaiting;
     }
 
     function hasActiveOffer(uint256 eventId, uint256 zoneId, address user)
@@ -188,43 +368,204 @@ contract WaitlistManager is Ownable, ReentrancyGuard, Pausable {
         view
         returns (bool)
     {
-        ZoneWaitlist storage waitlist = waitlists[eventId][zoneId];
-        if (!waitlist.isWaiting[user]) return false;
-        
-        uint256 index = waitlist.userIndex[user];
-        WaitlistEntry memory entry = waitlist.entries[index];
-        return entry.hasOffer && block.timestamp <= entry.offerExpiry;
+        WaitlistEntry storage entry = waitlists[eventId][zoneId].entries[user];
+        return entry.isWaiting && entry.hasOffer && block.timestamp <= entry.offerExpiry;
     }
 
-    function pause() external onlyOwner {
+    function pause() external onlyRole(PAUSER_ROLE) {
         _pause();
     }
 
-    function unpause() external onlyOwner {
+    function unpause() external onlyRole(PAUSER_ROLE) {
         _unpause();
     }
 
     function clearWaitlistEntry(uint256 eventId, uint256 zoneId, address user) 
         external 
-        onlyOwner 
+        onlyRole(PLATFORM_ADMIN_ROLE) 
     {
-        ZoneWaitlist storage waitlist = waitlists[eventId][zoneId];
-        if (waitlist.isWaiting[user]) {
-            uint256 index = waitlist.userIndex[user];
-            waitlist.entries[index].isActive = false;
-            waitlist.isWaiting[user] = false;
-            emit LeftWaitlist(eventId, zoneId, user);
+        if (waitlists[eventId][zoneId].entries[user].isWaiting) {
+            _dismissEntry(eventId, zoneId, user);
         }
     }
 
     function clearWaitlistForUser(uint256 eventId, uint256 zoneId, address user) 
-        public 
+        external 
+        onlyRole(KEEPER_ROLE) 
     {
+        if (waitlists[eventId][zoneId].entries[user].isWaiting) {
+            _dismissEntry(eventId, zoneId, user);
+        }
+    }
+
+    // Deposits applied to an accepted offer arrive here before being forwarded with the payment
+    receive() external payable {
+        require(msg.sender == address(fundsEscrow), "Caller is not the ConditionalFundsEscrow");
+    }
+
+    function _offerToNext(uint256 eventId, uint256 zoneId, uint256 ticketId, uint256 seatNumber)
+        private
+        returns (bool)
+    {
+        ZoneWaitlist storage waitlist = waitlists[eventId][zoneId];
+        address user = waitlist.head;
+        if (user == address(0)) return false;
+
+        _unlink(waitlist, user);
+        waitlist.offerHolders.push(user);
+        waitlist.offerIndex[user] = waitlist.offerHolders.length;
+
+        WaitlistEntry storage entry = waitlist.entries[user];
+        entry.hasOffer = true;
+        entry.offerExpiry = block.timestamp + OFFER_DURATION;
+        entry.offeredTicketId = ticketId;
+        entry.offeredSeat = seatNumber;
+        if (ticketId != 0) {
+            listingOffers[ticketId] = ListingOffer(eventId, zoneId, user);
+        }
+
+        emit WaitlistPurchaseOffered(eventId, zoneId, user, ticketId, seatNumber, entry.offerExpiry);
+        return true;
+    }
+
+    // Takes the user off the waitlist; an offer they held moves on to the next user, and a
+    // refunded seat nobody is waiting for goes back on general sale
+    function _removeEntry(uint256 eventId, uint256 zoneId, address user) private {
         ZoneWaitlist storage waitlist = waitlists[eventId][zoneId];
-        if (waitlist.isWaiting[user]) {
-            uint256 index = waitlist.userIndex[user];
-            waitlist.entries[index].isActive = false;
-            waitlist.isWaiting[user] = false;
+        WaitlistEntry storage entry = waitlist.entries[user];
+        bool hadOffer = entry.hasOffer;
+        uint256 ticketId = entry.offeredTicketId;
+        uint256 seatNumber = entry.offeredSeat;
+
+        delete waitlist.entries[user];
+        if (!hadOffer) {
+            _unlink(waitlist, user);
+            return;
+        }
+        _removeOfferHolder(waitlist, user);
+
+        if (ticketId != 0) {
+            delete listingOffers[ticketId];
+        }
+        // Nothing is left to sell once the event is over, so the offer is not passed on
+        if (_isEventOver(eventId)) {
+            return;
+        }
+        if (!_offerToNext(eventId, zoneId, ticketId, seatNumber) && ticketId == 0) {
+            eventManager.releaseHeldSeat(eventId, zoneId, seatNumber);
+        }
+    }
+
+    function _isEventOver(uint256 eventId) private view returns (bool) {
+        return eventManager.hasEventConcluded(eventId) || eventManager.getEvent(eventId).cancelled;
+    }
+
+    // Removal on someone else's behalf: the deposit comes back in full, unless the user let an
+    // offer lapse, in which case they forfeit as if expireOffer had run
+    function _dismissEntry(uint256 eventId, uint256 zoneId, address user) private {
+        WaitlistEntry storage entry = waitlists[eventId][zoneId].entries[user];
+        bool lapsed = entry.hasOffer && block.timestamp > entry.offerExpiry;
+        _removeEntry(eventId, zoneId, user);
+        if (lapsed) {
+            emit WaitlistOfferExpired(eventId, zoneId, user);
+            _forfeitDeposit(eventId, zoneId, user);
+        } else {
+            _refundDeposit(eventId, zoneId, user);
+            emit LeftWaitlist(eventId, zoneId, user);
+        }
+    }
+
+    function _insertAfter(ZoneWaitlist storage waitlist, address previous, address user) private {
+        address following = previous == address(0) ? waitlist.head : waitlist.next[previous];
+        waitlist.prev[user] = previous;
+        waitlist.next[user] = following;
+        if (previous == address(0)) {
+            waitlist.head = user;
+        } else {
+            waitlist.next[previous] = user;
+        }
+        if (following == address(0)) {
+            waitlist.tail = user;
+        } else {
+            waitlist.prev[following] = user;
+        }
+        waitlist.length++;
+    }
+
+    function _unlink(ZoneWaitlist storage waitlist, address user) private {
+        address previous = waitlist.prev[user];
+        address following = waitlist.next[user];
+        if (previous == address(0)) {
+            waitlist.head = following;
+        } else {
+            waitlist.next[previous] = following;
+        }
+        if (following == address(0)) {
+            waitlist.tail = previous;
+        } else {
+            waitlist.prev[following] = previous;
+        }
+        delete waitlist.prev[user];
+        delete waitlist.next[user];
+        waitlist.length--;
+    }
+
+    // A user whose offer is withdrawn joined before everyone queued except other former offer
+    // holders, so the walk from the head is bounded by the number of offers handed out
+    function _requeue(ZoneWaitlist storage waitlist, address user) private {
+        uint256 sequence = waitlist.entries[user].sequence;
+        address previous = address(0);
+        address current = waitlist.head;
+        while (current != address(0) && waitlist.entries[current].sequence < sequence) {
+            previous = current;
+            current = waitlist.next[current];
+        }
+        _insertAfter(waitlist, previous, user);
+    }
+
+    function _removeOfferHolder(ZoneWaitlist storage waitlist, address user) private {
+        uint256 index = waitlist.offerIndex[user] - 1;
+        uint256 lastIndex = waitlist.offerHolders.length - 1;
+        if (index != lastIndex) {
+            address last = waitlist.offerHolders[lastIndex];
+            waitlist.offerHolders[index] = last;
+            waitlist.offerIndex[last] = index + 1;
+        }
+        waitlist.offerHolders.pop();
+        delete waitlist.offerIndex[user];
+    }
+
+    function _clearOffer(WaitlistEntry storage entry) private {
+        entry.hasOffer = false;
+        entry.offerExpiry = 0;
+        entry.offeredTicketId = 0;
+        entry.offeredSeat = 0;
+    }
+
+    function _refundDeposit(uint256 eventId, uint256 zoneId, address user) private {
+        if (address(fundsEscrow) != address(0)) {
+            fundsEscrow.refundWaitlistDeposit(eventId, zoneId, user);
+        }
+    }
+
+    function _forfeitDeposit(uint256 eventId, uint256 zoneId, address user) private {
+        if (address(fundsEscrow) != address(0)) {
+            fundsEscrow.forfeitWaitlistDeposit(eventId, zoneId, user);
+        }
+    }
+
+    function _depositOf(uint256 eventId, uint256 zoneId, address user) private view returns (uint256 amount) {
+        if (address(fundsEscrow) != address(0)) {
+            (amount, ) = fundsEscrow.getWaitlistDeposit(eventId, zoneId, user);
+        }
+    }
+
+    function _offerPrice(uint256 eventId, uint256 zoneId, WaitlistEntry storage entry) private view returns (uint256) {
+        if (entry.offeredTicketId == 0) {
+            return eventManager.getZonePrice(eventId, zoneId);
         }
+        (bool listed, uint256 price) = resaleManager.getActiveListing(entry.offeredTicketId);
+        require(listed, "Offered listing is no longer available");
+        return price;
     }
-}
\ No newline at end of file
+}
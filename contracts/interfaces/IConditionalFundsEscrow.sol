@@ -8,6 +8,19 @@ event PaymentDeposited(uint256 indexed eventId, address indexed payer, uint256 a
 event PaymentReleased(uint256 indexed eventId, address indexed payer, uint256 amount);
 event PaymentRefunded(uint256 indexed eventId, address indexed payer, uint256 amount);
 event WaitlistRefundEnabled (uint256 indexed eventId, uint256 indexed ticketId);
+event WaitlistManagerUpdated(address indexed newWaitlistManager);
+event WaitlistDepositHeld(uint256 indexed eventId, uint256 indexed zoneId, address indexed user, uint256 amount);
+event WaitlistDepositRefunded(uint256 indexed eventId, uint256 indexed zoneId, address indexed user, uint256 amount);
+event WaitlistDepositApplied(uint256 indexed eventId, uint256 indexed zoneId, address indexed user, uint256 amount);
+event WaitlistDepositForfeited(
+    uint256 indexed eventId,
+    uint256 indexed zoneId,
+    address indexed user,
+    uint256 forfeited,
+    uint256 refunded
+);
+event PayoutDeferred(address indexed recipient, uint256 amount);
+event PendingPayoutWithdrawn(address indexed recipient, uint256 amount);
 
 function depositPayment(uint256 eventId, uint256 ticketID) external payable;
 function releasePayment(uint256 eventId, uint256 ticketId) external;
@@ -15,4 +28,16 @@ function refundPayment(uint256 eventId, uint256 ticketId) external;
 function enableWaitlistRefund(uint256 eventId, uint256 ticketId) external;
 function getPaymentStatus(uint256 eventId, uint256 ticketId) external view returns (PaymentStatus);
 function getPaymentAmount(uint256 eventId, uint256 ticketId) external view returns (uint256);
+
+// Waitlist deposits (WaitlistManager)
+function holdWaitlistDeposit(uint256 eventId, uint256 zoneId, address user, uint256 forfeitBps) external payable;
+function refundWaitlistDeposit(uint256 eventId, uint256 zoneId, address user) external returns (uint256);
+function applyWaitlistDeposit(uint256 eventId, uint256 zoneId, address user) external returns (uint256);
+function forfeitWaitlistDeposit(uint256 eventId, uint256 zoneId, address user) external returns (uint256);
+function withdrawPendingPayout() external;
+function getWaitlistDeposit(uint256 eventId, uint256 zoneId, address user)
+    external
+    view
+    returns (uint256 amount, uint256 forfeitBps);
+function getPendingPayout(address recipient) external view returns (uint256);
 }
@@ -28,6 +28,28 @@ interface IEventManager {
         uint256 availableSeats;
     }
 
+    // Early-bird tier: replaces the zone price until `endsAt` (0 = no deadline) or until the zone
+    // has `maxSales` tickets out (0 = no sales limit), whichever comes first
+    struct PriceTier {
+        uint256 price;
+        uint256 endsAt;
+        uint256 maxSales;
+    }
+
+    // Raises the price linearly by up to `maxIncreaseBps` as the zone sells out, never above `ceiling`
+    struct DemandCurve {
+        uint256 maxIncreaseBps;
+        uint256 ceiling;
+    }
+
+    // Split of every ResaleManager sale, in basis points of the resale price; the seller gets the rest
+    struct ResaleFees {
+        uint256 platformFeeBps;
+        uint256 organizerRoyaltyBps;
+        address payee;          // optional artist or charity, address(0) for none
+        uint256 payeeBps;
+    }
+
     event EventCreated(
         uint256 indexed eventId,
         string name,
@@ -43,6 +65,72 @@ interface IEventManager {
         address buyer
     );
 
+    // The split of a sale as booked; settlement statements are rebuilt from these
+    event SaleBooked(uint256 indexed eventId, uint256 indexed ticketId, uint256 price, uint256 platformFee);
+
+    event GroupTicketsPurchased(
+        uint256 indexed eventId,
+        uint256 indexed zoneId,
+        address indexed payer,
+        uint256[] ticketIds
+    );
+
+    event TicketIssued(
+        uint256 indexed eventId,
+        uint256 indexed ticketId,
+        address recipient
+    );
+
+    event TicketRefunded(
+        uint256 indexed eventId,
+        uint256 indexed ticketId,
+        address holder
+    );
+
+    event ResaleFeesConfigured(
+        uint256 indexed eventId,
+        uint256 platformFeeBps,
+        uint256 organizerRoyaltyBps,
+        address payee,
+        uint256 payeeBps
+    );
+
+    event TransferLockWindowUpdated(uint256 indexed eventId, uint256 window);
+
+    event SeatMapConfigured(
+        uint256 indexed eventId,
+        uint256 indexed zoneId,
+        uint256[] rowLengths
+    );
+
+    event SeatAssigned(
+        uint256 indexed eventId,
+        uint256 indexed zoneId,
+        uint256 seatNumber,
+        uint256 indexed ticketId
+    );
+
+    event SeatReleased(
+        uint256 indexed eventId,
+        uint256 indexed zoneId,
+        uint256 seatNumber,
+        uint256 indexed ticketId
+    );
+
+    event PriceScheduleUpdated(
+        uint256 indexed eventId,
+        uint256 indexed zoneId,
+        PriceTier[] tiers,
+        DemandCurve demandCurve
+    );
+
+    // A refunded or newly added seat kept off general sale while it is offered to the zone's waitlist
+    event SeatHeldForWaitlist(uint256 indexed eventId, uint256 indexed zoneId, uint256 seatNumber);
+
+    event EventRescheduled(uint256 indexed eventId, uint256 oldDate, uint256 newDate);
+    event ZoneAdded(uint256 indexed eventId, uint256 indexed zoneId, uint256 capacity, uint256 price);
+    event ZoneCapacityUpdated(uint256 indexed eventId, uint256 indexed zoneId, uint256 oldCapacity, uint256 newCapacity);
+
     function createEvent(
         string memory name,
         uint256 date,
@@ -51,21 +139,110 @@ interface IEventManager {
         uint256[] memory zonePrices
     ) external returns (uint256);
 
+    function createEventWithResaleFees(
+        string memory name,
+        uint256 date,
+        uint256 basePrice,
+        uint256[] memory zoneCapacities,
+        uint256[] memory zonePrices,
+        uint256 organizerRoyaltyBps,
+        address payee,
+        uint256 payeeBps
+    ) external returns (uint256);
+
     function cancelEvent(uint256 eventId) external;
 
+    function rescheduleEvent(uint256 eventId, uint256 newDate) external;
+
+    function addZone(uint256 eventId, uint256 capacity, uint256 price) external returns (uint256);
+
+    function updateZoneCapacity(uint256 eventId, uint256 zoneId, uint256 newCapacity) external;
+
+    function offerAddedSeats(uint256 eventId, uint256 zoneId) external;
+
     function purchaseTicket(uint256 eventId, uint256 zoneId) external payable;
 
+    function purchaseTickets(uint256 eventId, uint256 zoneId, uint256 quantity) external payable returns (uint256[] memory);
+
+    function purchaseTicketWithAccess(
+        uint256 eventId,
+        uint256 zoneId,
+        bytes32[] calldata proof,
+        string calldata promoCode
+    ) external payable returns (uint256);
+
+    function purchaseGroupTickets(
+        uint256 eventId,
+        uint256 zoneId,
+        address[] calldata recipients
+    ) external payable returns (uint256[] memory);
+
+    function purchaseSeats(
+        uint256 eventId,
+        uint256 zoneId,
+        uint256[] calldata seatNumbers
+    ) external payable returns (uint256[] memory);
+
+    function issueTicket(uint256 eventId, uint256 zoneId, address to) external returns (uint256);
+
+    function issueSeat(uint256 eventId, uint256 zoneId, uint256 seatNumber, address to) external returns (uint256);
+
+    function configureSeatMap(uint256 eventId, uint256 zoneId, uint256[] calldata rowLengths) external;
+
+    function getSeatMap(uint256 eventId, uint256 zoneId) external view returns (uint256[] memory);
+
+    function getSeatTicket(uint256 eventId, uint256 zoneId, uint256 seatNumber) external view returns (uint256);
+
     function getEvent(uint256 eventId) external view returns (EventView memory);
 
     function getZone(uint256 eventId, uint256 zoneId) external view returns (Zone memory);
 
     function getZonePrice(uint256 eventId, uint256 zoneId) external view returns (uint256);
 
+    function quoteTickets(uint256 eventId, uint256 zoneId, uint256 quantity) external view returns (uint256);
+
+    function setPriceSchedule(
+        uint256 eventId,
+        uint256 zoneId,
+        PriceTier[] calldata tiers,
+        DemandCurve calldata demandCurve
+    ) external;
+
+    function getPriceSchedule(uint256 eventId, uint256 zoneId)
+        external
+        view
+        returns (PriceTier[] memory tiers, DemandCurve memory demandCurve);
+
     function getZoneCapacity(uint256 eventId, uint256 zoneId) external view returns (uint256);
 
+    function getSeatsAwaitingOffer(uint256 eventId, uint256 zoneId) external view returns (uint256);
+
     function getZoneCount(uint256 eventId) external view returns (uint256);
 
     function hasEventConcluded(uint256 eventId) external view returns (bool);
 
     function getOrganizer(uint256 eventId) external view returns (address);
+
+    // Where platform fees, cancellation fees and swept funds are sent
+    function treasury() external view returns (address);
+
+    function getResaleFees(uint256 eventId) external view returns (ResaleFees memory);
+
+    function getTicketHolder(uint256 ticketId) external view returns (address);
+
+    function releaseRefundedTicket(uint256 eventId, uint256 ticketId) external;
+
+    // WaitlistManager hooks for refunded seats held for the waitlist
+    function fillReleasedSeat(uint256 eventId, uint256 zoneId, uint256 seatNumber, address buyer)
+        external
+        payable
+        returns (uint256);
+
+    function releaseHeldSeat(uint256 eventId, uint256 zoneId, uint256 seatNumber) external;
+
+    function moveTicket(uint256 ticketId, address to) external;
+
+    function setTransferLockWindow(uint256 eventId, uint256 window) external;
+
+    function isTransferLocked(uint256 eventId) external view returns (bool);
 }
@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IPresaleManager {
+    // Only allowlisted buyers can purchase in [startsAt, endsAt); nobody can before startsAt
+    struct Presale {
+        bytes32 merkleRoot;
+        uint256 startsAt;
+        uint256 endsAt;
+    }
+
+    event PresaleConfigured(
+        uint256 indexed eventId,
+        uint256 indexed zoneId,
+        bytes32 merkleRoot,
+        uint256 startsAt,
+        uint256 endsAt
+    );
+    event PresaleCleared(uint256 indexed eventId, uint256 indexed zoneId);
+    event AllowlistVerified(uint256 indexed eventId, uint256 indexed zoneId, address indexed buyer);
+    event PromoCodesAdded(uint256 indexed eventId, uint256 count, uint256 discountBps);
+    event PromoCodeRedeemed(uint256 indexed eventId, bytes32 indexed codeHash, address indexed buyer, uint256 discountBps);
+
+    function setPresale(
+        uint256 eventId,
+        uint256 zoneId,
+        bytes32 merkleRoot,
+        uint256 startsAt,
+        uint256 endsAt
+    ) external;
+    function clearPresale(uint256 eventId, uint256 zoneId) external;
+    function addPromoCodes(uint256 eventId, bytes32[] calldata codeHashes, uint256 discountBps) external;
+    function verifyAllowlist(uint256 eventId, uint256 zoneId, bytes32[] calldata proof) external;
+
+    // EventManager hooks
+    function checkSaleOpen(uint256 eventId, uint256 zoneId, address buyer, bytes32[] calldata proof) external view;
+    function redeemPromoCode(uint256 eventId, string calldata code, address buyer) external returns (uint256);
+
+    // View functions
+    function getPresale(uint256 eventId, uint256 zoneId) external view returns (Presale memory);
+    function isAllowlisted(uint256 eventId, uint256 zoneId, address account, bytes32[] calldata proof)
+        external
+        view
+        returns (bool);
+    function isVerified(uint256 eventId, uint256 zoneId, address account) external view returns (bool);
+    function getPromoCode(uint256 eventId, bytes32 codeHash) external view returns (uint256 discountBps, bool redeemed);
+}
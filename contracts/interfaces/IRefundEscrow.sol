@@ -9,11 +9,13 @@ interface IRefundEscrow {
     event PaymentRefunded(uint256 indexed eventId, address indexed payer, uint256 amount);
     event WaitlistRefundEnabled(uint256 indexed eventId, uint256 indexed ticketId);
 
-    function depositPayment(uint256 eventId, uint256 ticketId) external payable;
+    function depositPayment(uint256 eventId, uint256 ticketId, address payer) external payable;
     function releasePayment(uint256 eventId, uint256 ticketId) external;
+    function releaseEventFunds(uint256 eventId) external returns (uint256);
     function refundPayment(uint256 eventId, uint256 ticketId) external;
     function enableWaitlistRefund(uint256 eventId, uint256 ticketId) external;
     function getPaymentStatus(uint256 eventId, uint256 ticketId) external view returns (PaymentStatus);
     function getPaymentAmount(uint256 eventId, uint256 ticketId) external view returns (uint256);
     function cancelEvent(uint256 eventId) external;
+    function openRescheduleRefunds(uint256 eventId) external;
 }
\ No newline at end of file
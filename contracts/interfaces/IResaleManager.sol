@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IResaleManager {
+    event TicketListed(uint256 indexed tokenId, address indexed seller, uint256 price);
+    event TicketUnlisted(uint256 indexed tokenId, address indexed seller);
+    event TicketResold(uint256 indexed tokenId, address indexed seller, address indexed buyer, uint256 price);
+
+    function listTicketForResale(uint256 tokenId, uint256 price) external;
+
+    function cancelResaleListing(uint256 tokenId) external;
+
+    function purchaseResaleTicket(uint256 tokenId) external payable;
+
+    // Called by WaitlistManager when the waitlisted user a listing was reserved for accepts it
+    function purchaseReservedListing(uint256 tokenId, address buyer) external payable;
+
+    // Called by TicketFactory whenever a ticket changes hands, is burned or is used
+    function clearListing(uint256 tokenId) external;
+
+    function getActiveListing(uint256 tokenId) external view returns (bool listed, uint256 price);
+}
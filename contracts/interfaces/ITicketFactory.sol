@@ -3,6 +3,8 @@ pragma solidity ^0.8.20;
 
 interface ITicketFactory {
     function ownerOf(uint256 tokenId) external view returns (address);
+
+    function eventManager() external view returns (address);
     
     function getTicketDetails(uint256 tokenId) external view returns (
         uint256 eventId,
@@ -11,8 +13,21 @@ interface ITicketFactory {
         uint256 seatNumber,
         bool isWaitlisted,
         bool isResale,
-        uint256 resalePrice
+        uint256 resalePrice,
+        uint256 zoneId
     );
     
     function transferFrom(address from, address to, uint256 tokenId) external;
+
+    function mintTicket(
+        address to,
+        uint256 eventId,
+        uint256 zoneId,
+        uint256 seatNumber,
+        uint256 price
+    ) external returns (uint256);
+
+    function burnTicket(uint256 tokenId) external;
+
+    function moveTicket(uint256 tokenId, address to) external;
 }
\ No newline at end of file
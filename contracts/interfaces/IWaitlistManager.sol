@@ -12,17 +12,36 @@ interface IWaitlistManager {
     // Events
     event JoinedWaitlist(uint256 indexed eventId, uint256 indexed zoneId, address user);
     event LeftWaitlist(uint256 indexed eventId, uint256 indexed zoneId, address user);
-    event WaitlistPurchaseOffered(uint256 indexed eventId, uint256 indexed zoneId, address user);
+    event WaitlistPurchaseOffered(
+        uint256 indexed eventId,
+        uint256 indexed zoneId,
+        address user,
+        uint256 ticketId,
+        uint256 seatNumber,
+        uint256 expiresAt
+    );
     event WaitlistPurchaseCompleted(uint256 indexed eventId, uint256 indexed zoneId, address user);
     event WaitlistOfferExpired(uint256 indexed eventId, uint256 indexed zoneId, address user);
 
     // Core functions
-    function joinWaitlist(uint256 eventId, uint256 zoneId) external;
+    function joinWaitlist(uint256 eventId, uint256 zoneId) external payable;
     function leaveWaitlist(uint256 eventId, uint256 zoneId) external;
+    function completeWaitlistPurchase(uint256 eventId, uint256 zoneId) external payable;
+    function expireOffer(uint256 eventId, uint256 zoneId, address user) external;
+    function refundUnservedDeposit(uint256 eventId, uint256 zoneId, address user) external;
+
+    // Inventory hooks (EventManager and ResaleManager)
+    function offerReleasedSeat(uint256 eventId, uint256 zoneId, uint256 seatNumber) external returns (bool);
+    function offerListing(uint256 eventId, uint256 zoneId, uint256 tokenId) external returns (bool);
+    function withdrawListingOffer(uint256 tokenId) external;
     
     // View functions
     function getNextWaitingUser(uint256 eventId, uint256 zoneId) external view returns (address);
     function getWaitlistPosition(uint256 eventId, uint256 zoneId, address user) external view returns (uint256);
     function getWaitlistLength(uint256 eventId, uint256 zoneId) external view returns (uint256);
+    function getDepositTerms(uint256 eventId) external view returns (uint256 amount, uint256 forfeitBps);
+    function getDeposit(uint256 eventId, uint256 zoneId, address user) external view returns (uint256);
     function isUserWaiting(uint256 eventId, uint256 zoneId, address user) external view returns (bool);
+    function hasActiveOffer(uint256 eventId, uint256 zoneId, address user) external view returns (bool);
+    function isListingReserved(uint256 tokenId) external view returns (bool);
 }
\ No newline at end of file
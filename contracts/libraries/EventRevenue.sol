@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IRefundEscrow.sol";
+
+// Settles an EventManager event once it has taken place, linked like ZonePricing. The escrowed
+// ticket payments come back to EventManager, which then pays the treasury and the organizer.
+library EventRevenue {
+    event RevenueWithdrawn(uint256 indexed eventId, address indexed organizer, uint256 amount);
+    event PlatformFeeCollected(uint256 indexed eventId, uint256 amount);
+
+    function withdraw(
+        mapping(uint256 => uint256) storage revenue,
+        mapping(uint256 => uint256) storage platformFees,
+        IRefundEscrow refundEscrow,
+        address treasury,
+        uint256 eventId,
+        address organizer
+    ) external {
+        uint256 amount = revenue[eventId];
+        require(amount > 0, "No revenue");
+        uint256 platformFee = platformFees[eventId];
+
+        revenue[eventId] = 0;
+        platformFees[eventId] = 0;
+
+        refundEscrow.releaseEventFunds(eventId);
+
+        if (platformFee > 0) {
+            (bool feeSuccess, ) = payable(treasury).call{value: platformFee}("");
+            require(feeSuccess, "Platform fee transfer failed");
+            emit PlatformFeeCollected(eventId, platformFee);
+        }
+
+        (bool success, ) = payable(organizer).call{value: amount}("");
+        require(success, "Transfer to organizer failed");
+
+        emit RevenueWithdrawn(eventId, organizer, amount);
+    }
+}
@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IEventManager.sol";
+import "../interfaces/IWaitlistManager.sol";
+
+// Capacity changes of EventManager zones, linked like ZonePricing. Runs in EventManager's
+// context, so the waitlist sees EventManager as the caller and the events are logged by it.
+library ZoneCapacity {
+    // Added seats offered to the waitlist per call; the rest wait for offerAwaiting
+    uint256 internal constant MAX_OFFERS_PER_CALL = 10;
+
+    // Seat numbers of a general admission zone, which never go back below a number already
+    // issued, and the added seats not yet offered to its waitlist
+    struct Seats {
+        uint256 lastNumber;
+        uint256 awaitingOffer;
+    }
+
+    event ZoneCapacityUpdated(uint256 indexed eventId, uint256 indexed zoneId, uint256 oldCapacity, uint256 newCapacity);
+    event SeatHeldForWaitlist(uint256 indexed eventId, uint256 indexed zoneId, uint256 seatNumber);
+
+    // Capacity can only shrink by seats still on sale or not yet offered to the waitlist
+    function update(
+        IEventManager.Zone storage zone,
+        Seats storage seats,
+        IWaitlistManager waitlistManager,
+        uint256 eventId,
+        uint256 zoneId,
+        uint256 newCapacity
+    ) external {
+        require(newCapacity > 0, "Zone capacity must be greater than zero");
+
+        uint256 oldCapacity = zone.capacity;
+        if (newCapacity < oldCapacity) {
+            uint256 removed = oldCapacity - newCapacity;
+            require(zone.availableSeats + seats.awaitingOffer >= removed, "Capacity below tickets sold");
+            uint256 unoffered = removed < seats.awaitingOffer ? removed : seats.awaitingOffer;
+            seats.awaitingOffer -= unoffered;
+            zone.availableSeats -= removed - unoffered;
+        } else {
+            seats.awaitingOffer += newCapacity - oldCapacity;
+        }
+        zone.capacity = newCapacity;
+        emit ZoneCapacityUpdated(eventId, zoneId, oldCapacity, newCapacity);
+
+        offerAwaiting(zone, seats, waitlistManager, eventId, zoneId);
+    }
+
+    // Offers added seats to the zone's waitlist first, like refunded ones, each under the next
+    // seat number. Once nobody is left waiting the rest go on general sale.
+    function offerAwaiting(
+        IEventManager.Zone storage zone,
+        Seats storage seats,
+        IWaitlistManager waitlistManager,
+        uint256 eventId,
+        uint256 zoneId
+    ) public returns (uint256 offered) {
+        while (seats.awaitingOffer > 0 && offered < MAX_OFFERS_PER_CALL) {
+            uint256 seatNumber = seats.lastNumber + 1;
+            if (address(waitlistManager) == address(0) || !waitlistManager.offerReleasedSeat(eventId, zoneId, seatNumber)) {
+                zone.availableSeats += seats.awaitingOffer;
+                seats.awaitingOffer = 0;
+                break;
+            }
+            seats.lastNumber = seatNumber;
+            seats.awaitingOffer--;
+            offered++;
+            emit SeatHeldForWaitlist(eventId, zoneId, seatNumber);
+        }
+    }
+}
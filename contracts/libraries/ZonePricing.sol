@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IEventManager.sol";
+
+// Early-bird tiers and demand pricing of EventManager zones. Deployed once and linked, so the
+// pricing code does not count towards EventManager's contract size.
+library ZonePricing {
+    uint256 internal constant BPS_DENOMINATOR = 10_000;
+    uint256 internal constant MAX_PRICE_TIERS = 5;
+
+    event PriceScheduleUpdated(
+        uint256 indexed eventId,
+        uint256 indexed zoneId,
+        IEventManager.PriceTier[] tiers,
+        IEventManager.DemandCurve demandCurve
+    );
+
+    // Replaces the zone's pricing schedule; sales already made keep the price they were made at.
+    // Early-bird tiers are discounts, so undercutting the zone price is intended, even below the
+    // event's base price, which only bounds zone prices. They must stay under the demand curve's
+    // ceiling when there is one.
+    function setSchedule(
+        IEventManager.Zone storage zone,
+        IEventManager.PriceTier[] storage tiers,
+        IEventManager.DemandCurve storage curve,
+        uint256 eventId,
+        uint256 zoneId,
+        IEventManager.PriceTier[] calldata newTiers,
+        IEventManager.DemandCurve calldata newCurve
+    ) external {
+        require(newTiers.length <= MAX_PRICE_TIERS, "Too many price tiers");
+        if (newCurve.maxIncreaseBps > 0) {
+            require(newCurve.ceiling >= zone.price, "Price ceiling must be >= zone price");
+        }
+
+        while (tiers.length > 0) {
+            tiers.pop();
+        }
+        for (uint256 i = 0; i < newTiers.length; i++) {
+            require(newTiers[i].price > 0, "Tier price must be greater than zero");
+            if (newCurve.maxIncreaseBps > 0) {
+                require(newTiers[i].price <= newCurve.ceiling, "Tier price exceeds the price ceiling");
+            }
+            require(newTiers[i].endsAt > 0 || newTiers[i].maxSales > 0, "Price tier needs an end time or sales limit");
+            tiers.push(newTiers[i]);
+        }
+        curve.maxIncreaseBps = newCurve.maxIncreaseBps;
+        curve.ceiling = newCurve.ceiling;
+        emit PriceScheduleUpdated(eventId, zoneId, newTiers, newCurve);
+    }
+
+    // Price of the next ticket once `sold` tickets of the zone are out
+    function priceAt(
+        IEventManager.Zone storage zone,
+        IEventManager.PriceTier[] storage tiers,
+        IEventManager.DemandCurve storage curve,
+        uint256 sold
+    ) public view returns (uint256 price) {
+        price = zone.price;
+
+        for (uint256 i = 0; i < tiers.length; i++) {
+            IEventManager.PriceTier storage tier = tiers[i];
+            if ((tier.endsAt == 0 || block.timestamp < tier.endsAt) && (tier.maxSales == 0 || sold < tier.maxSales)) {
+                price = tier.price;
+                break;
+            }
+        }
+
+        if (curve.maxIncreaseBps > 0) {
+            price += (price * curve.maxIncreaseBps * sold) / (BPS_DENOMINATOR * zone.capacity);
+            if (price > curve.ceiling) {
+                price = curve.ceiling;
+            }
+        }
+    }
+
+    // Total for the next `quantity` tickets of the zone bought in one purchase
+    function quote(
+        IEventManager.Zone storage zone,
+        IEventManager.PriceTier[] storage tiers,
+        IEventManager.DemandCurve storage curve,
+        uint256 quantity
+    ) external view returns (uint256 total) {
+        require(quantity <= zone.availableSeats, "No seats available in zone");
+
+        uint256 sold = zone.capacity - zone.availableSeats;
+        for (uint256 i = 0; i < quantity; i++) {
+            total += priceAt(zone, tiers, curve, sold + i);
+        }
+    }
+}
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../../interfaces/IEventManager.sol";
+
+interface IPendingRefunds {
+    function withdrawPendingRefund() external;
+}
+
+// Ticket holder whose receive() can be switched off, for testing push-payment fallbacks
+contract RejectingReceiver {
+    bool public acceptPayments;
+
+    function purchaseTicket(address eventManager, uint256 eventId, uint256 zoneId) external payable {
+        IEventManager(eventManager).purchaseTicket{value: msg.value}(eventId, zoneId);
+    }
+
+    function setAcceptPayments(bool accept) external {
+        acceptPayments = accept;
+    }
+
+    function withdrawPendingRefund(address refundEscrow) external {
+        IPendingRefunds(refundEscrow).withdrawPendingRefund();
+    }
+
+    receive() external payable {
+        require(acceptPayments, "Payments rejected");
+    }
+}
@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../../interfaces/IWaitlistManager.sol";
+
+// One waitlist member per contract, since a user can only join a zone's waitlist once
+contract WaitlistJoiner {
+    address private immutable filler;
+
+    constructor(IWaitlistManager waitlistManager, uint256 eventId, uint256 zoneId) {
+        filler = msg.sender;
+        waitlistManager.joinWaitlist(eventId, zoneId);
+    }
+
+    function leave(IWaitlistManager waitlistManager, uint256 eventId, uint256 zoneId) external {
+        require(msg.sender == filler, "Caller is not the filler");
+        waitlistManager.leaveWaitlist(eventId, zoneId);
+    }
+}
+
+// Fills a waitlist with thousands of members in a few transactions, for gas benchmarks
+contract WaitlistFiller {
+    IWaitlistManager public immutable waitlistManager;
+    WaitlistJoiner[] public joiners;
+
+    constructor(IWaitlistManager _waitlistManager) {
+        waitlistManager = _waitlistManager;
+    }
+
+    function fill(uint256 eventId, uint256 zoneId, uint256 count) external {
+        for (uint256 i = 0; i < count; i++) {
+            joiners.push(new WaitlistJoiner(waitlistManager, eventId, zoneId));
+        }
+    }
+
+    // Makes joiners [from, to) leave again
+    function drain(uint256 eventId, uint256 zoneId, uint256 from, uint256 to) external {
+        for (uint256 i = from; i < to; i++) {
+            joiners[i].leave(waitlistManager, eventId, zoneId);
+        }
+    }
+
+    function joinerCount() external view returns (uint256) {
+        return joiners.length;
+    }
+}
@@ -0,0 +1,104 @@
+// Deploys the full ticketing stack and wires the contracts together.
+// Per-network values (owner, admin delay, platform fees) live in ignition/parameters/<network>.json.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { id, ZeroHash } from "ethers";
+
+const DEFAULT_PLATFORM_FEE_PERCENTAGE = 5;
+const DEFAULT_RESALE_PLATFORM_FEE_BPS = 500;
+const DEFAULT_MAX_RESALE_ROYALTY_BPS = 1_000;
+const DEFAULT_ADMIN_DELAY = 2 * 24 * 60 * 60;
+
+// Granted to the timelock on every contract: wiring, fees, the treasury and sweeps wait out the delay
+const TIMELOCKED_ROLES = {
+  DEFAULT_ADMIN: ZeroHash,
+  PLATFORM_ADMIN: id("PLATFORM_ADMIN_ROLE"),
+};
+// Granted to the owner, so pausing and onboarding organizers, gate scanners and keepers stay immediate
+const OWNER_ROLES = {
+  OPERATOR: id("OPERATOR_ROLE"),
+  PAUSER: id("PAUSER_ROLE"),
+};
+
+const TicketingSystemModule = buildModule("TicketingSystemModule", (m) => {
+  const owner = m.getParameter<string>("owner");
+  const eventPlatformFee = m.getParameter("eventPlatformFeePercentage", DEFAULT_PLATFORM_FEE_PERCENTAGE);
+  const resalePlatformFee = m.getParameter("resalePlatformFeeBps", DEFAULT_RESALE_PLATFORM_FEE_BPS);
+  const maxResaleRoyalty = m.getParameter("maxResaleRoyaltyBps", DEFAULT_MAX_RESALE_ROYALTY_BPS);
+  const adminDelay = m.getParameter("adminDelay", DEFAULT_ADMIN_DELAY);
+
+  // Contracts, in dependency order
+  const waitlistManager = m.contract("WaitlistManager");
+  const ticketFactory = m.contract("TicketFactory", [waitlistManager]);
+  const eventManager = m.contract("EventManager", [], {
+    libraries: {
+      ZonePricing: m.library("ZonePricing"),
+      ZoneCapacity: m.library("ZoneCapacity"),
+      EventRevenue: m.library("EventRevenue"),
+    },
+  });
+  const refundEscrow = m.contract("RefundEscrow", [eventManager]);
+  const conditionalFundsEscrow = m.contract("ConditionalFundsEscrow", [eventManager]);
+  const resaleManager = m.contract("ResaleManager", [ticketFactory]);
+  const presaleManager = m.contract("PresaleManager", [eventManager]);
+  // The owner (typically a multisig) proposes and executes admin changes through it
+  const platformTimelock = m.contract("PlatformTimelock", [adminDelay, [owner], [owner]]);
+
+  // Wiring
+  const wiring = [
+    m.call(eventManager, "setRefundEscrow", [refundEscrow]),
+    m.call(ticketFactory, "setWaitlistManager", [waitlistManager]),
+    m.call(ticketFactory, "setEventManager", [eventManager]),
+    m.call(eventManager, "setTicketFactory", [ticketFactory]),
+    m.call(resaleManager, "setTicketFactory", [ticketFactory]),
+    // Holder-to-holder moves are only allowed through the ResaleManager
+    m.call(ticketFactory, "setResaleManager", [resaleManager]),
+    // Refunded seats and new resale listings are offered to the zone's waitlist first
+    m.call(waitlistManager, "setEventManager", [eventManager]),
+    m.call(waitlistManager, "setResaleManager", [resaleManager]),
+    m.call(eventManager, "setWaitlistManager", [waitlistManager]),
+    m.call(resaleManager, "setWaitlistManager", [waitlistManager]),
+    // Events that charge a waitlist deposit hold it in ConditionalFundsEscrow
+    m.call(waitlistManager, "setFundsEscrow", [conditionalFundsEscrow]),
+    m.call(conditionalFundsEscrow, "setWaitlistManager", [waitlistManager]),
+    // Presale allowlists and promo codes are checked on every purchase
+    m.call(eventManager, "setPresaleManager", [presaleManager]),
+    m.call(eventManager, "setPlatformFeePercentage", [eventPlatformFee]),
+    m.call(eventManager, "setResalePlatformFee", [resalePlatformFee]),
+    m.call(eventManager, "setMaxResaleRoyalty", [maxResaleRoyalty]),
+  ];
+
+  // The timelock gets the admin roles and the owner the operator and pauser roles and the treasury.
+  // The deployer keeps its roles until scripts/deploy.ts renounces them, so the wiring calls go through
+  const contracts = {
+    WaitlistManager: waitlistManager,
+    TicketFactory: ticketFactory,
+    EventManager: eventManager,
+    RefundEscrow: refundEscrow,
+    ConditionalFundsEscrow: conditionalFundsEscrow,
+    ResaleManager: resaleManager,
+    PresaleManager: presaleManager,
+  };
+  for (const [name, contract] of Object.entries(contracts)) {
+    for (const [roleName, role] of Object.entries(TIMELOCKED_ROLES)) {
+      m.call(contract, "grantRole", [role, platformTimelock], { id: `${name}_grant_${roleName}`, after: wiring });
+    }
+    for (const [roleName, role] of Object.entries(OWNER_ROLES)) {
+      m.call(contract, "grantRole", [role, owner], { id: `${name}_grant_${roleName}`, after: wiring });
+    }
+  }
+  m.call(eventManager, "setTreasury", [owner], { after: wiring });
+
+  return {
+    waitlistManager,
+    ticketFactory,
+    eventManager,
+    refundEscrow,
+    conditionalFundsEscrow,
+    resaleManager,
+    presaleManager,
+    platformTimelock,
+  };
+});
+
+export default TicketingSystemModule;
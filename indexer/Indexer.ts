@@ -0,0 +1,205 @@
+import { Interface, Log, Provider } from "ethers";
+import {
+  EventManager__factory,
+  RefundEscrow__factory,
+  ResaleManager__factory,
+  TicketFactory__factory,
+  WaitlistManager__factory,
+} from "../typechain-types";
+import type { TicketingAddresses } from "../sdk/types";
+import { applyLog } from "./projection";
+import type { IndexedLog, IndexerStore } from "./store";
+
+type IndexedContract = Exclude<
+  keyof TicketingAddresses,
+  "ConditionalFundsEscrow" | "PresaleManager" | "PlatformTimelock"
+>;
+
+const INTERFACES: Record<IndexedContract, Interface> = {
+  EventManager: EventManager__factory.createInterface(),
+  TicketFactory: TicketFactory__factory.createInterface(),
+  ResaleManager: ResaleManager__factory.createInterface(),
+  WaitlistManager: WaitlistManager__factory.createInterface(),
+  RefundEscrow: RefundEscrow__factory.createInterface(),
+};
+
+// Times a range is re-read when the chain reorganizes underneath it
+const MAX_RANGE_ATTEMPTS = 3;
+
+export interface IndexerOptions {
+  /** First block to index when the store is empty */
+  startBlock?: number;
+  /** Blocks requested per eth_getLogs call */
+  batchSize?: number;
+  /** Blocks to stay behind the chain head */
+  confirmations?: number;
+  pollIntervalMs?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  logs: number;
+  /** Block the store was rolled back to, when a reorg was detected */
+  reorgedTo?: number;
+}
+
+/**
+ * Follows a JSON-RPC node and projects the ticketing contracts' logs into SQLite.
+ *
+ * Every indexed range records the hash of its last block (and of each block that
+ * produced logs). Before indexing further, the stored hash of the cursor block is
+ * compared against the node; on mismatch the indexer walks back to the newest
+ * block whose hash still matches, drops everything above it and replays the
+ * surviving logs to rebuild the projection.
+ */
+export class Indexer {
+  private readonly contractsByAddress: Map<string, IndexedContract>;
+  private readonly options: Required<IndexerOptions>;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly store: IndexerStore,
+    addresses: TicketingAddresses,
+    options: IndexerOptions = {}
+  ) {
+    this.contractsByAddress = new Map(
+      (Object.keys(INTERFACES) as IndexedContract[]).map((name) => [addresses[name].toLowerCase(), name])
+    );
+    this.options = {
+      startBlock: options.startBlock ?? 0,
+      batchSize: options.batchSize ?? 2_000,
+      confirmations: options.confirmations ?? 0,
+      pollIntervalMs: options.pollIntervalMs ?? 2_000,
+    };
+  }
+
+  /** Indexes up to the current head (minus confirmations) and returns what was processed. */
+  async sync(): Promise<SyncResult> {
+    const reorgedTo = await this.detectReorg();
+    const head = (await this.provider.getBlockNumber()) - this.options.confirmations;
+    const last = this.store.getLastProcessedBlock();
+    const fromBlock = last === undefined ? this.options.startBlock : last + 1;
+
+    let logs = 0;
+    for (let start = fromBlock; start <= head; start += this.options.batchSize) {
+      const end = Math.min(start + this.options.batchSize - 1, head);
+      logs += await this.indexRange(start, end);
+    }
+
+    return { fromBlock, toBlock: Math.max(head, fromBlock - 1), logs, reorgedTo };
+  }
+
+  start(onError: (error: unknown) => void = console.error): void {
+    const tick = async () => {
+      try {
+        await this.sync();
+      } catch (error) {
+        onError(error);
+      }
+      this.timer = setTimeout(tick, this.options.pollIntervalMs);
+    };
+    void tick();
+  }
+
+  stop(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number): Promise<number> {
+    for (let attempt = 1; ; attempt++) {
+      const endHash = await this.getBlockHash(toBlock);
+      const rawLogs = await this.provider.getLogs({
+        address: [...this.contractsByAddress.keys()],
+        fromBlock,
+        toBlock,
+      });
+      // A reorg between the two reads would record a hash that does not match these logs
+      if ((await this.getBlockHash(toBlock)) !== endHash) {
+        if (attempt === MAX_RANGE_ATTEMPTS) {
+          throw new Error(`Block ${toBlock} kept changing while indexing blocks ${fromBlock}-${toBlock}`);
+        }
+        continue;
+      }
+
+      const decoded = rawLogs
+        .map((log) => this.decode(log))
+        .filter((log): log is IndexedLog => log !== undefined);
+
+      this.store.transaction(() => {
+        for (const log of decoded) {
+          this.store.insertLog(log);
+          this.store.recordBlock(log.blockNumber, log.blockHash);
+          applyLog(this.store, log);
+        }
+        this.store.recordBlock(toBlock, endHash);
+        this.store.setLastProcessedBlock(toBlock);
+      });
+
+      return decoded.length;
+    }
+  }
+
+  private async getBlockHash(blockNumber: number): Promise<string> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (block === null || block.hash === null) {
+      throw new Error(`Node did not return block ${blockNumber}`);
+    }
+    return block.hash;
+  }
+
+  private decode(log: Log): IndexedLog | undefined {
+    const contract = this.contractsByAddress.get(log.address.toLowerCase());
+    if (contract === undefined) return undefined;
+
+    const parsed = INTERFACES[contract].parseLog(log);
+    if (parsed === null) return undefined;
+
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name] = String(parsed.args[i]);
+    });
+
+    return {
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      contract,
+      name: parsed.name,
+      args,
+    };
+  }
+
+  private async detectReorg(): Promise<number | undefined> {
+    const last = this.store.getLastProcessedBlock();
+    if (last === undefined) return undefined;
+
+    for (const recorded of this.store.getRecordedBlocks(last)) {
+      const block = await this.provider.getBlock(recorded.number);
+      if (block !== null && block.hash === recorded.hash) {
+        if (recorded.number === last) return undefined;
+        this.rollback(recorded.number);
+        return recorded.number;
+      }
+    }
+
+    // Nothing we recorded survives: start over
+    const restart = this.options.startBlock - 1;
+    this.rollback(restart);
+    return restart;
+  }
+
+  private rollback(blockNumber: number): void {
+    this.store.transaction(() => {
+      this.store.rollbackTo(blockNumber);
+      for (const log of this.store.getLogs()) {
+        applyLog(this.store, log);
+      }
+    });
+  }
+}
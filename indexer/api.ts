@@ -0,0 +1,86 @@
+import http from "http";
+import { isAddress } from "ethers";
+import type { IndexerStore } from "./store";
+
+type Route = {
+  pattern: RegExp;
+  handle: (store: IndexerStore, params: string[]) => unknown;
+};
+
+class NotFound extends Error {}
+class BadRequest extends Error {}
+
+function requireAddress(value: string): string {
+  if (!isAddress(value)) throw new BadRequest(`"${value}" is not a valid address`);
+  return value;
+}
+
+const ROUTES: Route[] = [
+  {
+    pattern: /^\/status$/,
+    handle: (store) => ({ lastProcessedBlock: store.getLastProcessedBlock() ?? null }),
+  },
+  {
+    pattern: /^\/events$/,
+    handle: (store) => store.getEvents(),
+  },
+  {
+    pattern: /^\/events\/(\d+)$/,
+    handle: (store, [eventId]) => {
+      const event = store.getEvent(eventId);
+      if (event === undefined) throw new NotFound(`Event ${eventId} has not been indexed`);
+      return { ...(event as object), payments: store.getEventPayments(eventId) };
+    },
+  },
+  {
+    pattern: /^\/events\/(\d+)\/listings$/,
+    handle: (store, [eventId]) => store.getActiveListings(eventId),
+  },
+  {
+    pattern: /^\/events\/(\d+)\/zones\/(\d+)\/waitlist$/,
+    handle: (store, [eventId, zoneId]) => store.getWaitlist(eventId, zoneId),
+  },
+  {
+    pattern: /^\/listings$/,
+    handle: (store) => store.getActiveListings(),
+  },
+  {
+    pattern: /^\/accounts\/(0x[0-9a-fA-F]{40})\/tickets$/,
+    handle: (store, [address]) => store.getTicketsByOwner(requireAddress(address)),
+  },
+  {
+    pattern: /^\/accounts\/(0x[0-9a-fA-F]{40})\/purchases$/,
+    handle: (store, [address]) => store.getPurchasesByBuyer(requireAddress(address)),
+  },
+];
+
+function send(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/** Read-only JSON API over the indexer's projection. */
+export function createApiServer(store: IndexerStore): http.Server {
+  return http.createServer((req, res) => {
+    if (req.method !== "GET") {
+      send(res, 405, { error: "Only GET is supported" });
+      return;
+    }
+
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    for (const route of ROUTES) {
+      const match = pathname.match(route.pattern);
+      if (match === null) continue;
+      try {
+        send(res, 200, route.handle(store, match.slice(1)));
+      } catch (error) {
+        if (error instanceof NotFound) send(res, 404, { error: error.message });
+        else if (error instanceof BadRequest) send(res, 400, { error: error.message });
+        else send(res, 500, { error: "Internal error" });
+      }
+      return;
+    }
+
+    send(res, 404, { error: `No route for ${pathname}` });
+  });
+}
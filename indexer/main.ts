@@ -0,0 +1,45 @@
+// Runs the indexer against a JSON-RPC node and serves the query API.
+//
+//   npx ts-node indexer/main.ts --network localhost --rpc http://127.0.0.1:8545 --db indexer.sqlite --port 4000
+
+import { JsonRpcProvider } from "ethers";
+import { loadManifest } from "../scripts/manifest";
+import { createApiServer } from "./api";
+import { Indexer } from "./Indexer";
+import { IndexerStore } from "./store";
+
+function option(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] !== undefined ? process.argv[index + 1] : fallback;
+}
+
+async function main() {
+  const network = option("network", "localhost");
+  const rpcUrl = option("rpc", "http://127.0.0.1:8545");
+  const dbPath = option("db", "indexer.sqlite");
+  const port = Number(option("port", "4000"));
+  const confirmations = Number(option("confirmations", "0"));
+
+  const manifest = loadManifest(network);
+  const provider = new JsonRpcProvider(rpcUrl);
+  const store = new IndexerStore(dbPath);
+  const indexer = new Indexer(provider, store, manifest.contracts, { confirmations });
+
+  const server = createApiServer(store);
+  server.listen(port, () => console.log(`Indexer API listening on http://localhost:${port}`));
+  indexer.start((error) => console.error("Indexer sync failed:", error));
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close();
+    store.close();
+    provider.destroy();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,141 @@
+import { ZeroAddress } from "ethers";
+import type { IndexedLog, IndexerStore } from "./store";
+
+type Handler = (store: IndexerStore, log: IndexedLog) => void;
+
+const lower = (address: string) => address.toLowerCase();
+
+function setListingInactive(store: IndexerStore, tokenId: string, marketplace?: string): void {
+  if (marketplace === undefined) {
+    store.db.prepare("UPDATE listings SET active = 0 WHERE token_id = ?").run(tokenId);
+  } else {
+    store.db.prepare("UPDATE listings SET active = 0 WHERE token_id = ? AND marketplace = ?").run(tokenId, marketplace);
+  }
+}
+
+function upsertListing(store: IndexerStore, log: IndexedLog, marketplace: string, seller: string): void {
+  store.db
+    .prepare(
+      `INSERT INTO listings (token_id, marketplace, seller, price, active, listed_block) VALUES (?, ?, ?, ?, 1, ?)
+       ON CONFLICT(token_id, marketplace) DO UPDATE SET
+         seller = excluded.seller, price = excluded.price, active = 1, listed_block = excluded.listed_block`
+    )
+    .run(log.args.tokenId, marketplace, lower(seller), log.args.price, log.blockNumber);
+}
+
+function setWaitlistStatus(store: IndexerStore, log: IndexedLog, status: string): void {
+  store.db
+    .prepare("UPDATE waitlist SET status = ? WHERE event_id = ? AND zone_id = ? AND user = ?")
+    .run(status, log.args.eventId, log.args.zoneId, lower(log.args.user));
+}
+
+const HANDLERS: Record<string, Handler> = {
+  "EventManager.EventCreated": (store, log) => {
+    store.db
+      .prepare("INSERT OR REPLACE INTO events (event_id, name, date, organizer, created_block) VALUES (?, ?, ?, ?, ?)")
+      .run(log.args.eventId, log.args.name, log.args.date, lower(log.args.organizer), log.blockNumber);
+  },
+
+  "EventManager.EventRescheduled": (store, log) => {
+    store.db.prepare("UPDATE events SET date = ? WHERE event_id = ?").run(log.args.newDate, log.args.eventId);
+  },
+
+  "EventManager.EventCancelled": (store, log) => {
+    store.db.prepare("UPDATE events SET cancelled = 1 WHERE event_id = ?").run(log.args.eventId);
+  },
+
+  "EventManager.TicketPurchased": (store, log) => {
+    store.db
+      .prepare("INSERT OR IGNORE INTO purchases (event_id, ticket_id, buyer, block_number) VALUES (?, ?, ?, ?)")
+      .run(log.args.eventId, log.args.ticketId, lower(log.args.buyer), log.blockNumber);
+    store.db.prepare("UPDATE events SET tickets_sold = tickets_sold + 1 WHERE event_id = ?").run(log.args.eventId);
+  },
+
+  "EventManager.TicketRefunded": (store, log) => {
+    store.db.prepare("UPDATE events SET tickets_sold = tickets_sold - 1 WHERE event_id = ?").run(log.args.eventId);
+  },
+
+  // ERC-721 Transfer is emitted before TicketMinted, so either may create the row
+  "TicketFactory.Transfer": (store, log) => {
+    store.db
+      .prepare(
+        `INSERT INTO tickets (token_id, event_id, owner, price, minted_block) VALUES (?, '', ?, '0', ?)
+         ON CONFLICT(token_id) DO UPDATE SET owner = excluded.owner`
+      )
+      .run(log.args.tokenId, lower(log.args.to), log.blockNumber);
+    if (log.args.from !== ZeroAddress) {
+      setListingInactive(store, log.args.tokenId);
+    }
+  },
+
+  "TicketFactory.TicketMinted": (store, log) => {
+    store.db
+      .prepare(
+        `INSERT INTO tickets (token_id, event_id, zone_id, owner, price, minted_block) VALUES (?, ?, ?, '', ?, ?)
+         ON CONFLICT(token_id) DO UPDATE SET event_id = excluded.event_id, zone_id = excluded.zone_id, price = excluded.price`
+      )
+      .run(log.args.tokenId, log.args.eventId, log.args.zoneId, log.args.price, log.blockNumber);
+  },
+
+  "TicketFactory.TicketUsed": (store, log) => {
+    store.db.prepare("UPDATE tickets SET used = 1 WHERE token_id = ?").run(log.args.tokenId);
+    setListingInactive(store, log.args.tokenId);
+  },
+
+  "ResaleManager.TicketListed": (store, log) => {
+    upsertListing(store, log, "ResaleManager", log.args.seller);
+  },
+
+  "ResaleManager.TicketUnlisted": (store, log) => {
+    setListingInactive(store, log.args.tokenId, "ResaleManager");
+  },
+
+  "ResaleManager.TicketResold": (store, log) => {
+    setListingInactive(store, log.args.tokenId, "ResaleManager");
+  },
+
+  "WaitlistManager.JoinedWaitlist": (store, log) => {
+    store.db
+      .prepare(
+        `INSERT INTO waitlist (event_id, zone_id, user, status, joined_block) VALUES (?, ?, ?, 'waiting', ?)
+         ON CONFLICT(event_id, zone_id, user) DO UPDATE SET status = 'waiting', joined_block = excluded.joined_block`
+      )
+      .run(log.args.eventId, log.args.zoneId, lower(log.args.user), log.blockNumber);
+  },
+
+  "WaitlistManager.LeftWaitlist": (store, log) => setWaitlistStatus(store, log, "left"),
+  "WaitlistManager.WaitlistPurchaseOffered": (store, log) => setWaitlistStatus(store, log, "offered"),
+  "WaitlistManager.WaitlistPurchaseCompleted": (store, log) => setWaitlistStatus(store, log, "completed"),
+  // A lapsed offer takes the user off the waitlist; a withdrawn one puts them back in line
+  "WaitlistManager.WaitlistOfferExpired": (store, log) => setWaitlistStatus(store, log, "expired"),
+  "WaitlistManager.WaitlistOfferWithdrawn": (store, log) => setWaitlistStatus(store, log, "waiting"),
+
+  "RefundEscrow.PaymentDeposited": (store, log) => {
+    store.db
+      .prepare("INSERT OR IGNORE INTO payments (event_id, payer, amount, block_number, log_index) VALUES (?, ?, ?, ?, ?)")
+      .run(log.args.eventId, lower(log.args.payer), log.args.amount, log.blockNumber, log.logIndex);
+  },
+
+  "RefundEscrow.EventCancellationRefunded": (store, log) => {
+    store.db
+      .prepare("INSERT OR IGNORE INTO refunds (event_id, ticket_id, amount, kind, block_number) VALUES (?, ?, ?, 'event_cancelled', ?)")
+      .run(log.args.eventId, log.args.ticketId, log.args.refundAmount, log.blockNumber);
+  },
+
+  "RefundEscrow.RescheduleRefunded": (store, log) => {
+    store.db
+      .prepare("INSERT OR IGNORE INTO refunds (event_id, ticket_id, amount, kind, block_number) VALUES (?, ?, ?, 'event_rescheduled', ?)")
+      .run(log.args.eventId, log.args.ticketId, log.args.refundAmount, log.blockNumber);
+  },
+
+  "RefundEscrow.TicketCancelled": (store, log) => {
+    store.db
+      .prepare("INSERT OR IGNORE INTO refunds (event_id, ticket_id, amount, kind, block_number) VALUES (?, ?, ?, 'ticket_cancelled', ?)")
+      .run(log.args.eventId, log.args.ticketId, log.args.refundAmount, log.blockNumber);
+  },
+};
+
+/** Applies one decoded log to the projection. Logs without a handler are kept in `logs` only. */
+export function applyLog(store: IndexerStore, log: IndexedLog): void {
+  HANDLERS[`${log.contract}.${log.name}`]?.(store, log);
+}
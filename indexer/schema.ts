@@ -0,0 +1,93 @@
+// Amounts and IDs are stored as decimal TEXT so uint256 values never lose precision.
+export const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS logs (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  contract TEXT NOT NULL,
+  name TEXT NOT NULL,
+  args TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+
+CREATE TABLE IF NOT EXISTS events (
+  event_id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  date TEXT NOT NULL,
+  organizer TEXT NOT NULL,
+  cancelled INTEGER NOT NULL DEFAULT 0,
+  tickets_sold INTEGER NOT NULL DEFAULT 0,
+  created_block INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS purchases (
+  event_id TEXT NOT NULL,
+  ticket_id TEXT NOT NULL,
+  buyer TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  PRIMARY KEY (event_id, ticket_id)
+);
+
+CREATE TABLE IF NOT EXISTS tickets (
+  token_id TEXT PRIMARY KEY,
+  event_id TEXT NOT NULL,
+  zone_id TEXT NOT NULL DEFAULT '',
+  owner TEXT NOT NULL,
+  price TEXT NOT NULL,
+  used INTEGER NOT NULL DEFAULT 0,
+  minted_block INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS tickets_by_owner ON tickets (owner);
+CREATE INDEX IF NOT EXISTS tickets_by_event ON tickets (event_id);
+
+CREATE TABLE IF NOT EXISTS listings (
+  token_id TEXT NOT NULL,
+  marketplace TEXT NOT NULL,
+  seller TEXT NOT NULL,
+  price TEXT NOT NULL,
+  active INTEGER NOT NULL,
+  listed_block INTEGER NOT NULL,
+  PRIMARY KEY (token_id, marketplace)
+);
+
+CREATE TABLE IF NOT EXISTS waitlist (
+  event_id TEXT NOT NULL,
+  zone_id TEXT NOT NULL,
+  user TEXT NOT NULL,
+  status TEXT NOT NULL,
+  joined_block INTEGER NOT NULL,
+  PRIMARY KEY (event_id, zone_id, user)
+);
+
+CREATE TABLE IF NOT EXISTS payments (
+  event_id TEXT NOT NULL,
+  payer TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+
+CREATE TABLE IF NOT EXISTS refunds (
+  event_id TEXT NOT NULL,
+  ticket_id TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  PRIMARY KEY (event_id, ticket_id, kind)
+);
+`;
+
+/** Tables rebuilt from `logs` after a reorg. */
+export const PROJECTION_TABLES = ["events", "purchases", "tickets", "listings", "waitlist", "payments", "refunds"];
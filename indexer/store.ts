@@ -0,0 +1,181 @@
+import Database from "better-sqlite3";
+import { PROJECTION_TABLES, SCHEMA } from "./schema";
+
+export interface IndexedLog {
+  blockNumber: number;
+  logIndex: number;
+  blockHash: string;
+  transactionHash: string;
+  contract: string;
+  name: string;
+  args: Record<string, string>;
+}
+
+export interface TicketRow {
+  token_id: string;
+  event_id: string;
+  zone_id: string;
+  owner: string;
+  price: string;
+  used: number;
+  minted_block: number;
+}
+
+export interface ListingRow {
+  token_id: string;
+  event_id: string | null;
+  marketplace: string;
+  seller: string;
+  price: string;
+  listed_block: number;
+}
+
+export class IndexerStore {
+  readonly db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  // Cursor and block hashes
+
+  getLastProcessedBlock(): number | undefined {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = 'last_block'").get() as { value: string } | undefined;
+    return row === undefined ? undefined : Number(row.value);
+  }
+
+  setLastProcessedBlock(blockNumber: number): void {
+    this.db
+      .prepare("INSERT INTO meta (key, value) VALUES ('last_block', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value")
+      .run(String(blockNumber));
+  }
+
+  recordBlock(blockNumber: number, hash: string): void {
+    this.db
+      .prepare("INSERT INTO blocks (number, hash) VALUES (?, ?) ON CONFLICT(number) DO UPDATE SET hash = excluded.hash")
+      .run(blockNumber, hash);
+  }
+
+  getBlockHash(blockNumber: number): string | undefined {
+    const row = this.db.prepare("SELECT hash FROM blocks WHERE number = ?").get(blockNumber) as { hash: string } | undefined;
+    return row?.hash;
+  }
+
+  /** Recorded blocks at or below `blockNumber`, newest first. */
+  getRecordedBlocks(blockNumber: number): { number: number; hash: string }[] {
+    return this.db
+      .prepare("SELECT number, hash FROM blocks WHERE number <= ? ORDER BY number DESC")
+      .all(blockNumber) as { number: number; hash: string }[];
+  }
+
+  // Raw logs
+
+  insertLog(log: IndexedLog): void {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO logs (block_number, log_index, block_hash, transaction_hash, contract, name, args)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        log.blockNumber,
+        log.logIndex,
+        log.blockHash,
+        log.transactionHash,
+        log.contract,
+        log.name,
+        JSON.stringify(log.args)
+      );
+  }
+
+  getLogs(): IndexedLog[] {
+    const rows = this.db.prepare("SELECT * FROM logs ORDER BY block_number, log_index").all() as {
+      block_number: number;
+      log_index: number;
+      block_hash: string;
+      transaction_hash: string;
+      contract: string;
+      name: string;
+      args: string;
+    }[];
+    return rows.map((row) => ({
+      blockNumber: row.block_number,
+      logIndex: row.log_index,
+      blockHash: row.block_hash,
+      transactionHash: row.transaction_hash,
+      contract: row.contract,
+      name: row.name,
+      args: JSON.parse(row.args),
+    }));
+  }
+
+  /** Drops every log and block hash above `blockNumber` and empties the projection tables. */
+  rollbackTo(blockNumber: number): void {
+    this.db.prepare("DELETE FROM logs WHERE block_number > ?").run(blockNumber);
+    this.db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+    for (const table of PROJECTION_TABLES) {
+      this.db.exec(`DELETE FROM ${table}`);
+    }
+    this.setLastProcessedBlock(blockNumber);
+  }
+
+  // Queries served by the API
+
+  getEvents(): unknown[] {
+    return this.db.prepare("SELECT * FROM events ORDER BY CAST(event_id AS INTEGER)").all();
+  }
+
+  getEvent(eventId: string): unknown {
+    return this.db.prepare("SELECT * FROM events WHERE event_id = ?").get(eventId);
+  }
+
+  getTicketsByOwner(owner: string): TicketRow[] {
+    return this.db
+      .prepare("SELECT * FROM tickets WHERE owner = ? ORDER BY CAST(token_id AS INTEGER)")
+      .all(owner.toLowerCase()) as TicketRow[];
+  }
+
+  getPurchasesByBuyer(buyer: string): unknown[] {
+    return this.db
+      .prepare("SELECT * FROM purchases WHERE buyer = ? ORDER BY block_number")
+      .all(buyer.toLowerCase());
+  }
+
+  getActiveListings(eventId?: string): ListingRow[] {
+    const base = `SELECT l.token_id, t.event_id, l.marketplace, l.seller, l.price, l.listed_block
+                  FROM listings l LEFT JOIN tickets t ON t.token_id = l.token_id
+                  WHERE l.active = 1`;
+    const order = " ORDER BY CAST(l.token_id AS INTEGER)";
+    return (
+      eventId === undefined
+        ? this.db.prepare(base + order).all()
+        : this.db.prepare(base + " AND t.event_id = ?" + order).all(eventId)
+    ) as ListingRow[];
+  }
+
+  getWaitlist(eventId: string, zoneId: string): unknown[] {
+    return this.db
+      .prepare(
+        `SELECT user, status, joined_block FROM waitlist
+         WHERE event_id = ? AND zone_id = ? AND status IN ('waiting', 'offered')
+         ORDER BY joined_block`
+      )
+      .all(eventId, zoneId);
+  }
+
+  getEventPayments(eventId: string): { deposited: string; refunded: string } {
+    const deposits = this.db.prepare("SELECT amount FROM payments WHERE event_id = ?").all(eventId) as { amount: string }[];
+    const refunds = this.db.prepare("SELECT amount FROM refunds WHERE event_id = ?").all(eventId) as { amount: string }[];
+    const sum = (rows: { amount: string }[]) => rows.reduce((total, row) => total + BigInt(row.amount), 0n).toString();
+    return { deposited: sum(deposits), refunded: sum(refunds) };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
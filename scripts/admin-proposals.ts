@@ -0,0 +1,145 @@
+import fs from "fs";
+import hre from "hardhat";
+import { hexlify, isHexString, randomBytes, ZeroHash } from "ethers";
+import { loadManifest } from "./manifest";
+import {
+  AdminContract,
+  TimelockTransaction,
+  buildAdminProposal,
+  cancelTransaction,
+  decodeAdminCall,
+  describeAdminCall,
+  encodeAdminCall,
+  executeTransaction,
+  getAdminProposals,
+  scheduleTransaction,
+} from "../sdk";
+
+// Usage:
+//   PROPOSAL=calls.json [SALT=0x...] [PREDECESSOR=0x...] [DELAY=<seconds>] [SUBMIT=true] \
+//     npx hardhat run scripts/admin-proposals.ts --network <network>
+//   [FROM_BLOCK=0] npx hardhat run scripts/admin-proposals.ts --network <network>
+//   EXECUTE=<proposal id> | CANCEL=<proposal id> npx hardhat run scripts/admin-proposals.ts --network <network>
+//
+// The PlatformTimelock holds the admin roles, so admin changes are proposed, wait out the delay
+// and are then executed. With PROPOSAL this builds a proposal from a JSON list of calls, e.g.
+//   [{ "contract": "EventManager", "function": "setRefundEscrow", "args": ["0x..."] }]
+// prints every call decoded back from its calldata, and the schedule and execute transactions
+// to submit from the proposer (usually a multisig). SUBMIT=true schedules it from the first signer.
+// Without PROPOSAL it lists every proposal on the timelock, decoded, with its state.
+// EXECUTE and CANCEL look the proposal up on chain and send the transaction from the first signer.
+interface ProposedCall {
+  contract: AdminContract;
+  function: string;
+  args?: unknown[];
+  value?: string;
+}
+
+function parseBytes32(value: string | undefined, name: string, fallback: string): string {
+  if (value === undefined) return fallback;
+  if (!isHexString(value, 32)) {
+    throw new Error(`${name} must be a 32 byte hex string, got "${value}"`);
+  }
+  return value;
+}
+
+function printTransaction(label: string, tx: TimelockTransaction) {
+  console.log(`${label}:`);
+  console.log(`  to:    ${tx.to}`);
+  console.log(`  value: ${tx.value}`);
+  console.log(`  data:  ${tx.data}`);
+}
+
+async function propose(file: string) {
+  const manifest = loadManifest(hre.network.name);
+  const timelock = await hre.ethers.getContractAt("PlatformTimelock", manifest.contracts.PlatformTimelock);
+  const proposed = JSON.parse(fs.readFileSync(file, "utf8")) as ProposedCall[];
+  const calls = proposed.map((call) =>
+    encodeAdminCall(manifest.contracts, call.contract, call.function, call.args ?? [], call.value ?? 0n)
+  );
+  // A random salt lets the same calls be proposed again once executed or cancelled
+  const proposal = buildAdminProposal(calls, {
+    predecessor: parseBytes32(process.env.PREDECESSOR, "PREDECESSOR", ZeroHash),
+    salt: parseBytes32(process.env.SALT, "SALT", hexlify(randomBytes(32))),
+  });
+
+  const minDelay = await timelock.getMinDelay();
+  const delay = process.env.DELAY === undefined ? minDelay : BigInt(process.env.DELAY);
+  if (delay < minDelay) {
+    throw new Error(`DELAY must be at least the timelock's minimum delay of ${minDelay}s`);
+  }
+  if ((await timelock.getOperationState(proposal.id)) !== 0n) {
+    throw new Error(`Proposal ${proposal.id} is already on the timelock; pick another SALT`);
+  }
+
+  console.log(`Proposal ${proposal.id}`);
+  console.log(`  salt:        ${proposal.salt}`);
+  console.log(`  predecessor: ${proposal.predecessor}`);
+  console.log(`  delay:       ${delay}s`);
+  proposal.calls.forEach((call, i) => {
+    console.log(`  ${i + 1}. ${describeAdminCall(decodeAdminCall(manifest.contracts, call))}`);
+  });
+  const schedule = scheduleTransaction(await timelock.getAddress(), proposal, delay);
+  printTransaction("Schedule", schedule);
+  printTransaction(`Execute (once ${delay}s have passed)`, executeTransaction(await timelock.getAddress(), proposal));
+
+  if (process.env.SUBMIT === "true") {
+    const [signer] = await hre.ethers.getSigners();
+    const tx = await signer.sendTransaction(schedule);
+    await tx.wait();
+    console.log(`Scheduled from ${signer.address} in ${tx.hash}`);
+  }
+}
+
+async function list(fromBlock: number) {
+  const manifest = loadManifest(hre.network.name);
+  const timelock = await hre.ethers.getContractAt("PlatformTimelock", manifest.contracts.PlatformTimelock);
+  const proposals = await getAdminProposals(timelock, manifest.contracts, fromBlock);
+  console.log(`${proposals.length} proposal(s) on PlatformTimelock ${manifest.contracts.PlatformTimelock}`);
+  for (const proposal of proposals) {
+    const readyAt = proposal.readyAt > 0n ? `, ready at ${new Date(Number(proposal.readyAt) * 1000).toISOString()}` : "";
+    console.log(`${proposal.id} ${proposal.state}${readyAt}`);
+    proposal.calls.forEach((call, i) => console.log(`  ${i + 1}. ${describeAdminCall(call)}`));
+  }
+}
+
+async function resolve(id: string, action: "EXECUTE" | "CANCEL") {
+  const manifest = loadManifest(hre.network.name);
+  const [signer] = await hre.ethers.getSigners();
+  const timelock = await hre.ethers.getContractAt("PlatformTimelock", manifest.contracts.PlatformTimelock, signer);
+  const proposals = await getAdminProposals(timelock, manifest.contracts, Number(process.env.FROM_BLOCK ?? "0"));
+  const proposal = proposals.find((candidate) => candidate.id === id.toLowerCase());
+  if (proposal === undefined) {
+    throw new Error(`${action}: no proposal ${id} on the timelock`);
+  }
+  const allowed = action === "EXECUTE" ? ["ready"] : ["pending", "ready"];
+  if (!allowed.includes(proposal.state)) {
+    throw new Error(`${action}: proposal ${id} is ${proposal.state}, expected ${allowed.join(" or ")}`);
+  }
+
+  proposal.calls.forEach((call, i) => console.log(`  ${i + 1}. ${describeAdminCall(call)}`));
+  const address = await timelock.getAddress();
+  const tx = await signer.sendTransaction(
+    action === "EXECUTE" ? executeTransaction(address, proposal) : cancelTransaction(address, id)
+  );
+  await tx.wait();
+  console.log(`${action === "EXECUTE" ? "Executed" : "Cancelled"} ${id} in ${tx.hash}`);
+}
+
+async function main() {
+  const { PROPOSAL, EXECUTE, CANCEL } = process.env;
+  if (PROPOSAL !== undefined) {
+    await propose(PROPOSAL);
+  } else if (EXECUTE !== undefined) {
+    await resolve(parseBytes32(EXECUTE, "EXECUTE", ZeroHash), "EXECUTE");
+  } else if (CANCEL !== undefined) {
+    await resolve(parseBytes32(CANCEL, "CANCEL", ZeroHash), "CANCEL");
+  } else {
+    await list(Number(process.env.FROM_BLOCK ?? "0"));
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
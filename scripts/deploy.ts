@@ -0,0 +1,52 @@
+import fs from "fs";
+import path from "path";
+import hre from "hardhat";
+import TicketingSystemModule from "../ignition/modules/TicketingSystem";
+import { PlatformRole, renounceRoles } from "../sdk";
+import { writeManifest } from "./manifest";
+
+async function main() {
+  const network = hre.network.name;
+  const parametersFile = path.join(__dirname, "..", "ignition", "parameters", `${network}.json`);
+  if (!fs.existsSync(parametersFile)) {
+    throw new Error(`Missing deployment parameters for network "${network}" at ${parametersFile}`);
+  }
+  const parameters = JSON.parse(fs.readFileSync(parametersFile, "utf8"));
+
+  const deployed = await hre.ignition.deploy(TicketingSystemModule, { parameters });
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const contracts = {
+    WaitlistManager: await deployed.waitlistManager.getAddress(),
+    TicketFactory: await deployed.ticketFactory.getAddress(),
+    EventManager: await deployed.eventManager.getAddress(),
+    RefundEscrow: await deployed.refundEscrow.getAddress(),
+    ConditionalFundsEscrow: await deployed.conditionalFundsEscrow.getAddress(),
+    ResaleManager: await deployed.resaleManager.getAddress(),
+    PresaleManager: await deployed.presaleManager.getAddress(),
+    PlatformTimelock: await deployed.platformTimelock.getAddress(),
+  };
+
+  // Admin changes only go through the timelock once the deployer gives up the roles it wired with.
+  // It keeps the operator and pauser roles only when it is also the owner.
+  const [deployer] = await hre.ethers.getSigners();
+  const isOwner = deployer.address.toLowerCase() === String(parameters.TicketingSystemModule.owner).toLowerCase();
+  const renounced: PlatformRole[] = ["PLATFORM_ADMIN", "DEFAULT_ADMIN"];
+  if (!isOwner) renounced.push("OPERATOR", "PAUSER");
+  await renounceRoles(deployer, contracts, renounced);
+  console.log(`Deployer ${deployer.address} renounced its admin roles; admin changes now go through the timelock`);
+
+  const file = writeManifest({
+    network,
+    chainId: Number(chainId),
+    deployedAt: new Date().toISOString(),
+    contracts,
+  });
+
+  console.log(`Ticketing system deployed to ${network} (chain ${chainId})`);
+  console.log(`Address manifest written to ${file}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
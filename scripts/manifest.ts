@@ -0,0 +1,40 @@
+import fs from "fs";
+import path from "path";
+
+export const MANIFEST_DIR = path.join(__dirname, "..", "deployments");
+
+export type ContractName =
+  | "WaitlistManager"
+  | "TicketFactory"
+  | "EventManager"
+  | "RefundEscrow"
+  | "ConditionalFundsEscrow"
+  | "ResaleManager"
+  | "PresaleManager"
+  | "PlatformTimelock";
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  deployedAt: string;
+  contracts: Record<ContractName, string>;
+}
+
+export function manifestPath(network: string): string {
+  return path.join(MANIFEST_DIR, `${network}.json`);
+}
+
+export function writeManifest(manifest: DeploymentManifest): string {
+  fs.mkdirSync(MANIFEST_DIR, { recursive: true });
+  const file = manifestPath(manifest.network);
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+  return file;
+}
+
+export function loadManifest(network: string): DeploymentManifest {
+  const file = manifestPath(network);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No deployment manifest for network "${network}" at ${file}. Run scripts/deploy.ts first.`);
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentManifest;
+}
@@ -0,0 +1,70 @@
+import hre from "hardhat";
+import { isAddress } from "ethers";
+import { loadManifest } from "./manifest";
+
+const IMPORT_BATCH_SIZE = 100;
+
+// Usage: PREVIOUS_RESALE_MANAGER=0x... [FROM_BLOCK=0] npx hardhat run scripts/migrate-resale-listings.ts --network <network>
+//
+// Run after deploying a new ResaleManager and recording it in deployments/<network>.json.
+// Points TicketFactory and WaitlistManager at the new manager, which also stops the old one
+// from moving tickets, then copies every listing that is still valid.
+async function main() {
+  const previous = process.env.PREVIOUS_RESALE_MANAGER;
+  if (previous === undefined || !isAddress(previous)) {
+    throw new Error("Set PREVIOUS_RESALE_MANAGER to the address of the ResaleManager being replaced");
+  }
+  const fromBlock = Number(process.env.FROM_BLOCK ?? "0");
+
+  const manifest = loadManifest(hre.network.name);
+  const [signer] = await hre.ethers.getSigners();
+  const ticketFactory = await hre.ethers.getContractAt("TicketFactory", manifest.contracts.TicketFactory, signer);
+  const resaleManager = await hre.ethers.getContractAt("ResaleManager", manifest.contracts.ResaleManager, signer);
+  const oldResaleManager = await hre.ethers.getContractAt("ResaleManager", previous);
+  const waitlistManager = await hre.ethers.getContractAt(
+    "WaitlistManager",
+    manifest.contracts.WaitlistManager,
+    signer
+  );
+
+  if ((await ticketFactory.resaleManager()) !== manifest.contracts.ResaleManager) {
+    const tx = await ticketFactory.setResaleManager(manifest.contracts.ResaleManager);
+    await tx.wait();
+    console.log(`TicketFactory now uses ResaleManager ${manifest.contracts.ResaleManager} (${tx.hash})`);
+  }
+
+  // New listings are offered to the waitlist first, so both sides need the new manager
+  if ((await waitlistManager.resaleManager()) !== manifest.contracts.ResaleManager) {
+    const tx = await waitlistManager.setResaleManager(manifest.contracts.ResaleManager);
+    await tx.wait();
+    console.log(`WaitlistManager now uses ResaleManager ${manifest.contracts.ResaleManager} (${tx.hash})`);
+  }
+  if ((await resaleManager.waitlistManager()) !== manifest.contracts.WaitlistManager) {
+    const tx = await resaleManager.setWaitlistManager(manifest.contracts.WaitlistManager);
+    await tx.wait();
+    console.log(`ResaleManager now offers listings to WaitlistManager ${manifest.contracts.WaitlistManager} (${tx.hash})`);
+  }
+
+  const listed = await oldResaleManager.queryFilter(oldResaleManager.filters.TicketListed(), fromBlock);
+  const tokenIds = [...new Set(listed.map((log) => log.args.tokenId))];
+  const candidates = [];
+  for (const tokenId of tokenIds) {
+    if (await oldResaleManager.isListingValid(tokenId)) candidates.push(tokenId);
+  }
+  console.log(`${candidates.length} of ${tokenIds.length} listed ticket(s) still have an active listing`);
+
+  let imported = 0n;
+  for (let i = 0; i < candidates.length; i += IMPORT_BATCH_SIZE) {
+    const batch = candidates.slice(i, i + IMPORT_BATCH_SIZE);
+    imported += await resaleManager.importListings.staticCall(previous, batch);
+    const tx = await resaleManager.importListings(previous, batch);
+    await tx.wait();
+    console.log(`  imported batch ${i / IMPORT_BATCH_SIZE + 1} in ${tx.hash}`);
+  }
+  console.log(`Imported ${imported} listing(s); the rest were stale and skipped`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,33 @@
+import fs from "fs";
+import { buildAllowlist, parseAllowlistCsv } from "../sdk/presale";
+
+// Usage: ALLOWLIST=buyers.csv [PROOFS_OUT=proofs.json] npx ts-node scripts/presale-allowlist.ts
+//
+// Builds the presale Merkle tree from a CSV of addresses and prints the root to pass to
+// `event:create --presale-root`. Writes each buyer's proof for
+// `purchaseTicketWithAccess` to PROOFS_OUT. Works offline; nothing is sent on-chain.
+function main() {
+  const file = process.env.ALLOWLIST;
+  if (file === undefined || !fs.existsSync(file)) {
+    throw new Error("Set ALLOWLIST to a CSV file of buyer addresses");
+  }
+  const output = process.env.PROOFS_OUT ?? "proofs.json";
+
+  const addresses = parseAllowlistCsv(fs.readFileSync(file, "utf8"));
+  const allowlist = buildAllowlist(addresses);
+  if (allowlist.accounts.length < addresses.length) {
+    console.log(`Skipped ${addresses.length - allowlist.accounts.length} duplicate address(es)`);
+  }
+
+  fs.writeFileSync(output, JSON.stringify({ root: allowlist.root, proofs: allowlist.proofs }, null, 2) + "\n");
+  console.log(`Allowlist of ${allowlist.accounts.length} address(es)`);
+  console.log(`Merkle root: ${allowlist.root}`);
+  console.log(`Proofs written to ${output}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error);
+  process.exitCode = 1;
+}
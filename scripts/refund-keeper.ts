@@ -0,0 +1,42 @@
+import hre from "hardhat";
+import { formatEther } from "ethers";
+import { RefundEscrowClient, settleCancellationRefunds } from "../sdk";
+import { loadManifest } from "./manifest";
+
+// Usage: EVENT_ID=1 [BATCH_SIZE=100] npx hardhat run scripts/refund-keeper.ts --network <network>
+async function main() {
+  const eventId = process.env.EVENT_ID;
+  if (eventId === undefined || !/^\d+$/.test(eventId)) {
+    throw new Error("Set EVENT_ID to the cancelled event to refund");
+  }
+  const batchSize = Number(process.env.BATCH_SIZE ?? "100");
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new Error("BATCH_SIZE must be a positive integer");
+  }
+
+  const manifest = loadManifest(hre.network.name);
+  const [keeper] = await hre.ethers.getSigners();
+  const refundEscrow = new RefundEscrowClient(manifest.contracts.RefundEscrow, keeper);
+
+  console.log(`Settling refunds for event ${eventId} on ${hre.network.name} as ${keeper.address}`);
+  const summary = await settleCancellationRefunds(refundEscrow, eventId, {
+    batchSize,
+    onProgress: (batch) => {
+      console.log(
+        `  ${batch.cursor}/${batch.total} tickets processed: ${batch.refunded} refunded` +
+          ` (${formatEther(batch.amount)} ETH), ${batch.deferred} deferred, tx ${batch.transactionHash}`
+      );
+    },
+  });
+
+  const remaining = await refundEscrow.getRefundProgress(eventId);
+  console.log(
+    `Done in ${summary.batches} batch(es): ${summary.refunded} refunds, ${formatEther(summary.amount)} ETH,` +
+      ` ${summary.deferred} left for recipients to withdraw. ${formatEther(remaining.remainingBalance)} ETH still held.`
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,38 @@
+import fs from "fs";
+import hre from "hardhat";
+import { configureSeatMap, EventManagerClient, getZoneAvailability, parseSeatMap, renderZoneAvailability } from "../sdk";
+import { loadManifest } from "./manifest";
+
+// Usage: EVENT_ID=1 SEAT_MAP=venue.json [CONFIGURE=true] npx hardhat run scripts/seat-map.ts --network <network>
+// With CONFIGURE=true the rows are written to the event first (organizer or owner only).
+async function main() {
+  const eventId = process.env.EVENT_ID;
+  if (eventId === undefined || !/^\d+$/.test(eventId)) {
+    throw new Error("Set EVENT_ID to the event whose seats should be shown");
+  }
+  const file = process.env.SEAT_MAP;
+  if (file === undefined || !fs.existsSync(file)) {
+    throw new Error("Set SEAT_MAP to a seat-map JSON file");
+  }
+  const seatMap = parseSeatMap(fs.readFileSync(file, "utf8"));
+
+  const manifest = loadManifest(hre.network.name);
+  const [signer] = await hre.ethers.getSigners();
+  const eventManager = new EventManagerClient(manifest.contracts.EventManager, signer);
+
+  if (process.env.CONFIGURE === "true") {
+    const results = await configureSeatMap(eventManager, eventId, seatMap);
+    console.log(`Configured ${results.length} zone(s) of event ${eventId}`);
+  }
+
+  for (const zone of seatMap.zones) {
+    const availability = await getZoneAvailability(eventManager, eventId, zone);
+    console.log(renderZoneAvailability(availability));
+    console.log();
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
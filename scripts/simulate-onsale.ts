@@ -0,0 +1,612 @@
+import fs from "fs";
+import path from "path";
+import hre from "hardhat";
+import { id, parseEther, TransactionReceipt, TransactionRequest, Wallet } from "ethers";
+import { deployTicketingSystem } from "../sdk/deploy";
+
+// Usage: [BUYERS=2000] [ZONES=500:0.1,200:0.25] [SEED=1] [REPORT_DIR=reports] npx hardhat run scripts/simulate-onsale.ts
+//
+// Replays a big on-sale against a fresh deployment on the in-process network. Thousands of funded
+// wallets arrive in a burst, buy, retry other zones, join waitlists once everything is gone, and
+// then churn tickets through resale for a couple of days. Blocks are mined by hand every
+// BLOCK_TIME seconds so transactions from the same burst compete for the same block.
+// Writes onsale-<seed>.json and onsale-<seed>.md to REPORT_DIR.
+
+type Operation = "purchase" | "joinWaitlist" | "list" | "purchaseResale" | "acceptOffer" | "expireOffer";
+
+interface Config {
+  buyers: number;
+  zones: { capacity: bigint; price: bigint }[];
+  walletLimit: number;
+  scalperShare: number;
+  burstSeconds: number;
+  blockTime: number;
+  onSaleSeconds: number;
+  waitlistJoinRate: number;
+  resaleListRate: number;
+  offerAcceptRate: number;
+  resaleBuyersPerHour: number;
+  churnHours: number;
+  seed: number;
+  reportDir: string;
+}
+
+interface Buyer {
+  wallet: Wallet;
+  nonce: number;
+  scalper: boolean;
+  arrival: number;
+  quantity: number;
+  zonesTried: number[];
+  primaryTickets: number;
+  resaleTickets: number;
+  servedAt?: number;
+  // Tickets held, by token ID, with the price paid for each
+  holdings: Map<bigint, bigint>;
+}
+
+interface Submitted {
+  operation: Operation;
+  request: TransactionRequest;
+  hash: string;
+  onResult: (receipt: TransactionReceipt, reason?: string) => void;
+}
+
+const EVENT_ID = 1n;
+const FAN_PRIORITY_FEE = 1_000_000_000n;
+const SCALPER_PRIORITY_FEE = 5_000_000_000n;
+const MAX_FEE = 200_000_000_000n;
+const SOLD_OUT_REASONS = ["No seats available in zone", "Must respect waitlist priority"];
+
+function readConfig(): Config {
+  const env = process.env;
+  const zones = (env.ZONES ?? "500:0.1,200:0.25").split(",").map((zone) => {
+    const [capacity, price] = zone.split(":");
+    return { capacity: BigInt(capacity), price: parseEther(price) };
+  });
+  return {
+    buyers: Number(env.BUYERS ?? "2000"),
+    zones,
+    walletLimit: Number(env.WALLET_LIMIT ?? "4"),
+    scalperShare: Number(env.SCALPER_SHARE ?? "0.02"),
+    burstSeconds: Number(env.BURST_SECONDS ?? "120"),
+    blockTime: Number(env.BLOCK_TIME ?? "12"),
+    onSaleSeconds: Number(env.ONSALE_SECONDS ?? "1800"),
+    waitlistJoinRate: Number(env.WAITLIST_JOIN_RATE ?? "0.5"),
+    resaleListRate: Number(env.RESALE_LIST_RATE ?? "0.05"),
+    offerAcceptRate: Number(env.OFFER_ACCEPT_RATE ?? "0.6"),
+    resaleBuyersPerHour: Number(env.RESALE_BUYERS_PER_HOUR ?? "20"),
+    churnHours: Number(env.CHURN_HOURS ?? "48"),
+    seed: Number(env.SEED ?? "1"),
+    reportDir: env.REPORT_DIR ?? "reports",
+  };
+}
+
+// mulberry32, so a seed reproduces the same crowd
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function revertReason(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const reason = message.match(/reverted with reason string '([^']*)'/);
+  if (reason) return reason[1];
+  const custom = message.match(/reverted with custom error '([^']*)'/);
+  if (custom) return custom[1];
+  if (/reverted without a reason/.test(message)) return "reverted without a reason";
+  return message.split("\n")[0];
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+// Share of all tickets held by the `fraction` of wallets that bought the most
+function topShare(counts: number[], fraction: number): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+  const sorted = [...counts].sort((a, b) => b - a);
+  const top = sorted.slice(0, Math.max(1, Math.ceil(counts.length * fraction)));
+  return top.reduce((sum, count) => sum + count, 0) / total;
+}
+
+function gini(counts: number[]): number {
+  const sorted = [...counts].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+  const weighted = sorted.reduce((sum, count, i) => sum + (i + 1) * count, 0);
+  return (2 * weighted) / (sorted.length * total) - (sorted.length + 1) / sorted.length;
+}
+
+function round(value: number, digits = 4): number {
+  return Number(value.toFixed(digits));
+}
+
+async function main() {
+  if (hre.network.name !== "hardhat") {
+    throw new Error("The simulator mines blocks by hand and only runs on the in-process hardhat network");
+  }
+  const config = readConfig();
+  const rng = createRng(config.seed);
+  const provider = hre.ethers.provider;
+  const startedAt = Date.now();
+
+  const [deployer] = await hre.ethers.getSigners();
+  const addresses = await deployTicketingSystem(deployer);
+  const eventManager = await hre.ethers.getContractAt("EventManager", addresses.EventManager);
+  const waitlistManager = await hre.ethers.getContractAt("WaitlistManager", addresses.WaitlistManager);
+  const resaleManager = await hre.ethers.getContractAt("ResaleManager", addresses.ResaleManager);
+  const ticketFactory = await hre.ethers.getContractAt("TicketFactory", addresses.TicketFactory);
+
+  await (await eventManager.grantRole(await eventManager.ORGANIZER_ROLE(), deployer.address)).wait();
+  const onSaleStart = (await provider.getBlock("latest"))!.timestamp + 60;
+  await (
+    await eventManager.createEvent(
+      "Simulated Show",
+      onSaleStart + 30 * 86_400,
+      config.zones.reduce((min, zone) => (zone.price < min ? zone.price : min), config.zones[0].price),
+      config.zones.map((zone) => zone.capacity),
+      config.zones.map((zone) => zone.price)
+    )
+  ).wait();
+  await (await eventManager.setWalletTicketLimit(EVENT_ID, config.walletLimit)).wait();
+  const keeperNonce = { value: await provider.getTransactionCount(deployer.address) };
+
+  console.log(`Funding ${config.buyers} buyer wallets...`);
+  const buyers: Buyer[] = [];
+  for (let i = 0; i < config.buyers; i++) {
+    const wallet = new Wallet(id(`onsale-buyer-${config.seed}-${i}`), provider);
+    await provider.send("hardhat_setBalance", [wallet.address, "0x56bc75e2d63100000"]);
+    const scalper = rng() < config.scalperShare;
+    buyers.push({
+      wallet,
+      nonce: 0,
+      scalper,
+      // Bots fire as the sale opens; fans trickle in with an exponential tail
+      arrival: scalper ? rng() * 3 : -Math.log(1 - rng()) * config.burstSeconds,
+      quantity: scalper ? config.walletLimit : rng() < 0.7 ? 1 : Math.min(2, config.walletLimit),
+      zonesTried: [],
+      primaryTickets: 0,
+      resaleTickets: 0,
+      holdings: new Map(),
+    });
+  }
+  const { chainId } = await provider.getNetwork();
+  await provider.send("evm_setAutomine", [false]);
+
+  const gasByOperation = new Map<Operation, number[]>();
+  const revertedGas = new Map<Operation, number[]>();
+  const reverts = new Map<string, { operation: Operation; stage: "simulation" | "onchain"; reason: string; count: number }>();
+  const attempts = new Map<Operation, number>();
+  let submitted: Submitted[] = [];
+  const waitlist = { joined: 0, offers: 0, accepted: 0, expired: 0 };
+  const resale = { listed: 0, soldPublicly: 0, soldToWaitlist: 0, markupBps: [] as number[] };
+  const listings = new Map<bigint, { seller: Buyer; price: bigint }>();
+  const offers = new Map<string, { buyer: Buyer; zoneId: number; expiresAt: number; decided: boolean }>();
+  const buyerByAddress = new Map(buyers.map((buyer) => [buyer.wallet.address, buyer]));
+  const sellOutAt = new Map<number, number>();
+  let now = 0;
+
+  function recordRevert(operation: Operation, stage: "simulation" | "onchain", reason: string) {
+    const key = `${operation}|${stage}|${reason}`;
+    const entry = reverts.get(key) ?? { operation, stage, reason, count: 0 };
+    entry.count++;
+    reverts.set(key, entry);
+  }
+
+  // Simulates like a wallet would, against the latest block, then signs and sends into the
+  // mempool. The result arrives through onResult once the transaction is mined.
+  async function submit(
+    operation: Operation,
+    buyer: Buyer | undefined,
+    request: TransactionRequest,
+    onResult: Submitted["onResult"] = () => undefined
+  ): Promise<string | undefined> {
+    attempts.set(operation, (attempts.get(operation) ?? 0) + 1);
+    const from = buyer?.wallet.address ?? deployer.address;
+    let gasLimit: bigint;
+    try {
+      gasLimit = await provider.estimateGas({ ...request, from, blockTag: "latest" });
+    } catch (error) {
+      const reason = revertReason(error);
+      recordRevert(operation, "simulation", reason);
+      return reason;
+    }
+
+    const transaction = {
+      ...request,
+      gasLimit: (gasLimit * 13n) / 10n,
+      chainId,
+      type: 2,
+      maxFeePerGas: MAX_FEE,
+      maxPriorityFeePerGas: buyer?.scalper ? SCALPER_PRIORITY_FEE : FAN_PRIORITY_FEE,
+    };
+    let hash: string;
+    if (buyer === undefined) {
+      hash = (await deployer.sendTransaction({ ...transaction, nonce: keeperNonce.value++ })).hash;
+    } else {
+      hash = (await buyer.wallet.sendTransaction({ ...transaction, nonce: buyer.nonce++ })).hash;
+    }
+    submitted.push({ operation, request: { ...request, from }, hash, onResult });
+    return undefined;
+  }
+
+  // Mines one block at `timestamp` seconds after the on-sale and settles what it included
+  async function mineAt(timestamp: number) {
+    now = timestamp;
+    await provider.send("evm_setNextBlockTimestamp", [onSaleStart + timestamp]);
+    await provider.send("evm_mine", []);
+
+    const waiting: Submitted[] = [];
+    for (const entry of submitted) {
+      const receipt = await provider.getTransactionReceipt(entry.hash);
+      if (receipt === null) {
+        waiting.push(entry);
+        continue;
+      }
+      if (receipt.status === 1) {
+        gasByOperation.set(entry.operation, [...(gasByOperation.get(entry.operation) ?? []), Number(receipt.gasUsed)]);
+        entry.onResult(receipt);
+      } else {
+        // Replay against the end of the block for the reason; earlier transactions in the
+        // block are what made it fail
+        let reason = "reverted in block";
+        try {
+          await provider.call({ ...entry.request, blockTag: receipt.blockNumber });
+        } catch (error) {
+          reason = revertReason(error);
+        }
+        revertedGas.set(entry.operation, [...(revertedGas.get(entry.operation) ?? []), Number(receipt.gasUsed)]);
+        recordRevert(entry.operation, "onchain", reason);
+        entry.onResult(receipt, reason);
+      }
+      for (const log of receipt.logs) {
+        if (log.address !== addresses.WaitlistManager) continue;
+        const parsed = waitlistManager.interface.parseLog(log);
+        if (parsed?.name !== "WaitlistPurchaseOffered") continue;
+        const buyer = buyerByAddress.get(parsed.args.user);
+        if (buyer === undefined) continue;
+        waitlist.offers++;
+        offers.set(buyer.wallet.address, {
+          buyer,
+          zoneId: Number(parsed.args.zoneId),
+          expiresAt: Number(parsed.args.expiresAt) - onSaleStart,
+          decided: false,
+        });
+      }
+    }
+    submitted = waiting;
+
+    for (let zoneId = 0; zoneId < config.zones.length; zoneId++) {
+      if (sellOutAt.has(zoneId)) continue;
+      if ((await eventManager.getZone(EVENT_ID, zoneId)).availableSeats === 0n) sellOutAt.set(zoneId, timestamp);
+    }
+  }
+
+  function recordMints(buyer: Buyer, receipt: TransactionReceipt) {
+    for (const log of receipt.logs) {
+      if (log.address !== addresses.TicketFactory) continue;
+      const parsed = ticketFactory.interface.parseLog(log);
+      if (parsed?.name === "TicketMinted") buyer.holdings.set(parsed.args.tokenId, parsed.args.price);
+    }
+  }
+
+  // Primary sale: each action is a buyer trying a zone at a point in time
+  const queue: { at: number; buyer: Buyer; zoneId: number; kind: "purchase" | "joinWaitlist" }[] = buyers.map(
+    (buyer) => ({ at: buyer.arrival, buyer, zoneId: Math.floor(rng() * config.zones.length), kind: "purchase" })
+  );
+
+  function afterSoldOut(buyer: Buyer, zoneId: number, at: number) {
+    const untried = config.zones.map((_, i) => i).filter((i) => !buyer.zonesTried.includes(i));
+    if (untried.length > 0) {
+      queue.push({ at: at + config.blockTime * (1 + rng() * 2), buyer, zoneId: untried[0], kind: "purchase" });
+    } else if (rng() < config.waitlistJoinRate) {
+      queue.push({ at: at + config.blockTime, buyer, zoneId: buyer.zonesTried[0], kind: "joinWaitlist" });
+    }
+  }
+
+  async function purchase(buyer: Buyer, zoneId: number, at: number) {
+    buyer.zonesTried.push(zoneId);
+    const quantity = Math.min(buyer.quantity, config.walletLimit - buyer.primaryTickets);
+    const request = await eventManager.purchaseTickets.populateTransaction(EVENT_ID, zoneId, quantity, {
+      value: config.zones[zoneId].price * BigInt(quantity),
+    });
+    const handle = (reason?: string, receipt?: TransactionReceipt) => {
+      if (reason === undefined && receipt !== undefined) {
+        buyer.primaryTickets += quantity;
+        buyer.servedAt ??= now - buyer.arrival;
+        recordMints(buyer, receipt);
+        // Bots keep buying until they hit the wallet limit
+        if (buyer.scalper && buyer.primaryTickets < config.walletLimit) {
+          queue.push({ at: now + config.blockTime, buyer, zoneId, kind: "purchase" });
+        }
+      } else if (reason !== undefined && SOLD_OUT_REASONS.includes(reason)) {
+        afterSoldOut(buyer, zoneId, Math.max(at, now));
+      }
+    };
+    const rejected = await submit("purchase", buyer, request, (receipt, reason) => handle(reason, receipt));
+    if (rejected !== undefined) handle(rejected);
+  }
+
+  async function joinWaitlist(buyer: Buyer, zoneId: number) {
+    const request = await waitlistManager.joinWaitlist.populateTransaction(EVENT_ID, zoneId);
+    await submit("joinWaitlist", buyer, request, (_, reason) => {
+      if (reason === undefined) waitlist.joined++;
+    });
+  }
+
+  console.log(`Simulating the on-sale...`);
+  for (let tick = config.blockTime; tick <= config.onSaleSeconds; tick += config.blockTime) {
+    queue.sort((a, b) => a.at - b.at);
+    const pending = queue.findIndex((action) => action.at >= tick);
+    const due = queue.splice(0, pending === -1 ? queue.length : pending);
+    for (const action of due) {
+      if (action.kind === "purchase") await purchase(action.buyer, action.zoneId, action.at);
+      else await joinWaitlist(action.buyer, action.zoneId);
+    }
+    await mineAt(tick);
+    if (queue.length === 0 && submitted.length === 0) break;
+  }
+  const onSaleEnd = now;
+
+  // Resale churn: hourly blocks of listings, waitlist offers and public resale purchases
+  console.log(`Simulating ${config.churnHours} hours of resale...`);
+  const listAt = new Map<Buyer, number>();
+  for (const buyer of buyers.filter((holder) => holder.holdings.size > 0)) {
+    if (buyer.scalper) listAt.set(buyer, 0);
+    else if (rng() < config.resaleListRate) listAt.set(buyer, Math.floor(rng() * config.churnHours));
+  }
+  const unserved = buyers.filter((buyer) => buyer.primaryTickets === 0);
+
+  for (let hour = 0; hour < config.churnHours; hour++) {
+    for (const [seller, listHour] of listAt) {
+      if (listHour !== hour) continue;
+      for (const [tokenId, paid] of seller.holdings) {
+        // Bots list at the cap; fans mostly just want their money back
+        const markupBps = seller.scalper ? 11_000 : 10_000 + Math.floor(rng() * 1_000);
+        const price = (paid * BigInt(markupBps)) / 10_000n;
+        const request = await resaleManager.listTicketForResale.populateTransaction(tokenId, price);
+        await submit("list", seller, request, (_, reason) => {
+          if (reason !== undefined) return;
+          resale.listed++;
+          resale.markupBps.push(markupBps);
+          listings.set(tokenId, { seller, price });
+        });
+      }
+    }
+
+    for (const offer of offers.values()) {
+      if (offer.decided) continue;
+      offer.decided = true;
+      if (rng() >= config.offerAcceptRate) continue;
+      const [offeredTicketId, , , price] = await waitlistManager.getOffer(EVENT_ID, offer.zoneId, offer.buyer.wallet.address);
+      const request = await waitlistManager.completeWaitlistPurchase.populateTransaction(EVENT_ID, offer.zoneId, {
+        value: price,
+      });
+      await submit("acceptOffer", offer.buyer, request, (_, reason) => {
+        if (reason !== undefined) return;
+        waitlist.accepted++;
+        resale.soldToWaitlist++;
+        offer.buyer.resaleTickets++;
+        offer.buyer.servedAt ??= now - offer.buyer.arrival;
+        offers.delete(offer.buyer.wallet.address);
+        const listing = listings.get(offeredTicketId);
+        if (listing !== undefined) {
+          listing.seller.holdings.delete(offeredTicketId);
+          offer.buyer.holdings.set(offeredTicketId, listing.price);
+          listings.delete(offeredTicketId);
+        }
+      });
+    }
+
+    // The waitlist keeper expires lapsed offers so listings move to the next user in line
+    for (const offer of [...offers.values()]) {
+      if (offer.expiresAt >= now) continue;
+      const request = await waitlistManager.expireOffer.populateTransaction(EVENT_ID, offer.zoneId, offer.buyer.wallet.address);
+      offers.delete(offer.buyer.wallet.address);
+      await submit("expireOffer", undefined, request, (_, reason) => {
+        if (reason === undefined) waitlist.expired++;
+      });
+    }
+
+    const open = [...listings.keys()];
+    for (let i = 0; i < config.resaleBuyersPerHour && open.length > 0 && unserved.length > 0; i++) {
+      const buyer = unserved[Math.floor(rng() * unserved.length)];
+      const tokenId = open[Math.floor(rng() * open.length)];
+      const listing = listings.get(tokenId)!;
+      const request = await resaleManager.purchaseResaleTicket.populateTransaction(tokenId, { value: listing.price });
+      await submit("purchaseResale", buyer, request, (_, reason) => {
+        if (reason !== undefined || !listings.has(tokenId)) return;
+        resale.soldPublicly++;
+        buyer.resaleTickets++;
+        buyer.servedAt ??= now - buyer.arrival;
+        listing.seller.holdings.delete(tokenId);
+        buyer.holdings.set(tokenId, listing.price);
+        listings.delete(tokenId);
+      });
+    }
+
+    await mineAt(onSaleEnd + (hour + 1) * 3_600);
+  }
+  await provider.send("evm_setAutomine", [true]);
+
+  // Report
+  const primaryCounts = buyers.map((buyer) => buyer.primaryTickets);
+  const totalPrimary = primaryCounts.reduce((sum, count) => sum + count, 0);
+  const scalperTickets = buyers.filter((buyer) => buyer.scalper).reduce((sum, buyer) => sum + buyer.primaryTickets, 0);
+  const waits = buyers
+    .filter((buyer) => buyer.servedAt !== undefined && buyer.primaryTickets > 0)
+    .map((buyer) => buyer.servedAt!)
+    .sort((a, b) => a - b);
+  const gasSummary = (values: number[]): GasSummary => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+      count: sorted.length,
+      min: sorted[0] ?? 0,
+      mean: sorted.length === 0 ? 0 : Math.round(sorted.reduce((sum, gas) => sum + gas, 0) / sorted.length),
+      p50: percentile(sorted, 50),
+      p95: percentile(sorted, 95),
+      max: sorted[sorted.length - 1] ?? 0,
+    };
+  };
+  const operations: Operation[] = ["purchase", "joinWaitlist", "list", "purchaseResale", "acceptOffer", "expireOffer"];
+
+  const report: Report = {
+    config: {
+      ...config,
+      zones: config.zones.map((zone) => ({ capacity: Number(zone.capacity), price: hre.ethers.formatEther(zone.price) })),
+    },
+    wallClockSeconds: round((Date.now() - startedAt) / 1_000, 1),
+    sellOut: {
+      zones: config.zones.map((_, zoneId) => ({ zoneId, seconds: sellOutAt.get(zoneId) ?? null })),
+      // Seconds from the on-sale until the last zone sold out, or null if something was left
+      allZonesSeconds: sellOutAt.size === config.zones.length ? Math.max(...sellOutAt.values()) : null,
+      ticketsSold: totalPrimary,
+      capacity: Number(config.zones.reduce((sum, zone) => sum + zone.capacity, 0n)),
+    },
+    gas: Object.fromEntries(
+      operations.map((operation) => [
+        operation,
+        {
+          attempts: attempts.get(operation) ?? 0,
+          succeeded: gasSummary(gasByOperation.get(operation) ?? []),
+          revertedOnChain: gasSummary(revertedGas.get(operation) ?? []),
+        },
+      ])
+    ),
+    reverts: [...reverts.values()].sort((a, b) => b.count - a.count),
+    fairness: {
+      walletsServed: buyers.filter((buyer) => buyer.primaryTickets > 0).length,
+      wallets: buyers.length,
+      topOnePercentShare: round(topShare(primaryCounts, 0.01)),
+      topTenPercentShare: round(topShare(primaryCounts, 0.1)),
+      gini: round(gini(primaryCounts)),
+      scalperWallets: buyers.filter((buyer) => buyer.scalper).length,
+      scalperShare: round(totalPrimary === 0 ? 0 : scalperTickets / totalPrimary),
+      secondsToTicket: { p50: round(percentile(waits, 50), 1), p95: round(percentile(waits, 95), 1) },
+    },
+    waitlist,
+    resale: {
+      listed: resale.listed,
+      soldPublicly: resale.soldPublicly,
+      soldToWaitlist: resale.soldToWaitlist,
+      meanMarkupBps:
+        resale.markupBps.length === 0
+          ? 0
+          : Math.round(resale.markupBps.reduce((sum, bps) => sum + bps, 0) / resale.markupBps.length),
+      resaleBuyersServed: buyers.filter((buyer) => buyer.primaryTickets === 0 && buyer.resaleTickets > 0).length,
+    },
+  };
+
+  fs.mkdirSync(config.reportDir, { recursive: true });
+  const base = path.join(config.reportDir, `onsale-${config.seed}`);
+  fs.writeFileSync(`${base}.json`, JSON.stringify(report, null, 2) + "\n");
+  fs.writeFileSync(`${base}.md`, renderMarkdown(report));
+  console.log(`Sold ${totalPrimary} of ${report.sellOut.capacity} tickets to ${report.fairness.walletsServed} wallets`);
+  console.log(`Reports written to ${base}.json and ${base}.md`);
+}
+
+interface GasSummary {
+  count: number;
+  min: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+interface Report {
+  config: Omit<Config, "zones"> & { zones: { capacity: number; price: string }[] };
+  wallClockSeconds: number;
+  sellOut: {
+    zones: { zoneId: number; seconds: number | null }[];
+    allZonesSeconds: number | null;
+    ticketsSold: number;
+    capacity: number;
+  };
+  gas: Record<string, { attempts: number; succeeded: GasSummary; revertedOnChain: GasSummary }>;
+  reverts: { operation: string; stage: string; reason: string; count: number }[];
+  fairness: {
+    walletsServed: number;
+    wallets: number;
+    topOnePercentShare: number;
+    topTenPercentShare: number;
+    gini: number;
+    scalperWallets: number;
+    scalperShare: number;
+    secondsToTicket: { p50: number; p95: number };
+  };
+  waitlist: { joined: number; offers: number; accepted: number; expired: number };
+  resale: {
+    listed: number;
+    soldPublicly: number;
+    soldToWaitlist: number;
+    meanMarkupBps: number;
+    resaleBuyersServed: number;
+  };
+}
+
+function renderMarkdown(report: Report): string {
+  const percent = (share: number) => `${(share * 100).toFixed(1)}%`;
+  const seconds = (value: number | null) => (value === null ? "not sold out" : `${value}s`);
+  const lines = [
+    `# On-sale simulation (seed ${report.config.seed}, ${report.config.buyers} buyers)`,
+    "",
+    `Sold ${report.sellOut.ticketsSold} of ${report.sellOut.capacity} tickets; every zone gone after ${seconds(report.sellOut.allZonesSeconds)}.`,
+    "",
+    "| Zone | Sold out after |",
+    "| --- | --- |",
+    ...report.sellOut.zones.map((zone) => `| ${zone.zoneId} | ${seconds(zone.seconds)} |`),
+    "",
+    "## Gas per operation",
+    "",
+    "| Operation | Attempts | Mined | Mean | p50 | p95 | Max | Reverted on-chain | Mean gas of reverts |",
+    "| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |",
+    ...Object.entries(report.gas).map(
+      ([operation, gas]) =>
+        `| ${operation} | ${gas.attempts} | ${gas.succeeded.count} | ${gas.succeeded.mean} | ${gas.succeeded.p50} | ` +
+        `${gas.succeeded.p95} | ${gas.succeeded.max} | ${gas.revertedOnChain.count} | ${gas.revertedOnChain.mean} |`
+    ),
+    "",
+    "## Reverts",
+    "",
+    "Simulation reverts were caught by the wallet before sending; on-chain reverts were mined and paid for.",
+    "",
+    "| Operation | Stage | Reason | Count |",
+    "| --- | --- | --- | ---: |",
+    ...report.reverts.map((entry) => `| ${entry.operation} | ${entry.stage} | ${entry.reason} | ${entry.count} |`),
+    "",
+    "## Fairness",
+    "",
+    `- Wallets served: ${report.fairness.walletsServed} of ${report.fairness.wallets}`,
+    `- Tickets bought by the top 1% of wallets: ${percent(report.fairness.topOnePercentShare)}`,
+    `- Tickets bought by the top 10% of wallets: ${percent(report.fairness.topTenPercentShare)}`,
+    `- Gini coefficient of tickets per wallet: ${report.fairness.gini}`,
+    `- Scalper wallets: ${report.fairness.scalperWallets}, holding ${percent(report.fairness.scalperShare)} of primary tickets`,
+    `- Time from arrival to ticket: p50 ${report.fairness.secondsToTicket.p50}s, p95 ${report.fairness.secondsToTicket.p95}s`,
+    "",
+    "## Waitlist and resale",
+    "",
+    `- Waitlist: ${report.waitlist.joined} joined, ${report.waitlist.offers} offers, ${report.waitlist.accepted} accepted, ${report.waitlist.expired} expired`,
+    `- Resale: ${report.resale.listed} listed at a mean ${(report.resale.meanMarkupBps / 100).toFixed(1)}% of face value, ` +
+      `${report.resale.soldToWaitlist} sold to the waitlist, ${report.resale.soldPublicly} sold publicly`,
+    `- Buyers who missed the on-sale but got a resale ticket: ${report.resale.resaleBuyersServed}`,
+    "",
+    `_Simulated in ${report.wallClockSeconds}s of wall-clock time._`,
+    "",
+  ];
+  return lines.join("\n");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,41 @@
+import hre from "hardhat";
+import { EventManagerClient, expireWaitlistOffers, WaitlistManagerClient } from "../sdk";
+import { loadManifest } from "./manifest";
+
+// Usage: EVENT_ID=1 npx hardhat run scripts/waitlist-keeper.ts --network <network>
+//
+// Expires lapsed waitlist offers so their seats and listings move to the next user in line, and
+// offers the waitlist any added seats a capacity raise left over.
+// Schedule it well inside the 24 hour offer window, e.g. hourly.
+async function main() {
+  const eventId = process.env.EVENT_ID;
+  if (eventId === undefined || !/^\d+$/.test(eventId)) {
+    throw new Error("Set EVENT_ID to the event whose waitlist offers should be expired");
+  }
+
+  const manifest = loadManifest(hre.network.name);
+  const [keeper] = await hre.ethers.getSigners();
+  const waitlistManager = new WaitlistManagerClient(manifest.contracts.WaitlistManager, keeper);
+  const eventManager = new EventManagerClient(manifest.contracts.EventManager, keeper);
+
+  console.log(`Expiring lapsed waitlist offers for event ${eventId} on ${hre.network.name} as ${keeper.address}`);
+  const summary = await expireWaitlistOffers(waitlistManager, eventManager, eventId, {
+    onExpired: (offer, transactionHash) => {
+      const item = offer.ticketId === undefined ? `seat ${offer.seatNumber}` : `resale ticket ${offer.ticketId}`;
+      console.log(`  zone ${offer.zoneId}: expired the offer of ${item} to ${offer.user}, tx ${transactionHash}`);
+    },
+    onSeatsOffered: (zoneId, seatNumbers, transactionHash) => {
+      console.log(`  zone ${zoneId}: offered ${seatNumbers.length} added seat(s) to the waitlist, tx ${transactionHash}`);
+    },
+  });
+
+  console.log(
+    `Done across ${summary.zones} zone(s): ${summary.expired} offer(s) expired, ${summary.active} still open, ` +
+      `${summary.seatsOffered} added seat(s) offered.`
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,158 @@
+import type { ContractRunner, Provider } from "ethers";
+import { EventManager, EventManager__factory, TicketFactory, TicketFactory__factory } from "../../typechain-types";
+import { parseTicketingError } from "../errors";
+import { confirm } from "../receipts";
+import { CheckInChallenge, createCheckInChallenge, decodeCheckInQr, recoverCheckInSigner } from "./challenge";
+
+export type CheckInRejection =
+  | "MALFORMED"
+  | "WRONG_CONTRACT"
+  | "UNKNOWN_CHALLENGE"
+  | "EXPIRED"
+  | "BAD_SIGNATURE"
+  | "NOT_HOLDER"
+  | "ALREADY_USED"
+  | "EVENT_CANCELLED"
+  | "OUTSIDE_ADMISSION_WINDOW"
+  | "REDEMPTION_FAILED";
+
+export type CheckInResult =
+  | { valid: true; tokenId: bigint; eventId: bigint; holder: string; transactionHash?: string }
+  | { valid: false; reason: CheckInRejection; detail: string };
+
+export interface GateVerifierOptions {
+  ticketFactory: string;
+  eventManager: string;
+  /** Scanner wallet; must hold GATE_SCANNER_ROLE on TicketFactory to redeem */
+  runner: ContractRunner & { provider: Provider | null };
+  /** Seconds a challenge stays valid (capped on-chain by MAX_CHECK_IN_LIFETIME) */
+  challengeLifetime?: number;
+  /** Seconds before the event date that doors open (at most CHECK_IN_OPENS_BEFORE on-chain) */
+  admissionOpensBefore?: number;
+  /** Seconds after the event date that late entry is still allowed (at most CHECK_IN_CLOSES_AFTER on-chain) */
+  admissionClosesAfter?: number;
+}
+
+/**
+ * Runs the gate side of the check-in flow: issues challenges, verifies the holder's
+ * signed QR payload against chain state and redeems it through `checkInTicket`.
+ *
+ * Every ticket is minted by `EventManager`, so a ticket's event ID is always an
+ * `EventManager` event ID.
+ */
+export class GateVerifier {
+  readonly ticketFactory: TicketFactory;
+  readonly eventManager: EventManager;
+  private readonly provider: Provider;
+  private readonly pending = new Map<bigint, CheckInChallenge>();
+  private readonly challengeLifetime: number;
+  private readonly admissionOpensBefore: number;
+  private readonly admissionClosesAfter: number;
+
+  constructor(options: GateVerifierOptions) {
+    if (options.runner.provider === null) {
+      throw new Error("GateVerifier runner must be connected to a provider");
+    }
+    this.provider = options.runner.provider;
+    this.ticketFactory = TicketFactory__factory.connect(options.ticketFactory, options.runner);
+    this.eventManager = EventManager__factory.connect(options.eventManager, options.runner);
+    this.challengeLifetime = options.challengeLifetime ?? 60;
+    this.admissionOpensBefore = options.admissionOpensBefore ?? 6 * 60 * 60;
+    this.admissionClosesAfter = options.admissionClosesAfter ?? 12 * 60 * 60;
+  }
+
+  /** Creates a challenge for `tokenId` and remembers its nonce until it is redeemed or expires. */
+  async issueChallenge(tokenId: bigint): Promise<CheckInChallenge> {
+    const challenge = createCheckInChallenge(tokenId, await this.now(), this.challengeLifetime);
+    this.pending.set(challenge.gateNonce, challenge);
+    return challenge;
+  }
+
+  /** Checks a scanned QR payload without redeeming it. */
+  async verify(qrPayload: string): Promise<CheckInResult> {
+    const checkIn = decodeCheckInQr(qrPayload);
+    if (checkIn === undefined) {
+      return { valid: false, reason: "MALFORMED", detail: "QR code is not a ticket check-in" };
+    }
+
+    const { chainId } = await this.provider.getNetwork();
+    const ticketFactory = await this.ticketFactory.getAddress();
+    if (checkIn.chainId !== chainId || checkIn.ticketFactory.toLowerCase() !== ticketFactory.toLowerCase()) {
+      return { valid: false, reason: "WRONG_CONTRACT", detail: "Ticket was signed for another deployment" };
+    }
+
+    const issued = this.pending.get(checkIn.gateNonce);
+    if (issued === undefined || issued.tokenId !== checkIn.tokenId || issued.deadline !== checkIn.deadline) {
+      return { valid: false, reason: "UNKNOWN_CHALLENGE", detail: "Challenge was not issued by this gate or was already redeemed" };
+    }
+    if (await this.ticketFactory.usedGateNonces(checkIn.tokenId, checkIn.gateNonce)) {
+      return { valid: false, reason: "UNKNOWN_CHALLENGE", detail: "Challenge was already redeemed" };
+    }
+
+    const now = await this.now();
+    if (BigInt(now) > checkIn.deadline) {
+      this.pending.delete(checkIn.gateNonce);
+      return { valid: false, reason: "EXPIRED", detail: "Challenge has expired, ask the holder to rescan" };
+    }
+
+    let signer: string;
+    try {
+      signer = recoverCheckInSigner(checkIn);
+    } catch {
+      return { valid: false, reason: "BAD_SIGNATURE", detail: "Signature could not be recovered" };
+    }
+
+    let holder: string;
+    try {
+      holder = await this.ticketFactory.ownerOf(checkIn.tokenId);
+    } catch {
+      return { valid: false, reason: "NOT_HOLDER", detail: `Ticket ${checkIn.tokenId} does not exist` };
+    }
+    if (holder.toLowerCase() !== signer.toLowerCase()) {
+      return { valid: false, reason: "NOT_HOLDER", detail: "Signer does not hold this ticket" };
+    }
+
+    const [eventId, , used] = await this.ticketFactory.getTicketDetails(checkIn.tokenId);
+    if (used) {
+      return { valid: false, reason: "ALREADY_USED", detail: `Ticket ${checkIn.tokenId} has already been used` };
+    }
+
+    const [, date, , , cancelled] = await this.eventManager.getEventData(eventId);
+    if (cancelled) {
+      return { valid: false, reason: "EVENT_CANCELLED", detail: `Event ${eventId} was cancelled` };
+    }
+    if (BigInt(now) < date - BigInt(this.admissionOpensBefore) || BigInt(now) > date + BigInt(this.admissionClosesAfter)) {
+      return { valid: false, reason: "OUTSIDE_ADMISSION_WINDOW", detail: `Event ${eventId} is not admitting guests now` };
+    }
+
+    return { valid: true, tokenId: checkIn.tokenId, eventId, holder };
+  }
+
+  /** Verifies a scanned QR payload and marks the ticket used on-chain. */
+  async redeem(qrPayload: string): Promise<CheckInResult> {
+    const result = await this.verify(qrPayload);
+    if (!result.valid) return result;
+
+    const checkIn = decodeCheckInQr(qrPayload)!;
+    try {
+      const tx = await this.ticketFactory.checkInTicket(
+        checkIn.tokenId,
+        checkIn.gateNonce,
+        checkIn.deadline,
+        checkIn.signature
+      );
+      const receipt = await confirm(tx);
+      return { ...result, transactionHash: receipt.hash };
+    } catch (error) {
+      return { valid: false, reason: "REDEMPTION_FAILED", detail: parseTicketingError(error).reason };
+    } finally {
+      this.pending.delete(checkIn.gateNonce);
+    }
+  }
+
+  private async now(): Promise<number> {
+    const block = await this.provider.getBlock("latest");
+    if (block === null) throw new Error("Could not read the latest block");
+    return block.timestamp;
+  }
+}
@@ -0,0 +1,99 @@
+import { hexlify, randomBytes, Signer, TypedDataDomain, verifyTypedData } from "ethers";
+
+// Must match the EIP712 name/version and CHECK_IN_TYPEHASH in TicketFactory.sol
+export const CHECK_IN_DOMAIN_NAME = "Event Ticket";
+export const CHECK_IN_DOMAIN_VERSION = "1";
+export const CHECK_IN_TYPES = {
+  CheckIn: [
+    { name: "tokenId", type: "uint256" },
+    { name: "gateNonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+const QR_PREFIX = "TCKT-CHECKIN:1:";
+
+/** Issued by a gate for one ticket; the holder signs it to prove they control the ticket. */
+export interface CheckInChallenge {
+  tokenId: bigint;
+  gateNonce: bigint;
+  /** Unix timestamp (seconds) after which the challenge is rejected */
+  deadline: bigint;
+}
+
+export interface SignedCheckIn extends CheckInChallenge {
+  chainId: bigint;
+  ticketFactory: string;
+  signature: string;
+}
+
+export function checkInDomain(chainId: bigint, ticketFactory: string): TypedDataDomain {
+  return {
+    name: CHECK_IN_DOMAIN_NAME,
+    version: CHECK_IN_DOMAIN_VERSION,
+    chainId,
+    verifyingContract: ticketFactory,
+  };
+}
+
+export function createCheckInChallenge(tokenId: bigint, now: number, lifetimeSeconds: number): CheckInChallenge {
+  return {
+    tokenId,
+    gateNonce: BigInt(hexlify(randomBytes(32))),
+    deadline: BigInt(now + lifetimeSeconds),
+  };
+}
+
+/** Signs a challenge with the holder's wallet, producing what the QR code carries. */
+export async function signCheckInChallenge(
+  holder: Signer,
+  challenge: CheckInChallenge,
+  chainId: bigint,
+  ticketFactory: string
+): Promise<SignedCheckIn> {
+  const signature = await holder.signTypedData(checkInDomain(chainId, ticketFactory), CHECK_IN_TYPES, {
+    tokenId: challenge.tokenId,
+    gateNonce: challenge.gateNonce,
+    deadline: challenge.deadline,
+  });
+  return { ...challenge, chainId, ticketFactory, signature };
+}
+
+export function recoverCheckInSigner(checkIn: SignedCheckIn): string {
+  return verifyTypedData(
+    checkInDomain(checkIn.chainId, checkIn.ticketFactory),
+    CHECK_IN_TYPES,
+    { tokenId: checkIn.tokenId, gateNonce: checkIn.gateNonce, deadline: checkIn.deadline },
+    checkIn.signature
+  );
+}
+
+export function encodeCheckInQr(checkIn: SignedCheckIn): string {
+  const body = JSON.stringify({
+    t: checkIn.tokenId.toString(),
+    n: checkIn.gateNonce.toString(),
+    d: checkIn.deadline.toString(),
+    c: checkIn.chainId.toString(),
+    f: checkIn.ticketFactory,
+    s: checkIn.signature,
+  });
+  return QR_PREFIX + Buffer.from(body, "utf8").toString("base64url");
+}
+
+/** Parses a QR payload, returning undefined when it is not a well-formed check-in. */
+export function decodeCheckInQr(payload: string): SignedCheckIn | undefined {
+  if (!payload.startsWith(QR_PREFIX)) return undefined;
+  try {
+    const body = JSON.parse(Buffer.from(payload.slice(QR_PREFIX.length), "base64url").toString("utf8"));
+    return {
+      tokenId: BigInt(body.t),
+      gateNonce: BigInt(body.n),
+      deadline: BigInt(body.d),
+      chainId: BigInt(body.c),
+      ticketFactory: String(body.f),
+      signature: String(body.s),
+    };
+  } catch {
+    return undefined;
+  }
+}
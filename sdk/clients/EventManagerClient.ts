@@ -0,0 +1,445 @@
+import { ZeroAddress } from "ethers";
+import type { BigNumberish, ContractRunner, ContractTransactionReceipt } from "ethers";
+import { EventManager, EventManager__factory, PresaleManager__factory } from "../../typechain-types";
+import { hashPromoCode } from "../presale";
+import { withTicketingErrors } from "../errors";
+import { confirm, findLog } from "../receipts";
+import type {
+  AddedSeatsOffer,
+  CreateEventParams,
+  CreateEventResult,
+  MultiTicketPurchaseResult,
+  PriceSchedule,
+  PurchaseAccess,
+  ResaleFees,
+  RevenueWithdrawal,
+  TicketingEvent,
+  TicketIssueResult,
+  TicketPurchaseResult,
+  TransactionResult,
+  Zone,
+  ZoneInput,
+} from "../types";
+
+export class EventManagerClient {
+  readonly contract: EventManager;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = EventManager__factory.connect(address, runner);
+  }
+
+  async createEvent(params: CreateEventParams): Promise<CreateEventResult> {
+    return withTicketingErrors(async () => {
+      const capacities = params.zones.map((zone) => zone.capacity);
+      const prices = params.zones.map((zone) => zone.price);
+      const fees = params.resaleFees;
+      const tx = fees
+        ? await this.contract.createEventWithResaleFees(
+            params.name,
+            params.date,
+            params.basePrice,
+            capacities,
+            prices,
+            fees.organizerRoyaltyBps,
+            fees.payee ?? ZeroAddress,
+            fees.payeeBps ?? 0
+          )
+        : await this.contract.createEvent(params.name, params.date, params.basePrice, capacities, prices);
+      const receipt = await confirm(tx);
+      const log = findLog(receipt, this.contract.interface, "EventCreated");
+      return { eventId: log.args.eventId, transactionHash: receipt.hash };
+    });
+  }
+
+  /**
+   * Buys one ticket in `zoneId`. When `value` is omitted the current zone price is sent.
+   */
+  async purchaseTicket(
+    eventId: BigNumberish,
+    zoneId: BigNumberish,
+    value?: BigNumberish
+  ): Promise<TicketPurchaseResult> {
+    return withTicketingErrors(async () => {
+      const price = await this.contract.getZonePrice(eventId, zoneId);
+      const tx = await this.contract.purchaseTicket(eventId, zoneId, { value: value ?? price });
+      const receipt = await confirm(tx);
+      const log = findLog(receipt, this.contract.interface, "TicketPurchased");
+      return {
+        eventId: log.args.eventId,
+        ticketId: log.args.ticketId,
+        buyer: log.args.buyer,
+        pricePaid: price,
+        transactionHash: receipt.hash,
+      };
+    });
+  }
+
+  /**
+   * Buys one ticket with an allowlist proof for a zone in presale and/or a single-use promo code.
+   * When `value` is omitted the current zone price, less the code's discount, is sent.
+   */
+  async purchaseTicketWithAccess(
+    eventId: BigNumberish,
+    zoneId: BigNumberish,
+    access: PurchaseAccess,
+    value?: BigNumberish
+  ): Promise<TicketPurchaseResult> {
+    return withTicketingErrors(async () => {
+      let price = await this.contract.getZonePrice(eventId, zoneId);
+      const promoCode = access.promoCode ?? "";
+      if (promoCode.length > 0 && value === undefined) {
+        const presaleManager = PresaleManager__factory.connect(await this.contract.presaleManager(), this.contract.runner);
+        const buyer = await this.signerAddress();
+        const [discountBps] = await presaleManager.getPromoCode(eventId, hashPromoCode(promoCode, buyer));
+        price -= (price * discountBps) / 10_000n;
+      }
+      const tx = await this.contract.purchaseTicketWithAccess(eventId, zoneId, access.proof ?? [], promoCode, {
+        value: value ?? price,
+      });
+      const receipt = await confirm(tx);
+      const log = findLog(receipt, this.contract.interface, "TicketPurchased");
+      return {
+        eventId: log.args.eventId,
+        ticketId: log.args.ticketId,
+        buyer: log.args.buyer,
+        pricePaid: price,
+        transactionHash: receipt.hash,
+      };
+    });
+  }
+
+  /**
+   * Buys `quantity` tickets in `zoneId` for the caller, up to the event's wallet limit.
+   * When `value` is omitted the quoted total for `quantity` tickets is sent.
+   */
+  async purchaseTickets(
+    eventId: BigNumberish,
+    zoneId: BigNumberish,
+    quantity: BigNumberish,
+    value?: BigNumberish
+  ): Promise<MultiTicketPurchaseResult> {
+    return withTicketingErrors(async () => {
+      const total = await this.contract.quoteTickets(eventId, zoneId, quantity);
+      const tx = await this.contract.purchaseTickets(eventId, zoneId, quantity, { value: value ?? total });
+      return this.multiPurchaseResult(await confirm(tx), eventId, total);
+    });
+  }
+
+  /**
+   * Buys one ticket in `zoneId` for each recipient, paid by the caller.
+   * When `value` is omitted the quoted total for the recipients is sent.
+   */
+  async purchaseGroupTickets(
+    eventId: BigNumberish,
+    zoneId: BigNumberish,
+    recipients: string[],
+    value?: BigNumberish
+  ): Promise<MultiTicketPurchaseResult> {
+    return withTicketingErrors(async () => {
+      const total = await this.contract.quoteTickets(eventId, zoneId, recipients.length);
+      const tx = await this.contract.purchaseGroupTickets(eventId, zoneId, recipients, { value: value ?? total });
+      return this.multiPurchaseResult(await confirm(tx), eventId, total);
+    });
+  }
+
+  /**
+   * Reserves specific seats in a zone with a seat map. The purchase reverts as a whole if any
+   * seat is already taken. When `value` is omitted the quoted total for the seats is sent.
+   */
+  async purchaseSeats(
+    eventId: BigNumberish,
+    zoneId: BigNumberish,
+    seatNumbers: BigNumberish[],
+    value?: BigNumberish
+  ): Promise<MultiTicketPurchaseResult> {
+    return withTicketingErrors(async () => {
+      const total = await this.contract.quoteTickets(eventId, zoneId, seatNumbers.length);
+      const tx = await this.contract.purchaseSeats(eventId, zoneId, seatNumbers, { value: value ?? total });
+      return this.multiPurchaseResult(await confirm(tx), eventId, total);
+    });
+  }
+
+  /** Defines the rows of a zone; the row lengths must add up to the zone capacity. */
+  async configureSeatMap(
+    eventId: BigNumberish,
+    zoneId: BigNumberish,
+    rowLengths: BigNumberish[]
+  ): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.configureSeatMap(eventId, zoneId, rowLengths));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  /** Replaces the zone's early-bird tiers and demand curve; organizer or platform owner only. */
+  async setPriceSchedule(
+    eventId: BigNumberish,
+    zoneId: BigNumberish,
+    schedule: PriceSchedule
+  ): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const curve = schedule.demandCurve ?? { maxIncreaseBps: 0n, ceiling: 0n };
+      const receipt = await confirm(await this.contract.setPriceSchedule(eventId, zoneId, schedule.tiers, curve));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  async getPriceSchedule(eventId: BigNumberish, zoneId: BigNumberish): Promise<PriceSchedule> {
+    return withTicketingErrors(async () => {
+      const [tiers, curve] = await this.contract.getPriceSchedule(eventId, zoneId);
+      return {
+        tiers: tiers.map((tier) => ({ price: tier.price, endsAt: tier.endsAt, maxSales: tier.maxSales })),
+        demandCurve:
+          curve.maxIncreaseBps === 0n ? undefined : { maxIncreaseBps: curve.maxIncreaseBps, ceiling: curve.ceiling },
+      };
+    });
+  }
+
+  /** Total the next `quantity` tickets of the zone cost when bought together. */
+  async quoteTickets(eventId: BigNumberish, zoneId: BigNumberish, quantity: BigNumberish): Promise<bigint> {
+    return withTicketingErrors(() => this.contract.quoteTickets(eventId, zoneId, quantity));
+  }
+
+  async setWalletTicketLimit(eventId: BigNumberish, limit: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.setWalletTicketLimit(eventId, limit));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  /** Issues a complimentary ticket; callable by the event organizer or the platform owner. */
+  async issueTicket(eventId: BigNumberish, zoneId: BigNumberish, to: string): Promise<TicketIssueResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.issueTicket(eventId, zoneId, to));
+      const log = findLog(receipt, this.contract.interface, "TicketIssued");
+      return {
+        eventId: log.args.eventId,
+        ticketId: log.args.ticketId,
+        recipient: log.args.recipient,
+        transactionHash: receipt.hash,
+      };
+    });
+  }
+
+  /** Issues a complimentary ticket for a specific seat in a zone with a seat map. */
+  async issueSeat(
+    eventId: BigNumberish,
+    zoneId: BigNumberish,
+    seatNumber: BigNumberish,
+    to: string
+  ): Promise<TicketIssueResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.issueSeat(eventId, zoneId, seatNumber, to));
+      const log = findLog(receipt, this.contract.interface, "TicketIssued");
+      return {
+        eventId: log.args.eventId,
+        ticketId: log.args.ticketId,
+        recipient: log.args.recipient,
+        transactionHash: receipt.hash,
+      };
+    });
+  }
+
+  /** Moves a ticket to a new holder on the organizer's authority, bypassing the transfer lock. */
+  async moveTicket(ticketId: BigNumberish, to: string): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.moveTicket(ticketId, to));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  /** Blocks resale and waitlist transfers from `window` seconds before the event. */
+  async setTransferLockWindow(eventId: BigNumberish, window: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.setTransferLockWindow(eventId, window));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  async cancelEvent(eventId: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.cancelEvent(eventId));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  /** Moves the event; holders who bought before the move can claim a full refund for 7 days. */
+  async rescheduleEvent(eventId: BigNumberish, newDate: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.rescheduleEvent(eventId, newDate));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  /** Adds a zone to an event that has not taken place; returns the new zone ID. */
+  async addZone(eventId: BigNumberish, zone: ZoneInput): Promise<bigint> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.addZone(eventId, zone.capacity, zone.price));
+      return findLog(receipt, this.contract.interface, "ZoneAdded").args.zoneId;
+    });
+  }
+
+  /**
+   * Seats added to a zone are offered to its waitlist first, up to `MAX_SEATS_OFFERED_PER_CALL`;
+   * `offerAddedSeats` offers the rest. It cannot shrink below the tickets sold.
+   */
+  async updateZoneCapacity(
+    eventId: BigNumberish,
+    zoneId: BigNumberish,
+    capacity: BigNumberish
+  ): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.updateZoneCapacity(eventId, zoneId, capacity));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  /** Offers the next batch of added seats to the zone's waitlist; once nobody is waiting the rest go on sale. */
+  async offerAddedSeats(eventId: BigNumberish, zoneId: BigNumberish): Promise<AddedSeatsOffer> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.offerAddedSeats(eventId, zoneId));
+      const seatNumbers = receipt.logs
+        .map((log) => {
+          try {
+            return this.contract.interface.parseLog(log);
+          } catch {
+            return null;
+          }
+        })
+        .filter((parsed) => parsed?.name === "SeatHeldForWaitlist")
+        .map((parsed) => parsed!.args.seatNumber as bigint);
+      return { seatNumbers, transactionHash: receipt.hash };
+    });
+  }
+
+  /** Added seats not yet offered to the zone's waitlist, left over when a capacity raise hit the per-call cap. */
+  async getSeatsAwaitingOffer(eventId: BigNumberish, zoneId: BigNumberish): Promise<bigint> {
+    return withTicketingErrors(() => this.contract.getSeatsAwaitingOffer(eventId, zoneId));
+  }
+
+  async withdrawEventRevenue(eventId: BigNumberish): Promise<RevenueWithdrawal> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.withdrawEventRevenue(eventId));
+      const log = findLog(receipt, this.contract.interface, "RevenueWithdrawn");
+      return {
+        eventId: log.args.eventId,
+        organizer: log.args.organizer,
+        amount: log.args.amount,
+        transactionHash: receipt.hash,
+      };
+    });
+  }
+
+  async getEvent(eventId: BigNumberish): Promise<TicketingEvent> {
+    return withTicketingErrors(async () => {
+      const [name, date, basePrice, organizer, cancelled, zoneCount] = await this.contract.getEventData(eventId);
+      return { eventId: BigInt(eventId), name, date, basePrice, organizer, cancelled, zoneCount };
+    });
+  }
+
+  /** True once the event date has passed on chain. */
+  async hasEventConcluded(eventId: BigNumberish): Promise<boolean> {
+    return withTicketingErrors(() => this.contract.hasEventConcluded(eventId));
+  }
+
+  async getZone(eventId: BigNumberish, zoneId: BigNumberish): Promise<Zone> {
+    return withTicketingErrors(async () => {
+      const zone = await this.contract.getZone(eventId, zoneId);
+      const currentPrice = await this.contract.getZonePrice(eventId, zoneId);
+      return {
+        eventId: BigInt(eventId),
+        zoneId: BigInt(zoneId),
+        capacity: zone.capacity,
+        price: zone.price,
+        currentPrice,
+        availableSeats: zone.availableSeats,
+      };
+    });
+  }
+
+  async getZones(eventId: BigNumberish): Promise<Zone[]> {
+    const zoneCount = await withTicketingErrors(() => this.contract.getZoneCount(eventId));
+    const zones: Zone[] = [];
+    for (let zoneId = 0n; zoneId < zoneCount; zoneId++) {
+      zones.push(await this.getZone(eventId, zoneId));
+    }
+    return zones;
+  }
+
+  /** Seats per row for the zone; empty for general admission. */
+  async getSeatMap(eventId: BigNumberish, zoneId: BigNumberish): Promise<bigint[]> {
+    return withTicketingErrors(async () => [...(await this.contract.getSeatMap(eventId, zoneId))]);
+  }
+
+  /** Ticket IDs holding seats 1..capacity of the zone, 0 for free seats. */
+  async getSeatTickets(eventId: BigNumberish, zoneId: BigNumberish): Promise<bigint[]> {
+    return withTicketingErrors(async () => {
+      const capacity = await this.contract.getZoneCapacity(eventId, zoneId);
+      const pageSize = await this.contract.MAX_SEAT_QUERY();
+      const ticketIds: bigint[] = [];
+      for (let first = 1n; first <= capacity; first += pageSize) {
+        const count = capacity - first + 1n < pageSize ? capacity - first + 1n : pageSize;
+        ticketIds.push(...(await this.contract.getSeatTickets(eventId, zoneId, first, count)));
+      }
+      return ticketIds;
+    });
+  }
+
+  async isTransferLocked(eventId: BigNumberish): Promise<boolean> {
+    return withTicketingErrors(() => this.contract.isTransferLocked(eventId));
+  }
+
+  async hasTicket(eventId: BigNumberish, user: string): Promise<boolean> {
+    return withTicketingErrors(() => this.contract.hasTicket(eventId, user));
+  }
+
+  async getTicketCount(eventId: BigNumberish, user: string): Promise<bigint> {
+    return withTicketingErrors(() => this.contract.getTicketCount(eventId, user));
+  }
+
+  async getWalletTicketLimit(eventId: BigNumberish): Promise<bigint> {
+    return withTicketingErrors(() => this.contract.getWalletTicketLimit(eventId));
+  }
+
+  async getResaleFees(eventId: BigNumberish): Promise<ResaleFees> {
+    return withTicketingErrors(async () => {
+      const [platformFeeBps, organizerRoyaltyBps, payee, payeeBps] = await this.contract.getResaleFees(eventId);
+      return { eventId: BigInt(eventId), platformFeeBps, organizerRoyaltyBps, payee, payeeBps };
+    });
+  }
+
+  async getEventRevenue(eventId: BigNumberish): Promise<bigint> {
+    return withTicketingErrors(() => this.contract.getEventRevenue(eventId));
+  }
+
+  private async signerAddress(): Promise<string> {
+    const runner = this.contract.runner;
+    if (runner === null || !("getAddress" in runner) || typeof runner.getAddress !== "function") {
+      throw new Error("EventManagerClient needs a signer to price a promo code");
+    }
+    return runner.getAddress();
+  }
+
+  private multiPurchaseResult(
+    receipt: ContractTransactionReceipt,
+    eventId: BigNumberish,
+    total: bigint
+  ): MultiTicketPurchaseResult {
+    const tickets = receipt.logs
+      .map((log) => {
+        try {
+          return this.contract.interface.parseLog(log);
+        } catch {
+          return null;
+        }
+      })
+      .filter((parsed) => parsed?.name === "TicketPurchased")
+      .map((parsed) => ({ ticketId: parsed!.args.ticketId as bigint, holder: parsed!.args.buyer as string }));
+    return {
+      eventId: BigInt(eventId),
+      tickets,
+      pricePaid: total,
+      transactionHash: receipt.hash,
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import type { BigNumberish, ContractRunner } from "ethers";
+import { PresaleManager, PresaleManager__factory } from "../../typechain-types";
+import { withTicketingErrors } from "../errors";
+import { hashPromoCode } from "../presale";
+import { confirm } from "../receipts";
+import type { Presale, PromoCode, PromoCodeGrant, TransactionResult } from "../types";
+
+export class PresaleManagerClient {
+  readonly contract: PresaleManager;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = PresaleManager__factory.connect(address, runner);
+  }
+
+  /** Restricts the zone to the allowlist with `merkleRoot` until `endsAt`; organizer or owner only. */
+  async setPresale(eventId: BigNumberish, zoneId: BigNumberish, presale: Presale): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(
+        await this.contract.setPresale(eventId, zoneId, presale.merkleRoot, presale.startsAt, presale.endsAt)
+      );
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  async clearPresale(eventId: BigNumberish, zoneId: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.clearPresale(eventId, zoneId));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  /** Registers codes by their hash with their buyer, so the codes themselves never go on-chain before use. */
+  async addPromoCodes(
+    eventId: BigNumberish,
+    codes: PromoCodeGrant[],
+    discountBps: BigNumberish
+  ): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const hashes = codes.map(({ code, buyer }) => hashPromoCode(code, buyer));
+      const receipt = await confirm(await this.contract.addPromoCodes(eventId, hashes, discountBps));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  async getPresale(eventId: BigNumberish, zoneId: BigNumberish): Promise<Presale> {
+    return withTicketingErrors(async () => {
+      const { merkleRoot, startsAt, endsAt } = await this.contract.getPresale(eventId, zoneId);
+      return { merkleRoot, startsAt, endsAt };
+    });
+  }
+
+  async isAllowlisted(eventId: BigNumberish, zoneId: BigNumberish, account: string, proof: string[]): Promise<boolean> {
+    return withTicketingErrors(() => this.contract.isAllowlisted(eventId, zoneId, account, proof));
+  }
+
+  /**
+   * Proves the signer is on the zone's allowlist once, so `purchaseTickets`, `purchaseGroupTickets`
+   * and `purchaseSeats`, which take no proof, are open to them during the presale.
+   */
+  async verifyAllowlist(eventId: BigNumberish, zoneId: BigNumberish, proof: string[]): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.verifyAllowlist(eventId, zoneId, proof));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  async isVerified(eventId: BigNumberish, zoneId: BigNumberish, account: string): Promise<boolean> {
+    return withTicketingErrors(() => this.contract.isVerified(eventId, zoneId, account));
+  }
+
+  async getPromoCode(eventId: BigNumberish, code: string, buyer: string): Promise<PromoCode> {
+    return withTicketingErrors(async () => {
+      const [discountBps, redeemed] = await this.contract.getPromoCode(eventId, hashPromoCode(code, buyer));
+      return { discountBps, redeemed };
+    });
+  }
+}
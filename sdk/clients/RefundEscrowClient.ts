@@ -0,0 +1,85 @@
+import type { BigNumberish, ContractRunner } from "ethers";
+import { RefundEscrow, RefundEscrow__factory } from "../../typechain-types";
+import { withTicketingErrors } from "../errors";
+import { confirm } from "../receipts";
+import type { RefundBatchResult, RefundProgress, RescheduleRefundWindow, TransactionResult } from "../types";
+
+export class RefundEscrowClient {
+  readonly contract: RefundEscrow;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = RefundEscrow__factory.connect(address, runner);
+  }
+
+  /** Claims the cancellation refund for one ticket held by the caller. */
+  async claimCancellationRefund(eventId: BigNumberish, ticketId: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.processEventCancellationRefund(eventId, ticketId));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  /** Hands back a ticket bought before the event was rescheduled, for its full price. */
+  async claimRescheduleRefund(eventId: BigNumberish, ticketId: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.claimRescheduleRefund(eventId, ticketId));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  async getRescheduleRefundWindow(eventId: BigNumberish): Promise<RescheduleRefundWindow> {
+    return withTicketingErrors(async () => {
+      const [openedAt, deadline] = await this.contract.getRescheduleRefundWindow(eventId);
+      return { eventId: BigInt(eventId), openedAt, deadline };
+    });
+  }
+
+  /** Refunds up to `maxCount` tickets of a cancelled event, continuing from the on-chain cursor. */
+  async processRefundBatch(eventId: BigNumberish, maxCount: BigNumberish): Promise<RefundBatchResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.processEventRefundBatch(eventId, maxCount));
+      let refunded = 0n;
+      let deferred = 0n;
+      let amount = 0n;
+      let cursor = 0n;
+      let total = 0n;
+      for (const log of receipt.logs) {
+        const parsed = this.contract.interface.parseLog(log);
+        if (parsed?.name === "EventCancellationRefunded") {
+          refunded++;
+          amount += parsed.args.refundAmount;
+        } else if (parsed?.name === "RefundDeferred") {
+          deferred++;
+        } else if (parsed?.name === "RefundBatchProcessed") {
+          cursor = parsed.args.cursor;
+          total = parsed.args.total;
+        }
+      }
+      return { eventId: BigInt(eventId), refunded, deferred, amount, cursor, total, transactionHash: receipt.hash };
+    });
+  }
+
+  async withdrawPendingRefund(): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.withdrawPendingRefund());
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  async getRefundProgress(eventId: BigNumberish): Promise<RefundProgress> {
+    return withTicketingErrors(async () => {
+      const [cursor, total] = await this.contract.getRefundProgress(eventId);
+      return {
+        eventId: BigInt(eventId),
+        cursor,
+        total,
+        remainingBalance: await this.contract.getEventBalance(eventId),
+        isCancelled: await this.contract.isEventCancelled(eventId),
+      };
+    });
+  }
+
+  async getPendingRefund(recipient: string): Promise<bigint> {
+    return withTicketingErrors(() => this.contract.getPendingRefund(recipient));
+  }
+}
@@ -0,0 +1,73 @@
+import type { BigNumberish, ContractRunner } from "ethers";
+import { ResaleManager, ResaleManager__factory } from "../../typechain-types";
+import { withTicketingErrors } from "../errors";
+import { confirm, findLog } from "../receipts";
+import type { ResaleListing, ResaleResult, TransactionResult } from "../types";
+
+export class ResaleManagerClient {
+  readonly contract: ResaleManager;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = ResaleManager__factory.connect(address, runner);
+  }
+
+  async listTicket(tokenId: BigNumberish, price: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.listTicketForResale(tokenId, price));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  async cancelListing(tokenId: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.cancelResaleListing(tokenId));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  /** Closes a listing that can no longer be filled (expired, used or moved); callable by anyone. */
+  async delistStaleListing(tokenId: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.delistStaleListing(tokenId));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  /**
+   * Buys a listed ticket. When `value` is omitted the listing price is sent.
+   */
+  async purchaseTicket(tokenId: BigNumberish, value?: BigNumberish): Promise<ResaleResult> {
+    return withTicketingErrors(async () => {
+      const { price } = await this.getListing(tokenId);
+      const receipt = await confirm(await this.contract.purchaseResaleTicket(tokenId, { value: value ?? price }));
+      const log = findLog(receipt, this.contract.interface, "TicketResold");
+      return {
+        tokenId: log.args.tokenId,
+        seller: log.args.seller,
+        buyer: log.args.buyer,
+        price: log.args.price,
+        transactionHash: receipt.hash,
+      };
+    });
+  }
+
+  /** Pays out the organizer royalties or payee shares credited to the caller. */
+  async withdrawRoyalties(): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.withdrawRoyalties());
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  async getRoyaltyBalance(account: string): Promise<bigint> {
+    return withTicketingErrors(() => this.contract.royaltyBalances(account));
+  }
+
+  async getListing(tokenId: BigNumberish): Promise<ResaleListing> {
+    return withTicketingErrors(async () => {
+      const [seller, price, listingTime, isActive] = await this.contract.getResaleListing(tokenId);
+      const isValid = await this.contract.isListingValid(tokenId);
+      return { tokenId: BigInt(tokenId), seller, price, listingTime, isActive, isValid };
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import type { BigNumberish, ContractRunner } from "ethers";
+import { TicketFactory, TicketFactory__factory } from "../../typechain-types";
+import { withTicketingErrors } from "../errors";
+import { confirm } from "../receipts";
+import type { Ticket, TransactionResult } from "../types";
+
+export class TicketFactoryClient {
+  readonly contract: TicketFactory;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = TicketFactory__factory.connect(address, runner);
+  }
+
+  async useTicket(tokenId: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.useTicket(tokenId));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  async getTicket(tokenId: BigNumberish): Promise<Ticket> {
+    return withTicketingErrors(async () => {
+      const owner = await this.contract.ownerOf(tokenId);
+      const [eventId, price, used, seatNumber, isWaitlisted, isResale, resalePrice, zoneId] =
+        await this.contract.getTicketDetails(tokenId);
+      return {
+        tokenId: BigInt(tokenId),
+        owner,
+        eventId,
+        price,
+        used,
+        seatNumber,
+        isWaitlisted,
+        isResale,
+        resalePrice,
+        zoneId,
+      };
+    });
+  }
+
+  async getWaitlistCount(eventId: BigNumberish, zoneId: BigNumberish): Promise<bigint> {
+    return withTicketingErrors(() => this.contract.getWaitlistCount(eventId, zoneId));
+  }
+
+}
@@ -0,0 +1,134 @@
+import type { BigNumberish, ContractRunner } from "ethers";
+import { ZeroAddress } from "ethers";
+import { WaitlistManager, WaitlistManager__factory } from "../../typechain-types";
+import { withTicketingErrors } from "../errors";
+import { confirm } from "../receipts";
+import type { TransactionResult, WaitlistDepositTerms, WaitlistOffer, WaitlistStatus } from "../types";
+
+export class WaitlistManagerClient {
+  readonly contract: WaitlistManager;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = WaitlistManager__factory.connect(address, runner);
+  }
+
+  /** Joins the zone's waitlist, paying the event's waitlist deposit if it charges one. */
+  async join(eventId: BigNumberish, zoneId: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const { amount } = await this.getDepositTerms(eventId);
+      const receipt = await confirm(await this.contract.joinWaitlist(eventId, zoneId, { value: amount }));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  async leave(eventId: BigNumberish, zoneId: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.leaveWaitlist(eventId, zoneId));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  /**
+   * Accepts the caller's offer, buying the held seat or reserved listing.
+   * When `value` is omitted the offer price less the caller's deposit is sent.
+   */
+  async completePurchase(eventId: BigNumberish, zoneId: BigNumberish, value?: BigNumberish): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const user = await this.signerAddress();
+      const { price, deposit } = await this.getOffer(eventId, zoneId, user);
+      const due = price > deposit ? price - deposit : 0n;
+      const receipt = await confirm(
+        await this.contract.completeWaitlistPurchase(eventId, zoneId, { value: value ?? due })
+      );
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  /** Organizer only. Sets the deposit for users joining from now on; 0 makes joining free. */
+  async setDepositTerms(
+    eventId: BigNumberish,
+    amount: BigNumberish,
+    forfeitBps: BigNumberish
+  ): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.setWaitlistDeposit(eventId, amount, forfeitBps));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  async getDepositTerms(eventId: BigNumberish): Promise<WaitlistDepositTerms> {
+    return withTicketingErrors(async () => {
+      const [amount, forfeitBps] = await this.contract.getDepositTerms(eventId);
+      return { amount, forfeitBps };
+    });
+  }
+
+  /** Refunds the deposit of a user still waiting once the event is over or cancelled, less the forfeit if their offer lapsed. */
+  async refundUnservedDeposit(eventId: BigNumberish, zoneId: BigNumberish, user: string): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.refundUnservedDeposit(eventId, zoneId, user));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  async expireOffer(eventId: BigNumberish, zoneId: BigNumberish, user: string): Promise<TransactionResult> {
+    return withTicketingErrors(async () => {
+      const receipt = await confirm(await this.contract.expireOffer(eventId, zoneId, user));
+      return { transactionHash: receipt.hash };
+    });
+  }
+
+  /** Returns the next user eligible for an offer, or undefined when the queue is empty. */
+  async getNextWaitingUser(eventId: BigNumberish, zoneId: BigNumberish): Promise<string | undefined> {
+    const user = await withTicketingErrors(() => this.contract.getNextWaitingUser(eventId, zoneId));
+    return user === ZeroAddress ? undefined : user;
+  }
+
+  async getOffer(eventId: BigNumberish, zoneId: BigNumberish, user: string): Promise<WaitlistOffer> {
+    return withTicketingErrors(async () => {
+      const [ticketId, seatNumber, expiresAt, price] = await this.contract.getOffer(eventId, zoneId, user);
+      const isActive = await this.contract.hasActiveOffer(eventId, zoneId, user);
+      const deposit = await this.contract.getDeposit(eventId, zoneId, user);
+      return {
+        eventId: BigInt(eventId),
+        zoneId: BigInt(zoneId),
+        user,
+        ticketId: ticketId === 0n ? undefined : ticketId,
+        seatNumber,
+        expiresAt,
+        price,
+        deposit,
+        isActive,
+      };
+    });
+  }
+
+  /** Every user holding an offer in the zone, including lapsed offers not yet expired on-chain. */
+  async getOffers(eventId: BigNumberish, zoneId: BigNumberish): Promise<WaitlistOffer[]> {
+    return withTicketingErrors(async () => {
+      const holders = await this.contract.getOfferHolders(eventId, zoneId);
+      return Promise.all(holders.map((user) => this.getOffer(eventId, zoneId, user)));
+    });
+  }
+
+  async getLength(eventId: BigNumberish, zoneId: BigNumberish): Promise<bigint> {
+    return withTicketingErrors(() => this.contract.getWaitlistLength(eventId, zoneId));
+  }
+
+  async getStatus(eventId: BigNumberish, zoneId: BigNumberish, user: string): Promise<WaitlistStatus> {
+    return withTicketingErrors(async () => {
+      const isWaiting = await this.contract.isUserWaiting(eventId, zoneId, user);
+      const position = isWaiting ? await this.contract.getWaitlistPosition(eventId, zoneId, user) : undefined;
+      const hasActiveOffer = await this.contract.hasActiveOffer(eventId, zoneId, user);
+      return { eventId: BigInt(eventId), zoneId: BigInt(zoneId), user, isWaiting, position, hasActiveOffer };
+    });
+  }
+
+  private async signerAddress(): Promise<string> {
+    const runner = this.contract.runner;
+    if (runner === null || !("getAddress" in runner) || typeof runner.getAddress !== "function") {
+      throw new Error("WaitlistManagerClient needs a signer to accept an offer");
+    }
+    return runner.getAddress();
+  }
+}
@@ -0,0 +1,118 @@
+import type { BigNumberish, Signer } from "ethers";
+import {
+  ConditionalFundsEscrow__factory,
+  EventManager__factory,
+  EventRevenue__factory,
+  IAccessControl__factory,
+  PlatformTimelock__factory,
+  PresaleManager__factory,
+  RefundEscrow__factory,
+  ResaleManager__factory,
+  TicketFactory__factory,
+  WaitlistManager__factory,
+  ZoneCapacity__factory,
+  ZonePricing__factory,
+} from "../typechain-types";
+import { renounceRoles, ROLES, type CoreContract, type PlatformRole } from "./roles";
+import type { TicketingAddresses } from "./types";
+
+/**
+ * Deploys EventManager from `deployer` along with the libraries it links against.
+ */
+export async function deployEventManager(deployer: Signer) {
+  const [zonePricing, zoneCapacity, eventRevenue] = await Promise.all([
+    new ZonePricing__factory(deployer).deploy(),
+    new ZoneCapacity__factory(deployer).deploy(),
+    new EventRevenue__factory(deployer).deploy(),
+  ]);
+  const eventManager = await new EventManager__factory(
+    {
+      "contracts/libraries/ZonePricing.sol:ZonePricing": await zonePricing.getAddress(),
+      "contracts/libraries/ZoneCapacity.sol:ZoneCapacity": await zoneCapacity.getAddress(),
+      "contracts/libraries/EventRevenue.sol:EventRevenue": await eventRevenue.getAddress(),
+    },
+    deployer
+  ).deploy();
+  await eventManager.waitForDeployment();
+  return eventManager;
+}
+
+/**
+ * Deploys and wires the full stack from `deployer`, mirroring the Ignition module.
+ * Intended for tests and local tooling; real networks should use scripts/deploy.ts.
+ */
+export async function deployTicketingSystem(deployer: Signer): Promise<TicketingAddresses> {
+  const waitlistManager = await new WaitlistManager__factory(deployer).deploy();
+  await waitlistManager.waitForDeployment();
+
+  const ticketFactory = await new TicketFactory__factory(deployer).deploy(await waitlistManager.getAddress());
+  await ticketFactory.waitForDeployment();
+
+  const eventManager = await deployEventManager(deployer);
+
+  const refundEscrow = await new RefundEscrow__factory(deployer).deploy(await eventManager.getAddress());
+  await refundEscrow.waitForDeployment();
+
+  const conditionalFundsEscrow = await new ConditionalFundsEscrow__factory(deployer).deploy(
+    await eventManager.getAddress()
+  );
+  await conditionalFundsEscrow.waitForDeployment();
+
+  const resaleManager = await new ResaleManager__factory(deployer).deploy(await ticketFactory.getAddress());
+  await resaleManager.waitForDeployment();
+
+  const presaleManager = await new PresaleManager__factory(deployer).deploy(await eventManager.getAddress());
+  await presaleManager.waitForDeployment();
+
+  await (await eventManager.setRefundEscrow(await refundEscrow.getAddress())).wait();
+  await (await eventManager.setTicketFactory(await ticketFactory.getAddress())).wait();
+  await (await ticketFactory.setEventManager(await eventManager.getAddress())).wait();
+  await (await ticketFactory.setResaleManager(await resaleManager.getAddress())).wait();
+  await (await waitlistManager.setEventManager(await eventManager.getAddress())).wait();
+  await (await waitlistManager.setResaleManager(await resaleManager.getAddress())).wait();
+  await (await eventManager.setWaitlistManager(await waitlistManager.getAddress())).wait();
+  await (await resaleManager.setWaitlistManager(await waitlistManager.getAddress())).wait();
+  await (await waitlistManager.setFundsEscrow(await conditionalFundsEscrow.getAddress())).wait();
+  await (await conditionalFundsEscrow.setWaitlistManager(await waitlistManager.getAddress())).wait();
+  await (await eventManager.setPresaleManager(await presaleManager.getAddress())).wait();
+
+  return {
+    WaitlistManager: await waitlistManager.getAddress(),
+    TicketFactory: await ticketFactory.getAddress(),
+    EventManager: await eventManager.getAddress(),
+    RefundEscrow: await refundEscrow.getAddress(),
+    ConditionalFundsEscrow: await conditionalFundsEscrow.getAddress(),
+    ResaleManager: await resaleManager.getAddress(),
+    PresaleManager: await presaleManager.getAddress(),
+  };
+}
+
+/**
+ * Moves admin changes behind a PlatformTimelock, as the Ignition module does: the timelock gets the
+ * admin roles, `owner` proposes, executes, pauses and onboards operational roles, and `deployer`
+ * gives up its roles.
+ */
+export async function deployPlatformTimelock(
+  deployer: Signer,
+  addresses: TicketingAddresses,
+  owner: string,
+  minDelay: BigNumberish
+): Promise<string> {
+  const timelock = await new PlatformTimelock__factory(deployer).deploy(minDelay, [owner], [owner]);
+  await timelock.waitForDeployment();
+  const timelockAddress = await timelock.getAddress();
+
+  for (const name of Object.keys(addresses).filter((key) => key !== "PlatformTimelock") as CoreContract[]) {
+    const contract = IAccessControl__factory.connect(addresses[name], deployer);
+    await (await contract.grantRole(ROLES.DEFAULT_ADMIN, timelockAddress)).wait();
+    await (await contract.grantRole(ROLES.PLATFORM_ADMIN, timelockAddress)).wait();
+    await (await contract.grantRole(ROLES.OPERATOR, owner)).wait();
+    await (await contract.grantRole(ROLES.PAUSER, owner)).wait();
+  }
+  await (await EventManager__factory.connect(addresses.EventManager, deployer).setTreasury(owner)).wait();
+
+  const renounced: PlatformRole[] = ["PLATFORM_ADMIN", "DEFAULT_ADMIN"];
+  if ((await deployer.getAddress()).toLowerCase() !== owner.toLowerCase()) renounced.push("OPERATOR", "PAUSER");
+  await renounceRoles(deployer, addresses, renounced);
+  return timelockAddress;
+}
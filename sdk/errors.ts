@@ -0,0 +1,396 @@
+import { AbiCoder } from "ethers";
+
+export type TicketingErrorCode =
+  | "SOLD_OUT"
+  | "WAITLIST_PRIORITY"
+  | "INSUFFICIENT_PAYMENT"
+  | "EVENT_NOT_FOUND"
+  | "INVALID_ZONE"
+  | "EVENT_CANCELLED"
+  | "EVENT_ALREADY_OCCURRED"
+  | "EVENT_NOT_ENDED"
+  | "ALREADY_PURCHASED"
+  | "TICKET_NOT_FOUND"
+  | "TICKET_USED"
+  | "RESALE_PRICE_TOO_HIGH"
+  | "LISTING_UNAVAILABLE"
+  | "TRANSFER_RESTRICTED"
+  | "WAITLIST_STATE"
+  | "REFUND_UNAVAILABLE"
+  | "CHECK_IN_REJECTED"
+  | "PRESALE_RESTRICTED"
+  | "PROMO_CODE_REJECTED"
+  | "UNAUTHORIZED"
+  | "PAUSED"
+  | "INVALID_ARGUMENT"
+  | "TRANSFER_FAILED"
+  | "UNKNOWN";
+
+/**
+ * Base class for every error the SDK raises from a contract revert.
+ * `reason` is the raw revert string (or custom error name) reported by the chain.
+ */
+export abstract class TicketingError extends Error {
+  abstract readonly code: TicketingErrorCode;
+
+  constructor(readonly reason: string, readonly cause?: unknown) {
+    super(reason);
+    this.name = new.target.name;
+  }
+}
+
+export class SoldOutError extends TicketingError {
+  readonly code = "SOLD_OUT" as const;
+}
+
+export class WaitlistPriorityError extends TicketingError {
+  readonly code = "WAITLIST_PRIORITY" as const;
+}
+
+export class InsufficientPaymentError extends TicketingError {
+  readonly code = "INSUFFICIENT_PAYMENT" as const;
+}
+
+export class EventNotFoundError extends TicketingError {
+  readonly code = "EVENT_NOT_FOUND" as const;
+}
+
+export class InvalidZoneError extends TicketingError {
+  readonly code = "INVALID_ZONE" as const;
+}
+
+export class EventCancelledError extends TicketingError {
+  readonly code = "EVENT_CANCELLED" as const;
+}
+
+export class EventAlreadyOccurredError extends TicketingError {
+  readonly code = "EVENT_ALREADY_OCCURRED" as const;
+}
+
+export class EventNotEndedError extends TicketingError {
+  readonly code = "EVENT_NOT_ENDED" as const;
+}
+
+export class AlreadyPurchasedError extends TicketingError {
+  readonly code = "ALREADY_PURCHASED" as const;
+}
+
+export class TicketNotFoundError extends TicketingError {
+  readonly code = "TICKET_NOT_FOUND" as const;
+}
+
+export class TicketUsedError extends TicketingError {
+  readonly code = "TICKET_USED" as const;
+}
+
+export class ResalePriceTooHighError extends TicketingError {
+  readonly code = "RESALE_PRICE_TOO_HIGH" as const;
+}
+
+export class ListingUnavailableError extends TicketingError {
+  readonly code = "LISTING_UNAVAILABLE" as const;
+}
+
+export class TransferRestrictedError extends TicketingError {
+  readonly code = "TRANSFER_RESTRICTED" as const;
+}
+
+export class WaitlistStateError extends TicketingError {
+  readonly code = "WAITLIST_STATE" as const;
+}
+
+export class RefundUnavailableError extends TicketingError {
+  readonly code = "REFUND_UNAVAILABLE" as const;
+}
+
+export class CheckInRejectedError extends TicketingError {
+  readonly code = "CHECK_IN_REJECTED" as const;
+}
+
+export class PresaleRestrictedError extends TicketingError {
+  readonly code = "PRESALE_RESTRICTED" as const;
+}
+
+export class PromoCodeRejectedError extends TicketingError {
+  readonly code = "PROMO_CODE_REJECTED" as const;
+}
+
+export class UnauthorizedError extends TicketingError {
+  readonly code = "UNAUTHORIZED" as const;
+}
+
+export class PausedError extends TicketingError {
+  readonly code = "PAUSED" as const;
+}
+
+export class InvalidArgumentError extends TicketingError {
+  readonly code = "INVALID_ARGUMENT" as const;
+}
+
+export class TransferFailedError extends TicketingError {
+  readonly code = "TRANSFER_FAILED" as const;
+}
+
+export class UnknownTicketingError extends TicketingError {
+  readonly code = "UNKNOWN" as const;
+}
+
+/** Union of every concrete error class, so `switch (error.code)` narrows. */
+export type TicketingSdkError =
+  | SoldOutError
+  | WaitlistPriorityError
+  | InsufficientPaymentError
+  | EventNotFoundError
+  | InvalidZoneError
+  | EventCancelledError
+  | EventAlreadyOccurredError
+  | EventNotEndedError
+  | AlreadyPurchasedError
+  | TicketNotFoundError
+  | TicketUsedError
+  | ResalePriceTooHighError
+  | ListingUnavailableError
+  | TransferRestrictedError
+  | WaitlistStateError
+  | RefundUnavailableError
+  | CheckInRejectedError
+  | PresaleRestrictedError
+  | PromoCodeRejectedError
+  | UnauthorizedError
+  | PausedError
+  | InvalidArgumentError
+  | TransferFailedError
+  | UnknownTicketingError;
+
+type ErrorConstructor = new (reason: string, cause?: unknown) => TicketingSdkError;
+
+// Revert strings and custom error names emitted by the core contracts
+const REVERT_REASONS: Record<string, ErrorConstructor> = {
+  // Inventory
+  "No seats available in zone": SoldOutError,
+  "Seat already taken": SoldOutError,
+
+  // Waitlist priority
+  "Must respect waitlist priority": WaitlistPriorityError,
+
+  // Payments
+  "Insufficient payment": InsufficientPaymentError,
+  "Payment must match the zone price": InsufficientPaymentError,
+  "Payment amount is less than the listed ticket price": InsufficientPaymentError,
+  "Incorrect waitlist deposit": InsufficientPaymentError,
+
+  // Event state
+  "Event ID does not exist": EventNotFoundError,
+  "Invalid zone ID": InvalidZoneError,
+  "Zone does not exist": InvalidZoneError,
+  "Event cancelled": EventCancelledError,
+  "Event already cancelled": EventCancelledError,
+  "Event already occurred": EventAlreadyOccurredError,
+  "Event not ended yet": EventNotEndedError,
+  "Already purchased ticket": AlreadyPurchasedError,
+  "Quantity exceeds wallet ticket limit": AlreadyPurchasedError,
+
+  // Tickets and resale
+  ERC721NonexistentToken: TicketNotFoundError,
+  "This ticket has already been used": TicketUsedError,
+  "Cannot list a ticket for Resale that has already been used": TicketUsedError,
+  "Resale price exceeds the maximum allowed markup of the original price": ResalePriceTooHighError,
+  "This ticket is not listed for resale": ListingUnavailableError,
+  "This resale listing has expired": ListingUnavailableError,
+  "Cannot cancel a resale listing that is not active": ListingUnavailableError,
+  "This resale listing is stale": ListingUnavailableError,
+  "Resale listing is still valid": ListingUnavailableError,
+  "Listing is reserved for a waitlist offer": ListingUnavailableError,
+  "Offered listing is no longer available": ListingUnavailableError,
+  "Ticket transfers must use an approved route": TransferRestrictedError,
+  "Ticket transfers are locked for this event": TransferRestrictedError,
+
+  // Waitlist
+  "Caller is already in the waitlist for this event and zone": WaitlistStateError,
+  "Caller is not in the waitlist for this event and zone": WaitlistStateError,
+  "User is not in the waitlist for this event and zone": WaitlistStateError,
+  "Caller does not have an active ticket offer for this event and zone": WaitlistStateError,
+  "User does not have an active ticket offer for this event and zone": WaitlistStateError,
+  "The ticket offer for this event and zone has expired": WaitlistStateError,
+  "The ticket offer for this event and zone has not expired": WaitlistStateError,
+  "Waitlist deposit already held": WaitlistStateError,
+  "Event has not concluded or been cancelled": WaitlistStateError,
+
+  // Refunds
+  "No revenue": RefundUnavailableError,
+  "Refund request exceeds the allowable refund window": RefundUnavailableError,
+  "Cannot refund payment as the refund window has expired": RefundUnavailableError,
+  "Refunds cannot be processed for an event that has not been cancelled": RefundUnavailableError,
+  "This ticket has already been cancelled": RefundUnavailableError,
+  "This ticket has already been refunded": RefundUnavailableError,
+  "Payment must be in a Pending status to be refunded": RefundUnavailableError,
+  "No payment held for this ticket": RefundUnavailableError,
+  "Use the event cancellation refund for a cancelled event": RefundUnavailableError,
+  "Cannot refund a ticket after the event has concluded": RefundUnavailableError,
+  "Event funds already released": RefundUnavailableError,
+  "No pending refund": RefundUnavailableError,
+  "No reschedule refund window is open": RefundUnavailableError,
+  "Ticket was bought after the event was rescheduled": RefundUnavailableError,
+
+  "No royalties to withdraw": RefundUnavailableError,
+  "No pending payout": RefundUnavailableError,
+
+  // Gate check-in
+  "Check-in challenge has expired": CheckInRejectedError,
+  "Check-in challenge lifetime too long": CheckInRejectedError,
+  "Check-in challenge already used": CheckInRejectedError,
+  "Event is not admitting guests": CheckInRejectedError,
+  "Signature is not from the ticket holder": CheckInRejectedError,
+
+  // Presales and promo codes
+  "Sales have not opened for this zone": PresaleRestrictedError,
+  "Not on the presale allowlist": PresaleRestrictedError,
+  "Zone has no presale": PresaleRestrictedError,
+  "Invalid promo code": PromoCodeRejectedError,
+  "Promo code already redeemed": PromoCodeRejectedError,
+  "PresaleManager not set": PromoCodeRejectedError,
+
+  // Access control
+  AccessControlUnauthorizedAccount: UnauthorizedError,
+  ERC721InsufficientApproval: UnauthorizedError,
+  ERC721IncorrectOwner: UnauthorizedError,
+  "Not event organizer or platform admin": UnauthorizedError,
+  "Caller not organizer": UnauthorizedError,
+  "Caller is not the owner of the ticket": UnauthorizedError,
+  "Caller is not the seller of this ticket": UnauthorizedError,
+  "Caller is not the payer of this ticket": UnauthorizedError,
+  "Caller is not the original payer": UnauthorizedError,
+  "Caller is not the EventManager": UnauthorizedError,
+  "Caller is not the EventManager contract": UnauthorizedError,
+  "Caller is not the RefundEscrow": UnauthorizedError,
+  "Caller is not the TicketFactory": UnauthorizedError,
+  "Caller is not the WaitlistManager": UnauthorizedError,
+  "Caller is not the ConditionalFundsEscrow": UnauthorizedError,
+  "Caller is not the event organizer": UnauthorizedError,
+  "Caller is not the ResaleManager": UnauthorizedError,
+  "Caller is not the organizer or a refund keeper": UnauthorizedError,
+  "Caller is not an authorized gate scanner": UnauthorizedError,
+  EnforcedPause: PausedError,
+  "Pausable: paused": PausedError,
+
+  // Input validation
+  "Event name cannot be empty": InvalidArgumentError,
+  "Event date must be at least one day in the future": InvalidArgumentError,
+  "Zone capacities and prices arrays must match": InvalidArgumentError,
+  "At least one zone required": InvalidArgumentError,
+  "Base price must be greater than zero": InvalidArgumentError,
+  "Zone capacity must be greater than zero": InvalidArgumentError,
+  "Zone price must be >= base price": InvalidArgumentError,
+  "Platform fee exceeds maximum": InvalidArgumentError,
+  "Resale platform fee exceeds maximum": InvalidArgumentError,
+  "Resale royalty cap exceeds maximum": InvalidArgumentError,
+  "Resale royalty exceeds maximum": InvalidArgumentError,
+  "Invalid resale payee": InvalidArgumentError,
+  "Invalid recipient address": InvalidArgumentError,
+  "Invalid treasury address": InvalidArgumentError,
+  "Invalid TicketFactory address": InvalidArgumentError,
+  "Invalid EventManager address": InvalidArgumentError,
+  "Invalid ResaleManager address": InvalidArgumentError,
+  "Invalid Waitlist manager address": InvalidArgumentError,
+  "Invalid WaitlistManager address": InvalidArgumentError,
+  "Invalid ConditionalFundsEscrow address": InvalidArgumentError,
+  "Forfeit exceeds the deposit": InvalidArgumentError,
+  "Waitlist deposits need a ConditionalFundsEscrow": InvalidArgumentError,
+  "Invalid previous ResaleManager": InvalidArgumentError,
+  "Invalid refund batch size": InvalidArgumentError,
+  "Invalid ticket quantity": InvalidArgumentError,
+  "Invalid seat number": InvalidArgumentError,
+  "Zone requires a seat selection": InvalidArgumentError,
+  "Zone has no seat map": InvalidArgumentError,
+  "Zone already has tickets": InvalidArgumentError,
+  "Seat map must have at least one row": InvalidArgumentError,
+  "Seat map row cannot be empty": InvalidArgumentError,
+  "Seat map does not match zone capacity": InvalidArgumentError,
+  "Seat query too large": InvalidArgumentError,
+  "Transfer lock window too long": InvalidArgumentError,
+  "Too many price tiers": InvalidArgumentError,
+  "Tier price must be greater than zero": InvalidArgumentError,
+  "Tier price exceeds the price ceiling": InvalidArgumentError,
+  "Price tier needs an end time or sales limit": InvalidArgumentError,
+  "Price ceiling must be >= zone price": InvalidArgumentError,
+  "Event is already on this date": InvalidArgumentError,
+  "Capacity below tickets sold": InvalidArgumentError,
+  "Zone has a seat map": InvalidArgumentError,
+  "Invalid PresaleManager address": InvalidArgumentError,
+  "Invalid Merkle root": InvalidArgumentError,
+  "Presale must end after it starts": InvalidArgumentError,
+  "Invalid promo code count": InvalidArgumentError,
+  "Invalid promo discount": InvalidArgumentError,
+  "Promo code already exists": InvalidArgumentError,
+  "Invalid transfer agent address": InvalidArgumentError,
+  "Wallet ticket limit must be greater than zero": InvalidArgumentError,
+
+  // Value transfers
+  "Platform fee transfer failed": TransferFailedError,
+  "Refund failed": TransferFailedError,
+  "Transfer to organizer failed": TransferFailedError,
+  "Royalty withdrawal failed": TransferFailedError,
+  "Transfer of waitlist deposit failed": TransferFailedError,
+  "Transfer of payout failed": TransferFailedError,
+  "Transfer of funds to the ticket seller failed": TransferFailedError,
+  "Transfer of platform fee failed": TransferFailedError,
+  "Transfer of event funds failed": TransferFailedError,
+  "Transfer of cancellation fee failed": TransferFailedError,
+};
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+function findRevertReason(error: unknown, depth = 0): string | undefined {
+  if (error === null || typeof error !== "object" || depth > 4) return undefined;
+  const e = error as Record<string, unknown>;
+
+  if (typeof e.reason === "string" && e.reason.length > 0) return e.reason;
+  if (typeof e.revert === "object" && e.revert !== null && "name" in e.revert) {
+    const { name } = e.revert;
+    if (typeof name === "string" && name !== "Error") return name;
+  }
+
+  if (typeof e.data === "string" && e.data.startsWith(ERROR_STRING_SELECTOR)) {
+    try {
+      const [reason] = AbiCoder.defaultAbiCoder().decode(["string"], "0x" + e.data.slice(10));
+      return reason as string;
+    } catch {
+      // Fall through to message parsing
+    }
+  }
+
+  const message = typeof e.message === "string" ? e.message : "";
+  const reasonString = message.match(/reverted with reason string '(.*)'/);
+  if (reasonString) return reasonString[1];
+  const customError = message.match(/reverted with custom error '(\w+)\(/);
+  if (customError) return customError[1];
+
+  const info = typeof e.info === "object" && e.info !== null && "error" in e.info ? e.info.error : undefined;
+  return findRevertReason(e.error, depth + 1) ?? findRevertReason(info, depth + 1);
+}
+
+/**
+ * Converts an error thrown by ethers into a typed `TicketingSdkError`.
+ * Errors that are already typed are returned unchanged.
+ */
+export function parseTicketingError(error: unknown): TicketingSdkError {
+  if (error instanceof TicketingError) return error as TicketingSdkError;
+
+  const reason = findRevertReason(error);
+  if (reason === undefined) {
+    const message = error instanceof Error ? error.message : String(error);
+    return new UnknownTicketingError(message, error);
+  }
+
+  const ErrorClass = REVERT_REASONS[reason] ?? UnknownTicketingError;
+  return new ErrorClass(reason, error);
+}
+
+/** Runs a contract interaction and rethrows any revert as a typed SDK error. */
+export async function withTicketingErrors<T>(action: () => Promise<T>): Promise<T> {
+  try {
+    return await action();
+  } catch (error) {
+    throw parseTicketingError(error);
+  }
+}
@@ -0,0 +1,49 @@
+import type { ContractRunner } from "ethers";
+import { EventManagerClient } from "./clients/EventManagerClient";
+import { PresaleManagerClient } from "./clients/PresaleManagerClient";
+import { RefundEscrowClient } from "./clients/RefundEscrowClient";
+import { ResaleManagerClient } from "./clients/ResaleManagerClient";
+import { TicketFactoryClient } from "./clients/TicketFactoryClient";
+import { WaitlistManagerClient } from "./clients/WaitlistManagerClient";
+import type { TicketingAddresses } from "./types";
+
+export interface TicketingClients {
+  eventManager: EventManagerClient;
+  ticketFactory: TicketFactoryClient;
+  resaleManager: ResaleManagerClient;
+  refundEscrow: RefundEscrowClient;
+  waitlistManager: WaitlistManagerClient;
+  presaleManager: PresaleManagerClient;
+}
+
+/** Builds every client for a deployment, e.g. from a deployments/<network>.json manifest. */
+export function connectTicketingSystem(addresses: TicketingAddresses, runner: ContractRunner): TicketingClients {
+  return {
+    eventManager: new EventManagerClient(addresses.EventManager, runner),
+    ticketFactory: new TicketFactoryClient(addresses.TicketFactory, runner),
+    resaleManager: new ResaleManagerClient(addresses.ResaleManager, runner),
+    refundEscrow: new RefundEscrowClient(addresses.RefundEscrow, runner),
+    waitlistManager: new WaitlistManagerClient(addresses.WaitlistManager, runner),
+    presaleManager: new PresaleManagerClient(addresses.PresaleManager, runner),
+  };
+}
+
+export {
+  EventManagerClient,
+  PresaleManagerClient,
+  RefundEscrowClient,
+  ResaleManagerClient,
+  TicketFactoryClient,
+  WaitlistManagerClient,
+};
+export { deployEventManager, deployPlatformTimelock, deployTicketingSystem } from "./deploy";
+export * from "./roles";
+export * from "./timelock";
+export * from "./keepers";
+export * from "./checkin";
+export * from "./seating";
+export * from "./pricing";
+export * from "./presale";
+export * from "./reporting";
+export * from "./errors";
+export * from "./types";
@@ -0,0 +1,2 @@
+export * from "./refunds";
+export * from "./waitlist";
@@ -0,0 +1,60 @@
+import type { BigNumberish } from "ethers";
+import type { RefundEscrowClient } from "../clients/RefundEscrowClient";
+import type { RefundBatchResult } from "../types";
+
+export interface RefundKeeperOptions {
+  /** Tickets per transaction; must not exceed RefundEscrow.MAX_REFUND_BATCH_SIZE */
+  batchSize?: number;
+  /** Called after every mined batch */
+  onProgress?: (batch: RefundBatchResult) => void;
+}
+
+export interface RefundKeeperSummary {
+  eventId: bigint;
+  batches: number;
+  refunded: bigint;
+  deferred: bigint;
+  amount: bigint;
+  total: bigint;
+}
+
+/**
+ * Calls `processEventRefundBatch` until the cursor of a cancelled event has walked every
+ * deposited ticket. Safe to re-run: it resumes from the on-chain cursor and returns at once
+ * when nothing is left.
+ */
+export async function settleCancellationRefunds(
+  refundEscrow: RefundEscrowClient,
+  eventId: BigNumberish,
+  { batchSize = 100, onProgress }: RefundKeeperOptions = {}
+): Promise<RefundKeeperSummary> {
+  const progress = await refundEscrow.getRefundProgress(eventId);
+  if (!progress.isCancelled) {
+    throw new Error(`Event ${eventId} has not been cancelled`);
+  }
+
+  const summary: RefundKeeperSummary = {
+    eventId: BigInt(eventId),
+    batches: 0,
+    refunded: 0n,
+    deferred: 0n,
+    amount: 0n,
+    total: progress.total,
+  };
+
+  let cursor = progress.cursor;
+  while (cursor < summary.total) {
+    const batch = await refundEscrow.processRefundBatch(eventId, batchSize);
+    if (batch.cursor <= cursor) {
+      throw new Error(`Refund batch for event ${eventId} made no progress at cursor ${cursor}; raise the gas limit`);
+    }
+    cursor = batch.cursor;
+    summary.batches++;
+    summary.refunded += batch.refunded;
+    summary.deferred += batch.deferred;
+    summary.amount += batch.amount;
+    summary.total = batch.total;
+    onProgress?.(batch);
+  }
+  return summary;
+}
@@ -0,0 +1,65 @@
+import type { BigNumberish } from "ethers";
+import type { EventManagerClient } from "../clients/EventManagerClient";
+import type { WaitlistManagerClient } from "../clients/WaitlistManagerClient";
+import type { WaitlistOffer } from "../types";
+
+export interface WaitlistKeeperOptions {
+  /** Called after each lapsed offer is expired on-chain */
+  onExpired?: (offer: WaitlistOffer, transactionHash: string) => void;
+  /** Called after each batch of added seats is offered to a zone's waitlist */
+  onSeatsOffered?: (zoneId: bigint, seatNumbers: bigint[], transactionHash: string) => void;
+}
+
+export interface WaitlistKeeperSummary {
+  eventId: bigint;
+  zones: number;
+  /** Offers still within their acceptance window */
+  active: number;
+  expired: number;
+  /** Added seats offered that a capacity raise had left for the keeper */
+  seatsOffered: number;
+}
+
+/**
+ * Expires every lapsed waitlist offer for an event, zone by zone. Each expiry moves the
+ * seat or listing to the next user in line (or back on sale), so run this on a schedule
+ * shorter than `OFFER_DURATION`. Safe to re-run: offers that are still open are left alone.
+ * Added seats a capacity raise could not offer in one transaction are offered here too.
+ */
+export async function expireWaitlistOffers(
+  waitlistManager: WaitlistManagerClient,
+  eventManager: EventManagerClient,
+  eventId: BigNumberish,
+  { onExpired, onSeatsOffered }: WaitlistKeeperOptions = {}
+): Promise<WaitlistKeeperSummary> {
+  const zones = await eventManager.getZones(eventId);
+  // Added seats can only be offered while the event is still ahead
+  const { cancelled } = await eventManager.getEvent(eventId);
+  const selling = !cancelled && !(await eventManager.hasEventConcluded(eventId));
+  const summary: WaitlistKeeperSummary = {
+    eventId: BigInt(eventId),
+    zones: zones.length,
+    active: 0,
+    expired: 0,
+    seatsOffered: 0,
+  };
+
+  for (const zone of zones) {
+    for (const offer of await waitlistManager.getOffers(eventId, zone.zoneId)) {
+      if (offer.isActive) {
+        summary.active++;
+        continue;
+      }
+      const { transactionHash } = await waitlistManager.expireOffer(eventId, zone.zoneId, offer.user);
+      summary.expired++;
+      onExpired?.(offer, transactionHash);
+    }
+    // Each call offers a bounded batch, or puts every remaining seat on sale once nobody is waiting
+    while (selling && (await eventManager.getSeatsAwaitingOffer(eventId, zone.zoneId)) > 0n) {
+      const { seatNumbers, transactionHash } = await eventManager.offerAddedSeats(eventId, zone.zoneId);
+      summary.seatsOffered += seatNumbers.length;
+      onSeatsOffered?.(zone.zoneId, seatNumbers, transactionHash);
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,100 @@
+import { AbiCoder, getAddress, isAddress, keccak256 } from "ethers";
+
+/**
+ * A presale allowlist as a Merkle tree. Pairs are hashed in sorted order, which is what
+ * OpenZeppelin's `MerkleProof` (and so `PresaleManager`) verifies against.
+ */
+export interface Allowlist {
+  root: string;
+  /** Checksummed addresses in the order they were given, duplicates removed */
+  accounts: string[];
+  /** Sibling hashes from leaf to root, keyed by checksummed address */
+  proofs: Record<string, string[]>;
+}
+
+/** `keccak256(bytes.concat(keccak256(abi.encode(account))))`, matching `PresaleManager`. */
+export function allowlistLeaf(account: string): string {
+  return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address"], [account])));
+}
+
+/** Hash an organizer registers with `addPromoCodes`; only `buyer` can redeem the plain code. */
+export function hashPromoCode(code: string, buyer: string): string {
+  return keccak256(AbiCoder.defaultAbiCoder().encode(["string", "address"], [code, buyer]));
+}
+
+function hashPair(a: string, b: string): string {
+  const [left, right] = BigInt(a) < BigInt(b) ? [a, b] : [b, a];
+  return keccak256(left + right.slice(2));
+}
+
+export function buildAllowlist(addresses: string[]): Allowlist {
+  const accounts = [...new Set(addresses.map((address) => getAddress(address)))];
+  if (accounts.length === 0) {
+    throw new Error("An allowlist needs at least one address");
+  }
+
+  // Sorting the leaves makes the root independent of the input order
+  const leaves = accounts.map((account) => ({ account, hash: allowlistLeaf(account) }));
+  leaves.sort((a, b) => (BigInt(a.hash) < BigInt(b.hash) ? -1 : 1));
+
+  const layers: string[][] = [leaves.map((leaf) => leaf.hash)];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      // An unpaired node moves up unchanged
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  const proofs: Record<string, string[]> = {};
+  leaves.forEach((leaf, leafIndex) => {
+    const proof: string[] = [];
+    let index = leafIndex;
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) proof.push(layer[sibling]);
+      index = Math.floor(index / 2);
+    }
+    proofs[leaf.account] = proof;
+  });
+
+  return { root: layers[layers.length - 1][0], accounts, proofs };
+}
+
+/** Proof for `account`, or an error if it is not on the allowlist. */
+export function getAllowlistProof(allowlist: Allowlist, account: string): string[] {
+  const proof = allowlist.proofs[getAddress(account)];
+  if (proof === undefined) {
+    throw new Error(`${account} is not on the allowlist`);
+  }
+  return proof;
+}
+
+/**
+ * Reads addresses from a CSV export. Uses the `address` column when there is a header row,
+ * otherwise the first column of every line.
+ */
+export function parseAllowlistCsv(contents: string): string[] {
+  const lines = contents.split(/\r?\n/).map((line) => line.trim()).filter((line) => line.length > 0);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(",").map((column) => column.trim().toLowerCase());
+  let column = 0;
+  if (!isAddress(header[0])) {
+    column = header.indexOf("address");
+    if (column === -1) {
+      throw new Error('Allowlist CSV must have an "address" column or start with an address');
+    }
+    lines.shift();
+  }
+
+  return lines.map((line, i) => {
+    const cell = (line.split(",")[column] ?? "").trim();
+    if (!isAddress(cell)) {
+      throw new Error(`Allowlist CSV line ${i + 1} has no valid address: "${line}"`);
+    }
+    return cell;
+  });
+}
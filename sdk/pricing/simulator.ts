@@ -0,0 +1,88 @@
+import type { DemandCurve, PriceSchedule } from "../types";
+
+const BPS_DENOMINATOR = 10_000n;
+
+/** A zone as `EventManager` prices it: the creation price plus an optional schedule. */
+export interface PricedZone {
+  capacity: bigint;
+  price: bigint;
+  schedule?: PriceSchedule;
+}
+
+/** Tickets bought at a point in time, in one purchase or many. */
+export interface SalesPoint {
+  /** Unix timestamp in seconds */
+  timestamp: bigint;
+  quantity: bigint;
+}
+
+export interface SimulatedSale {
+  timestamp: bigint;
+  /** Tickets sold at this point; less than requested once the zone sells out */
+  quantity: bigint;
+  /** Price of each ticket, in sale order */
+  prices: bigint[];
+  total: bigint;
+}
+
+export interface PriceSimulation {
+  sales: SimulatedSale[];
+  ticketsSold: bigint;
+  /** Demand the zone could not serve because it had sold out */
+  unmetDemand: bigint;
+  /** Gross ticket revenue before the platform fee */
+  revenue: bigint;
+}
+
+/**
+ * Price of the next ticket once `sold` tickets of the zone are out, at `timestamp`.
+ * Mirrors `EventManager.getZonePrice`, including its integer rounding.
+ */
+export function zonePriceAt(zone: PricedZone, sold: bigint, timestamp: bigint): bigint {
+  let price = zone.price;
+  for (const tier of zone.schedule?.tiers ?? []) {
+    const beforeDeadline = tier.endsAt === 0n || timestamp < tier.endsAt;
+    const underSalesLimit = tier.maxSales === 0n || sold < tier.maxSales;
+    if (beforeDeadline && underSalesLimit) {
+      price = tier.price;
+      break;
+    }
+  }
+  return applyDemandCurve(price, zone.schedule?.demandCurve, sold, zone.capacity);
+}
+
+function applyDemandCurve(price: bigint, curve: DemandCurve | undefined, sold: bigint, capacity: bigint): bigint {
+  if (curve === undefined || curve.maxIncreaseBps === 0n) return price;
+  const raised = price + (price * curve.maxIncreaseBps * sold) / (BPS_DENOMINATOR * capacity);
+  return raised > curve.ceiling ? curve.ceiling : raised;
+}
+
+/**
+ * Predicts what a zone earns for a sales curve. Points are replayed in timestamp order and each
+ * ticket is priced as it sells, so a batch moves along the schedule exactly like on-chain
+ * purchases. Demand beyond capacity is reported as `unmetDemand`.
+ */
+export function simulatePriceSchedule(zone: PricedZone, salesCurve: SalesPoint[], alreadySold = 0n): PriceSimulation {
+  const points = [...salesCurve].sort((a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0));
+  const sales: SimulatedSale[] = [];
+  let sold = alreadySold;
+  let unmetDemand = 0n;
+  let revenue = 0n;
+
+  for (const point of points) {
+    const prices: bigint[] = [];
+    for (let i = 0n; i < point.quantity; i++) {
+      if (sold >= zone.capacity) {
+        unmetDemand += point.quantity - i;
+        break;
+      }
+      prices.push(zonePriceAt(zone, sold, point.timestamp));
+      sold++;
+    }
+    const total = prices.reduce((sum, price) => sum + price, 0n);
+    revenue += total;
+    sales.push({ timestamp: point.timestamp, quantity: BigInt(prices.length), prices, total });
+  }
+
+  return { sales, ticketsSold: sold - alreadySold, unmetDemand, revenue };
+}
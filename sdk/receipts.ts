@@ -0,0 +1,30 @@
+import type { ContractTransactionReceipt, ContractTransactionResponse, Interface, LogDescription } from "ethers";
+
+/** Waits for a transaction and returns its receipt, failing loudly if the node dropped it. */
+export async function confirm(tx: ContractTransactionResponse): Promise<ContractTransactionReceipt> {
+  const receipt = await tx.wait();
+  if (receipt === null) {
+    throw new Error(`Transaction ${tx.hash} was not mined`);
+  }
+  return receipt;
+}
+
+/** Returns the first log in `receipt` that `iface` decodes as `eventName`. */
+export function findLog(
+  receipt: ContractTransactionReceipt,
+  iface: Interface,
+  eventName: string
+): LogDescription {
+  for (const log of receipt.logs) {
+    let parsed: LogDescription | null = null;
+    try {
+      parsed = iface.parseLog(log);
+    } catch {
+      // Log from another contract whose topic collides with ours; skip it
+    }
+    if (parsed !== null && parsed.name === eventName) {
+      return parsed;
+    }
+  }
+  throw new Error(`Transaction ${receipt.hash} did not emit ${eventName}`);
+}
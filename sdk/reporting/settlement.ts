@@ -0,0 +1,347 @@
+import { formatEther, type BigNumberish, type BlockTag } from "ethers";
+import type { TicketingClients } from "../index";
+
+/** The contracts a statement is rebuilt from. */
+export type SettlementClients = Pick<TicketingClients, "eventManager" | "ticketFactory" | "refundEscrow" | "resaleManager">;
+
+export interface SettlementOptions {
+  /** First block to read logs from; the deployment block saves a scan of the whole chain */
+  fromBlock?: number;
+  /** Block the statement is drawn up at; defaults to the latest block */
+  toBlock?: number;
+}
+
+export interface ZoneSettlement {
+  zoneId: bigint;
+  ticketsSold: bigint;
+  grossSales: bigint;
+  platformFees: bigint;
+  /** Tickets handed back for a refund; their sales are reversed and excluded from the figures above */
+  ticketsReturned: bigint;
+  /** Tickets issued free by the organizer */
+  ticketsIssued: bigint;
+}
+
+export interface ReconciliationCheck {
+  name: string;
+  /** Figure rebuilt from logs */
+  expected: bigint;
+  /** Figure read from the contracts at the statement block */
+  actual: bigint;
+  matches: boolean;
+}
+
+/**
+ * One event's money, rebuilt from the logs of EventManager, TicketFactory, RefundEscrow and
+ * ResaleManager and checked against the contracts at `toBlock`. Amounts are in wei.
+ */
+export interface SettlementStatement {
+  eventId: bigint;
+  organizer: string;
+  cancelled: boolean;
+  fromBlock: number;
+  toBlock: number;
+  zones: ZoneSettlement[];
+  /** Primary sales that were not returned */
+  grossSales: bigint;
+  platformFees: bigint;
+  refunds: {
+    /** Paid to holders who returned a ticket, net of cancellation fees */
+    voluntary: bigint;
+    /** Paid to holders who returned a ticket after the event was rescheduled */
+    reschedule: bigint;
+    /** Paid, or credited for later withdrawal, to holders of a cancelled event */
+    cancellation: bigint;
+    total: bigint;
+  };
+  /** Kept by the platform from tickets returned in the last week of their refund window */
+  cancellationFees: bigint;
+  resale: {
+    resales: bigint;
+    volume: bigint;
+    platformFees: bigint;
+    organizerRoyalties: bigint;
+    payeeRoyalties: bigint;
+  };
+  revenue: {
+    /** Organizer share of the sales above, after the platform fee */
+    earned: bigint;
+    withdrawn: bigint;
+    /** Booked but not yet withdrawn; never paid out for a cancelled event */
+    outstanding: bigint;
+  };
+  platform: {
+    feesCollected: bigint;
+    feesOutstanding: bigint;
+  };
+  escrow: {
+    deposited: bigint;
+    /** Full price of returned tickets plus cancellation refunds */
+    refunded: bigint;
+    /** Sent to EventManager when the organizer withdrew */
+    released: bigint;
+    held: bigint;
+  };
+  reconciliation: ReconciliationCheck[];
+}
+
+function check(name: string, expected: bigint, actual: bigint): ReconciliationCheck {
+  return { name, expected, actual, matches: expected === actual };
+}
+
+function sum(values: bigint[]): bigint {
+  return values.reduce((total, value) => total + value, 0n);
+}
+
+async function resolveBlocks(clients: SettlementClients, options: SettlementOptions) {
+  const provider = clients.eventManager.contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Settlement reports need clients connected to a provider");
+  }
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  return { provider, fromBlock: options.fromBlock ?? 0, toBlock };
+}
+
+/**
+ * Draws up the settlement statement of one event. Views are read at the same block the logs
+ * stop at, so the reconciliation checks compare like with like. Resales through a previous
+ * ResaleManager are not included.
+ */
+export async function buildSettlementStatement(
+  clients: SettlementClients,
+  eventId: BigNumberish,
+  options: SettlementOptions = {}
+): Promise<SettlementStatement> {
+  const { fromBlock, toBlock } = await resolveBlocks(clients, options);
+  const blockTag: BlockTag = toBlock;
+  const id = BigInt(eventId);
+  const eventManager = clients.eventManager.contract;
+  const ticketFactory = clients.ticketFactory.contract;
+  const refundEscrow = clients.refundEscrow.contract;
+  const resaleManager = clients.resaleManager.contract;
+
+  const [minted, booked, returned, revenueWithdrawn, feesCollected] = await Promise.all([
+    ticketFactory.queryFilter(ticketFactory.filters.TicketMinted(undefined, id), fromBlock, toBlock),
+    eventManager.queryFilter(eventManager.filters.SaleBooked(id), fromBlock, toBlock),
+    eventManager.queryFilter(eventManager.filters.TicketRefunded(id), fromBlock, toBlock),
+    eventManager.queryFilter(eventManager.filters.RevenueWithdrawn(id), fromBlock, toBlock),
+    eventManager.queryFilter(eventManager.filters.PlatformFeeCollected(id), fromBlock, toBlock),
+  ]);
+  const [cancelledTickets, paymentRefunds, rescheduleRefunds, cancellationRefunds, released] = await Promise.all([
+    refundEscrow.queryFilter(refundEscrow.filters.TicketCancelled(id), fromBlock, toBlock),
+    refundEscrow.queryFilter(refundEscrow.filters.PaymentRefunded(id), fromBlock, toBlock),
+    refundEscrow.queryFilter(refundEscrow.filters.RescheduleRefunded(id), fromBlock, toBlock),
+    refundEscrow.queryFilter(refundEscrow.filters.EventCancellationRefunded(id), fromBlock, toBlock),
+    refundEscrow.queryFilter(refundEscrow.filters.EventFundsReleased(id), fromBlock, toBlock),
+  ]);
+
+  const zoneOf = new Map(minted.map(({ args }) => [args.tokenId, args.zoneId]));
+  const sales = new Map(booked.map(({ args }) => [args.ticketId, { price: args.price, fee: args.platformFee }]));
+  const returnedIds = new Set(returned.map(({ args }) => args.ticketId));
+
+  const zoneCount = await eventManager.getZoneCount(id, { blockTag });
+  const zones: ZoneSettlement[] = Array.from({ length: Number(zoneCount) }, (_, zoneId) => ({
+    zoneId: BigInt(zoneId),
+    ticketsSold: 0n,
+    grossSales: 0n,
+    platformFees: 0n,
+    ticketsReturned: 0n,
+    ticketsIssued: 0n,
+  }));
+  for (const [ticketId, zoneId] of zoneOf) {
+    const zone = zones[Number(zoneId)];
+    const sale = sales.get(ticketId);
+    if (sale === undefined) {
+      zone.ticketsIssued++;
+    } else if (returnedIds.has(ticketId)) {
+      zone.ticketsReturned++;
+    } else {
+      zone.ticketsSold++;
+      zone.grossSales += sale.price;
+      zone.platformFees += sale.fee;
+    }
+  }
+
+  // A returned ticket's price went back to the holder, less any cancellation fee
+  const priceOf = (ticketId: bigint) => sales.get(ticketId)?.price ?? 0n;
+  const returnedPayments = sum([...returnedIds].map(priceOf));
+  const cancellationFees = sum(cancelledTickets.map(({ args }) => priceOf(args.ticketId) - args.refundAmount));
+  const refunds = {
+    voluntary: sum(cancelledTickets.map(({ args }) => args.refundAmount)) + sum(paymentRefunds.map(({ args }) => args.amount)),
+    reschedule: sum(rescheduleRefunds.map(({ args }) => args.refundAmount)),
+    cancellation: sum(cancellationRefunds.map(({ args }) => args.refundAmount)),
+    total: 0n,
+  };
+  refunds.total = refunds.voluntary + refunds.reschedule + refunds.cancellation;
+
+  const grossSales = sum(zones.map((zone) => zone.grossSales));
+  const platformFees = sum(zones.map((zone) => zone.platformFees));
+  const withdrawn = sum(revenueWithdrawn.map(({ args }) => args.amount));
+  const collected = sum(feesCollected.map(({ args }) => args.amount));
+  const escrow = {
+    deposited: sum([...sales.values()].map((sale) => sale.price)),
+    refunded: returnedPayments + refunds.cancellation,
+    released: sum(released.map(({ args }) => args.amount)),
+    held: 0n,
+  };
+  escrow.held = escrow.deposited - escrow.refunded - escrow.released;
+
+  const [organizer, cancelled] = await Promise.all([
+    eventManager.getOrganizer(id, { blockTag }),
+    refundEscrow.isEventCancelled(id, { blockTag }),
+  ]);
+  const resale = await resaleSettlement(clients, new Set(zoneOf.keys()), organizer, fromBlock, toBlock);
+
+  const revenue = { earned: grossSales - platformFees, withdrawn, outstanding: grossSales - platformFees - withdrawn };
+  const platform = { feesCollected: collected, feesOutstanding: platformFees - collected };
+  const reconciliation = [
+    check("Organizer revenue outstanding", revenue.outstanding, await eventManager.getEventRevenue(id, { blockTag })),
+    check("Escrow held for the event", escrow.held, await refundEscrow.getEventBalance(id, { blockTag })),
+    check("Returned ticket payments", returnedPayments, refunds.voluntary + refunds.reschedule + cancellationFees),
+  ];
+  if (escrow.released > 0n) {
+    reconciliation.push(check("Released funds paid out", escrow.released, withdrawn + collected));
+  } else if (!cancelled) {
+    reconciliation.push(check("Escrow covers revenue and fees", escrow.held, revenue.outstanding + platform.feesOutstanding));
+  }
+
+  return {
+    eventId: id,
+    organizer,
+    cancelled,
+    fromBlock,
+    toBlock,
+    zones,
+    grossSales,
+    platformFees,
+    refunds,
+    cancellationFees,
+    resale,
+    revenue,
+    platform,
+    escrow,
+    reconciliation,
+  };
+}
+
+async function resaleSettlement(
+  clients: SettlementClients,
+  tokenIds: Set<bigint>,
+  organizer: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<SettlementStatement["resale"]> {
+  const resaleManager = clients.resaleManager.contract;
+  // Resale logs are keyed by token, so they are fetched for every event and filtered here
+  const [resold, fees, royalties] = await Promise.all([
+    resaleManager.queryFilter(resaleManager.filters.TicketResold(), fromBlock, toBlock),
+    resaleManager.queryFilter(resaleManager.filters.PlatformFeeCollected(), fromBlock, toBlock),
+    resaleManager.queryFilter(resaleManager.filters.RoyaltyAccrued(), fromBlock, toBlock),
+  ]);
+  const ours = <T extends { args: { tokenId: bigint } }>(logs: T[]) => logs.filter(({ args }) => tokenIds.has(args.tokenId));
+  const royaltiesTo = (toOrganizer: boolean) =>
+    sum(
+      ours(royalties)
+        .filter(({ args }) => (args.recipient === organizer) === toOrganizer)
+        .map(({ args }) => args.amount)
+    );
+
+  return {
+    resales: BigInt(ours(resold).length),
+    volume: sum(ours(resold).map(({ args }) => args.price)),
+    platformFees: sum(ours(fees).map(({ args }) => args.amount)),
+    organizerRoyalties: royaltiesTo(true),
+    payeeRoyalties: royaltiesTo(false),
+  };
+}
+
+/**
+ * Checks platform-wide that the ETH each contract holds is exactly what the logs say it owes:
+ * escrowed payments and deferred refunds in RefundEscrow, unclaimed royalties in ResaleManager,
+ * and nothing in EventManager, which only passes funds through.
+ */
+export async function reconcileContractBalances(
+  clients: SettlementClients,
+  options: SettlementOptions = {}
+): Promise<ReconciliationCheck[]> {
+  const { provider, fromBlock, toBlock } = await resolveBlocks(clients, options);
+  const refundEscrow = clients.refundEscrow.contract;
+  const resaleManager = clients.resaleManager.contract;
+  const eventManager = clients.eventManager.contract;
+
+  const [deposits, booked, returned, cancellationRefunds, released, deferred, withdrawnRefunds] = await Promise.all([
+    refundEscrow.queryFilter(refundEscrow.filters.PaymentDeposited(), fromBlock, toBlock),
+    eventManager.queryFilter(eventManager.filters.SaleBooked(), fromBlock, toBlock),
+    eventManager.queryFilter(eventManager.filters.TicketRefunded(), fromBlock, toBlock),
+    refundEscrow.queryFilter(refundEscrow.filters.EventCancellationRefunded(), fromBlock, toBlock),
+    refundEscrow.queryFilter(refundEscrow.filters.EventFundsReleased(), fromBlock, toBlock),
+    refundEscrow.queryFilter(refundEscrow.filters.RefundDeferred(), fromBlock, toBlock),
+    refundEscrow.queryFilter(refundEscrow.filters.PendingRefundWithdrawn(), fromBlock, toBlock),
+  ]);
+  const [accrued, royaltiesWithdrawn] = await Promise.all([
+    resaleManager.queryFilter(resaleManager.filters.RoyaltyAccrued(), fromBlock, toBlock),
+    resaleManager.queryFilter(resaleManager.filters.RoyaltyWithdrawn(), fromBlock, toBlock),
+  ]);
+
+  // Every returned ticket leaves escrow at its full price, whichever refund path it took
+  const priceOf = new Map(booked.map(({ args }) => [args.ticketId, args.price]));
+  const returnedPayments = sum(returned.map(({ args }) => priceOf.get(args.ticketId) ?? 0n));
+  // Deferred cancellation refunds stay in the contract until their recipient withdraws them
+  const paidCancellationRefunds =
+    sum(cancellationRefunds.map(({ args }) => args.refundAmount)) - sum(deferred.map(({ args }) => args.amount));
+  const escrowHeld =
+    sum(deposits.map(({ args }) => args.amount)) -
+    returnedPayments -
+    paidCancellationRefunds -
+    sum(released.map(({ args }) => args.amount)) -
+    sum(withdrawnRefunds.map(({ args }) => args.amount));
+
+  const balanceOf = async (address: string) => provider.getBalance(address, toBlock);
+  return [
+    check("RefundEscrow balance", escrowHeld, await balanceOf(await refundEscrow.getAddress())),
+    check(
+      "ResaleManager balance",
+      sum(accrued.map(({ args }) => args.amount)) - sum(royaltiesWithdrawn.map(({ args }) => args.amount)),
+      await balanceOf(await resaleManager.getAddress())
+    ),
+    check("EventManager balance", 0n, await balanceOf(await eventManager.getAddress())),
+  ];
+}
+
+const CSV_HEADER = ["event_id", "line_item", "zone_id", "tickets", "amount_wei", "amount_eth"];
+
+/** One row per line item, zone lines first, ready for a spreadsheet. */
+export function settlementToCsv(statements: SettlementStatement[]): string {
+  const rows: string[][] = [CSV_HEADER];
+  const line = (statement: SettlementStatement, item: string, amount: bigint, zoneId = "", tickets = "") =>
+    rows.push([statement.eventId.toString(), item, zoneId, tickets, amount.toString(), formatEther(amount)]);
+
+  for (const statement of statements) {
+    for (const zone of statement.zones) {
+      line(statement, "gross_sales", zone.grossSales, zone.zoneId.toString(), zone.ticketsSold.toString());
+      line(statement, "platform_fees", zone.platformFees, zone.zoneId.toString(), zone.ticketsSold.toString());
+    }
+    line(statement, "gross_sales", statement.grossSales, "", sum(statement.zones.map((zone) => zone.ticketsSold)).toString());
+    line(statement, "platform_fees", statement.platformFees);
+    line(statement, "refunds_voluntary", statement.refunds.voluntary);
+    line(statement, "refunds_reschedule", statement.refunds.reschedule);
+    line(statement, "refunds_cancellation", statement.refunds.cancellation);
+    line(statement, "cancellation_fees", statement.cancellationFees);
+    line(statement, "resale_volume", statement.resale.volume, "", statement.resale.resales.toString());
+    line(statement, "resale_platform_fees", statement.resale.platformFees);
+    line(statement, "resale_organizer_royalties", statement.resale.organizerRoyalties);
+    line(statement, "resale_payee_royalties", statement.resale.payeeRoyalties);
+    line(statement, "organizer_revenue", statement.revenue.earned);
+    line(statement, "organizer_withdrawn", statement.revenue.withdrawn);
+    line(statement, "organizer_outstanding", statement.revenue.outstanding);
+    line(statement, "platform_fees_collected", statement.platform.feesCollected);
+    line(statement, "platform_fees_outstanding", statement.platform.feesOutstanding);
+    line(statement, "escrow_held", statement.escrow.held);
+  }
+  return rows.map((row) => row.join(",")).join("\n") + "\n";
+}
+
+/** JSON with amounts as decimal wei strings, since JSON numbers cannot hold them exactly. */
+export function settlementToJson(value: SettlementStatement | SettlementStatement[] | ReconciliationCheck[]): string {
+  return JSON.stringify(value, (_, field) => (typeof field === "bigint" ? field.toString() : field), 2) + "\n";
+}
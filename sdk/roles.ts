@@ -0,0 +1,96 @@
+import { ZeroHash, id, type ContractRunner, type Signer } from "ethers";
+import { IAccessControl__factory } from "../typechain-types";
+import type { TicketingAddresses } from "./types";
+
+export type PlatformRole =
+  | "DEFAULT_ADMIN"
+  | "PLATFORM_ADMIN"
+  | "ORGANIZER"
+  | "GATE_SCANNER"
+  | "KEEPER"
+  | "OPERATOR"
+  | "PAUSER";
+
+/** Role identifiers, matching the constants in `PlatformAccessControl`. */
+export const ROLES: Record<PlatformRole, string> = {
+  DEFAULT_ADMIN: ZeroHash,
+  PLATFORM_ADMIN: id("PLATFORM_ADMIN_ROLE"),
+  ORGANIZER: id("ORGANIZER_ROLE"),
+  GATE_SCANNER: id("GATE_SCANNER_ROLE"),
+  KEEPER: id("KEEPER_ROLE"),
+  OPERATOR: id("OPERATOR_ROLE"),
+  PAUSER: id("PAUSER_ROLE"),
+};
+
+// Every contract built on PlatformAccessControl
+export type CoreContract = Exclude<keyof TicketingAddresses, "PlatformTimelock">;
+
+const ALL_CONTRACTS: CoreContract[] = [
+  "WaitlistManager",
+  "TicketFactory",
+  "EventManager",
+  "RefundEscrow",
+  "ConditionalFundsEscrow",
+  "ResaleManager",
+  "PresaleManager",
+];
+
+/** Contracts where a role unlocks anything; every contract has its own role assignments. */
+export const ROLE_CONTRACTS: Record<PlatformRole, CoreContract[]> = {
+  DEFAULT_ADMIN: ALL_CONTRACTS,
+  PLATFORM_ADMIN: ALL_CONTRACTS,
+  ORGANIZER: ["EventManager"],
+  GATE_SCANNER: ["TicketFactory"],
+  KEEPER: ["RefundEscrow", "WaitlistManager"],
+  OPERATOR: ["EventManager", "TicketFactory", "RefundEscrow", "WaitlistManager"],
+  PAUSER: ["WaitlistManager", "EventManager", "RefundEscrow", "ConditionalFundsEscrow", "ResaleManager"],
+};
+
+export function parseRole(value: string): PlatformRole {
+  const name = value.trim().toUpperCase().replace(/_ROLE$/, "");
+  if (!(name in ROLES)) {
+    throw new Error(`Unknown role "${value}"; expected one of ${Object.keys(ROLES).join(", ")}`);
+  }
+  return name as PlatformRole;
+}
+
+/**
+ * Accounts currently holding `role` on the contract at `address`. AccessControl does not
+ * enumerate members, so this replays RoleGranted and RoleRevoked from `fromBlock`.
+ */
+export async function getRoleMembers(
+  runner: ContractRunner,
+  address: string,
+  role: PlatformRole,
+  fromBlock = 0
+): Promise<string[]> {
+  const contract = IAccessControl__factory.connect(address, runner);
+  const [granted, revoked] = await Promise.all([
+    contract.queryFilter(contract.filters.RoleGranted(ROLES[role]), fromBlock),
+    contract.queryFilter(contract.filters.RoleRevoked(ROLES[role]), fromBlock),
+  ]);
+  const logs = [...granted, ...revoked].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const members = new Set<string>();
+  for (const log of logs) {
+    if (log.eventName === "RoleGranted") {
+      members.add(log.args.account);
+    } else {
+      members.delete(log.args.account);
+    }
+  }
+  return [...members];
+}
+
+/** Gives up `roles` the signer holds on every platform contract, e.g. once a deployer has handed over. */
+export async function renounceRoles(signer: Signer, addresses: TicketingAddresses, roles: PlatformRole[]): Promise<void> {
+  const account = await signer.getAddress();
+  for (const name of ALL_CONTRACTS) {
+    const contract = IAccessControl__factory.connect(addresses[name], signer);
+    for (const role of roles) {
+      if (await contract.hasRole(ROLES[role], account)) {
+        await (await contract.renounceRole(ROLES[role], account)).wait();
+      }
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import type { BigNumberish } from "ethers";
+import type { EventManagerClient } from "../clients/EventManagerClient";
+import type { TransactionResult } from "../types";
+
+export interface SeatMapRow {
+  label: string;
+  seats: number;
+}
+
+/** Rows are listed in on-chain order; seats in a row are numbered from 1. */
+export interface SeatMapZone {
+  zoneId: number;
+  name?: string;
+  rows: SeatMapRow[];
+}
+
+/**
+ * A venue seat-map file:
+ *
+ * `{ "zones": [{ "zoneId": 0, "name": "Floor", "rows": [{ "label": "A", "seats": 12 }, ...] }] }`
+ */
+export interface SeatMap {
+  zones: SeatMapZone[];
+}
+
+export interface SeatPosition {
+  row: string;
+  seat: number;
+}
+
+export interface SeatStatus extends SeatPosition {
+  /** The zone-wide number EventManager uses, 1..capacity counted row by row */
+  seatNumber: bigint;
+  /** 0 while the seat is free */
+  ticketId: bigint;
+}
+
+export interface ZoneAvailability {
+  eventId: bigint;
+  zoneId: number;
+  name?: string;
+  rows: { label: string; seats: SeatStatus[] }[];
+  available: number;
+  total: number;
+}
+
+/** Validates a parsed (or raw JSON) seat map. */
+export function parseSeatMap(input: string | unknown): SeatMap {
+  const data = typeof input === "string" ? JSON.parse(input) : input;
+  if (data === null || typeof data !== "object" || !Array.isArray((data as SeatMap).zones)) {
+    throw new Error("Seat map must be an object with a zones array");
+  }
+
+  const zoneIds = new Set<number>();
+  const zones = (data as SeatMap).zones.map((zone, i) => {
+    if (!Number.isInteger(zone?.zoneId) || zone.zoneId < 0) {
+      throw new Error(`zones[${i}].zoneId must be a non-negative integer`);
+    }
+    if (zoneIds.has(zone.zoneId)) {
+      throw new Error(`Zone ${zone.zoneId} is defined more than once`);
+    }
+    zoneIds.add(zone.zoneId);
+    if (!Array.isArray(zone.rows) || zone.rows.length === 0) {
+      throw new Error(`Zone ${zone.zoneId} must have at least one row`);
+    }
+
+    const labels = new Set<string>();
+    const rows = zone.rows.map((row, j) => {
+      const label = String(row?.label ?? "").trim();
+      if (label.length === 0) throw new Error(`Zone ${zone.zoneId} row ${j} needs a label`);
+      if (labels.has(label)) throw new Error(`Zone ${zone.zoneId} has duplicate row "${label}"`);
+      labels.add(label);
+      if (!Number.isInteger(row.seats) || row.seats <= 0) {
+        throw new Error(`Zone ${zone.zoneId} row "${label}" must have a positive seat count`);
+      }
+      return { label, seats: row.seats };
+    });
+    return { zoneId: zone.zoneId, name: zone.name, rows };
+  });
+
+  return { zones };
+}
+
+export function getSeatMapZone(map: SeatMap, zoneId: number): SeatMapZone {
+  const zone = map.zones.find((candidate) => candidate.zoneId === zoneId);
+  if (zone === undefined) throw new Error(`Seat map has no zone ${zoneId}`);
+  return zone;
+}
+
+export function seatMapCapacity(zone: SeatMapZone): number {
+  return zone.rows.reduce((total, row) => total + row.seats, 0);
+}
+
+/** Converts a row label and seat into the seat number `purchaseSeats` expects. */
+export function seatNumberFor(zone: SeatMapZone, row: string, seat: number): bigint {
+  let offset = 0;
+  for (const candidate of zone.rows) {
+    if (candidate.label === row) {
+      if (!Number.isInteger(seat) || seat < 1 || seat > candidate.seats) {
+        throw new Error(`Row "${row}" has seats 1-${candidate.seats}, got ${seat}`);
+      }
+      return BigInt(offset + seat);
+    }
+    offset += candidate.seats;
+  }
+  throw new Error(`Zone ${zone.zoneId} has no row "${row}"`);
+}
+
+export function seatPositionOf(zone: SeatMapZone, seatNumber: BigNumberish): SeatPosition {
+  let remaining = Number(seatNumber);
+  for (const row of zone.rows) {
+    if (remaining >= 1 && remaining <= row.seats) return { row: row.label, seat: remaining };
+    remaining -= row.seats;
+  }
+  throw new Error(`Seat ${seatNumber} is outside zone ${zone.zoneId}`);
+}
+
+/** Writes the row layout of every zone in the map to the event. */
+export async function configureSeatMap(
+  eventManager: EventManagerClient,
+  eventId: BigNumberish,
+  map: SeatMap
+): Promise<TransactionResult[]> {
+  const results: TransactionResult[] = [];
+  for (const zone of map.zones) {
+    results.push(
+      await eventManager.configureSeatMap(
+        eventId,
+        zone.zoneId,
+        zone.rows.map((row) => row.seats)
+      )
+    );
+  }
+  return results;
+}
+
+/** Reads which seats of a zone are taken, laid out by the rows of the seat map. */
+export async function getZoneAvailability(
+  eventManager: EventManagerClient,
+  eventId: BigNumberish,
+  zone: SeatMapZone
+): Promise<ZoneAvailability> {
+  const onChainRows = await eventManager.getSeatMap(eventId, zone.zoneId);
+  const matches =
+    onChainRows.length === zone.rows.length &&
+    onChainRows.every((seats, i) => seats === BigInt(zone.rows[i].seats));
+  if (!matches) {
+    throw new Error(`Seat map for zone ${zone.zoneId} does not match event ${eventId}`);
+  }
+
+  const ticketIds = await eventManager.getSeatTickets(eventId, zone.zoneId);
+  let seatNumber = 0;
+  const rows = zone.rows.map((row) => ({
+    label: row.label,
+    seats: Array.from({ length: row.seats }, (_, i) => {
+      seatNumber++;
+      return {
+        row: row.label,
+        seat: i + 1,
+        seatNumber: BigInt(seatNumber),
+        ticketId: ticketIds[seatNumber - 1],
+      };
+    }),
+  }));
+
+  return {
+    eventId: BigInt(eventId),
+    zoneId: zone.zoneId,
+    name: zone.name,
+    rows,
+    available: ticketIds.filter((ticketId) => ticketId === 0n).length,
+    total: ticketIds.length,
+  };
+}
+
+/** Plain-text availability chart: `o` is a free seat, `x` a taken one. */
+export function renderZoneAvailability(availability: ZoneAvailability): string {
+  const title = availability.name ? `Zone ${availability.zoneId} (${availability.name})` : `Zone ${availability.zoneId}`;
+  const labelWidth = Math.max(...availability.rows.map((row) => row.label.length));
+  const lines = [`${title}: ${availability.available}/${availability.total} seats available`];
+  for (const row of availability.rows) {
+    const seats = row.seats.map((seat) => (seat.ticketId === 0n ? "o" : "x")).join(" ");
+    lines.push(`${row.label.padEnd(labelWidth)} | ${seats}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,207 @@
+import { AbiCoder, Interface, ZeroHash, keccak256, type BigNumberish } from "ethers";
+import {
+  ConditionalFundsEscrow__factory,
+  EventManager__factory,
+  PlatformTimelock,
+  PlatformTimelock__factory,
+  PresaleManager__factory,
+  RefundEscrow__factory,
+  ResaleManager__factory,
+  TicketFactory__factory,
+  WaitlistManager__factory,
+} from "../typechain-types";
+import type { TicketingAddresses } from "./types";
+
+export type AdminContract = keyof TicketingAddresses;
+
+const INTERFACES: Record<AdminContract, Interface> = {
+  WaitlistManager: WaitlistManager__factory.createInterface(),
+  TicketFactory: TicketFactory__factory.createInterface(),
+  EventManager: EventManager__factory.createInterface(),
+  RefundEscrow: RefundEscrow__factory.createInterface(),
+  ConditionalFundsEscrow: ConditionalFundsEscrow__factory.createInterface(),
+  ResaleManager: ResaleManager__factory.createInterface(),
+  PresaleManager: PresaleManager__factory.createInterface(),
+  PlatformTimelock: PlatformTimelock__factory.createInterface(),
+};
+
+/** One call the timelock makes when a proposal is executed. */
+export interface AdminCall {
+  target: string;
+  value: bigint;
+  data: string;
+}
+
+/** Calls the timelock runs in order, all or nothing. `id` is what the timelock tracks it by. */
+export interface AdminProposal {
+  id: string;
+  calls: AdminCall[];
+  /** Proposal that must have executed first, or zero */
+  predecessor: string;
+  /** Tells apart proposals with the same calls */
+  salt: string;
+}
+
+/** A transaction to send to the timelock, e.g. from a multisig's transaction builder. */
+export interface TimelockTransaction {
+  to: string;
+  data: string;
+  value: bigint;
+}
+
+export interface DecodedAdminCall extends AdminCall {
+  /** Platform contract at `target`, when it is one */
+  contract?: AdminContract;
+  /** e.g. `setRefundEscrow(address)`; missing when the data matches no function of the target */
+  signature?: string;
+  /** Arguments by name, formatted for reading */
+  args: Record<string, string>;
+}
+
+export type AdminProposalState = "pending" | "ready" | "executed" | "cancelled";
+
+export interface QueuedAdminProposal extends AdminProposal {
+  calls: DecodedAdminCall[];
+  state: AdminProposalState;
+  /** Unix time from which the proposal can be executed; 0 once executed or cancelled */
+  readyAt: bigint;
+  scheduledTransaction: string;
+}
+
+export function encodeAdminCall(
+  addresses: TicketingAddresses,
+  contract: AdminContract,
+  functionName: string,
+  args: unknown[],
+  value: BigNumberish = 0n
+): AdminCall {
+  const target = addresses[contract];
+  if (target === undefined) {
+    throw new Error(`No ${contract} address in this deployment`);
+  }
+  return { target, value: BigInt(value), data: INTERFACES[contract].encodeFunctionData(functionName, args) };
+}
+
+export function buildAdminProposal(
+  calls: AdminCall[],
+  { predecessor = ZeroHash, salt = ZeroHash }: { predecessor?: string; salt?: string } = {}
+): AdminProposal {
+  if (calls.length === 0) {
+    throw new Error("A proposal needs at least one call");
+  }
+  // Same encoding as TimelockController.hashOperationBatch
+  const id = keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      ["address[]", "uint256[]", "bytes[]", "bytes32", "bytes32"],
+      [calls.map((call) => call.target), calls.map((call) => call.value), calls.map((call) => call.data), predecessor, salt]
+    )
+  );
+  return { id, calls, predecessor, salt };
+}
+
+const timelockInterface = PlatformTimelock__factory.createInterface();
+
+export function scheduleTransaction(timelock: string, proposal: AdminProposal, delay: BigNumberish): TimelockTransaction {
+  const { calls, predecessor, salt } = proposal;
+  const data = timelockInterface.encodeFunctionData("scheduleBatch", [
+    calls.map((call) => call.target),
+    calls.map((call) => call.value),
+    calls.map((call) => call.data),
+    predecessor,
+    salt,
+    delay,
+  ]);
+  return { to: timelock, data, value: 0n };
+}
+
+export function executeTransaction(timelock: string, proposal: AdminProposal): TimelockTransaction {
+  const { calls, predecessor, salt } = proposal;
+  const data = timelockInterface.encodeFunctionData("executeBatch", [
+    calls.map((call) => call.target),
+    calls.map((call) => call.value),
+    calls.map((call) => call.data),
+    predecessor,
+    salt,
+  ]);
+  return { to: timelock, data, value: calls.reduce((sum, call) => sum + call.value, 0n) };
+}
+
+export function cancelTransaction(timelock: string, proposalId: string): TimelockTransaction {
+  return { to: timelock, data: timelockInterface.encodeFunctionData("cancel", [proposalId]), value: 0n };
+}
+
+function formatArg(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatArg).join(", ")}]`;
+  }
+  return String(value);
+}
+
+export function decodeAdminCall(addresses: TicketingAddresses, call: AdminCall): DecodedAdminCall {
+  const contract = (Object.keys(INTERFACES) as AdminContract[]).find(
+    (name) => addresses[name]?.toLowerCase() === call.target.toLowerCase()
+  );
+  const parsed = contract === undefined ? null : INTERFACES[contract].parseTransaction(call);
+  if (parsed === null) {
+    return { ...call, contract, args: {} };
+  }
+
+  const args: Record<string, string> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    args[input.name || String(i)] = formatArg(parsed.args[i]);
+  });
+  return { ...call, contract, signature: parsed.signature, args };
+}
+
+/** One line per call, e.g. `EventManager.setRefundEscrow(newEscrow=0x...)`. */
+export function describeAdminCall(call: DecodedAdminCall): string {
+  const value = call.value > 0n ? ` with ${call.value} wei` : "";
+  if (call.signature === undefined) {
+    return `${call.contract ?? call.target}: unrecognised call ${call.data}${value}`;
+  }
+  const name = call.signature.slice(0, call.signature.indexOf("("));
+  const args = Object.entries(call.args).map(([arg, formatted]) => `${arg}=${formatted}`);
+  return `${call.contract}.${name}(${args.join(", ")})${value}`;
+}
+
+/** Every proposal scheduled on the timelock since `fromBlock`, oldest first, with its calls decoded. */
+export async function getAdminProposals(
+  timelock: PlatformTimelock,
+  addresses: TicketingAddresses,
+  fromBlock = 0
+): Promise<QueuedAdminProposal[]> {
+  const [scheduled, salts] = await Promise.all([
+    timelock.queryFilter(timelock.filters.CallScheduled(), fromBlock),
+    timelock.queryFilter(timelock.filters.CallSalt(), fromBlock),
+  ]);
+  const saltsById = new Map(salts.map((log) => [log.args.id, log.args.salt]));
+
+  const proposals = new Map<string, QueuedAdminProposal>();
+  for (const log of scheduled) {
+    const { id, index, target, value, data, predecessor } = log.args;
+    let proposal = proposals.get(id);
+    if (proposal === undefined) {
+      proposal = {
+        id,
+        calls: [],
+        predecessor,
+        salt: saltsById.get(id) ?? ZeroHash,
+        state: "pending",
+        readyAt: 0n,
+        scheduledTransaction: log.transactionHash,
+      };
+      proposals.set(id, proposal);
+    }
+    proposal.calls[Number(index)] = decodeAdminCall(addresses, { target, value, data });
+  }
+
+  for (const proposal of proposals.values()) {
+    // OperationState: Unset, Waiting, Ready, Done. A scheduled proposal only goes back to Unset when cancelled.
+    const state = Number(await timelock.getOperationState(proposal.id));
+    proposal.state = (["cancelled", "pending", "ready", "executed"] as const)[state];
+    if (proposal.state === "pending" || proposal.state === "ready") {
+      proposal.readyAt = await timelock.getTimestamp(proposal.id);
+    }
+  }
+  return [...proposals.values()];
+}
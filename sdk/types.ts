@@ -0,0 +1,246 @@
+import type { BigNumberish } from "ethers";
+
+/** Contract addresses for one deployment, as written to deployments/<network>.json. */
+export interface TicketingAddresses {
+  WaitlistManager: string;
+  TicketFactory: string;
+  EventManager: string;
+  RefundEscrow: string;
+  ConditionalFundsEscrow: string;
+  ResaleManager: string;
+  PresaleManager: string;
+  /** Holds the platform admin roles when admin changes are timelocked */
+  PlatformTimelock?: string;
+}
+
+export interface ZoneInput {
+  capacity: BigNumberish;
+  price: BigNumberish;
+}
+
+/** Resale royalty split chosen by the organizer; all values are basis points of the resale price. */
+export interface ResaleFeesInput {
+  organizerRoyaltyBps: BigNumberish;
+  /** Optional artist or charity share, paid alongside the organizer royalty */
+  payee?: string;
+  payeeBps?: BigNumberish;
+}
+
+export interface CreateEventParams {
+  name: string;
+  /** Unix timestamp in seconds */
+  date: BigNumberish;
+  basePrice: BigNumberish;
+  zones: ZoneInput[];
+  /** Fixed at creation; events created without it pay no royalties on resale */
+  resaleFees?: ResaleFeesInput;
+}
+
+export interface ResaleFees {
+  eventId: bigint;
+  /** Platform fee in effect when the event was created */
+  platformFeeBps: bigint;
+  organizerRoyaltyBps: bigint;
+  /** Zero address when the event has no artist or charity share */
+  payee: string;
+  payeeBps: bigint;
+}
+
+export interface TicketingEvent {
+  eventId: bigint;
+  name: string;
+  date: bigint;
+  basePrice: bigint;
+  organizer: string;
+  cancelled: boolean;
+  zoneCount: bigint;
+}
+
+export interface Zone {
+  eventId: bigint;
+  zoneId: bigint;
+  capacity: bigint;
+  /** Price set at creation; applies once every early-bird tier has ended */
+  price: bigint;
+  /** Price of the next ticket under the zone's pricing schedule */
+  currentPrice: bigint;
+  availableSeats: bigint;
+}
+
+/**
+ * Early-bird price that applies until `endsAt` (0 = no deadline) or until `maxSales` tickets of
+ * the zone are out (0 = no limit), whichever comes first.
+ */
+export interface PriceTier {
+  price: bigint;
+  endsAt: bigint;
+  maxSales: bigint;
+}
+
+/** Raises the price linearly by up to `maxIncreaseBps` as the zone sells out, capped at `ceiling`. */
+export interface DemandCurve {
+  maxIncreaseBps: bigint;
+  ceiling: bigint;
+}
+
+/** Tiers are checked in order and the first one still running sets the price. */
+export interface PriceSchedule {
+  tiers: PriceTier[];
+  /** Omitted or `maxIncreaseBps` 0 for a flat price */
+  demandCurve?: DemandCurve;
+}
+
+/** Only allowlisted buyers can purchase from `startsAt` until `endsAt`; nobody can before. */
+export interface Presale {
+  merkleRoot: string;
+  startsAt: bigint;
+  endsAt: bigint;
+}
+
+export interface PromoCode {
+  /** 0 for a code that was never added */
+  discountBps: bigint;
+  redeemed: boolean;
+}
+
+/** Allowlist proof and promo code for `EventManagerClient.purchaseTicketWithAccess`. */
+export interface PromoCodeGrant {
+  code: string;
+  /** The only address that can redeem the code */
+  buyer: string;
+}
+
+export interface PurchaseAccess {
+  proof?: string[];
+  promoCode?: string;
+}
+
+export interface Ticket {
+  tokenId: bigint;
+  owner: string;
+  eventId: bigint;
+  price: bigint;
+  used: boolean;
+  seatNumber: bigint;
+  isWaitlisted: boolean;
+  isResale: boolean;
+  resalePrice: bigint;
+  zoneId: bigint;
+}
+
+export interface ResaleListing {
+  tokenId: bigint;
+  seller: string;
+  price: bigint;
+  listingTime: bigint;
+  isActive: boolean;
+  /** Active and not past the marketplace's resale timeout */
+  isValid: boolean;
+}
+
+export interface WaitlistStatus {
+  eventId: bigint;
+  zoneId: bigint;
+  user: string;
+  isWaiting: boolean;
+  /** 1-based queue position, or undefined when the user is not waiting */
+  position?: bigint;
+  hasActiveOffer: boolean;
+}
+
+/** Deposit an event charges to join its waitlists; `amount` is 0 when joining is free. */
+export interface WaitlistDepositTerms {
+  amount: bigint;
+  /** Share of the deposit, in basis points, the organizer keeps when an offer lapses */
+  forfeitBps: bigint;
+}
+
+/** A refunded seat or resale listing reserved for a waitlisted user for `OFFER_DURATION`. */
+export interface WaitlistOffer {
+  eventId: bigint;
+  zoneId: bigint;
+  user: string;
+  /** Resale listing on offer; undefined when the offer is a refunded seat */
+  ticketId?: bigint;
+  /** Seat held for the offer (0 for resale offers) */
+  seatNumber: bigint;
+  expiresAt: bigint;
+  /** Amount `completeWaitlistPurchase` charges: the zone price or the listing price */
+  price: bigint;
+  /** Waitlist deposit put towards `price` on acceptance */
+  deposit: bigint;
+  /** False once the offer has lapsed and is waiting for the keeper */
+  isActive: boolean;
+}
+
+export interface TransactionResult {
+  transactionHash: string;
+}
+
+export interface CreateEventResult extends TransactionResult {
+  eventId: bigint;
+}
+
+export interface TicketPurchaseResult extends TransactionResult {
+  eventId: bigint;
+  ticketId: bigint;
+  buyer: string;
+  pricePaid: bigint;
+}
+
+export interface MultiTicketPurchaseResult extends TransactionResult {
+  eventId: bigint;
+  tickets: { ticketId: bigint; holder: string }[];
+  pricePaid: bigint;
+}
+
+export interface TicketIssueResult extends TransactionResult {
+  eventId: bigint;
+  ticketId: bigint;
+  recipient: string;
+}
+
+export interface AddedSeatsOffer extends TransactionResult {
+  /** Seats held for the zone's waitlist by this call */
+  seatNumbers: bigint[];
+}
+
+export interface RevenueWithdrawal extends TransactionResult {
+  eventId: bigint;
+  organizer: string;
+  amount: bigint;
+}
+
+export interface RefundProgress {
+  eventId: bigint;
+  /** Number of deposited tickets the batch refund has walked past */
+  cursor: bigint;
+  total: bigint;
+  /** Ticket payments still held for the event */
+  remainingBalance: bigint;
+  isCancelled: boolean;
+}
+
+/** Opened by the latest reschedule; zero for an event that was never moved. */
+export interface RescheduleRefundWindow {
+  eventId: bigint;
+  openedAt: bigint;
+  deadline: bigint;
+}
+
+export interface RefundBatchResult extends TransactionResult {
+  eventId: bigint;
+  refunded: bigint;
+  /** Refunds whose transfer reverted and are now claimable with withdrawPendingRefund */
+  deferred: bigint;
+  amount: bigint;
+  cursor: bigint;
+  total: bigint;
+}
+
+export interface ResaleResult extends TransactionResult {
+  tokenId: bigint;
+  seller: string;
+  buyer: string;
+  price: bigint;
+}
@@ -0,0 +1,212 @@
+import { task } from "hardhat/config";
+import { formatEther } from "ethers";
+import {
+  loadZoneSchedule,
+  parseBytes32,
+  parseEtherAmount,
+  parseTimestamp,
+  parseUint,
+  parseZoneIds,
+  resolveAddress,
+  resolveSigner,
+} from "./utils";
+
+task("event:create", "Creates an event with zones loaded from a JSON or CSV file")
+  .addParam("name", "Event name")
+  .addParam("date", "Event start as a unix timestamp or ISO date")
+  .addParam("basePrice", "Base ticket price in ether")
+  .addParam("zones", "Path to a JSON or CSV file with zone capacities and prices")
+  .addOptionalParam("from", "Organizer address (defaults to the first signer)")
+  .addOptionalParam("presaleRoot", "Merkle root of the presale allowlist, from scripts/presale-allowlist.ts")
+  .addOptionalParam("presaleStart", "Presale start as a unix timestamp or ISO date (defaults to now)")
+  .addOptionalParam("presaleEnd", "End of the presale, when public sales open")
+  .addOptionalParam("presaleZones", "Comma-separated zone IDs in presale (defaults to every zone)")
+  .setAction(async (args, hre) => {
+    const name = String(args.name).trim();
+    if (name.length === 0) throw new Error("--name cannot be empty");
+    const date = parseTimestamp(args.date, "date");
+    const basePrice = parseEtherAmount(args.basePrice, "base-price");
+    const { capacities, prices } = loadZoneSchedule(args.zones);
+    const presaleRoot = args.presaleRoot === undefined ? undefined : parseBytes32(args.presaleRoot, "presale-root");
+    if (presaleRoot !== undefined && args.presaleEnd === undefined) {
+      throw new Error("--presale-end is required with --presale-root");
+    }
+    const presaleStart = args.presaleStart === undefined ? undefined : parseTimestamp(args.presaleStart, "presale-start");
+    const presaleEnd = args.presaleEnd === undefined ? 0n : parseTimestamp(args.presaleEnd, "presale-end");
+    const presaleZones = parseZoneIds(args.presaleZones, BigInt(capacities.length), "presale-zones");
+
+    const signer = await resolveSigner(hre, args.from);
+    const eventManager = await hre.ethers.getContractAt("EventManager", resolveAddress(hre, "EventManager"), signer);
+
+    const minDelay = await eventManager.MIN_EVENT_DELAY();
+    const latest = await hre.ethers.provider.getBlock("latest");
+    if (latest === null || date <= BigInt(latest.timestamp) + minDelay) {
+      throw new Error(`--date must be more than ${minDelay} seconds after the latest block`);
+    }
+    prices.forEach((price, i) => {
+      if (price < basePrice) {
+        throw new Error(`Zone ${i} price ${formatEther(price)} is below the base price ${formatEther(basePrice)}`);
+      }
+    });
+    const presaleStartsAt = presaleStart ?? BigInt(latest.timestamp);
+    if (presaleRoot !== undefined && presaleEnd <= presaleStartsAt) {
+      throw new Error("--presale-end must be after the presale start");
+    }
+    if (await eventManager.paused()) throw new Error("EventManager is paused");
+    if (!(await eventManager.hasRole(await eventManager.ORGANIZER_ROLE(), signer.address))) {
+      throw new Error(`${signer.address} does not have the organizer role; grant it with roles:grant`);
+    }
+    const presaleManager = await hre.ethers.getContractAt(
+      "PresaleManager",
+      resolveAddress(hre, "PresaleManager"),
+      signer
+    );
+
+    const tx = await eventManager.createEvent(name, date, basePrice, capacities, prices);
+    const receipt = await tx.wait();
+    const created = receipt?.logs
+      .map((log) => eventManager.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "EventCreated");
+
+    console.log(`Created event ${created?.args.eventId} "${name}" with ${capacities.length} zone(s) in ${tx.hash}`);
+
+    if (presaleRoot !== undefined && created) {
+      for (const zoneId of presaleZones) {
+        const presaleTx = await presaleManager.setPresale(
+          created.args.eventId,
+          zoneId,
+          presaleRoot,
+          presaleStartsAt,
+          presaleEnd
+        );
+        await presaleTx.wait();
+        console.log(`  zone ${zoneId} is allowlist-only until ${new Date(Number(presaleEnd) * 1000).toISOString()} (${presaleTx.hash})`);
+      }
+    }
+  });
+
+task("event:cancel", "Cancels an event so ticket holders can be refunded")
+  .addParam("eventId", "Event ID")
+  .addOptionalParam("from", "Organizer or platform admin address (defaults to the first signer)")
+  .setAction(async (args, hre) => {
+    const eventId = parseUint(args.eventId, "event-id");
+    const signer = await resolveSigner(hre, args.from);
+    const eventManager = await hre.ethers.getContractAt("EventManager", resolveAddress(hre, "EventManager"), signer);
+
+    const [, date, , organizer, cancelled] = await eventManager.getEventData(eventId);
+    if (cancelled) throw new Error(`Event ${eventId} is already cancelled`);
+    if (organizer !== signer.address && !(await eventManager.hasRole(await eventManager.PLATFORM_ADMIN_ROLE(), signer.address))) {
+      throw new Error(`${signer.address} is neither the organizer of event ${eventId} nor a platform admin`);
+    }
+    const latest = await hre.ethers.provider.getBlock("latest");
+    if (latest !== null && BigInt(latest.timestamp) > date) {
+      throw new Error(`Event ${eventId} has already taken place`);
+    }
+
+    const tx = await eventManager.cancelEvent(eventId);
+    await tx.wait();
+    console.log(`Cancelled event ${eventId} in ${tx.hash}`);
+  });
+
+task("event:reschedule", "Moves an event to a new date and opens a refund window for existing holders")
+  .addParam("eventId", "Event ID")
+  .addParam("date", "New event start as a unix timestamp or ISO date")
+  .addOptionalParam("from", "Organizer or platform admin address (defaults to the first signer)")
+  .setAction(async (args, hre) => {
+    const eventId = parseUint(args.eventId, "event-id");
+    const date = parseTimestamp(args.date, "date");
+    const signer = await resolveSigner(hre, args.from);
+    const eventManager = await hre.ethers.getContractAt("EventManager", resolveAddress(hre, "EventManager"), signer);
+
+    const minDelay = await eventManager.MIN_EVENT_DELAY();
+    const latest = await hre.ethers.provider.getBlock("latest");
+    if (latest === null || date <= BigInt(latest.timestamp) + minDelay) {
+      throw new Error(`--date must be more than ${minDelay} seconds after the latest block`);
+    }
+    const [, currentDate, , organizer, cancelled] = await eventManager.getEventData(eventId);
+    if (cancelled) throw new Error(`Event ${eventId} is cancelled`);
+    if (organizer !== signer.address && !(await eventManager.hasRole(await eventManager.PLATFORM_ADMIN_ROLE(), signer.address))) {
+      throw new Error(`${signer.address} is neither the organizer of event ${eventId} nor a platform admin`);
+    }
+    if (BigInt(latest.timestamp) >= currentDate) throw new Error(`Event ${eventId} has already taken place`);
+
+    const tx = await eventManager.rescheduleEvent(eventId, date);
+    await tx.wait();
+    console.log(`Moved event ${eventId} to ${new Date(Number(date) * 1000).toISOString()} in ${tx.hash}`);
+
+    const refundEscrow = await hre.ethers.getContractAt("RefundEscrow", resolveAddress(hre, "RefundEscrow"));
+    const [, deadline] = await refundEscrow.getRescheduleRefundWindow(eventId);
+    console.log(`Existing holders can claim a full refund until ${new Date(Number(deadline) * 1000).toISOString()}`);
+  });
+
+task("event:add-zone", "Adds a zone to an event")
+  .addParam("eventId", "Event ID")
+  .addParam("capacity", "Number of seats in the zone")
+  .addParam("price", "Zone price in ether")
+  .addOptionalParam("from", "Organizer or platform admin address (defaults to the first signer)")
+  .setAction(async (args, hre) => {
+    const eventId = parseUint(args.eventId, "event-id");
+    const capacity = parseUint(args.capacity, "capacity");
+    if (capacity === 0n) throw new Error("--capacity must be greater than zero");
+    const price = parseEtherAmount(args.price, "price");
+    const signer = await resolveSigner(hre, args.from);
+    const eventManager = await hre.ethers.getContractAt("EventManager", resolveAddress(hre, "EventManager"), signer);
+
+    const [, , basePrice] = await eventManager.getEventData(eventId);
+    if (price < basePrice) {
+      throw new Error(`--price ${formatEther(price)} is below the base price ${formatEther(basePrice)}`);
+    }
+
+    const tx = await eventManager.addZone(eventId, capacity, price);
+    const receipt = await tx.wait();
+    const added = receipt?.logs
+      .map((log) => eventManager.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "ZoneAdded");
+    console.log(`Added zone ${added?.args.zoneId} to event ${eventId} in ${tx.hash}`);
+  });
+
+task("event:set-capacity", "Raises or lowers the capacity of a general admission zone")
+  .addParam("eventId", "Event ID")
+  .addParam("zoneId", "Zone ID")
+  .addParam("capacity", "New number of seats in the zone")
+  .addOptionalParam("from", "Organizer or platform admin address (defaults to the first signer)")
+  .setAction(async (args, hre) => {
+    const eventId = parseUint(args.eventId, "event-id");
+    const zoneId = parseUint(args.zoneId, "zone-id");
+    const capacity = parseUint(args.capacity, "capacity");
+    const signer = await resolveSigner(hre, args.from);
+    const eventManager = await hre.ethers.getContractAt("EventManager", resolveAddress(hre, "EventManager"), signer);
+
+    const zone = await eventManager.getZone(eventId, zoneId);
+    const sold = zone.capacity - zone.availableSeats;
+    if (capacity < sold || capacity === 0n) {
+      throw new Error(`--capacity must be at least the ${sold} seat(s) already sold or held, and greater than zero`);
+    }
+
+    const tx = await eventManager.updateZoneCapacity(eventId, zoneId, capacity);
+    await tx.wait();
+    const updated = await eventManager.getZone(eventId, zoneId);
+    const held = updated.capacity - updated.availableSeats - sold;
+    console.log(`Zone ${zoneId} of event ${eventId} now has ${capacity} seat(s) in ${tx.hash}`);
+    if (held > 0n) console.log(`  ${held} new seat(s) are being offered to the waitlist first`);
+  });
+
+task("event:zones", "Prints the zones of an event")
+  .addParam("eventId", "Event ID")
+  .setAction(async (args, hre) => {
+    const eventId = parseUint(args.eventId, "event-id");
+    const eventManager = await hre.ethers.getContractAt("EventManager", resolveAddress(hre, "EventManager"));
+
+    const zoneCount = await eventManager.getZoneCount(eventId);
+    const rows = [];
+    for (let zoneId = 0n; zoneId < zoneCount; zoneId++) {
+      const zone = await eventManager.getZone(eventId, zoneId);
+      rows.push({
+        zone: Number(zoneId),
+        capacity: Number(zone.capacity),
+        available: Number(zone.availableSeats),
+        price: `${formatEther(zone.price)} ETH`,
+      });
+    }
+    console.table(rows);
+  });
@@ -0,0 +1,7 @@
+import "./event";
+import "./ticket";
+import "./waitlist";
+import "./platform";
+import "./revenue";
+import "./presale";
+import "./roles";
@@ -0,0 +1,49 @@
+import { task } from "hardhat/config";
+import { ContractName } from "../scripts/manifest";
+import { resolveAddress, resolveSigner } from "./utils";
+
+// TicketFactory is not pausable
+const PAUSABLE_CONTRACTS = [
+  "EventManager",
+  "WaitlistManager",
+  "RefundEscrow",
+  "ConditionalFundsEscrow",
+  "ResaleManager",
+] as const satisfies readonly ContractName[];
+
+type PausableContract = (typeof PAUSABLE_CONTRACTS)[number];
+
+function parseContracts(value: string | undefined): PausableContract[] {
+  if (value === undefined) return [...PAUSABLE_CONTRACTS];
+  return value.split(",").map((name) => {
+    const contract = PAUSABLE_CONTRACTS.find((candidate) => candidate === name.trim());
+    if (contract === undefined) {
+      throw new Error(`--contracts must list pausable contracts (${PAUSABLE_CONTRACTS.join(", ")}), got "${name}"`);
+    }
+    return contract;
+  });
+}
+
+task("platform:pause", "Pauses (or with --unpause, resumes) the platform contracts")
+  .addOptionalParam("contracts", "Comma separated contract names (defaults to every pausable contract)")
+  .addFlag("unpause", "Unpause instead of pause")
+  .addOptionalParam("from", "Pauser address (defaults to the first signer)")
+  .setAction(async (args, hre) => {
+    const contracts = parseContracts(args.contracts);
+    const signer = await resolveSigner(hre, args.from);
+    const pause = !args.unpause;
+
+    for (const name of contracts) {
+      const contract = await hre.ethers.getContractAt(name, resolveAddress(hre, name), signer);
+      if (!(await contract.hasRole(await contract.PAUSER_ROLE(), signer.address))) {
+        throw new Error(`${signer.address} does not have the pauser role on ${name}`);
+      }
+      if ((await contract.paused()) === pause) {
+        console.log(`${name} is already ${pause ? "paused" : "unpaused"}`);
+        continue;
+      }
+      const tx = pause ? await contract.pause() : await contract.unpause();
+      await tx.wait();
+      console.log(`${pause ? "Paused" : "Unpaused"} ${name} in ${tx.hash}`);
+    }
+  });
@@ -0,0 +1,50 @@
+import { task } from "hardhat/config";
+import fs from "fs";
+import { AbiCoder, isAddress, keccak256 } from "ethers";
+import { parseUint, resolveAddress, resolveSigner } from "./utils";
+
+const PROMO_CODE_BATCH_SIZE = 200;
+
+task("presale:promo-codes", "Registers single-use promo codes for an event from a file of `code,buyer` lines")
+  .addParam("eventId", "Event ID")
+  .addParam("codes", "Path to a text file with one promo code and the address it is issued to per line")
+  .addParam("discountBps", "Discount in basis points, e.g. 1500 for 15%")
+  .addOptionalParam("from", "Organizer or platform admin address (defaults to the first signer)")
+  .setAction(async (args, hre) => {
+    const eventId = parseUint(args.eventId, "event-id");
+    const discountBps = parseUint(args.discountBps, "discount-bps");
+    if (discountBps === 0n || discountBps >= 10_000n) {
+      throw new Error("--discount-bps must be between 1 and 9999");
+    }
+    if (!fs.existsSync(args.codes)) throw new Error(`Promo code file not found: ${args.codes}`);
+    const lines = [
+      ...new Set(
+        fs
+          .readFileSync(args.codes, "utf8")
+          .split(/\r?\n/)
+          .map((line) => line.trim())
+          .filter((line) => line.length > 0)
+      ),
+    ];
+    if (lines.length === 0) throw new Error(`${args.codes} does not contain any codes`);
+    const codes = lines.map((line, i) => {
+      const [code, buyer] = line.split(",").map((cell) => cell.trim());
+      if (!code || buyer === undefined || !isAddress(buyer)) {
+        throw new Error(`Line ${i + 1} of ${args.codes} must be "code,buyer address", got "${line}"`);
+      }
+      return { code, buyer };
+    });
+
+    const signer = await resolveSigner(hre, args.from);
+    const presaleManager = await hre.ethers.getContractAt("PresaleManager", resolveAddress(hre, "PresaleManager"), signer);
+
+    // Only the hashes go on-chain; a code becomes public when its buyer redeems it
+    const coder = AbiCoder.defaultAbiCoder();
+    const hashes = codes.map(({ code, buyer }) => keccak256(coder.encode(["string", "address"], [code, buyer])));
+    for (let i = 0; i < hashes.length; i += PROMO_CODE_BATCH_SIZE) {
+      const tx = await presaleManager.addPromoCodes(eventId, hashes.slice(i, i + PROMO_CODE_BATCH_SIZE), discountBps);
+      await tx.wait();
+      console.log(`  added codes ${i + 1}-${Math.min(i + PROMO_CODE_BATCH_SIZE, hashes.length)} in ${tx.hash}`);
+    }
+    console.log(`Registered ${codes.length} promo code(s) for event ${eventId} at ${discountBps} bps off`);
+  });
@@ -0,0 +1,77 @@
+import { task } from "hardhat/config";
+import fs from "fs";
+import { formatEther } from "ethers";
+import { parseUint, resolveAddress, resolveSigner } from "./utils";
+
+task("revenue:withdraw", "Withdraws an organizer's revenue for a concluded event")
+  .addParam("eventId", "Event ID")
+  .addOptionalParam("from", "Organizer address (defaults to the first signer)")
+  .setAction(async (args, hre) => {
+    const eventId = parseUint(args.eventId, "event-id");
+    const signer = await resolveSigner(hre, args.from);
+    const eventManager = await hre.ethers.getContractAt("EventManager", resolveAddress(hre, "EventManager"), signer);
+
+    if ((await eventManager.getOrganizer(eventId)) !== signer.address) {
+      throw new Error(`${signer.address} is not the organizer of event ${eventId}`);
+    }
+    if (!(await eventManager.hasEventConcluded(eventId))) {
+      throw new Error(`Event ${eventId} has not concluded yet`);
+    }
+    const revenue = await eventManager.getEventRevenue(eventId);
+    if (revenue === 0n) throw new Error(`Event ${eventId} has no revenue to withdraw`);
+
+    const tx = await eventManager.withdrawEventRevenue(eventId);
+    await tx.wait();
+    console.log(`Withdrew ${formatEther(revenue)} ETH for event ${eventId} in ${tx.hash}`);
+  });
+
+task("revenue:statement", "Prints an event's settlement statement, rebuilt from logs and reconciled with contract balances")
+  .addParam("eventId", "Event ID")
+  .addOptionalParam("format", "csv or json", "csv")
+  .addOptionalParam("out", "File to write the statement to (prints it when omitted)")
+  .addOptionalParam("fromBlock", "First block to read logs from, e.g. the deployment block", "0")
+  .setAction(async (args, hre) => {
+    const eventId = parseUint(args.eventId, "event-id");
+    const fromBlock = Number(parseUint(args.fromBlock, "from-block"));
+    if (args.format !== "csv" && args.format !== "json") {
+      throw new Error(`--format must be csv or json, got "${args.format}"`);
+    }
+    // Loaded here rather than at the top: the SDK needs typechain types, which only exist after compiling
+    const { connectTicketingSystem, buildSettlementStatement, reconcileContractBalances, settlementToCsv, settlementToJson } =
+      await import("../sdk");
+    const [signer] = await hre.ethers.getSigners();
+    const clients = connectTicketingSystem(
+      {
+        WaitlistManager: resolveAddress(hre, "WaitlistManager"),
+        TicketFactory: resolveAddress(hre, "TicketFactory"),
+        EventManager: resolveAddress(hre, "EventManager"),
+        RefundEscrow: resolveAddress(hre, "RefundEscrow"),
+        ConditionalFundsEscrow: resolveAddress(hre, "ConditionalFundsEscrow"),
+        ResaleManager: resolveAddress(hre, "ResaleManager"),
+        PresaleManager: resolveAddress(hre, "PresaleManager"),
+      },
+      signer
+    );
+
+    const toBlock = await hre.ethers.provider.getBlockNumber();
+    const statement = await buildSettlementStatement(clients, eventId, { fromBlock, toBlock });
+    const checks = [...statement.reconciliation, ...(await reconcileContractBalances(clients, { fromBlock, toBlock }))];
+
+    const output = args.format === "csv" ? settlementToCsv([statement]) : settlementToJson(statement);
+    if (args.out) {
+      fs.writeFileSync(args.out, output);
+      console.log(`Wrote the statement for event ${eventId} at block ${toBlock} to ${args.out}`);
+    } else {
+      process.stdout.write(output);
+    }
+
+    for (const check of checks) {
+      const detail = check.matches ? "" : `: expected ${formatEther(check.expected)}, found ${formatEther(check.actual)} ETH`;
+      // On stderr, so a printed statement can be piped straight into a file
+      console.error(`  ${check.matches ? "ok" : "MISMATCH"} ${check.name}${detail}`);
+    }
+    const mismatches = checks.filter((check) => !check.matches);
+    if (mismatches.length > 0) {
+      throw new Error(`${mismatches.length} reconciliation check(s) failed for event ${eventId}`);
+    }
+  });
@@ -0,0 +1,85 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ContractName } from "../scripts/manifest";
+import { parseAddress, parseUint, resolveAddress, resolveSigner } from "./utils";
+
+const CONTRACT_NAMES: readonly ContractName[] = [
+  "WaitlistManager",
+  "TicketFactory",
+  "EventManager",
+  "RefundEscrow",
+  "ConditionalFundsEscrow",
+  "ResaleManager",
+  "PresaleManager",
+];
+
+function parseContracts(value: string | undefined, defaults: ContractName[]): ContractName[] {
+  if (value === undefined) return defaults;
+  return value.split(",").map((name) => {
+    const contract = CONTRACT_NAMES.find((candidate) => candidate === name.trim());
+    if (contract === undefined) {
+      throw new Error(`--contracts must list platform contracts (${CONTRACT_NAMES.join(", ")}), got "${name}"`);
+    }
+    return contract;
+  });
+}
+
+async function updateRole(hre: HardhatRuntimeEnvironment, args: Record<string, string | undefined>, grant: boolean) {
+  // The SDK imports typechain-types, which only exist after compiling
+  const { ROLES, ROLE_CONTRACTS, parseRole } = await import("../sdk");
+  const role = parseRole(String(args.role));
+  const account = parseAddress(String(args.account), "account");
+  const contracts = parseContracts(args.contracts, ROLE_CONTRACTS[role]);
+  const signer = await resolveSigner(hre, args.from);
+
+  for (const name of contracts) {
+    const contract = await hre.ethers.getContractAt("IAccessControl", resolveAddress(hre, name), signer);
+    if ((await contract.hasRole(ROLES[role], account)) === grant) {
+      console.log(`${account} ${grant ? "already has" : "does not have"} ${role} on ${name}`);
+      continue;
+    }
+    const adminRole = await contract.getRoleAdmin(ROLES[role]);
+    if (!(await contract.hasRole(adminRole, signer.address))) {
+      throw new Error(
+        `${signer.address} cannot ${grant ? "grant" : "revoke"} ${role} on ${name}; ` +
+          "if the timelock holds the admin roles, propose it with scripts/admin-proposals.ts"
+      );
+    }
+    const tx = grant ? await contract.grantRole(ROLES[role], account) : await contract.revokeRole(ROLES[role], account);
+    await tx.wait();
+    console.log(`${grant ? "Granted" : "Revoked"} ${role} ${grant ? "to" : "from"} ${account} on ${name} in ${tx.hash}`);
+  }
+}
+
+task("roles:grant", "Grants a platform role on the contracts where it applies")
+  .addParam("role", "PLATFORM_ADMIN, OPERATOR, ORGANIZER, GATE_SCANNER, KEEPER, PAUSER or DEFAULT_ADMIN")
+  .addParam("account", "Account receiving the role")
+  .addOptionalParam("contracts", "Comma separated contract names (defaults to every contract the role applies to)")
+  .addOptionalParam("from", "Role admin address (defaults to the first signer)")
+  .setAction(async (args, hre) => updateRole(hre, args, true));
+
+task("roles:revoke", "Revokes a platform role on the contracts where it applies")
+  .addParam("role", "PLATFORM_ADMIN, OPERATOR, ORGANIZER, GATE_SCANNER, KEEPER, PAUSER or DEFAULT_ADMIN")
+  .addParam("account", "Account losing the role")
+  .addOptionalParam("contracts", "Comma separated contract names (defaults to every contract the role applies to)")
+  .addOptionalParam("from", "Role admin address (defaults to the first signer)")
+  .setAction(async (args, hre) => updateRole(hre, args, false));
+
+task("roles:list", "Lists the holders of every platform role, per contract")
+  .addOptionalParam("role", "Only list this role")
+  .addOptionalParam("contracts", "Comma separated contract names (defaults to every contract)")
+  .addOptionalParam("fromBlock", "Block to start replaying role changes from (defaults to 0)")
+  .setAction(async (args, hre) => {
+    const { ROLES, ROLE_CONTRACTS, getRoleMembers, parseRole } = await import("../sdk");
+    const roles = args.role === undefined ? (Object.keys(ROLES) as (keyof typeof ROLES)[]) : [parseRole(args.role)];
+    const fromBlock = args.fromBlock === undefined ? 0 : Number(parseUint(args.fromBlock, "from-block"));
+
+    for (const name of parseContracts(args.contracts, [...CONTRACT_NAMES])) {
+      console.log(name);
+      for (const role of roles) {
+        if (!(ROLE_CONTRACTS[role] as ContractName[]).includes(name)) continue;
+        const members = await getRoleMembers(hre.ethers.provider, resolveAddress(hre, name), role, fromBlock);
+        console.log(`  ${role}: ${members.length === 0 ? "(none)" : members.join(", ")}`);
+      }
+    }
+  });
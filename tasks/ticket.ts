@@ -0,0 +1,33 @@
+import { task } from "hardhat/config";
+import { parseAddress, parseUint, resolveAddress, resolveSigner } from "./utils";
+
+task("ticket:issue", "Issues a complimentary ticket for an event zone")
+  .addParam("to", "Recipient address")
+  .addParam("eventId", "Event ID")
+  .addParam("zoneId", "Zone ID")
+  .addOptionalParam("from", "Organizer or platform admin address (defaults to the first signer)")
+  .setAction(async (args, hre) => {
+    const to = parseAddress(args.to, "to");
+    const eventId = parseUint(args.eventId, "event-id");
+    const zoneId = parseUint(args.zoneId, "zone-id");
+    const signer = await resolveSigner(hre, args.from);
+    const eventManager = await hre.ethers.getContractAt("EventManager", resolveAddress(hre, "EventManager"), signer);
+
+    const [, , , organizer, cancelled, zoneCount] = await eventManager.getEventData(eventId);
+    if (organizer !== signer.address && !(await eventManager.hasRole(await eventManager.PLATFORM_ADMIN_ROLE(), signer.address))) {
+      throw new Error(`${signer.address} is neither the organizer of event ${eventId} nor a platform admin`);
+    }
+    if (cancelled) throw new Error(`Event ${eventId} is cancelled`);
+    if (zoneId >= zoneCount) throw new Error(`Event ${eventId} has no zone ${zoneId}`);
+    const zone = await eventManager.getZone(eventId, zoneId);
+    if (zone.availableSeats === 0n) throw new Error(`Zone ${zoneId} of event ${eventId} is sold out`);
+    if (await eventManager.hasTicket(eventId, to)) throw new Error(`${to} already holds a ticket for event ${eventId}`);
+
+    const tx = await eventManager.issueTicket(eventId, zoneId, to);
+    const receipt = await tx.wait();
+    const issued = receipt?.logs
+      .map((log) => eventManager.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "TicketIssued");
+
+    console.log(`Issued ticket ${issued?.args.ticketId} for event ${eventId} zone ${zoneId} to ${to} in ${tx.hash}`);
+  });
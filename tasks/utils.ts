@@ -0,0 +1,134 @@
+import fs from "fs";
+import path from "path";
+import { isAddress, isHexString, parseEther } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ContractName, loadManifest } from "../scripts/manifest";
+
+export interface ZoneSchedule {
+  capacities: bigint[];
+  prices: bigint[];
+}
+
+export function resolveAddress(hre: HardhatRuntimeEnvironment, contract: ContractName): string {
+  const address = loadManifest(hre.network.name).contracts[contract];
+  if (!address || !isAddress(address)) {
+    throw new Error(`Deployment manifest for "${hre.network.name}" has no valid ${contract} address`);
+  }
+  return address;
+}
+
+export async function resolveSigner(hre: HardhatRuntimeEnvironment, from?: string) {
+  if (from === undefined) {
+    const [signer] = await hre.ethers.getSigners();
+    return signer;
+  }
+  return hre.ethers.getSigner(parseAddress(from, "from"));
+}
+
+export function parseAddress(value: string, name: string): string {
+  if (!isAddress(value)) {
+    throw new Error(`--${name} must be a valid address, got "${value}"`);
+  }
+  return value;
+}
+
+export function parseUint(value: string, name: string): bigint {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return BigInt(value.trim());
+}
+
+export function parseEtherAmount(value: string, name: string): bigint {
+  let amount: bigint;
+  try {
+    amount = parseEther(value.trim());
+  } catch {
+    throw new Error(`--${name} must be an ether amount such as "0.1", got "${value}"`);
+  }
+  if (amount <= 0n) {
+    throw new Error(`--${name} must be greater than zero`);
+  }
+  return amount;
+}
+
+export function parseBytes32(value: string, name: string): string {
+  if (!isHexString(value.trim(), 32)) {
+    throw new Error(`--${name} must be a 0x-prefixed 32-byte hex string, got "${value}"`);
+  }
+  return value.trim();
+}
+
+/** Comma-separated zone IDs such as "0,2"; every zone when omitted. */
+export function parseZoneIds(value: string | undefined, zoneCount: bigint, name: string): bigint[] {
+  if (value === undefined) {
+    return Array.from({ length: Number(zoneCount) }, (_, i) => BigInt(i));
+  }
+  const zoneIds = value.split(",").map((zoneId) => parseUint(zoneId, name));
+  for (const zoneId of zoneIds) {
+    if (zoneId >= zoneCount) throw new Error(`--${name} includes zone ${zoneId}, but there are only ${zoneCount}`);
+  }
+  return zoneIds;
+}
+
+/** Accepts a unix timestamp in seconds or anything `Date.parse` understands. */
+export function parseTimestamp(value: string, name: string): bigint {
+  if (/^\d+$/.test(value.trim())) {
+    return BigInt(value.trim());
+  }
+  const millis = Date.parse(value);
+  if (Number.isNaN(millis)) {
+    throw new Error(`--${name} must be a unix timestamp or ISO date, got "${value}"`);
+  }
+  return BigInt(Math.floor(millis / 1000));
+}
+
+/**
+ * Reads zone capacities and prices (in ether) from a JSON or CSV file.
+ *
+ * JSON: `[{ "capacity": 100, "price": "0.2" }, ...]`
+ * CSV:  a `capacity,price` header followed by one row per zone
+ */
+export function loadZoneSchedule(file: string): ZoneSchedule {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Zone file not found: ${file}`);
+  }
+  const contents = fs.readFileSync(file, "utf8");
+  const extension = path.extname(file).toLowerCase();
+
+  let rows: { capacity: string; price: string }[];
+  if (extension === ".json") {
+    const parsed = JSON.parse(contents);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${file} must contain an array of { capacity, price } objects`);
+    }
+    rows = parsed.map((zone) => ({ capacity: String(zone.capacity), price: String(zone.price) }));
+  } else if (extension === ".csv") {
+    const lines = contents.split(/\r?\n/).map((line) => line.trim()).filter((line) => line.length > 0);
+    const header = (lines.shift() ?? "").split(",").map((column) => column.trim().toLowerCase());
+    const capacityColumn = header.indexOf("capacity");
+    const priceColumn = header.indexOf("price");
+    if (capacityColumn === -1 || priceColumn === -1) {
+      throw new Error(`${file} must have a "capacity,price" header row`);
+    }
+    rows = lines.map((line) => {
+      const cells = line.split(",").map((cell) => cell.trim());
+      return { capacity: cells[capacityColumn] ?? "", price: cells[priceColumn] ?? "" };
+    });
+  } else {
+    throw new Error(`Zone file must be .json or .csv, got ${file}`);
+  }
+
+  if (rows.length === 0) {
+    throw new Error(`${file} does not define any zones`);
+  }
+
+  return {
+    capacities: rows.map((row, i) => {
+      const capacity = parseUint(row.capacity, `zones[${i}].capacity`);
+      if (capacity === 0n) throw new Error(`Zone ${i} capacity must be greater than zero`);
+      return capacity;
+    }),
+    prices: rows.map((row, i) => parseEtherAmount(row.price, `zones[${i}].price`)),
+  };
+}
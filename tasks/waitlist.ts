@@ -0,0 +1,67 @@
+import { task } from "hardhat/config";
+import { parseAddress, parseUint, resolveAddress, resolveSigner } from "./utils";
+
+task("waitlist:offers", "Lists the open and lapsed waitlist offers in a zone")
+  .addParam("eventId", "Event ID")
+  .addParam("zoneId", "Zone ID")
+  .setAction(async (args, hre) => {
+    const eventId = parseUint(args.eventId, "event-id");
+    const zoneId = parseUint(args.zoneId, "zone-id");
+    const waitlistManager = await hre.ethers.getContractAt("WaitlistManager", resolveAddress(hre, "WaitlistManager"));
+
+    const holders = await waitlistManager.getOfferHolders(eventId, zoneId);
+    if (holders.length === 0) {
+      console.log(`No waitlist offers for event ${eventId}, zone ${zoneId}`);
+      return;
+    }
+    for (const user of holders) {
+      const [ticketId, seatNumber, expiresAt, price] = await waitlistManager.getOffer(eventId, zoneId, user);
+      const item = ticketId === 0n ? `seat ${seatNumber}` : `resale ticket ${ticketId}`;
+      const state = (await waitlistManager.hasActiveOffer(eventId, zoneId, user)) ? "open" : "lapsed";
+      console.log(
+        `${user}: ${item} for ${hre.ethers.formatEther(price)} ETH, ${state} (expires ${new Date(Number(expiresAt) * 1000).toISOString()})`
+      );
+    }
+  });
+
+// Offers used to be made by hand with waitlist:offer; they are now made as soon as a seat is
+// refunded or a ticket listed, so the old name only lists them
+task("waitlist:offer", "Replaced by waitlist:offers; offers are now made automatically")
+  .addParam("eventId", "Event ID")
+  .addParam("zoneId", "Zone ID")
+  .setAction(async (args, hre) => {
+    console.log("waitlist:offer is now waitlist:offers; offers are made automatically when a seat or listing frees up");
+    await hre.run("waitlist:offers", args);
+  });
+
+task("waitlist:expire", "Expires a lapsed waitlist offer and passes it to the next user in line")
+  .addParam("eventId", "Event ID")
+  .addParam("zoneId", "Zone ID")
+  .addParam("user", "Waitlisted user address")
+  .addOptionalParam("from", "Sender address (defaults to the first signer)")
+  .setAction(async (args, hre) => {
+    const eventId = parseUint(args.eventId, "event-id");
+    const zoneId = parseUint(args.zoneId, "zone-id");
+    const user = parseAddress(args.user, "user");
+    const signer = await resolveSigner(hre, args.from);
+    const waitlistManager = await hre.ethers.getContractAt(
+      "WaitlistManager",
+      resolveAddress(hre, "WaitlistManager"),
+      signer
+    );
+
+    if (!(await waitlistManager.isUserWaiting(eventId, zoneId, user))) {
+      throw new Error(`${user} is not on the waitlist for event ${eventId}, zone ${zoneId}`);
+    }
+    const holders = await waitlistManager.getOfferHolders(eventId, zoneId);
+    if (!holders.some((holder) => holder.toLowerCase() === user.toLowerCase())) {
+      throw new Error(`${user} has no waitlist offer for event ${eventId}, zone ${zoneId}`);
+    }
+    if (await waitlistManager.hasActiveOffer(eventId, zoneId, user)) {
+      throw new Error(`The offer to ${user} has not expired yet`);
+    }
+
+    const tx = await waitlistManager.expireOffer(eventId, zoneId, user);
+    await tx.wait();
+    console.log(`Expired the offer to ${user} for event ${eventId}, zone ${zoneId} in ${tx.hash}`);
+  });
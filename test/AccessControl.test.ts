@@ -0,0 +1,205 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  ConditionalFundsEscrow,
+  EventManager,
+  PresaleManager,
+  RefundEscrow,
+  ResaleManager,
+  TicketFactory,
+  WaitlistManager,
+} from "../typechain-types";
+import { deployTicketingSystem, PlatformRole, ROLES } from "../sdk";
+
+interface Contracts {
+  eventManager: EventManager;
+  ticketFactory: TicketFactory;
+  waitlistManager: WaitlistManager;
+  refundEscrow: RefundEscrow;
+  fundsEscrow: ConditionalFundsEscrow;
+  resaleManager: ResaleManager;
+  presaleManager: PresaleManager;
+}
+
+// Every function gated by onlyRole, called by an account holding no role at all
+const PRIVILEGED_CALLS: [string, PlatformRole, (c: Contracts, anyone: string) => Promise<unknown>][] = [
+  ["EventManager.setRefundEscrow", "PLATFORM_ADMIN", (c, a) => c.eventManager.setRefundEscrow(a)],
+  ["EventManager.setTicketFactory", "PLATFORM_ADMIN", (c, a) => c.eventManager.setTicketFactory(a)],
+  ["EventManager.setWaitlistManager", "PLATFORM_ADMIN", (c, a) => c.eventManager.setWaitlistManager(a)],
+  ["EventManager.setPresaleManager", "PLATFORM_ADMIN", (c, a) => c.eventManager.setPresaleManager(a)],
+  ["EventManager.setTreasury", "PLATFORM_ADMIN", (c, a) => c.eventManager.setTreasury(a)],
+  ["EventManager.setPlatformFeePercentage", "PLATFORM_ADMIN", (c) => c.eventManager.setPlatformFeePercentage(1)],
+  ["EventManager.setResalePlatformFee", "PLATFORM_ADMIN", (c) => c.eventManager.setResalePlatformFee(1)],
+  ["EventManager.setMaxResaleRoyalty", "PLATFORM_ADMIN", (c) => c.eventManager.setMaxResaleRoyalty(1)],
+  ["EventManager.pause", "PAUSER", (c) => c.eventManager.pause()],
+  ["EventManager.unpause", "PAUSER", (c) => c.eventManager.unpause()],
+  ["TicketFactory.setWaitlistManager", "PLATFORM_ADMIN", (c, a) => c.ticketFactory.setWaitlistManager(a)],
+  ["TicketFactory.setEventManager", "PLATFORM_ADMIN", (c, a) => c.ticketFactory.setEventManager(a)],
+  ["TicketFactory.setResaleManager", "PLATFORM_ADMIN", (c, a) => c.ticketFactory.setResaleManager(a)],
+  ["TicketFactory.setTransferAgent", "PLATFORM_ADMIN", (c, a) => c.ticketFactory.setTransferAgent(a, true)],
+  ["WaitlistManager.setEventManager", "PLATFORM_ADMIN", (c, a) => c.waitlistManager.setEventManager(a)],
+  ["WaitlistManager.setResaleManager", "PLATFORM_ADMIN", (c, a) => c.waitlistManager.setResaleManager(a)],
+  ["WaitlistManager.setFundsEscrow", "PLATFORM_ADMIN", (c, a) => c.waitlistManager.setFundsEscrow(a)],
+  ["WaitlistManager.clearWaitlistEntry", "PLATFORM_ADMIN", (c, a) => c.waitlistManager.clearWaitlistEntry(1, 0, a)],
+  ["WaitlistManager.clearWaitlistForUser", "KEEPER", (c, a) => c.waitlistManager.clearWaitlistForUser(1, 0, a)],
+  ["WaitlistManager.pause", "PAUSER", (c) => c.waitlistManager.pause()],
+  ["WaitlistManager.unpause", "PAUSER", (c) => c.waitlistManager.unpause()],
+  ["RefundEscrow.withdrawStuckFunds", "PLATFORM_ADMIN", (c) => c.refundEscrow.withdrawStuckFunds()],
+  ["RefundEscrow.pause", "PAUSER", (c) => c.refundEscrow.pause()],
+  ["RefundEscrow.unpause", "PAUSER", (c) => c.refundEscrow.unpause()],
+  ["ConditionalFundsEscrow.setWaitlistManager", "PLATFORM_ADMIN", (c, a) => c.fundsEscrow.setWaitlistManager(a)],
+  ["ConditionalFundsEscrow.withdrawStuckFunds", "PLATFORM_ADMIN", (c) => c.fundsEscrow.withdrawStuckFunds()],
+  ["ConditionalFundsEscrow.pause", "PAUSER", (c) => c.fundsEscrow.pause()],
+  ["ConditionalFundsEscrow.unpause", "PAUSER", (c) => c.fundsEscrow.unpause()],
+  ["ResaleManager.setWaitlistManager", "PLATFORM_ADMIN", (c, a) => c.resaleManager.setWaitlistManager(a)],
+  ["ResaleManager.setTicketFactory", "PLATFORM_ADMIN", (c, a) => c.resaleManager.setTicketFactory(a)],
+  ["ResaleManager.importListings", "PLATFORM_ADMIN", (c, a) => c.resaleManager.importListings(a, [1])],
+  ["ResaleManager.pause", "PAUSER", (c) => c.resaleManager.pause()],
+  ["ResaleManager.unpause", "PAUSER", (c) => c.resaleManager.unpause()],
+  [
+    "EventManager.createEvent",
+    "ORGANIZER",
+    async (c) => c.eventManager.createEvent("Show", BigInt(await time.latest()) + 186400n, 1n, [1n], [1n]),
+  ],
+];
+
+describe("Access control", function () {
+  let contracts: Contracts;
+  let owner: SignerWithAddress;
+  let organizer: SignerWithAddress;
+  let stranger: SignerWithAddress;
+  let treasury: SignerWithAddress;
+
+  const ticketPrice = ethers.parseEther("0.1");
+
+  function connect(signer: SignerWithAddress): Contracts {
+    return {
+      eventManager: contracts.eventManager.connect(signer),
+      ticketFactory: contracts.ticketFactory.connect(signer),
+      waitlistManager: contracts.waitlistManager.connect(signer),
+      refundEscrow: contracts.refundEscrow.connect(signer),
+      fundsEscrow: contracts.fundsEscrow.connect(signer),
+      resaleManager: contracts.resaleManager.connect(signer),
+      presaleManager: contracts.presaleManager.connect(signer),
+    };
+  }
+
+  beforeEach(async function () {
+    [owner, organizer, stranger, treasury] = await ethers.getSigners();
+    const addresses = await deployTicketingSystem(owner);
+    contracts = {
+      eventManager: await ethers.getContractAt("EventManager", addresses.EventManager),
+      ticketFactory: await ethers.getContractAt("TicketFactory", addresses.TicketFactory),
+      waitlistManager: await ethers.getContractAt("WaitlistManager", addresses.WaitlistManager),
+      refundEscrow: await ethers.getContractAt("RefundEscrow", addresses.RefundEscrow),
+      fundsEscrow: await ethers.getContractAt("ConditionalFundsEscrow", addresses.ConditionalFundsEscrow),
+      resaleManager: await ethers.getContractAt("ResaleManager", addresses.ResaleManager),
+      presaleManager: await ethers.getContractAt("PresaleManager", addresses.PresaleManager),
+    };
+    await contracts.eventManager.grantRole(ROLES.ORGANIZER, organizer.address);
+  });
+
+  describe("Privileged functions", function () {
+    for (const [name, role, call] of PRIVILEGED_CALLS) {
+      it(`Should reject ${name} from an account without ${role}`, async function () {
+        await expect(call(connect(stranger), stranger.address))
+          .to.be.revertedWithCustomError(contracts.eventManager, "AccessControlUnauthorizedAccount")
+          .withArgs(stranger.address, ROLES[role]);
+      });
+    }
+
+    it("Should reject check-ins and refund batches from accounts without the scanner or keeper role", async function () {
+      await expect(
+        contracts.ticketFactory.connect(stranger).checkInTicket(1, 1, (await time.latest()) + 60, "0x")
+      ).to.be.revertedWith("Caller is not an authorized gate scanner");
+
+      await contracts.eventManager
+        .connect(organizer)
+        .createEvent("Show", BigInt(await time.latest()) + 186400n, ticketPrice, [10n], [ticketPrice]);
+      await contracts.eventManager.connect(organizer).cancelEvent(1);
+      await expect(contracts.refundEscrow.connect(stranger).processEventRefundBatch(1, 10)).to.be.revertedWith(
+        "Caller is not the organizer or a refund keeper"
+      );
+
+      await contracts.refundEscrow.grantRole(ROLES.KEEPER, stranger.address);
+      await expect(contracts.refundEscrow.connect(stranger).processEventRefundBatch(1, 10)).to.not.be.reverted;
+    });
+
+    it("Should let a platform admin manage any event but not an organizer someone else's", async function () {
+      const eventDate = BigInt(await time.latest()) + 186400n;
+      await contracts.eventManager.connect(organizer).createEvent("Show", eventDate, ticketPrice, [10n], [ticketPrice]);
+      await contracts.eventManager.grantRole(ROLES.ORGANIZER, stranger.address);
+
+      await expect(contracts.eventManager.connect(stranger).cancelEvent(1)).to.be.revertedWith(
+        "Not event organizer or platform admin"
+      );
+      await expect(
+        contracts.presaleManager.connect(stranger).addPromoCodes(1, [ethers.id("CODE")], 1_000)
+      ).to.be.revertedWith("Not event organizer or platform admin");
+
+      await contracts.eventManager.connect(owner).cancelEvent(1);
+      expect((await contracts.eventManager.getEventData(1)).cancelled).to.equal(true);
+    });
+  });
+
+  describe("Role administration", function () {
+    it("Should let operators onboard organizers, scanners and keepers but not other admins", async function () {
+      await contracts.eventManager.grantRole(ROLES.OPERATOR, organizer.address);
+      await contracts.eventManager.connect(organizer).grantRole(ROLES.ORGANIZER, stranger.address);
+      expect(await contracts.eventManager.hasRole(ROLES.ORGANIZER, stranger.address)).to.equal(true);
+
+      await expect(contracts.eventManager.connect(organizer).grantRole(ROLES.PLATFORM_ADMIN, stranger.address))
+        .to.be.revertedWithCustomError(contracts.eventManager, "AccessControlUnauthorizedAccount")
+        .withArgs(organizer.address, ROLES.DEFAULT_ADMIN);
+    });
+
+    it("Should not let platform admins onboard operational roles", async function () {
+      await contracts.eventManager.grantRole(ROLES.PLATFORM_ADMIN, stranger.address);
+      await expect(contracts.eventManager.connect(stranger).grantRole(ROLES.ORGANIZER, stranger.address))
+        .to.be.revertedWithCustomError(contracts.eventManager, "AccessControlUnauthorizedAccount")
+        .withArgs(stranger.address, ROLES.OPERATOR);
+    });
+
+    it("Should not let organizers grant roles", async function () {
+      await expect(contracts.eventManager.connect(organizer).grantRole(ROLES.ORGANIZER, stranger.address))
+        .to.be.revertedWithCustomError(contracts.eventManager, "AccessControlUnauthorizedAccount")
+        .withArgs(organizer.address, ROLES.OPERATOR);
+    });
+
+    it("Should stop an organizer creating events once the role is revoked", async function () {
+      const eventDate = BigInt(await time.latest()) + 186400n;
+      await contracts.eventManager.connect(organizer).createEvent("Show", eventDate, ticketPrice, [10n], [ticketPrice]);
+      await contracts.eventManager.revokeRole(ROLES.ORGANIZER, organizer.address);
+
+      await expect(
+        contracts.eventManager.connect(organizer).createEvent("Again", eventDate, ticketPrice, [10n], [ticketPrice])
+      ).to.be.revertedWithCustomError(contracts.eventManager, "AccessControlUnauthorizedAccount");
+      // Events already created stay with their organizer
+      await expect(contracts.eventManager.connect(organizer).cancelEvent(1)).to.not.be.reverted;
+    });
+  });
+
+  describe("Treasury", function () {
+    it("Should send platform fees to the treasury rather than the admin", async function () {
+      await contracts.eventManager.setTreasury(treasury.address);
+      const eventDate = BigInt(await time.latest()) + 186400n;
+      await contracts.eventManager.connect(organizer).createEvent("Show", eventDate, ticketPrice, [10n], [ticketPrice]);
+      await contracts.eventManager.connect(stranger).purchaseTicket(1, 0, { value: ticketPrice });
+      await time.increaseTo(eventDate + 1n);
+
+      const fee = (ticketPrice * (await contracts.eventManager.platformFeePercentage())) / 100n;
+      await expect(contracts.eventManager.connect(organizer).withdrawEventRevenue(1)).to.changeEtherBalances(
+        [treasury, owner],
+        [fee, 0n]
+      );
+    });
+
+    it("Should reject a zero treasury address", async function () {
+      await expect(contracts.eventManager.setTreasury(ethers.ZeroAddress)).to.be.revertedWith(
+        "Invalid treasury address"
+      );
+    });
+  });
+});
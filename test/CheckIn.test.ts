@@ -0,0 +1,232 @@
+// SPDX-License-Identifier: MIT
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { TicketFactory } from "../typechain-types";
+import {
+  connectTicketingSystem,
+  createCheckInChallenge,
+  deployTicketingSystem,
+  encodeCheckInQr,
+  GateVerifier,
+  ROLES,
+  signCheckInChallenge,
+  TicketingAddresses,
+} from "../sdk";
+
+describe("Gate Check-In", function () {
+  let addresses: TicketingAddresses;
+  let ticketFactory: TicketFactory;
+  let owner: SignerWithAddress;
+  let organizer: SignerWithAddress;
+  let holder: SignerWithAddress;
+  let scanner: SignerWithAddress;
+  let stranger: SignerWithAddress;
+  let chainId: bigint;
+  let eventDate: bigint;
+
+  const ticketPrice = ethers.parseEther("0.1");
+  const tokenId = 1n;
+
+  async function signedChallenge(signer: SignerWithAddress, lifetime = 60, ticket = tokenId, gateNonce?: bigint) {
+    const challenge = createCheckInChallenge(ticket, await time.latest(), lifetime);
+    return signCheckInChallenge(
+      signer,
+      { ...challenge, gateNonce: gateNonce ?? challenge.gateNonce },
+      chainId,
+      addresses.TicketFactory
+    );
+  }
+
+  beforeEach(async function () {
+    [owner, organizer, holder, scanner, stranger] = await ethers.getSigners();
+    addresses = await deployTicketingSystem(owner);
+    await connectTicketingSystem(addresses, owner).eventManager.contract.grantRole(ROLES.ORGANIZER, organizer.address);
+    chainId = (await ethers.provider.getNetwork()).chainId;
+    eventDate = BigInt(await time.latest()) + 186400n;
+
+    await connectTicketingSystem(addresses, organizer).eventManager.createEvent({
+      name: "Gate Event",
+      date: eventDate,
+      basePrice: ticketPrice,
+      zones: [{ capacity: 10n, price: ticketPrice }],
+    });
+
+    await connectTicketingSystem(addresses, holder).eventManager.purchaseTicket(1, 0);
+    ticketFactory = connectTicketingSystem(addresses, owner).ticketFactory.contract;
+    await ticketFactory.grantRole(await ticketFactory.GATE_SCANNER_ROLE(), scanner.address);
+  });
+
+  describe("checkInTicket", function () {
+    beforeEach(async function () {
+      await time.increaseTo(eventDate - 60n);
+    });
+
+    it("Should mark the ticket used with the holder's signature", async function () {
+      const checkIn = await signedChallenge(holder);
+
+      await expect(
+        ticketFactory
+          .connect(scanner)
+          .checkInTicket(tokenId, checkIn.gateNonce, checkIn.deadline, checkIn.signature)
+      )
+        .to.emit(ticketFactory, "TicketCheckedIn")
+        .withArgs(tokenId, scanner.address, checkIn.gateNonce);
+
+      const ticket = await ticketFactory.getTicketDetails(tokenId);
+      expect(ticket[2]).to.be.true; // used
+    });
+
+    it("Should reject replayed challenges", async function () {
+      const checkIn = await signedChallenge(holder);
+      await ticketFactory
+        .connect(scanner)
+        .checkInTicket(tokenId, checkIn.gateNonce, checkIn.deadline, checkIn.signature);
+
+      await expect(
+        ticketFactory
+          .connect(scanner)
+          .checkInTicket(tokenId, checkIn.gateNonce, checkIn.deadline, checkIn.signature)
+      ).to.be.revertedWith("Check-in challenge already used");
+    });
+
+    it("Should reject expired challenges", async function () {
+      const checkIn = await signedChallenge(holder);
+      await time.increase(120);
+
+      await expect(
+        ticketFactory
+          .connect(scanner)
+          .checkInTicket(tokenId, checkIn.gateNonce, checkIn.deadline, checkIn.signature)
+      ).to.be.revertedWith("Check-in challenge has expired");
+    });
+
+    it("Should reject challenges that live too long", async function () {
+      const checkIn = await signedChallenge(holder, 60 * 60);
+
+      await expect(
+        ticketFactory
+          .connect(scanner)
+          .checkInTicket(tokenId, checkIn.gateNonce, checkIn.deadline, checkIn.signature)
+      ).to.be.revertedWith("Check-in challenge lifetime too long");
+    });
+
+    it("Should reject signatures from anyone but the holder", async function () {
+      const checkIn = await signedChallenge(stranger);
+
+      await expect(
+        ticketFactory
+          .connect(scanner)
+          .checkInTicket(tokenId, checkIn.gateNonce, checkIn.deadline, checkIn.signature)
+      ).to.be.revertedWith("Signature is not from the ticket holder");
+    });
+
+    it("Should scope gate nonces to the ticket", async function () {
+      await connectTicketingSystem(addresses, stranger).eventManager.purchaseTicket(1, 0);
+      const first = await signedChallenge(holder, 60, tokenId, 7n);
+      const second = await signedChallenge(stranger, 60, 2n, 7n);
+
+      await ticketFactory.connect(scanner).checkInTicket(tokenId, 7n, first.deadline, first.signature);
+      await expect(ticketFactory.connect(scanner).checkInTicket(2n, 7n, second.deadline, second.signature))
+        .to.emit(ticketFactory, "TicketCheckedIn")
+        .withArgs(2n, scanner.address, 7n);
+      expect(await ticketFactory.usedGateNonces(tokenId, 7n)).to.be.true;
+      expect(await ticketFactory.usedGateNonces(3n, 7n)).to.be.false;
+    });
+
+    it("Should reject tickets for cancelled events", async function () {
+      await connectTicketingSystem(addresses, organizer).eventManager.cancelEvent(1);
+      const checkIn = await signedChallenge(holder);
+
+      await expect(
+        ticketFactory
+          .connect(scanner)
+          .checkInTicket(tokenId, checkIn.gateNonce, checkIn.deadline, checkIn.signature)
+      ).to.be.revertedWith("Event cancelled");
+    });
+
+    it("Should only admit guests around the event date", async function () {
+      const laterDate = eventDate + 2n * 86400n;
+      await connectTicketingSystem(addresses, organizer).eventManager.createEvent({
+        name: "Later Event",
+        date: laterDate,
+        basePrice: ticketPrice,
+        zones: [{ capacity: 10n, price: ticketPrice }],
+      });
+      await connectTicketingSystem(addresses, holder).eventManager.purchaseTicket(2, 0);
+      const early = await signedChallenge(holder, 60, 2n);
+      await expect(
+        ticketFactory.connect(scanner).checkInTicket(2n, early.gateNonce, early.deadline, early.signature)
+      ).to.be.revertedWith("Event is not admitting guests");
+
+      await time.increaseTo(eventDate + 12n * 3600n + 1n);
+      const late = await signedChallenge(holder);
+      await expect(
+        ticketFactory.connect(scanner).checkInTicket(tokenId, late.gateNonce, late.deadline, late.signature)
+      ).to.be.revertedWith("Event is not admitting guests");
+    });
+
+    it("Should only accept authorized scanners", async function () {
+      const checkIn = await signedChallenge(holder);
+
+      await expect(
+        ticketFactory
+          .connect(stranger)
+          .checkInTicket(tokenId, checkIn.gateNonce, checkIn.deadline, checkIn.signature)
+      ).to.be.revertedWith("Caller is not an authorized gate scanner");
+    });
+  });
+
+  describe("GateVerifier", function () {
+    let gate: GateVerifier;
+
+    beforeEach(async function () {
+      gate = new GateVerifier({
+        ticketFactory: addresses.TicketFactory,
+        eventManager: addresses.EventManager,
+        runner: scanner,
+      });
+    });
+
+    async function scanFromHolder(signer: SignerWithAddress = holder): Promise<string> {
+      const challenge = await gate.issueChallenge(tokenId);
+      const checkIn = await signCheckInChallenge(signer, challenge, chainId, addresses.TicketFactory);
+      return encodeCheckInQr(checkIn);
+    }
+
+    it("Should redeem a valid QR payload once", async function () {
+      await time.increaseTo(eventDate - 60n);
+      const qr = await scanFromHolder();
+
+      const result = await gate.redeem(qr);
+      expect(result.valid).to.be.true;
+      expect((await ticketFactory.getTicketDetails(tokenId))[2]).to.be.true;
+
+      const replay = await gate.redeem(qr);
+      expect(replay).to.include({ valid: false, reason: "UNKNOWN_CHALLENGE" });
+    });
+
+    it("Should refuse entry before doors open", async function () {
+      const result = await gate.verify(await scanFromHolder());
+      expect(result).to.include({ valid: false, reason: "OUTSIDE_ADMISSION_WINDOW" });
+    });
+
+    it("Should refuse payloads signed by someone who no longer holds the ticket", async function () {
+      await time.increaseTo(eventDate - 60n);
+      const qr = await scanFromHolder();
+      await connectTicketingSystem(addresses, organizer).eventManager.moveTicket(tokenId, stranger.address);
+
+      expect(await gate.verify(qr)).to.include({ valid: false, reason: "NOT_HOLDER" });
+    });
+
+    it("Should refuse expired payloads and garbage", async function () {
+      await time.increaseTo(eventDate - 600n);
+      const qr = await scanFromHolder();
+      await time.increase(120);
+
+      expect(await gate.verify(qr)).to.include({ valid: false, reason: "EXPIRED" });
+      expect(await gate.verify("not a ticket")).to.include({ valid: false, reason: "MALFORMED" });
+    });
+  });
+});
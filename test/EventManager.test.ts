@@ -1,13 +1,15 @@
 // SPDX-License-Identifier: MIT
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { EventManager, RefundEscrow } from "../typechain-types";
+import { EventManager, RefundEscrow, TicketFactory } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployEventManager } from "../sdk";
 
 describe("EventManager", function () {
   let eventManager: EventManager;
   let refundEscrow: RefundEscrow;
+  let ticketFactory: TicketFactory;
   let owner: SignerWithAddress;
   let organizer: SignerWithAddress;
   let buyer: SignerWithAddress;
@@ -16,15 +18,35 @@ describe("EventManager", function () {
   beforeEach(async function () {
     [owner, organizer, buyer, buyer2] = await ethers.getSigners();
 
-    const EventManagerFactory = await ethers.getContractFactory("EventManager");
-    eventManager = await EventManagerFactory.deploy();
+    eventManager = await deployEventManager(owner);
     await eventManager.waitForDeployment();
+    await eventManager.grantRole(await eventManager.ORGANIZER_ROLE(), organizer.address);
 
     const RefundEscrowFactory = await ethers.getContractFactory("RefundEscrow");
     refundEscrow = await RefundEscrowFactory.deploy(await eventManager.getAddress());
     await refundEscrow.waitForDeployment();
 
     await eventManager.setRefundEscrow(await refundEscrow.getAddress());
+
+    const WaitlistManagerFactory = await ethers.getContractFactory("WaitlistManager");
+    const waitlistManager = await WaitlistManagerFactory.deploy();
+    const TicketFactoryFactory = await ethers.getContractFactory("TicketFactory");
+    ticketFactory = await TicketFactoryFactory.deploy(await waitlistManager.getAddress());
+    await ticketFactory.waitForDeployment();
+
+    await eventManager.setTicketFactory(await ticketFactory.getAddress());
+    await ticketFactory.setEventManager(await eventManager.getAddress());
+  });
+
+  describe("Contract Size", function () {
+    // EIP-170 limit on deployed code; the linked pricing, capacity and revenue libraries keep
+    // EventManager under it
+    const MAX_CONTRACT_SIZE = 24_576;
+
+    it("Should stay under the deployed code size limit", async function () {
+      const code = await ethers.provider.getCode(await eventManager.getAddress());
+      expect(ethers.dataLength(code)).to.be.at.most(MAX_CONTRACT_SIZE);
+    });
   });
 
   describe("Event Creation", function () {
@@ -84,6 +106,51 @@ describe("EventManager", function () {
     });
   });
 
+  describe("Resale Fees", function () {
+    let eventDate: bigint;
+
+    beforeEach(async function () {
+      eventDate = BigInt(await time.latest()) + 186400n;
+    });
+
+    function createWithFees(royaltyBps: bigint, payee: string, payeeBps: bigint) {
+      const price = ethers.parseEther("0.1");
+      return eventManager
+        .connect(organizer)
+        .createEventWithResaleFees("Royalty Event", eventDate, price, [10n], [price], royaltyBps, payee, payeeBps);
+    }
+
+    it("Should record the organizer's fee split at creation", async function () {
+      await expect(createWithFees(600n, buyer2.address, 400n))
+        .to.emit(eventManager, "ResaleFeesConfigured")
+        .withArgs(1, 500n, 600n, buyer2.address, 400n);
+
+      const fees = await eventManager.getResaleFees(1);
+      expect(fees.platformFeeBps).to.equal(500n);
+      expect(fees.organizerRoyaltyBps).to.equal(600n);
+      expect(fees.payee).to.equal(buyer2.address);
+      expect(fees.payeeBps).to.equal(400n);
+    });
+
+    it("Should cap royalties at the owner's maximum", async function () {
+      await expect(
+        createWithFees(800n, buyer2.address, 201n)
+      ).to.be.revertedWith("Resale royalty exceeds maximum");
+      await expect(
+        createWithFees(0n, ethers.ZeroAddress, 100n)
+      ).to.be.revertedWith("Invalid resale payee");
+
+      await eventManager.setMaxResaleRoyalty(2_000);
+      await createWithFees(800n, buyer2.address, 201n);
+
+      await expect(eventManager.setMaxResaleRoyalty(2_501)).to.be.revertedWith("Resale royalty cap exceeds maximum");
+      await expect(eventManager.setResalePlatformFee(1_001)).to.be.revertedWith("Resale platform fee exceeds maximum");
+      await expect(
+        eventManager.connect(organizer).setMaxResaleRoyalty(2_000)
+      ).to.be.revertedWithCustomError(eventManager, "AccessControlUnauthorizedAccount");
+    });
+  });
+
   describe("Ticket Purchase", function () {
     beforeEach(async function () {
       const latestTime = await time.latest();
@@ -112,8 +179,10 @@ describe("EventManager", function () {
       const finalOwnerBalance = await ethers.provider.getBalance(owner.address);
       const revenue = await eventManager.getEventRevenue(1);
 
+      // The whole price is held in escrow; the fee is only paid out at settlement
       expect(revenue).to.equal(organizerPayment);
-      expect(finalOwnerBalance - initialOwnerBalance).to.equal(platformFee);
+      expect(finalOwnerBalance).to.equal(initialOwnerBalance);
+      expect(await refundEscrow.getEventBalance(1)).to.equal(purchasePrice);
     });
 
     it("Should prevent multiple purchases by same buyer", async function () {
@@ -136,6 +205,335 @@ describe("EventManager", function () {
       const zone = await eventManager.getZone(1, 0);
       expect(zone.availableSeats).to.equal(99n);
     });
+
+    it("Should mint the ticket NFT to the buyer", async function () {
+      await expect(
+        eventManager.connect(buyer).purchaseTicket(1, 0, {
+          value: ethers.parseEther("0.1"),
+        })
+      ).to.emit(eventManager, "TicketPurchased").withArgs(1, 1, buyer.address);
+
+      expect(await ticketFactory.ownerOf(1)).to.equal(buyer.address);
+      const ticket = await ticketFactory.getTicketDetails(1);
+      expect(ticket[0]).to.equal(1n);                        // eventId
+      expect(ticket[1]).to.equal(ethers.parseEther("0.1"));  // price
+      expect(ticket[7]).to.equal(0n);                        // zoneId
+    });
+
+    it("Should book the sale with its platform fee", async function () {
+      const price = ethers.parseEther("0.1");
+      await expect(eventManager.connect(buyer).purchaseTicket(1, 0, { value: price }))
+        .to.emit(eventManager, "SaleBooked")
+        .withArgs(1, 1, price, (price * 5n) / 100n);
+    });
+
+    it("Should let the organizer issue complimentary tickets", async function () {
+      await expect(eventManager.connect(organizer).issueTicket(1, 0, buyer2.address))
+        .to.emit(eventManager, "TicketIssued")
+        .withArgs(1, 1, buyer2.address);
+
+      expect(await ticketFactory.ownerOf(1)).to.equal(buyer2.address);
+      expect(await eventManager.hasTicket(1, buyer2.address)).to.be.true;
+      expect((await eventManager.getZone(1, 0)).availableSeats).to.equal(99n);
+
+      await expect(
+        eventManager.connect(buyer).issueTicket(1, 0, buyer.address)
+      ).to.be.revertedWith("Not event organizer or platform admin");
+    });
+  });
+
+  describe("Multi-ticket Purchases", function () {
+    const price = ethers.parseEther("0.1");
+
+    beforeEach(async function () {
+      const latestTime = await time.latest();
+      const eventDate = BigInt(latestTime) + 186400n;
+      await eventManager.connect(organizer).createEvent(
+        "Test Event",
+        eventDate,
+        price,
+        [100n],
+        [price]
+      );
+    });
+
+    it("Should buy several tickets once the wallet limit is raised", async function () {
+      await eventManager.connect(organizer).setWalletTicketLimit(1, 4);
+
+      await eventManager.connect(buyer).purchaseTickets(1, 0, 3, { value: price * 3n });
+
+      expect(await eventManager.getTicketCount(1, buyer.address)).to.equal(3n);
+      expect(await ticketFactory.balanceOf(buyer.address)).to.equal(3n);
+      expect((await eventManager.getZone(1, 0)).availableSeats).to.equal(97n);
+      expect(await refundEscrow.getEventBalance(1)).to.equal(price * 3n);
+      for (const ticketId of [1n, 2n, 3n]) {
+        expect(await refundEscrow.getPaymentAmount(1, ticketId)).to.equal(price);
+      }
+
+      await expect(
+        eventManager.connect(buyer).purchaseTickets(1, 0, 2, { value: price * 2n })
+      ).to.be.revertedWith("Already purchased ticket");
+      await eventManager.connect(buyer).purchaseTicket(1, 0, { value: price });
+      expect(await eventManager.getTicketCount(1, buyer.address)).to.equal(4n);
+    });
+
+    it("Should keep the one-ticket default limit", async function () {
+      expect(await eventManager.getWalletTicketLimit(1)).to.equal(1n);
+
+      await expect(
+        eventManager.connect(buyer).purchaseTickets(1, 0, 2, { value: price * 2n })
+      ).to.be.revertedWith("Quantity exceeds wallet ticket limit");
+      await expect(
+        eventManager.connect(buyer).purchaseTickets(1, 0, 0)
+      ).to.be.revertedWith("Invalid ticket quantity");
+      await expect(
+        eventManager.connect(buyer).purchaseTickets(1, 0, 1, { value: price - 1n })
+      ).to.be.revertedWith("Insufficient payment");
+    });
+
+    it("Should buy tickets for a group and refund the excess", async function () {
+      const recipients = [buyer.address, buyer2.address, organizer.address];
+
+      const tx = eventManager.connect(buyer).purchaseGroupTickets(1, 0, recipients, { value: price * 4n });
+      await expect(tx)
+        .to.emit(eventManager, "GroupTicketsPurchased")
+        .withArgs(1, 0, buyer.address, [1n, 2n, 3n]);
+      await expect(tx).to.changeEtherBalance(buyer, -(price * 3n));
+
+      for (const [index, recipient] of recipients.entries()) {
+        expect(await ticketFactory.ownerOf(index + 1)).to.equal(recipient);
+        expect(await eventManager.hasTicket(1, recipient)).to.be.true;
+        expect((await refundEscrow.getPaymentDetails(1, index + 1))[0]).to.equal(buyer.address);
+      }
+      expect(await refundEscrow.getEventBalance(1)).to.equal(price * 3n);
+    });
+
+    it("Should apply the wallet limit to each group recipient", async function () {
+      await eventManager.connect(buyer2).purchaseTicket(1, 0, { value: price });
+
+      await expect(
+        eventManager.connect(buyer).purchaseGroupTickets(1, 0, [buyer.address, buyer2.address], {
+          value: price * 2n,
+        })
+      ).to.be.revertedWith("Already purchased ticket");
+      await expect(
+        eventManager.connect(buyer).purchaseGroupTickets(1, 0, [buyer.address, ethers.ZeroAddress], {
+          value: price * 2n,
+        })
+      ).to.be.revertedWith("Invalid recipient address");
+      await expect(
+        eventManager.connect(buyer).purchaseGroupTickets(1, 0, [], { value: price })
+      ).to.be.revertedWith("Invalid ticket quantity");
+    });
+
+    it("Should only let the organizer or owner change the wallet limit", async function () {
+      await expect(
+        eventManager.connect(buyer).setWalletTicketLimit(1, 5)
+      ).to.be.revertedWith("Not event organizer or platform admin");
+      await expect(
+        eventManager.connect(organizer).setWalletTicketLimit(1, 0)
+      ).to.be.revertedWith("Wallet ticket limit must be greater than zero");
+
+      await expect(eventManager.connect(owner).setWalletTicketLimit(1, 5))
+        .to.emit(eventManager, "WalletTicketLimitUpdated")
+        .withArgs(1, 5);
+      expect(await eventManager.getWalletTicketLimit(1)).to.equal(5n);
+    });
+  });
+
+  describe("Dynamic Pricing", function () {
+    const price = ethers.parseEther("0.1");
+    const earlyBird = ethers.parseEther("0.08");
+    const noCurve = { maxIncreaseBps: 0n, ceiling: 0n };
+    let eventDate: bigint;
+
+    beforeEach(async function () {
+      eventDate = BigInt(await time.latest()) + 10n * 86400n;
+      await eventManager.connect(organizer).createEvent("Test Event", eventDate, earlyBird, [10n], [price]);
+      await eventManager.connect(organizer).setWalletTicketLimit(1, 10);
+    });
+
+    it("Should sell at the early-bird price until the tier's deadline", async function () {
+      const endsAt = BigInt(await time.latest()) + 86400n;
+      await expect(
+        eventManager.connect(organizer).setPriceSchedule(1, 0, [{ price: earlyBird, endsAt, maxSales: 0n }], noCurve)
+      ).to.emit(eventManager, "PriceScheduleUpdated");
+      expect(await eventManager.getZonePrice(1, 0)).to.equal(earlyBird);
+
+      await eventManager.connect(buyer).purchaseTicket(1, 0, { value: earlyBird });
+      expect((await ticketFactory.getTicketDetails(1))[1]).to.equal(earlyBird);
+      expect(await refundEscrow.getPaymentAmount(1, 1)).to.equal(earlyBird);
+
+      await time.increaseTo(endsAt);
+      expect(await eventManager.getZonePrice(1, 0)).to.equal(price);
+      await expect(
+        eventManager.connect(buyer2).purchaseTicket(1, 0, { value: earlyBird })
+      ).to.be.revertedWith("Insufficient payment");
+    });
+
+    it("Should end a tier after its sales limit, even partway through a batch", async function () {
+      await eventManager.connect(organizer).setPriceSchedule(1, 0, [{ price: earlyBird, endsAt: 0n, maxSales: 2n }], noCurve);
+
+      const total = earlyBird * 2n + price;
+      expect(await eventManager.quoteTickets(1, 0, 3)).to.equal(total);
+      await expect(
+        eventManager.connect(buyer).purchaseTickets(1, 0, 3, { value: total * 2n })
+      ).to.changeEtherBalance(buyer, -total);
+
+      expect(await refundEscrow.getPaymentAmount(1, 2)).to.equal(earlyBird);
+      expect(await refundEscrow.getPaymentAmount(1, 3)).to.equal(price);
+      expect(await eventManager.getZonePrice(1, 0)).to.equal(price);
+    });
+
+    it("Should raise the price as seats sell, up to the ceiling", async function () {
+      const ceiling = ethers.parseEther("0.15");
+      await eventManager.connect(organizer).setPriceSchedule(1, 0, [], { maxIncreaseBps: 10_000n, ceiling });
+
+      await eventManager.connect(buyer).purchaseTickets(1, 0, 2, { value: price * 3n });
+      // 2 of 10 seats sold: +20% of the full 100% increase
+      expect(await eventManager.getZonePrice(1, 0)).to.equal(ethers.parseEther("0.12"));
+
+      await eventManager.connect(buyer2).purchaseTickets(1, 0, 4, { value: ceiling * 4n });
+      expect(await eventManager.getZonePrice(1, 0)).to.equal(ceiling);
+      expect((await eventManager.getPriceSchedule(1, 0)).demandCurve.ceiling).to.equal(ceiling);
+    });
+
+    it("Should let an early-bird tier undercut the event's base price", async function () {
+      const launchPrice = earlyBird / 2n;
+      await eventManager.connect(organizer).setPriceSchedule(1, 0, [{ price: launchPrice, endsAt: 0n, maxSales: 1n }], noCurve);
+      expect(await eventManager.getZonePrice(1, 0)).to.equal(launchPrice);
+
+      await eventManager.connect(buyer).purchaseTicket(1, 0, { value: launchPrice });
+      expect(await refundEscrow.getPaymentAmount(1, 1)).to.equal(launchPrice);
+      expect(await eventManager.getZonePrice(1, 0)).to.equal(price);
+    });
+
+    it("Should validate schedules and only accept them from the organizer or owner", async function () {
+      const tier = { price: earlyBird, endsAt: 0n, maxSales: 2n };
+      await expect(
+        eventManager.connect(buyer).setPriceSchedule(1, 0, [tier], noCurve)
+      ).to.be.revertedWith("Not event organizer or platform admin");
+      await expect(
+        eventManager.connect(organizer).setPriceSchedule(1, 0, [{ ...tier, maxSales: 0n }], noCurve)
+      ).to.be.revertedWith("Price tier needs an end time or sales limit");
+      await expect(
+        eventManager.connect(organizer).setPriceSchedule(1, 0, Array(6).fill(tier), noCurve)
+      ).to.be.revertedWith("Too many price tiers");
+      await expect(
+        eventManager.connect(organizer).setPriceSchedule(1, 0, [], { maxIncreaseBps: 1_000n, ceiling: price - 1n })
+      ).to.be.revertedWith("Price ceiling must be >= zone price");
+      await expect(
+        eventManager
+          .connect(organizer)
+          .setPriceSchedule(1, 0, [{ ...tier, price: price * 2n }], { maxIncreaseBps: 1_000n, ceiling: price })
+      ).to.be.revertedWith("Tier price exceeds the price ceiling");
+      await expect(
+        eventManager.connect(owner).setPriceSchedule(1, 1, [tier], noCurve)
+      ).to.be.revertedWith("Zone does not exist");
+    });
+  });
+
+  describe("Seat Maps", function () {
+    const price = ethers.parseEther("0.1");
+
+    beforeEach(async function () {
+      const latestTime = await time.latest();
+      const eventDate = BigInt(latestTime) + 186400n;
+      await eventManager.connect(organizer).createEvent(
+        "Seated Event",
+        eventDate,
+        price,
+        [6n, 10n],
+        [price, price]
+      );
+      // Zone 0: row A has seats 1-2, row B has seats 3-6
+      await eventManager.connect(organizer).configureSeatMap(1, 0, [2, 4]);
+    });
+
+    it("Should validate seat map layouts", async function () {
+      expect(await eventManager.getSeatMap(1, 0)).to.deep.equal([2n, 4n]);
+      expect(await eventManager.getSeatMap(1, 1)).to.deep.equal([]);
+
+      await expect(
+        eventManager.connect(organizer).configureSeatMap(1, 1, [5, 4])
+      ).to.be.revertedWith("Seat map does not match zone capacity");
+      await expect(
+        eventManager.connect(organizer).configureSeatMap(1, 1, [10, 0])
+      ).to.be.revertedWith("Seat map row cannot be empty");
+      await expect(
+        eventManager.connect(buyer).configureSeatMap(1, 1, [10])
+      ).to.be.revertedWith("Not event organizer or platform admin");
+
+      await eventManager.connect(buyer).purchaseSeats(1, 0, [3], { value: price });
+      await expect(
+        eventManager.connect(organizer).configureSeatMap(1, 0, [3, 3])
+      ).to.be.revertedWith("Zone already has tickets");
+    });
+
+    it("Should reserve the chosen seat and reject double booking", async function () {
+      await expect(eventManager.connect(buyer).purchaseSeats(1, 0, [4], { value: price }))
+        .to.emit(eventManager, "SeatAssigned")
+        .withArgs(1, 0, 4, 1);
+
+      expect(await eventManager.getSeatTicket(1, 0, 4)).to.equal(1n);
+      expect((await ticketFactory.getTicketDetails(1))[3]).to.equal(4n); // seatNumber
+
+      await expect(
+        eventManager.connect(buyer2).purchaseSeats(1, 0, [4], { value: price })
+      ).to.be.revertedWith("Seat already taken");
+      await expect(
+        eventManager.connect(organizer).issueSeat(1, 0, 4, buyer2.address)
+      ).to.be.revertedWith("Seat already taken");
+      await expect(
+        eventManager.connect(buyer2).purchaseSeats(1, 0, [7], { value: price })
+      ).to.be.revertedWith("Invalid seat number");
+    });
+
+    it("Should reserve several seats atomically", async function () {
+      await eventManager.connect(organizer).setWalletTicketLimit(1, 3);
+      await eventManager.connect(buyer2).purchaseSeats(1, 0, [2], { value: price });
+
+      await expect(
+        eventManager.connect(buyer).purchaseSeats(1, 0, [1, 2], { value: price * 2n })
+      ).to.be.revertedWith("Seat already taken");
+      expect(await eventManager.getSeatTicket(1, 0, 1)).to.equal(0n);
+
+      await expect(
+        eventManager.connect(buyer).purchaseSeats(1, 0, [5, 5], { value: price * 2n })
+      ).to.be.revertedWith("Seat already taken");
+
+      await eventManager.connect(buyer).purchaseSeats(1, 0, [1, 5, 6], { value: price * 3n });
+      expect(await eventManager.getSeatTickets(1, 0, 1, 6)).to.deep.equal([2n, 1n, 0n, 0n, 3n, 4n]);
+      expect((await eventManager.getZone(1, 0)).availableSeats).to.equal(2n);
+    });
+
+    it("Should keep seat selection and general admission apart", async function () {
+      await expect(
+        eventManager.connect(buyer).purchaseTicket(1, 0, { value: price })
+      ).to.be.revertedWith("Zone requires a seat selection");
+      await expect(
+        eventManager.connect(organizer).issueTicket(1, 0, buyer.address)
+      ).to.be.revertedWith("Zone requires a seat selection");
+      await expect(
+        eventManager.connect(buyer).purchaseSeats(1, 1, [1], { value: price })
+      ).to.be.revertedWith("Zone has no seat map");
+
+      await eventManager.connect(organizer).issueSeat(1, 0, 2, buyer.address);
+      expect(await ticketFactory.ownerOf(1)).to.equal(buyer.address);
+      expect(await eventManager.getSeatTicket(1, 0, 2)).to.equal(1n);
+    });
+
+    it("Should free the seat when the ticket is refunded", async function () {
+      await eventManager.connect(buyer).purchaseSeats(1, 0, [3], { value: price });
+
+      await expect(refundEscrow.connect(buyer).refundPayment(1, 1))
+        .to.emit(eventManager, "SeatReleased")
+        .withArgs(1, 0, 3, 1);
+      expect(await eventManager.getSeatTicket(1, 0, 3)).to.equal(0n);
+
+      await eventManager.connect(buyer2).purchaseSeats(1, 0, [3], { value: price });
+      expect(await eventManager.getSeatTicket(1, 0, 3)).to.equal(2n);
+    });
   });
 
   describe("Event Cancellation", function () {
@@ -171,7 +569,93 @@ describe("EventManager", function () {
     it("Should only allow organizer or owner to cancel", async function () {
       await expect(
         eventManager.connect(buyer).cancelEvent(1)
-      ).to.be.revertedWith("Not event organizer or owner");
+      ).to.be.revertedWith("Not event organizer or platform admin");
+    });
+  });
+
+  describe("Event Lifecycle", function () {
+    const price = ethers.parseEther("0.1");
+    let eventDate: bigint;
+
+    beforeEach(async function () {
+      eventDate = BigInt(await time.latest()) + 186400n;
+      await eventManager.connect(organizer).createEvent("Test Event", eventDate, price, [3n], [price]);
+    });
+
+    it("Should reschedule an event and keep it on sale", async function () {
+      const newDate = eventDate + 7n * 86400n;
+      await expect(eventManager.connect(organizer).rescheduleEvent(1, newDate))
+        .to.emit(eventManager, "EventRescheduled")
+        .withArgs(1, eventDate, newDate)
+        .and.to.emit(refundEscrow, "RescheduleRefundsOpened");
+      expect((await eventManager.getEventData(1)).date).to.equal(newDate);
+
+      // Sales continue until the new date
+      await time.increaseTo(eventDate + 1n);
+      await eventManager.connect(buyer).purchaseTicket(1, 0, { value: price });
+      expect(await eventManager.hasEventConcluded(1)).to.be.false;
+    });
+
+    it("Should validate a reschedule", async function () {
+      const soon = BigInt(await time.latest()) + 3600n;
+      await expect(
+        eventManager.connect(organizer).rescheduleEvent(1, soon)
+      ).to.be.revertedWith("Event date must be at least one day in the future");
+      await expect(
+        eventManager.connect(organizer).rescheduleEvent(1, eventDate)
+      ).to.be.revertedWith("Event is already on this date");
+      await expect(
+        eventManager.connect(buyer).rescheduleEvent(1, eventDate + 86400n)
+      ).to.be.revertedWith("Not event organizer or platform admin");
+
+      await eventManager.connect(organizer).cancelEvent(1);
+      await expect(
+        eventManager.rescheduleEvent(1, eventDate + 86400n)
+      ).to.be.revertedWith("Event cancelled");
+    });
+
+    it("Should add zones to an event", async function () {
+      await expect(eventManager.connect(organizer).addZone(1, 50n, price * 2n))
+        .to.emit(eventManager, "ZoneAdded")
+        .withArgs(1, 1, 50n, price * 2n);
+      expect(await eventManager.getZoneCount(1)).to.equal(2n);
+      expect((await eventManager.getEventData(1)).zoneCount).to.equal(2n);
+
+      await eventManager.connect(buyer).purchaseTicket(1, 1, { value: price * 2n });
+      expect((await eventManager.getZone(1, 1)).availableSeats).to.equal(49n);
+
+      await expect(
+        eventManager.connect(organizer).addZone(1, 10n, price / 2n)
+      ).to.be.revertedWith("Zone price must be >= base price");
+      await expect(
+        eventManager.connect(organizer).addZone(1, 0n, price)
+      ).to.be.revertedWith("Zone capacity must be greater than zero");
+    });
+
+    it("Should raise and lower capacity but never below the tickets sold", async function () {
+      await eventManager.connect(buyer).purchaseTicket(1, 0, { value: price });
+      await eventManager.connect(buyer2).purchaseTicket(1, 0, { value: price });
+
+      await expect(eventManager.connect(organizer).updateZoneCapacity(1, 0, 10n))
+        .to.emit(eventManager, "ZoneCapacityUpdated")
+        .withArgs(1, 0, 3n, 10n);
+      expect(await eventManager.getZone(1, 0)).to.deep.equal([10n, price, 8n]);
+
+      await eventManager.connect(organizer).updateZoneCapacity(1, 0, 2n);
+      expect(await eventManager.getZone(1, 0)).to.deep.equal([2n, price, 0n]);
+      await expect(
+        eventManager.connect(owner).purchaseTicket(1, 0, { value: price })
+      ).to.be.revertedWith("No seats available in zone");
+      await expect(
+        eventManager.connect(organizer).updateZoneCapacity(1, 0, 1n)
+      ).to.be.revertedWith("Capacity below tickets sold");
+    });
+
+    it("Should keep the capacity of seated zones fixed", async function () {
+      await eventManager.connect(organizer).configureSeatMap(1, 0, [3n]);
+      await expect(
+        eventManager.connect(organizer).updateZoneCapacity(1, 0, 4n)
+      ).to.be.revertedWith("Zone has a seat map");
     });
   });
 
@@ -210,6 +694,34 @@ describe("EventManager", function () {
       // Check that finalBalance + gasUsed > initialBalance means the organizer got money
       expect(finalBalance + gasUsed).to.be.gt(initialBalance);
     });
+
+    it("Should settle escrowed funds between organizer and platform", async function () {
+      const price = ethers.parseEther("0.1");
+      const platformFee = (price * 5n) / 100n;
+      await eventManager.connect(buyer).purchaseTicket(1, 0, { value: price });
+      await eventManager.connect(buyer2).purchaseTicket(1, 0, { value: price });
+
+      await time.increaseTo(eventDate + 1n);
+
+      await expect(eventManager.connect(organizer).withdrawEventRevenue(1)).to.changeEtherBalances(
+        [organizer, owner, refundEscrow],
+        [(price - platformFee) * 2n, platformFee * 2n, -price * 2n]
+      );
+      expect(await refundEscrow.getPaymentStatus(1, 1)).to.equal(1n); // Released
+      await expect(
+        eventManager.connect(organizer).withdrawEventRevenue(1)
+      ).to.be.revertedWith("No revenue");
+    });
+
+    it("Should not pay out revenue for a cancelled event", async function () {
+      await eventManager.connect(buyer).purchaseTicket(1, 0, { value: ethers.parseEther("0.1") });
+      await eventManager.connect(organizer).cancelEvent(1);
+      await time.increaseTo(eventDate + 1n);
+
+      await expect(
+        eventManager.connect(organizer).withdrawEventRevenue(1)
+      ).to.be.revertedWith("Event cancelled");
+    });
   });
 
   describe("Admin Functions", function () {
@@ -0,0 +1,166 @@
+// SPDX-License-Identifier: MIT
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { AddressInfo } from "net";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { connectTicketingSystem, deployTicketingSystem, ROLES, TicketingAddresses, TicketingClients } from "../sdk";
+import { createApiServer } from "../indexer/api";
+import { Indexer } from "../indexer/Indexer";
+import { IndexerStore } from "../indexer/store";
+
+describe("Indexer", function () {
+  let addresses: TicketingAddresses;
+  let store: IndexerStore;
+  let indexer: Indexer;
+  let owner: SignerWithAddress;
+  let organizer: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let buyer2: SignerWithAddress;
+
+  const ticketPrice = ethers.parseEther("0.1");
+
+  const clients = (signer: SignerWithAddress): TicketingClients => connectTicketingSystem(addresses, signer);
+
+  beforeEach(async function () {
+    [owner, organizer, buyer, buyer2] = await ethers.getSigners();
+    addresses = await deployTicketingSystem(owner);
+    await clients(owner).eventManager.contract.grantRole(ROLES.ORGANIZER, organizer.address);
+    const startBlock = await ethers.provider.getBlockNumber();
+
+    store = new IndexerStore(":memory:");
+    indexer = new Indexer(ethers.provider, store, addresses, { startBlock });
+
+    await clients(organizer).eventManager.createEvent({
+      name: "Indexed Event",
+      date: BigInt(await time.latest()) + 186400n,
+      basePrice: ticketPrice,
+      zones: [{ capacity: 10n, price: ticketPrice }],
+    });
+  });
+
+  afterEach(function () {
+    store.close();
+  });
+
+  it("Should project events, purchases and ticket ownership", async function () {
+    await clients(buyer).eventManager.purchaseTicket(1, 0);
+    await clients(buyer2).eventManager.purchaseTicket(1, 0);
+
+    const result = await indexer.sync();
+    expect(result.logs).to.be.greaterThan(0);
+
+    const [event] = store.getEvents() as { name: string; tickets_sold: number }[];
+    expect(event.name).to.equal("Indexed Event");
+    expect(event.tickets_sold).to.equal(2);
+
+    const owned = store.getTicketsByOwner(buyer.address);
+    expect(owned.map((ticket) => ticket.token_id)).to.deep.equal(["1"]);
+    expect(owned[0].event_id).to.equal("1");
+    expect(owned[0].zone_id).to.equal("0");
+    expect(store.getPurchasesByBuyer(buyer.address)).to.have.length(1);
+  });
+
+  it("Should follow reschedules and record the refunds they open", async function () {
+    await clients(buyer).eventManager.purchaseTicket(1, 0);
+    const newDate = BigInt(await time.latest()) + 30n * 86400n;
+    await clients(organizer).eventManager.rescheduleEvent(1, newDate);
+    expect((await clients(buyer).refundEscrow.getRescheduleRefundWindow(1)).deadline).to.be.greaterThan(0n);
+    await clients(buyer).refundEscrow.claimRescheduleRefund(1, 1);
+    await indexer.sync();
+
+    const [event] = store.getEvents() as { date: string; tickets_sold: number }[];
+    expect(event.date).to.equal(newDate.toString());
+    expect(event.tickets_sold).to.equal(0);
+    const refunds = store.db.prepare("SELECT kind FROM refunds WHERE event_id = '1'").all() as { kind: string }[];
+    expect(refunds.map((refund) => refund.kind)).to.deep.equal(["event_rescheduled"]);
+  });
+
+  it("Should track resale listings and clear them when the ticket moves", async function () {
+    await clients(buyer).eventManager.purchaseTicket(1, 0);
+    await clients(buyer).resaleManager.listTicket(1, ticketPrice);
+    await indexer.sync();
+
+    const listings = store.getActiveListings("1");
+    expect(listings).to.have.length(1);
+    expect(listings[0].seller).to.equal(buyer.address.toLowerCase());
+
+    await clients(organizer).eventManager.moveTicket(1, buyer2.address);
+    await indexer.sync();
+
+    expect(store.getActiveListings("1")).to.be.empty;
+    expect(store.getTicketsByOwner(buyer2.address)).to.have.length(1);
+  });
+
+  it("Should roll back and replay when the chain reorganizes", async function () {
+    await indexer.sync();
+    const snapshot = await takeSnapshot();
+
+    await clients(buyer).eventManager.purchaseTicket(1, 0);
+    await indexer.sync();
+    expect(store.getTicketsByOwner(buyer.address)).to.have.length(1);
+
+    // Replace the purchase with a different one at the same height
+    await snapshot.restore();
+    await clients(buyer2).eventManager.purchaseTicket(1, 0);
+
+    const result = await indexer.sync();
+    expect(result.reorgedTo).to.not.be.undefined;
+    expect(store.getTicketsByOwner(buyer.address)).to.be.empty;
+    expect(store.getTicketsByOwner(buyer2.address)).to.have.length(1);
+    expect((store.getEvents() as unknown[]).length).to.equal(1);
+  });
+
+  it("Should re-read a range when the chain reorganizes while its logs are fetched", async function () {
+    await indexer.sync();
+    const snapshot = await takeSnapshot();
+    await clients(buyer).eventManager.purchaseTicket(1, 0);
+
+    // The first getLogs sees the buyer's purchase, which a reorg then replaces before the block is read again
+    let reorged = false;
+    const provider = new Proxy(ethers.provider, {
+      get(target, property, receiver) {
+        if (property !== "getLogs") return Reflect.get(target, property, receiver);
+        return async (filter: Parameters<typeof target.getLogs>[0]) => {
+          const logs = await target.getLogs(filter);
+          if (!reorged) {
+            reorged = true;
+            await snapshot.restore();
+            await clients(buyer2).eventManager.purchaseTicket(1, 0);
+          }
+          return logs;
+        };
+      },
+    });
+    const racingIndexer = new Indexer(provider, store, addresses);
+
+    await racingIndexer.sync();
+    expect(reorged).to.equal(true);
+    expect(store.getTicketsByOwner(buyer.address)).to.be.empty;
+    expect(store.getTicketsByOwner(buyer2.address)).to.have.length(1);
+    expect((await indexer.sync()).reorgedTo).to.be.undefined;
+  });
+
+  it("Should serve projections over the HTTP API", async function () {
+    await clients(buyer).eventManager.purchaseTicket(1, 0);
+    await clients(buyer).resaleManager.listTicket(1, ticketPrice);
+    await indexer.sync();
+
+    const server = createApiServer(store);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      const tickets = await (await fetch(`${base}/accounts/${buyer.address}/tickets`)).json();
+      expect(tickets).to.have.length(1);
+
+      const listings = await (await fetch(`${base}/events/1/listings`)).json();
+      expect(listings[0].token_id).to.equal("1");
+
+      const missing = await fetch(`${base}/events/42`);
+      expect(missing.status).to.equal(404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,271 @@
+// SPDX-License-Identifier: MIT
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { EventManager, PresaleManager, RefundEscrow } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { Allowlist, buildAllowlist, getAllowlistProof, hashPromoCode } from "../sdk/presale";
+import { deployEventManager } from "../sdk";
+
+describe("PresaleManager", function () {
+  let presaleManager: PresaleManager;
+  let eventManager: EventManager;
+  let refundEscrow: RefundEscrow;
+  let owner: SignerWithAddress;
+  let organizer: SignerWithAddress;
+  let fan: SignerWithAddress;
+  let fan2: SignerWithAddress;
+  let outsider: SignerWithAddress;
+  let allowlist: Allowlist;
+  let presaleStart: bigint;
+  let presaleEnd: bigint;
+
+  const ticketPrice = ethers.parseEther("0.1");
+  const eventId = 1;
+
+  beforeEach(async function () {
+    [owner, organizer, fan, fan2, outsider] = await ethers.getSigners();
+
+    const WaitlistManager = await ethers.getContractFactory("WaitlistManager");
+    const waitlistManager = await WaitlistManager.deploy();
+
+    const TicketFactory = await ethers.getContractFactory("TicketFactory");
+    const ticketFactory = await TicketFactory.deploy(await waitlistManager.getAddress());
+
+    eventManager = await deployEventManager(owner);
+    await eventManager.grantRole(await eventManager.ORGANIZER_ROLE(), organizer.address);
+
+    const RefundEscrow = await ethers.getContractFactory("RefundEscrow");
+    refundEscrow = await RefundEscrow.deploy(await eventManager.getAddress());
+
+    const PresaleManager = await ethers.getContractFactory("PresaleManager");
+    presaleManager = await PresaleManager.deploy(await eventManager.getAddress());
+
+    await eventManager.setRefundEscrow(await refundEscrow.getAddress());
+    await eventManager.setTicketFactory(await ticketFactory.getAddress());
+    await eventManager.setPresaleManager(await presaleManager.getAddress());
+    await ticketFactory.setEventManager(await eventManager.getAddress());
+
+    const eventDate = BigInt(await time.latest()) + 186400n;
+    await eventManager
+      .connect(organizer)
+      .createEvent("Presale Event", eventDate, ticketPrice, [10n, 10n], [ticketPrice, ticketPrice]);
+
+    allowlist = buildAllowlist([fan.address, fan2.address, owner.address]);
+    presaleStart = BigInt(await time.latest()) + 3_600n;
+    presaleEnd = presaleStart + 86_400n;
+  });
+
+  describe("Configuration", function () {
+    it("Should let the organizer set and clear a zone presale", async function () {
+      await expect(presaleManager.connect(organizer).setPresale(eventId, 0, allowlist.root, presaleStart, presaleEnd))
+        .to.emit(presaleManager, "PresaleConfigured")
+        .withArgs(eventId, 0, allowlist.root, presaleStart, presaleEnd);
+      expect((await presaleManager.getPresale(eventId, 0)).merkleRoot).to.equal(allowlist.root);
+
+      await expect(presaleManager.connect(organizer).clearPresale(eventId, 0))
+        .to.emit(presaleManager, "PresaleCleared")
+        .withArgs(eventId, 0);
+      expect((await presaleManager.getPresale(eventId, 0)).merkleRoot).to.equal(ethers.ZeroHash);
+    });
+
+    it("Should reject invalid presales and other callers", async function () {
+      await expect(
+        presaleManager.connect(fan).setPresale(eventId, 0, allowlist.root, presaleStart, presaleEnd)
+      ).to.be.revertedWith("Not event organizer or platform admin");
+      await expect(
+        presaleManager.connect(organizer).setPresale(eventId, 2, allowlist.root, presaleStart, presaleEnd)
+      ).to.be.revertedWith("Zone does not exist");
+      await expect(
+        presaleManager.connect(organizer).setPresale(eventId, 0, ethers.ZeroHash, presaleStart, presaleEnd)
+      ).to.be.revertedWith("Invalid Merkle root");
+      await expect(
+        presaleManager.connect(organizer).setPresale(eventId, 0, allowlist.root, presaleEnd, presaleStart)
+      ).to.be.revertedWith("Presale must end after it starts");
+    });
+
+    it("Should only let EventManager redeem promo codes", async function () {
+      await expect(
+        presaleManager.connect(fan).redeemPromoCode(eventId, "FAN10", fan.address)
+      ).to.be.revertedWith("Caller is not the EventManager");
+    });
+  });
+
+  describe("Presale Window", function () {
+    beforeEach(async function () {
+      await presaleManager.connect(organizer).setPresale(eventId, 0, allowlist.root, presaleStart, presaleEnd);
+    });
+
+    it("Should keep the zone closed to everyone before the presale starts", async function () {
+      await expect(
+        eventManager
+          .connect(fan)
+          .purchaseTicketWithAccess(eventId, 0, getAllowlistProof(allowlist, fan.address), "", { value: ticketPrice })
+      ).to.be.revertedWith("Sales have not opened for this zone");
+
+      // Zones without a presale are unaffected
+      await eventManager.connect(outsider).purchaseTicket(eventId, 1, { value: ticketPrice });
+    });
+
+    it("Should only sell to allowlisted buyers during the presale", async function () {
+      await time.increaseTo(presaleStart);
+
+      await expect(
+        eventManager
+          .connect(fan)
+          .purchaseTicketWithAccess(eventId, 0, getAllowlistProof(allowlist, fan.address), "", { value: ticketPrice })
+      ).to.emit(eventManager, "TicketPurchased");
+
+      await expect(
+        eventManager.connect(outsider).purchaseTicket(eventId, 0, { value: ticketPrice })
+      ).to.be.revertedWith("Not on the presale allowlist");
+      // A proof only works for the address it was built for
+      await expect(
+        eventManager
+          .connect(outsider)
+          .purchaseTicketWithAccess(eventId, 0, getAllowlistProof(allowlist, fan.address), "", { value: ticketPrice })
+      ).to.be.revertedWith("Not on the presale allowlist");
+      // Batch purchases take no proof, so they stay closed until the buyer verifies one
+      await expect(
+        eventManager.connect(fan2).purchaseTickets(eventId, 0, 1, { value: ticketPrice })
+      ).to.be.revertedWith("Not on the presale allowlist");
+    });
+
+    it("Should open batch and group purchases to a buyer who verified their proof", async function () {
+      await eventManager.connect(organizer).setWalletTicketLimit(eventId, 4);
+      await time.increaseTo(presaleStart);
+
+      await expect(presaleManager.connect(fan2).verifyAllowlist(eventId, 0, getAllowlistProof(allowlist, fan2.address)))
+        .to.emit(presaleManager, "AllowlistVerified")
+        .withArgs(eventId, 0, fan2.address);
+      expect(await presaleManager.isVerified(eventId, 0, fan2.address)).to.be.true;
+
+      await eventManager.connect(fan2).purchaseTickets(eventId, 0, 2, { value: ticketPrice * 2n });
+      await eventManager
+        .connect(fan2)
+        .purchaseGroupTickets(eventId, 0, [outsider.address, outsider.address], { value: ticketPrice * 2n });
+      expect(await eventManager.getTicketCount(eventId, fan2.address)).to.equal(2n);
+      expect(await eventManager.getTicketCount(eventId, outsider.address)).to.equal(2n);
+
+      // Someone else's proof does not verify, and the recipients of a group purchase are not verified
+      await expect(
+        presaleManager.connect(outsider).verifyAllowlist(eventId, 0, getAllowlistProof(allowlist, fan2.address))
+      ).to.be.revertedWith("Not on the presale allowlist");
+      await expect(
+        eventManager.connect(outsider).purchaseTickets(eventId, 0, 1, { value: ticketPrice })
+      ).to.be.revertedWith("Not on the presale allowlist");
+      await expect(
+        presaleManager.connect(fan2).verifyAllowlist(eventId, 1, getAllowlistProof(allowlist, fan2.address))
+      ).to.be.revertedWith("Zone has no presale");
+    });
+
+    it("Should open seated purchases to a verified buyer and start over with a new allowlist", async function () {
+      await eventManager.connect(organizer).setWalletTicketLimit(eventId, 4);
+      await eventManager.connect(organizer).configureSeatMap(eventId, 0, [5n, 5n]);
+      await time.increaseTo(presaleStart);
+
+      await expect(
+        eventManager.connect(fan).purchaseSeats(eventId, 0, [1n, 2n], { value: ticketPrice * 2n })
+      ).to.be.revertedWith("Not on the presale allowlist");
+      await presaleManager.connect(fan).verifyAllowlist(eventId, 0, getAllowlistProof(allowlist, fan.address));
+      await eventManager.connect(fan).purchaseSeats(eventId, 0, [1n, 2n], { value: ticketPrice * 2n });
+      expect(await eventManager.getSeatTicket(eventId, 0, 2n)).to.not.equal(0n);
+
+      const smaller = buildAllowlist([fan2.address, outsider.address]);
+      await presaleManager.connect(organizer).setPresale(eventId, 0, smaller.root, presaleStart, presaleEnd);
+      expect(await presaleManager.isVerified(eventId, 0, fan.address)).to.be.false;
+      await expect(
+        eventManager.connect(fan).purchaseSeats(eventId, 0, [3n], { value: ticketPrice })
+      ).to.be.revertedWith("Not on the presale allowlist");
+    });
+
+    it("Should open the zone to everyone once the presale ends", async function () {
+      await time.increaseTo(presaleEnd);
+
+      await eventManager.connect(outsider).purchaseTicket(eventId, 0, { value: ticketPrice });
+      await eventManager.connect(fan2).purchaseTickets(eventId, 0, 1, { value: ticketPrice });
+    });
+  });
+
+  describe("Promo Codes", function () {
+    const discountBps = 2_500n;
+    const discounted = ticketPrice - (ticketPrice * discountBps) / 10_000n;
+
+    beforeEach(async function () {
+      await presaleManager
+        .connect(organizer)
+        .addPromoCodes(eventId, [hashPromoCode("FAN10", fan.address), hashPromoCode("FAN11", fan.address)], discountBps);
+    });
+
+    it("Should discount a purchase once per code", async function () {
+      const purchase = eventManager.connect(fan).purchaseTicketWithAccess(eventId, 0, [], "FAN10", {
+        value: ticketPrice,
+      });
+      await expect(purchase).to.changeEtherBalances([fan, refundEscrow], [-discounted, discounted]);
+      await expect(purchase)
+        .to.emit(presaleManager, "PromoCodeRedeemed")
+        .withArgs(eventId, hashPromoCode("FAN10", fan.address), fan.address, discountBps);
+
+      expect(await presaleManager.getPromoCode(eventId, hashPromoCode("FAN10", fan.address))).to.deep.equal([
+        discountBps,
+        true,
+      ]);
+      await expect(
+        eventManager.connect(fan).purchaseTicketWithAccess(eventId, 0, [], "FAN10", { value: ticketPrice })
+      ).to.be.revertedWith("Promo code already redeemed");
+    });
+
+    it("Should refuse a code issued to another buyer", async function () {
+      // A front-runner copying the code from fan's pending purchase gets nothing
+      await expect(
+        eventManager.connect(fan2).purchaseTicketWithAccess(eventId, 0, [], "FAN10", { value: ticketPrice })
+      ).to.be.revertedWith("Invalid promo code");
+      expect(await presaleManager.getPromoCode(eventId, hashPromoCode("FAN10", fan.address))).to.deep.equal([
+        discountBps,
+        false,
+      ]);
+
+      await eventManager.connect(fan).purchaseTicketWithAccess(eventId, 0, [], "FAN10", { value: discounted });
+    });
+
+    it("Should reject unknown codes and codes of other events", async function () {
+      await expect(
+        eventManager.connect(fan).purchaseTicketWithAccess(eventId, 0, [], "NOPE", { value: ticketPrice })
+      ).to.be.revertedWith("Invalid promo code");
+
+      const eventDate = BigInt(await time.latest()) + 186400n;
+      await eventManager.connect(organizer).createEvent("Other Event", eventDate, ticketPrice, [10n], [ticketPrice]);
+      await expect(
+        eventManager.connect(fan).purchaseTicketWithAccess(2, 0, [], "FAN11", { value: ticketPrice })
+      ).to.be.revertedWith("Invalid promo code");
+    });
+
+    it("Should validate new codes", async function () {
+      await expect(
+        presaleManager.connect(organizer).addPromoCodes(eventId, [hashPromoCode("FAN10", fan.address)], discountBps)
+      ).to.be.revertedWith("Promo code already exists");
+      await expect(
+        presaleManager.connect(organizer).addPromoCodes(eventId, [hashPromoCode("FAN12", fan.address)], 10_000)
+      ).to.be.revertedWith("Invalid promo discount");
+      await expect(
+        presaleManager.connect(organizer).addPromoCodes(eventId, [], discountBps)
+      ).to.be.revertedWith("Invalid promo code count");
+      await expect(
+        presaleManager.connect(fan).addPromoCodes(eventId, [hashPromoCode("FAN12", fan.address)], discountBps)
+      ).to.be.revertedWith("Not event organizer or platform admin");
+    });
+
+    it("Should combine a promo code with an allowlist proof during the presale", async function () {
+      await presaleManager.connect(organizer).setPresale(eventId, 0, allowlist.root, presaleStart, presaleEnd);
+      await time.increaseTo(presaleStart);
+
+      await expect(
+        eventManager
+          .connect(fan)
+          .purchaseTicketWithAccess(eventId, 0, getAllowlistProof(allowlist, fan.address), "FAN11", {
+            value: discounted,
+          })
+      ).to.changeEtherBalance(fan, -discounted);
+    });
+  });
+});
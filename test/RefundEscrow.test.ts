@@ -1,13 +1,15 @@
 // SPDX-License-Identifier: MIT
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { RefundEscrow, EventManager } from "../typechain-types";
+import { RefundEscrow, EventManager, TicketFactory } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployEventManager } from "../sdk";
 
 describe("RefundEscrow", function () {
   let refundEscrow: RefundEscrow;
   let eventManager: EventManager;
+  let ticketFactory: TicketFactory;
   let owner: SignerWithAddress;
   let organizer: SignerWithAddress;
   let buyer: SignerWithAddress;
@@ -19,9 +21,9 @@ describe("RefundEscrow", function () {
   beforeEach(async function () {
     [owner, organizer, buyer, resaleBuyer] = await ethers.getSigners();
     
-    const EventManager = await ethers.getContractFactory("EventManager");
-    eventManager = await EventManager.deploy();
+    eventManager = await deployEventManager(owner);
     await eventManager.waitForDeployment();
+    await eventManager.grantRole(await eventManager.ORGANIZER_ROLE(), organizer.address);
     
     const RefundEscrow = await ethers.getContractFactory("RefundEscrow");
     refundEscrow = await RefundEscrow.deploy(await eventManager.getAddress());
@@ -30,6 +32,14 @@ describe("RefundEscrow", function () {
     // Set RefundEscrow in EventManager
     await eventManager.setRefundEscrow(await refundEscrow.getAddress());
 
+    // Wire the TicketFactory that mints purchased tickets
+    const WaitlistManager = await ethers.getContractFactory("WaitlistManager");
+    const waitlistManager = await WaitlistManager.deploy();
+    const TicketFactory = await ethers.getContractFactory("TicketFactory");
+    ticketFactory = await TicketFactory.deploy(await waitlistManager.getAddress());
+    await eventManager.setTicketFactory(await ticketFactory.getAddress());
+    await ticketFactory.setEventManager(await eventManager.getAddress());
+
     // Get latest block time and set event time
     const latestTime = await time.latest();
     eventTime = BigInt(latestTime) + 186400n; // 2 days in the future
@@ -46,36 +56,52 @@ describe("RefundEscrow", function () {
 
   describe("Payment Deposit", function () {
     it("Should accept initial ticket payment", async function () {
-      const tx = await refundEscrow.connect(buyer).depositPayment(1n, 1n, { value: ticketPrice });
+      const tx = await eventManager.connect(buyer).purchaseTicket(1n, 0n, { value: ticketPrice });
       await tx.wait();
       
       const payment = await refundEscrow.getPaymentDetails(1n, 1n);
       expect(payment[0]).to.equal(buyer.address);  // payer
       expect(payment[1]).to.equal(ticketPrice);    // amount
       expect(payment[5]).to.be.false;              // isCancelled
+      expect(await refundEscrow.getEventBalance(1n)).to.equal(ticketPrice);
     });
 
-    it("Should accept resale payment within price limit", async function () {
-      await refundEscrow.connect(buyer).depositPayment(1n, 1n, { value: ticketPrice });
-      const tx = await refundEscrow.connect(resaleBuyer).depositPayment(1n, 2n, { value: ticketPrice });
+    it("Should hold each buyer's payment separately", async function () {
+      await eventManager.connect(buyer).purchaseTicket(1n, 0n, { value: ticketPrice });
+      const tx = await eventManager.connect(resaleBuyer).purchaseTicket(1n, 0n, { value: ticketPrice });
       await tx.wait();
       
       const payment = await refundEscrow.getPaymentDetails(1n, 2n);
       expect(payment[0]).to.equal(resaleBuyer.address); // payer
       expect(payment[1]).to.equal(ticketPrice);         // amount
+      expect(await ethers.provider.getBalance(await refundEscrow.getAddress())).to.equal(ticketPrice * 2n);
+    });
+
+    it("Should only accept deposits from the EventManager", async function () {
+      await expect(
+        refundEscrow.connect(buyer).depositPayment(1n, 1n, buyer.address, { value: ticketPrice })
+      ).to.be.revertedWith("Caller is not the EventManager");
     });
 
     it("Should reject duplicate payments for same ticket", async function () {
-      await refundEscrow.connect(buyer).depositPayment(1n, 1n, { value: ticketPrice });
+      await eventManager.connect(buyer).purchaseTicket(1n, 0n, { value: ticketPrice });
+
+      const eventManagerAddress = await eventManager.getAddress();
+      await ethers.provider.send("hardhat_impersonateAccount", [eventManagerAddress]);
+      await ethers.provider.send("hardhat_setBalance", [eventManagerAddress, "0x1000000000000000000"]);
+      const eventManagerSigner = await ethers.provider.getSigner(eventManagerAddress);
+
       await expect(
-        refundEscrow.connect(resaleBuyer).depositPayment(1n, 1n, { value: ticketPrice })
+        refundEscrow.connect(eventManagerSigner).depositPayment(1n, 1n, resaleBuyer.address, { value: ticketPrice })
       ).to.be.revertedWith("A payment for this ticket already exists");
+
+      await ethers.provider.send("hardhat_stopImpersonatingAccount", [eventManagerAddress]);
     });
   });
 
   describe("Payment Release", function () {
     beforeEach(async function () {
-      await refundEscrow.connect(buyer).depositPayment(1n, 1n, { value: ticketPrice });
+      await eventManager.connect(buyer).purchaseTicket(1n, 0n, { value: ticketPrice });
     });
 
     it("Should only allow EventManager to release payment", async function () {
@@ -109,7 +135,7 @@ describe("RefundEscrow", function () {
 
   describe("Refunds", function () {
     beforeEach(async function () {
-      await refundEscrow.connect(buyer).depositPayment(1n, 1n, { value: ticketPrice });
+      await eventManager.connect(buyer).purchaseTicket(1n, 0n, { value: ticketPrice });
     });
 
     it("Should allow refund within window", async function () {
@@ -136,11 +162,172 @@ describe("RefundEscrow", function () {
       const afterBalance = await ethers.provider.getBalance(buyer.address);
       expect(afterBalance + gasUsed).to.be.gt(beforeBalance);
     });
+
+    it("Should refund the full price including the platform fee on cancellation", async function () {
+      await eventManager.connect(organizer).cancelEvent(1n);
+
+      await expect(
+        refundEscrow.connect(buyer).processEventCancellationRefund(1n, 1n)
+      ).to.changeEtherBalances([buyer, refundEscrow], [ticketPrice, -ticketPrice]);
+      await expect(
+        refundEscrow.connect(buyer).processEventCancellationRefund(1n, 1n)
+      ).to.be.revertedWith("This ticket has already been refunded");
+    });
+
+    it("Should only refund the current ticket holder", async function () {
+      await eventManager.connect(organizer).cancelEvent(1n);
+      await expect(
+        refundEscrow.connect(resaleBuyer).processEventCancellationRefund(1n, 1n)
+      ).to.be.revertedWith("Caller is not the owner of the ticket");
+    });
+
+    it("Should burn the ticket and reopen the seat on a voluntary refund", async function () {
+      await refundEscrow.connect(buyer).refundPayment(1n, 1n);
+
+      await expect(ticketFactory.ownerOf(1n)).to.be.revertedWithCustomError(ticketFactory, "ERC721NonexistentToken");
+      expect((await eventManager.getZone(1n, 0n)).availableSeats).to.equal(100n);
+      expect(await eventManager.hasTicket(1n, buyer.address)).to.be.false;
+      expect(await eventManager.getEventRevenue(1n)).to.equal(0n);
+      expect(await refundEscrow.getEventBalance(1n)).to.equal(0n);
+    });
+  });
+
+  describe("Reschedule Refunds", function () {
+    beforeEach(async function () {
+      await eventManager.connect(buyer).purchaseTicket(1n, 0n, { value: ticketPrice });
+    });
+
+    it("Should refund the full price to holders who bought before a reschedule", async function () {
+      await expect(
+        refundEscrow.connect(buyer).claimRescheduleRefund(1n, 1n)
+      ).to.be.revertedWith("No reschedule refund window is open");
+
+      await eventManager.connect(organizer).rescheduleEvent(1n, eventTime + 30n * 86400n);
+      const [openedAt, deadline] = await refundEscrow.getRescheduleRefundWindow(1n);
+      expect(deadline).to.equal(openedAt + 7n * 86400n);
+
+      await time.increase(6 * 86400);
+      await expect(
+        refundEscrow.connect(buyer).claimRescheduleRefund(1n, 1n)
+      ).to.changeEtherBalances([buyer, refundEscrow], [ticketPrice, -ticketPrice]);
+      await expect(
+        refundEscrow.connect(buyer).claimRescheduleRefund(1n, 1n)
+      ).to.be.revertedWith("This ticket has already been refunded");
+    });
+
+    it("Should only cover tickets bought before the reschedule, within the window", async function () {
+      await eventManager.connect(organizer).rescheduleEvent(1n, eventTime + 30n * 86400n);
+      await eventManager.connect(resaleBuyer).purchaseTicket(1n, 0n, { value: ticketPrice });
+      await expect(
+        refundEscrow.connect(resaleBuyer).claimRescheduleRefund(1n, 2n)
+      ).to.be.revertedWith("Ticket was bought after the event was rescheduled");
+
+      await time.increase(7 * 86400 + 1);
+      await expect(
+        refundEscrow.connect(buyer).claimRescheduleRefund(1n, 1n)
+      ).to.be.revertedWith("No reschedule refund window is open");
+    });
+
+    it("Should burn the ticket and reopen its seat", async function () {
+      await eventManager.connect(organizer).rescheduleEvent(1n, eventTime + 30n * 86400n);
+      await expect(refundEscrow.connect(buyer).claimRescheduleRefund(1n, 1n))
+        .to.emit(refundEscrow, "RescheduleRefunded")
+        .withArgs(1n, 1n, ticketPrice)
+        .and.to.emit(eventManager, "TicketRefunded");
+
+      await expect(ticketFactory.ownerOf(1n)).to.be.revertedWithCustomError(ticketFactory, "ERC721NonexistentToken");
+      expect((await eventManager.getZone(1n, 0n)).availableSeats).to.equal(100n);
+      expect(await eventManager.getEventRevenue(1n)).to.equal(0n);
+    });
+  });
+
+  describe("Batch Refunds", function () {
+    let buyers: SignerWithAddress[];
+
+    beforeEach(async function () {
+      buyers = (await ethers.getSigners()).slice(4, 9);
+      for (const b of buyers) {
+        await eventManager.connect(b).purchaseTicket(1n, 0n, { value: ticketPrice });
+      }
+    });
+
+    it("Should refund a cancelled event in cursor-driven batches", async function () {
+      await eventManager.connect(organizer).cancelEvent(1n);
+
+      await expect(refundEscrow.connect(organizer).processEventRefundBatch(1n, 3n))
+        .to.emit(refundEscrow, "RefundBatchProcessed")
+        .withArgs(1n, 3n, 3n, 5n);
+      expect(await refundEscrow.getRefundProgress(1n)).to.deep.equal([3n, 5n]);
+
+      await expect(refundEscrow.connect(organizer).processEventRefundBatch(1n, 3n)).to.changeEtherBalances(
+        [buyers[3], buyers[4], refundEscrow],
+        [ticketPrice, ticketPrice, -ticketPrice * 2n]
+      );
+      expect(await refundEscrow.getRefundProgress(1n)).to.deep.equal([5n, 5n]);
+      expect(await refundEscrow.getEventBalance(1n)).to.equal(0n);
+    });
+
+    it("Should skip tickets that were already refunded", async function () {
+      await eventManager.connect(organizer).cancelEvent(1n);
+      await refundEscrow.connect(buyers[0]).processEventCancellationRefund(1n, 1n);
+
+      await expect(refundEscrow.connect(organizer).processEventRefundBatch(1n, 5n))
+        .to.emit(refundEscrow, "RefundBatchProcessed")
+        .withArgs(1n, 4n, 5n, 5n);
+    });
+
+    it("Should restrict batches to the organizer, owner and refund keepers", async function () {
+      await eventManager.connect(organizer).cancelEvent(1n);
+      await expect(
+        refundEscrow.connect(resaleBuyer).processEventRefundBatch(1n, 5n)
+      ).to.be.revertedWith("Caller is not the organizer or a refund keeper");
+
+      await refundEscrow.connect(owner).grantRole(await refundEscrow.KEEPER_ROLE(), resaleBuyer.address);
+      await refundEscrow.connect(resaleBuyer).processEventRefundBatch(1n, 5n);
+      expect(await refundEscrow.getEventBalance(1n)).to.equal(0n);
+    });
+
+    it("Should reject batches before cancellation or above the size limit", async function () {
+      await expect(
+        refundEscrow.connect(organizer).processEventRefundBatch(1n, 5n)
+      ).to.be.revertedWith("Refunds cannot be processed for an event that has not been cancelled");
+
+      await eventManager.connect(organizer).cancelEvent(1n);
+      await expect(
+        refundEscrow.connect(organizer).processEventRefundBatch(1n, 201n)
+      ).to.be.revertedWith("Invalid refund batch size");
+    });
+
+    it("Should defer refunds whose transfer reverts to a pull payment", async function () {
+      const RejectingReceiver = await ethers.getContractFactory("RejectingReceiver");
+      const receiver = await RejectingReceiver.deploy();
+      await receiver.purchaseTicket(await eventManager.getAddress(), 1n, 0n, { value: ticketPrice });
+      await eventManager.connect(organizer).cancelEvent(1n);
+
+      await expect(refundEscrow.connect(organizer).processEventRefundBatch(1n, 10n))
+        .to.emit(refundEscrow, "RefundDeferred")
+        .withArgs(1n, 6n, await receiver.getAddress(), ticketPrice);
+      expect(await refundEscrow.getPendingRefund(await receiver.getAddress())).to.equal(ticketPrice);
+      expect(await ethers.provider.getBalance(await refundEscrow.getAddress())).to.equal(ticketPrice);
+
+      // Deferred refunds stay out of reach of withdrawStuckFunds
+      await refundEscrow.connect(owner).withdrawStuckFunds();
+      expect(await ethers.provider.getBalance(await refundEscrow.getAddress())).to.equal(ticketPrice);
+
+      await receiver.setAcceptPayments(true);
+      await expect(receiver.withdrawPendingRefund(await refundEscrow.getAddress())).to.changeEtherBalance(
+        receiver,
+        ticketPrice
+      );
+      await expect(
+        receiver.withdrawPendingRefund(await refundEscrow.getAddress())
+      ).to.be.revertedWith("No pending refund");
+    });
   });
 
   describe("Waitlist Refunds", function () {
     beforeEach(async function () {
-      await refundEscrow.connect(buyer).depositPayment(1n, 1n, { value: ticketPrice });
+      await eventManager.connect(buyer).purchaseTicket(1n, 0n, { value: ticketPrice });
     });
 
     it("Should enable waitlist refund", async function () {
@@ -158,7 +345,7 @@ describe("RefundEscrow", function () {
 
   describe("View Functions", function () {
     beforeEach(async function () {
-      await refundEscrow.connect(buyer).depositPayment(1n, 1n, { value: ticketPrice });
+      await eventManager.connect(buyer).purchaseTicket(1n, 0n, { value: ticketPrice });
     });
 
     it("Should return payment details", async function () {
@@ -186,13 +373,25 @@ describe("RefundEscrow", function () {
     it("Should reject deposits when paused", async function () {
       await refundEscrow.connect(owner).pause();
       await expect(
-        refundEscrow.connect(buyer).depositPayment(1n, 1n, { value: ticketPrice })
-      ).to.be.reverted;
+        eventManager.connect(buyer).purchaseTicket(1n, 0n, { value: ticketPrice })
+      ).to.be.revertedWithCustomError(refundEscrow, "EnforcedPause");
     });
 
     it("Should allow owner to withdraw stuck funds", async function () {
       const tx = await refundEscrow.connect(owner).withdrawStuckFunds();
       await tx.wait();
     });
+
+    it("Should not let stuck fund withdrawals touch ticket payments", async function () {
+      await eventManager.connect(buyer).purchaseTicket(1n, 0n, { value: ticketPrice });
+      // Simulate ether forced into the contract outside of a purchase
+      await ethers.provider.send("hardhat_setBalance", [
+        await refundEscrow.getAddress(),
+        ethers.toQuantity(ticketPrice + 1000n),
+      ]);
+
+      await refundEscrow.connect(owner).withdrawStuckFunds();
+      expect(await ethers.provider.getBalance(await refundEscrow.getAddress())).to.equal(ticketPrice);
+    });
   });
 });
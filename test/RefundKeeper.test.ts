@@ -0,0 +1,72 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  connectTicketingSystem,
+  deployTicketingSystem,
+  RefundBatchResult,
+  ROLES,
+  settleCancellationRefunds,
+  TicketingAddresses,
+} from "../sdk";
+
+describe("Refund keeper", function () {
+  let addresses: TicketingAddresses;
+  let owner: SignerWithAddress;
+  let organizer: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let buyers: SignerWithAddress[];
+
+  const ticketPrice = ethers.parseEther("0.1");
+
+  beforeEach(async function () {
+    let rest: SignerWithAddress[];
+    [owner, organizer, keeper, ...rest] = await ethers.getSigners();
+    buyers = rest.slice(0, 7);
+    addresses = await deployTicketingSystem(owner);
+    await connectTicketingSystem(addresses, owner).eventManager.contract.grantRole(ROLES.ORGANIZER, organizer.address);
+
+    await connectTicketingSystem(addresses, organizer).eventManager.createEvent({
+      name: "Cancelled Show",
+      date: BigInt(await time.latest()) + 186400n,
+      basePrice: ticketPrice,
+      zones: [{ capacity: 100n, price: ticketPrice }],
+    });
+    for (const buyer of buyers) {
+      await connectTicketingSystem(addresses, buyer).eventManager.purchaseTicket(1, 0);
+    }
+    await connectTicketingSystem(addresses, owner).refundEscrow.contract.grantRole(ROLES.KEEPER, keeper.address);
+  });
+
+  it("Should loop until every refund is settled and report progress", async function () {
+    await connectTicketingSystem(addresses, organizer).eventManager.cancelEvent(1);
+    const { refundEscrow } = connectTicketingSystem(addresses, keeper);
+
+    const batches: RefundBatchResult[] = [];
+    const summary = await settleCancellationRefunds(refundEscrow, 1, {
+      batchSize: 3,
+      onProgress: (batch) => batches.push(batch),
+    });
+
+    expect(batches.map((batch) => batch.cursor)).to.deep.equal([3n, 6n, 7n]);
+    expect(summary.batches).to.equal(3);
+    expect(summary.refunded).to.equal(7n);
+    expect(summary.deferred).to.equal(0n);
+    expect(summary.amount).to.equal(ticketPrice * 7n);
+
+    const progress = await refundEscrow.getRefundProgress(1);
+    expect(progress.cursor).to.equal(progress.total);
+    expect(progress.remainingBalance).to.equal(0n);
+    expect(await ethers.provider.getBalance(addresses.RefundEscrow)).to.equal(0n);
+
+    // A second run has nothing left to do
+    const rerun = await settleCancellationRefunds(refundEscrow, 1, { batchSize: 3 });
+    expect(rerun.batches).to.equal(0);
+  });
+
+  it("Should refuse to run for an event that is not cancelled", async function () {
+    const { refundEscrow } = connectTicketingSystem(addresses, keeper);
+    await expect(settleCancellationRefunds(refundEscrow, 1)).to.be.rejectedWith("has not been cancelled");
+  });
+});
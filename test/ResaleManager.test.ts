@@ -0,0 +1,282 @@
+// SPDX-License-Identifier: MIT
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { EventManager, RefundEscrow, ResaleManager, TicketFactory } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployEventManager } from "../sdk";
+
+describe("ResaleManager", function () {
+  let resaleManager: ResaleManager;
+  let ticketFactory: TicketFactory;
+  let eventManager: EventManager;
+  let refundEscrow: RefundEscrow;
+  let owner: SignerWithAddress;
+  let organizer: SignerWithAddress;
+  let seller: SignerWithAddress;
+  let seller2: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let charity: SignerWithAddress;
+
+  const ticketPrice = ethers.parseEther("0.1");
+  const eventId = 1;
+
+  async function deployResaleManager(): Promise<ResaleManager> {
+    const ResaleManager = await ethers.getContractFactory("ResaleManager");
+    const manager = await ResaleManager.deploy(await ticketFactory.getAddress());
+    await manager.waitForDeployment();
+    return manager;
+  }
+
+  beforeEach(async function () {
+    [owner, organizer, seller, seller2, buyer, charity] = await ethers.getSigners();
+
+    const WaitlistManager = await ethers.getContractFactory("WaitlistManager");
+    const waitlistManager = await WaitlistManager.deploy();
+
+    const TicketFactory = await ethers.getContractFactory("TicketFactory");
+    ticketFactory = await TicketFactory.deploy(await waitlistManager.getAddress());
+
+    eventManager = await deployEventManager(owner);
+    await eventManager.grantRole(await eventManager.ORGANIZER_ROLE(), organizer.address);
+
+    const RefundEscrow = await ethers.getContractFactory("RefundEscrow");
+    refundEscrow = await RefundEscrow.deploy(await eventManager.getAddress());
+
+    await eventManager.setRefundEscrow(await refundEscrow.getAddress());
+    await eventManager.setTicketFactory(await ticketFactory.getAddress());
+    await ticketFactory.setEventManager(await eventManager.getAddress());
+
+    resaleManager = await deployResaleManager();
+    await ticketFactory.setResaleManager(await resaleManager.getAddress());
+
+    const eventDate = BigInt(await time.latest()) + 186400n;
+    await eventManager.connect(organizer).createEvent("Resale Event", eventDate, ticketPrice, [10n], [ticketPrice]);
+    await eventManager.connect(seller).purchaseTicket(eventId, 0, { value: ticketPrice });
+    await eventManager.connect(seller2).purchaseTicket(eventId, 0, { value: ticketPrice });
+  });
+
+  describe("Listing and Purchase", function () {
+    it("Should sell a listed ticket without a transfer approval", async function () {
+      await expect(resaleManager.connect(seller).listTicketForResale(1, ticketPrice))
+        .to.emit(resaleManager, "TicketListed")
+        .withArgs(1, seller.address, ticketPrice);
+
+      let details = await ticketFactory.getTicketDetails(1);
+      expect(details[5]).to.be.true;             // isResale
+      expect(details[6]).to.equal(ticketPrice);  // resalePrice
+
+      await expect(resaleManager.connect(buyer).purchaseResaleTicket(1, { value: ticketPrice }))
+        .to.emit(resaleManager, "TicketResold")
+        .withArgs(1, seller.address, buyer.address, ticketPrice);
+
+      expect(await ticketFactory.ownerOf(1)).to.equal(buyer.address);
+      expect((await resaleManager.getResaleListing(1)).isActive).to.be.false;
+      details = await ticketFactory.getTicketDetails(1);
+      expect(details[5]).to.be.false;
+      expect(details[6]).to.equal(0n);
+    });
+
+    it("Should cap listings at the maximum markup", async function () {
+      const maxPrice = (ticketPrice * 110n) / 100n;
+      await expect(
+        resaleManager.connect(seller).listTicketForResale(1, maxPrice + 1n)
+      ).to.be.revertedWith("Resale price exceeds the maximum allowed markup of the original price");
+      await expect(
+        resaleManager.connect(buyer).listTicketForResale(1, ticketPrice)
+      ).to.be.revertedWith("Caller is not the owner of the ticket");
+    });
+
+    it("Should refuse listings once transfers are locked or the event is cancelled or over", async function () {
+      await eventManager.connect(organizer).setTransferLockWindow(eventId, 86400);
+      await time.increaseTo((await eventManager.getEventData(eventId)).date - 86400n);
+      await expect(
+        resaleManager.connect(seller).listTicketForResale(1, ticketPrice)
+      ).to.be.revertedWith("Ticket transfers are locked for this event");
+
+      const eventDate = BigInt(await time.latest()) + 186400n;
+      await eventManager.connect(organizer).createEvent("Cancelled Event", eventDate, ticketPrice, [10n], [ticketPrice]);
+      await eventManager.connect(seller).purchaseTicket(2, 0, { value: ticketPrice });
+      await eventManager.connect(organizer).cancelEvent(2);
+      await expect(resaleManager.connect(seller).listTicketForResale(3, ticketPrice)).to.be.revertedWith("Event cancelled");
+
+      await eventManager.connect(organizer).createEvent("Past Event", eventDate, ticketPrice, [10n], [ticketPrice]);
+      await eventManager.connect(seller).purchaseTicket(3, 0, { value: ticketPrice });
+      await time.increaseTo(eventDate + 1n);
+      await expect(
+        resaleManager.connect(seller).listTicketForResale(4, ticketPrice)
+      ).to.be.revertedWith("Event already occurred");
+    });
+
+    it("Should take the platform fee from the listing price and refund overpayment", async function () {
+      const price = (ticketPrice * 110n) / 100n;
+      const platformFee = (price * 5n) / 100n;
+      await resaleManager.connect(seller).listTicketForResale(1, price);
+
+      await expect(
+        resaleManager.connect(buyer).purchaseResaleTicket(1, { value: price * 2n })
+      ).to.changeEtherBalances([seller, owner, buyer], [price - platformFee, platformFee, -price]);
+      expect(await ethers.provider.getBalance(await resaleManager.getAddress())).to.equal(0n);
+    });
+  });
+
+  describe("Fee Splits", function () {
+    const royaltyEventId = 2;
+    const organizerRoyaltyBps = 500n;
+    const payeeBps = 200n;
+
+    beforeEach(async function () {
+      const eventDate = BigInt(await time.latest()) + 186400n;
+      await eventManager.connect(organizer).createEventWithResaleFees(
+        "Royalty Event",
+        eventDate,
+        ticketPrice,
+        [10n],
+        [ticketPrice],
+        organizerRoyaltyBps,
+        charity.address,
+        payeeBps
+      );
+      await eventManager.connect(seller).purchaseTicket(royaltyEventId, 0, { value: ticketPrice });
+      await resaleManager.connect(seller).listTicketForResale(3, ticketPrice);
+    });
+
+    it("Should split the price between platform, organizer, payee and seller", async function () {
+      const platformFee = (ticketPrice * 500n) / 10_000n;
+      const royalty = (ticketPrice * organizerRoyaltyBps) / 10_000n;
+      const payeeShare = (ticketPrice * payeeBps) / 10_000n;
+
+      const purchase = resaleManager.connect(buyer).purchaseResaleTicket(3, { value: ticketPrice });
+      await expect(purchase).to.changeEtherBalances(
+        [seller, owner, buyer],
+        [ticketPrice - platformFee - royalty - payeeShare, platformFee, -ticketPrice]
+      );
+      await expect(purchase)
+        .to.emit(resaleManager, "RoyaltyAccrued")
+        .withArgs(3, organizer.address, royalty);
+
+      expect(await resaleManager.royaltyBalances(organizer.address)).to.equal(royalty);
+      expect(await resaleManager.royaltyBalances(charity.address)).to.equal(payeeShare);
+      expect(await ethers.provider.getBalance(await resaleManager.getAddress())).to.equal(royalty + payeeShare);
+    });
+
+    it("Should let royalty recipients withdraw their balance", async function () {
+      await resaleManager.connect(buyer).purchaseResaleTicket(3, { value: ticketPrice });
+      const payeeShare = (ticketPrice * payeeBps) / 10_000n;
+
+      await expect(resaleManager.connect(charity).withdrawRoyalties()).to.changeEtherBalance(charity, payeeShare);
+      expect(await resaleManager.royaltyBalances(charity.address)).to.equal(0n);
+      await expect(
+        resaleManager.connect(charity).withdrawRoyalties()
+      ).to.be.revertedWith("No royalties to withdraw");
+    });
+
+    it("Should keep the platform fee an event was created with", async function () {
+      await eventManager.setResalePlatformFee(1_000);
+
+      const platformFee = (ticketPrice * 500n) / 10_000n;
+      await expect(
+        resaleManager.connect(buyer).purchaseResaleTicket(3, { value: ticketPrice })
+      ).to.changeEtherBalance(owner, platformFee);
+    });
+  });
+
+  describe("Automatic Delisting", function () {
+    beforeEach(async function () {
+      await resaleManager.connect(seller).listTicketForResale(1, ticketPrice);
+    });
+
+    it("Should delist when the organizer moves the ticket", async function () {
+      await expect(eventManager.connect(organizer).moveTicket(1, seller2.address))
+        .to.emit(resaleManager, "TicketUnlisted")
+        .withArgs(1, seller.address);
+
+      await expect(
+        resaleManager.connect(buyer).purchaseResaleTicket(1, { value: ticketPrice })
+      ).to.be.revertedWith("This ticket is not listed for resale");
+    });
+
+    it("Should delist when the ticket is used", async function () {
+      await expect(ticketFactory.connect(seller).useTicket(1))
+        .to.emit(resaleManager, "TicketUnlisted")
+        .withArgs(1, seller.address);
+      expect(await resaleManager.isListingValid(1)).to.be.false;
+    });
+
+    it("Should delist when the ticket is refunded and burned", async function () {
+      await expect(refundEscrow.connect(seller).refundPayment(eventId, 1))
+        .to.emit(resaleManager, "TicketUnlisted")
+        .withArgs(1, seller.address);
+      expect((await resaleManager.getResaleListing(1)).isActive).to.be.false;
+    });
+
+    it("Should only accept delisting calls from the TicketFactory", async function () {
+      await expect(
+        resaleManager.connect(seller2).clearListing(1)
+      ).to.be.revertedWith("Caller is not the TicketFactory");
+    });
+  });
+
+  describe("Stale Listings", function () {
+    it("Should refuse and clean up listings the factory never reported", async function () {
+      // A manager the factory does not know about is never told that the ticket moved
+      const detached = await deployResaleManager();
+      await detached.connect(seller).listTicketForResale(1, ticketPrice);
+      await expect(
+        detached.connect(buyer).delistStaleListing(1)
+      ).to.be.revertedWith("Resale listing is still valid");
+
+      await eventManager.connect(organizer).moveTicket(1, buyer.address);
+      expect((await detached.getResaleListing(1)).isActive).to.be.true;
+
+      await expect(
+        detached.connect(seller2).purchaseResaleTicket(1, { value: ticketPrice })
+      ).to.be.revertedWith("This resale listing is stale");
+      await expect(detached.connect(seller2).delistStaleListing(1))
+        .to.emit(detached, "TicketUnlisted")
+        .withArgs(1, seller.address);
+    });
+
+    it("Should let anyone close an expired listing", async function () {
+      await resaleManager.connect(seller).listTicketForResale(1, ticketPrice);
+      await time.increase(7 * 24 * 60 * 60 + 1);
+
+      await expect(
+        resaleManager.connect(buyer).purchaseResaleTicket(1, { value: ticketPrice })
+      ).to.be.revertedWith("This resale listing has expired");
+      await resaleManager.connect(buyer).delistStaleListing(1);
+      expect((await resaleManager.getResaleListing(1)).isActive).to.be.false;
+    });
+  });
+
+  describe("Migration", function () {
+    it("Should import the still-valid listings of a replaced ResaleManager", async function () {
+      await resaleManager.connect(seller).listTicketForResale(1, ticketPrice);
+      await resaleManager.connect(seller2).listTicketForResale(2, ticketPrice);
+      const { listingTime } = await resaleManager.getResaleListing(1);
+      await ticketFactory.connect(seller2).useTicket(2);
+
+      const replacement = await deployResaleManager();
+      await ticketFactory.setResaleManager(await replacement.getAddress());
+
+      await expect(
+        replacement.connect(seller).importListings(await resaleManager.getAddress(), [1, 2])
+      ).to.be.revertedWithCustomError(replacement, "AccessControlUnauthorizedAccount");
+      await expect(replacement.importListings(await resaleManager.getAddress(), [1, 2, 3]))
+        .to.emit(replacement, "ListingImported")
+        .withArgs(1, await resaleManager.getAddress());
+
+      const imported = await replacement.getResaleListing(1);
+      expect(imported.seller).to.equal(seller.address);
+      expect(imported.listingTime).to.equal(listingTime);
+      expect((await replacement.getResaleListing(2)).isActive).to.be.false;
+
+      // The old manager can no longer move tickets
+      await expect(
+        resaleManager.connect(buyer).purchaseResaleTicket(1, { value: ticketPrice })
+      ).to.be.revertedWith("Ticket transfers must use an approved route");
+      await replacement.connect(buyer).purchaseResaleTicket(1, { value: ticketPrice });
+      expect(await ticketFactory.ownerOf(1)).to.equal(buyer.address);
+    });
+  });
+});
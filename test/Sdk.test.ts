@@ -0,0 +1,560 @@
+// SPDX-License-Identifier: MIT
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  AlreadyPurchasedError,
+  buildAllowlist,
+  buildSettlementStatement,
+  configureSeatMap,
+  connectTicketingSystem,
+  deployTicketingSystem,
+  expireWaitlistOffers,
+  getAllowlistProof,
+  getSeatMapZone,
+  getZoneAvailability,
+  parseAllowlistCsv,
+  parseSeatMap,
+  parseTicketingError,
+  PresaleRestrictedError,
+  PromoCodeRejectedError,
+  reconcileContractBalances,
+  renderZoneAvailability,
+  ROLES,
+  seatNumberFor,
+  seatPositionOf,
+  settlementToCsv,
+  settlementToJson,
+  simulatePriceSchedule,
+  SoldOutError,
+  TicketingAddresses,
+  TicketingError,
+  TicketingSdkError,
+  WaitlistPriorityError,
+  zonePriceAt,
+} from "../sdk";
+
+async function expectSdkError(promise: Promise<unknown>): Promise<TicketingSdkError> {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).to.be.instanceOf(TicketingError);
+    return error as TicketingSdkError;
+  }
+  throw new Error("Expected the SDK call to fail");
+}
+
+describe("Ticketing SDK", function () {
+  let addresses: TicketingAddresses;
+  let owner: SignerWithAddress;
+  let organizer: SignerWithAddress;
+  let buyer: SignerWithAddress;
+  let buyer2: SignerWithAddress;
+
+  const zonePrice = ethers.parseEther("0.1");
+  let eventDate: bigint;
+
+  beforeEach(async function () {
+    [owner, organizer, buyer, buyer2] = await ethers.getSigners();
+    addresses = await deployTicketingSystem(owner);
+    await connectTicketingSystem(addresses, owner).eventManager.contract.grantRole(ROLES.ORGANIZER, organizer.address);
+    eventDate = BigInt(await time.latest()) + 186400n;
+  });
+
+  describe("EventManagerClient", function () {
+    it("Should create events and return named domain objects", async function () {
+      const { eventManager } = connectTicketingSystem(addresses, organizer);
+      const { eventId } = await eventManager.createEvent({
+        name: "SDK Event",
+        date: eventDate,
+        basePrice: zonePrice,
+        zones: [
+          { capacity: 10n, price: zonePrice },
+          { capacity: 5n, price: zonePrice * 2n },
+        ],
+      });
+
+      const event = await eventManager.getEvent(eventId);
+      expect(event.name).to.equal("SDK Event");
+      expect(event.date).to.equal(eventDate);
+      expect(event.organizer).to.equal(organizer.address);
+      expect(event.cancelled).to.be.false;
+
+      const zones = await eventManager.getZones(eventId);
+      expect(zones.map((zone) => zone.capacity)).to.deep.equal([10n, 5n]);
+      expect(zones[1].price).to.equal(zonePrice * 2n);
+    });
+
+    it("Should purchase at the zone price and report the ticket", async function () {
+      const { eventManager } = connectTicketingSystem(addresses, organizer);
+      const { eventId } = await eventManager.createEvent({
+        name: "SDK Event",
+        date: eventDate,
+        basePrice: zonePrice,
+        zones: [{ capacity: 10n, price: zonePrice }],
+      });
+
+      const buyerClient = connectTicketingSystem(addresses, buyer).eventManager;
+      const purchase = await buyerClient.purchaseTicket(eventId, 0);
+
+      expect(purchase.buyer).to.equal(buyer.address);
+      expect(purchase.pricePaid).to.equal(zonePrice);
+      expect(await buyerClient.hasTicket(eventId, buyer.address)).to.be.true;
+    });
+
+    it("Should buy group tickets and report each holder", async function () {
+      const { eventManager } = connectTicketingSystem(addresses, organizer);
+      const { eventId } = await eventManager.createEvent({
+        name: "SDK Event",
+        date: eventDate,
+        basePrice: zonePrice,
+        zones: [{ capacity: 10n, price: zonePrice }],
+      });
+
+      const buyerClient = connectTicketingSystem(addresses, buyer).eventManager;
+      const purchase = await buyerClient.purchaseGroupTickets(eventId, 0, [buyer.address, buyer2.address]);
+
+      expect(purchase.tickets.map((ticket) => ticket.holder)).to.deep.equal([buyer.address, buyer2.address]);
+      expect(purchase.pricePaid).to.equal(zonePrice * 2n);
+      expect(await buyerClient.getTicketCount(eventId, buyer2.address)).to.equal(1n);
+
+      const error = await expectSdkError(buyerClient.purchaseTickets(eventId, 0, 2));
+      expect(error).to.be.instanceOf(AlreadyPurchasedError);
+    });
+
+    it("Should raise SoldOutError when a zone has no seats left", async function () {
+      const { eventManager } = connectTicketingSystem(addresses, organizer);
+      const { eventId } = await eventManager.createEvent({
+        name: "Tiny Event",
+        date: eventDate,
+        basePrice: zonePrice,
+        zones: [{ capacity: 1n, price: zonePrice }],
+      });
+      await connectTicketingSystem(addresses, buyer).eventManager.purchaseTicket(eventId, 0);
+
+      const error = await expectSdkError(
+        connectTicketingSystem(addresses, buyer2).eventManager.purchaseTicket(eventId, 0)
+      );
+      expect(error).to.be.instanceOf(SoldOutError);
+      expect(error.reason).to.equal("No seats available in zone");
+    });
+
+    it("Should withdraw revenue after the event", async function () {
+      const { eventManager } = connectTicketingSystem(addresses, organizer);
+      const { eventId } = await eventManager.createEvent({
+        name: "SDK Event",
+        date: eventDate,
+        basePrice: zonePrice,
+        zones: [{ capacity: 10n, price: zonePrice }],
+      });
+      await connectTicketingSystem(addresses, buyer).eventManager.purchaseTicket(eventId, 0);
+      await time.increaseTo(eventDate + 1n);
+
+      const withdrawal = await eventManager.withdrawEventRevenue(eventId);
+      expect(withdrawal.organizer).to.equal(organizer.address);
+      expect(withdrawal.amount).to.equal(zonePrice - (zonePrice * 5n) / 100n);
+    });
+  });
+
+  describe("ResaleManagerClient", function () {
+    it("Should create events with resale royalties and withdraw them", async function () {
+      const { eventManager } = connectTicketingSystem(addresses, organizer);
+      const { eventId } = await eventManager.createEvent({
+        name: "Royalty Event",
+        date: eventDate,
+        basePrice: zonePrice,
+        zones: [{ capacity: 10n, price: zonePrice }],
+        resaleFees: { organizerRoyaltyBps: 500n },
+      });
+      const fees = await eventManager.getResaleFees(eventId);
+      expect(fees.organizerRoyaltyBps).to.equal(500n);
+      expect(fees.payee).to.equal(ethers.ZeroAddress);
+
+      const { ticketId } = await connectTicketingSystem(addresses, buyer).eventManager.purchaseTicket(eventId, 0);
+      await connectTicketingSystem(addresses, buyer).resaleManager.listTicket(ticketId, zonePrice);
+      await connectTicketingSystem(addresses, buyer2).resaleManager.purchaseTicket(ticketId);
+
+      const { resaleManager } = connectTicketingSystem(addresses, organizer);
+      expect(await resaleManager.getRoyaltyBalance(organizer.address)).to.equal((zonePrice * 500n) / 10_000n);
+      await resaleManager.withdrawRoyalties();
+      expect(await resaleManager.getRoyaltyBalance(organizer.address)).to.equal(0n);
+    });
+  });
+
+  describe("TicketFactoryClient and WaitlistManagerClient", function () {
+    it("Should raise WaitlistPriorityError for buyers who jump the queue", async function () {
+      const ownerClients = connectTicketingSystem(addresses, owner);
+      await connectTicketingSystem(addresses, organizer).eventManager.createEvent({
+        name: "Waitlist Event",
+        date: eventDate,
+        basePrice: zonePrice,
+        zones: [{ capacity: 10n, price: zonePrice }],
+      });
+      await connectTicketingSystem(addresses, buyer).waitlistManager.join(1, 0);
+
+      const status = await ownerClients.waitlistManager.getStatus(1, 0, buyer.address);
+      expect(status.isWaiting).to.be.true;
+      expect(status.position).to.equal(1n);
+
+      const error = await expectSdkError(
+        connectTicketingSystem(addresses, buyer2).eventManager.purchaseTicket(1, 0)
+      );
+      switch (error.code) {
+        case "WAITLIST_PRIORITY":
+          expect(error).to.be.instanceOf(WaitlistPriorityError);
+          break;
+        default:
+          expect.fail(`Unexpected error code ${error.code}`);
+      }
+    });
+
+    it("Should expire lapsed offers with the keeper and accept the next one", async function () {
+      const organizerClients = connectTicketingSystem(addresses, organizer);
+      const { eventId } = await organizerClients.eventManager.createEvent({
+        name: "Sold Out Event",
+        date: eventDate,
+        basePrice: zonePrice,
+        zones: [{ capacity: 1n, price: zonePrice }],
+      });
+      const { ticketId } = await connectTicketingSystem(addresses, buyer).eventManager.purchaseTicket(eventId, 0);
+      await connectTicketingSystem(addresses, buyer2).waitlistManager.join(eventId, 0);
+      await connectTicketingSystem(addresses, owner).waitlistManager.join(eventId, 0);
+      await connectTicketingSystem(addresses, buyer).resaleManager.listTicket(ticketId, zonePrice);
+
+      const keeper = organizerClients.waitlistManager;
+      const [offer] = await keeper.getOffers(eventId, 0);
+      expect(offer.user).to.equal(buyer2.address);
+      expect(offer.ticketId).to.equal(ticketId);
+      expect((await expireWaitlistOffers(keeper, organizerClients.eventManager, eventId)).active).to.equal(1);
+
+      await time.increase(24 * 60 * 60 + 1);
+      const summary = await expireWaitlistOffers(keeper, organizerClients.eventManager, eventId);
+      expect(summary.expired).to.equal(1);
+
+      const ownerClients = connectTicketingSystem(addresses, owner);
+      expect((await ownerClients.waitlistManager.getStatus(eventId, 0, owner.address)).hasActiveOffer).to.be.true;
+      await ownerClients.waitlistManager.completePurchase(eventId, 0);
+      expect((await ownerClients.ticketFactory.getTicket(ticketId)).owner).to.equal(owner.address);
+    });
+
+    it("Should pay the waitlist deposit on joining and put it towards the offer", async function () {
+      const organizerClients = connectTicketingSystem(addresses, organizer);
+      const { eventId } = await organizerClients.eventManager.createEvent({
+        name: "Deposit Event",
+        date: eventDate,
+        basePrice: zonePrice,
+        zones: [{ capacity: 1n, price: zonePrice }],
+      });
+      const deposit = zonePrice / 5n;
+      await organizerClients.waitlistManager.setDepositTerms(eventId, deposit, 5_000n);
+      expect(await organizerClients.waitlistManager.getDepositTerms(eventId)).to.deep.equal({
+        amount: deposit,
+        forfeitBps: 5_000n,
+      });
+
+      const { ticketId } = await connectTicketingSystem(addresses, buyer).eventManager.purchaseTicket(eventId, 0);
+      const waiter = connectTicketingSystem(addresses, buyer2).waitlistManager;
+      await waiter.join(eventId, 0);
+      await connectTicketingSystem(addresses, buyer).resaleManager.listTicket(ticketId, zonePrice);
+
+      const offer = await waiter.getOffer(eventId, 0, buyer2.address);
+      expect(offer.deposit).to.equal(deposit);
+      const balanceBefore = await ethers.provider.getBalance(buyer2.address);
+      const { transactionHash } = await waiter.completePurchase(eventId, 0);
+      const receipt = await ethers.provider.getTransactionReceipt(transactionHash);
+      const spent = balanceBefore - (await ethers.provider.getBalance(buyer2.address));
+      expect(spent - receipt!.gasUsed * receipt!.gasPrice).to.equal(zonePrice - deposit);
+    });
+
+    it("Should decode ticket details into a Ticket", async function () {
+      await connectTicketingSystem(addresses, organizer).eventManager.createEvent({
+        name: "SDK Event",
+        date: eventDate,
+        basePrice: zonePrice,
+        zones: [
+          { capacity: 10n, price: zonePrice },
+          { capacity: 5n, price: zonePrice * 2n },
+        ],
+      });
+      const { eventManager, ticketFactory } = connectTicketingSystem(addresses, buyer);
+      const { ticketId } = await eventManager.purchaseTicket(1, 1);
+
+      const ticket = await ticketFactory.getTicket(ticketId);
+      expect(ticket.owner).to.equal(buyer.address);
+      expect(ticket.eventId).to.equal(1n);
+      expect(ticket.zoneId).to.equal(1n);
+      expect(ticket.seatNumber).to.equal(1n);
+      expect(ticket.price).to.equal(zonePrice * 2n);
+      expect(ticket.used).to.be.false;
+    });
+  });
+
+  describe("Seat maps", function () {
+    const seatMap = parseSeatMap(
+      JSON.stringify({
+        zones: [
+          {
+            zoneId: 0,
+            name: "Stalls",
+            rows: [
+              { label: "A", seats: 3 },
+              { label: "B", seats: 2 },
+            ],
+          },
+        ],
+      })
+    );
+
+    it("Should convert between rows and seat numbers", function () {
+      const zone = getSeatMapZone(seatMap, 0);
+      expect(seatNumberFor(zone, "B", 1)).to.equal(4n);
+      expect(seatPositionOf(zone, 3n)).to.deep.equal({ row: "A", seat: 3 });
+      expect(() => seatNumberFor(zone, "A", 4)).to.throw("Row \"A\" has seats 1-3");
+      expect(() => parseSeatMap({ zones: [{ zoneId: 0, rows: [] }] })).to.throw("at least one row");
+    });
+
+    it("Should configure a seat map and render availability", async function () {
+      const organizerClient = connectTicketingSystem(addresses, organizer).eventManager;
+      const { eventId } = await organizerClient.createEvent({
+        name: "Seated SDK Event",
+        date: eventDate,
+        basePrice: zonePrice,
+        zones: [{ capacity: 5n, price: zonePrice }],
+      });
+      await configureSeatMap(organizerClient, eventId, seatMap);
+
+      const zone = getSeatMapZone(seatMap, 0);
+      const buyerClient = connectTicketingSystem(addresses, buyer).eventManager;
+      await buyerClient.purchaseSeats(eventId, 0, [seatNumberFor(zone, "B", 2)]);
+
+      const error = await expectSdkError(
+        connectTicketingSystem(addresses, buyer2).eventManager.purchaseSeats(eventId, 0, [5n])
+      );
+      expect(error).to.be.instanceOf(SoldOutError);
+      expect(error.reason).to.equal("Seat already taken");
+
+      const availability = await getZoneAvailability(buyerClient, eventId, zone);
+      expect(availability.available).to.equal(4);
+      expect(availability.rows[1].seats[1].ticketId).to.equal(1n);
+      expect(renderZoneAvailability(availability)).to.equal(
+        ["Zone 0 (Stalls): 4/5 seats available", "A | o o o", "B | o x"].join("\n")
+      );
+    });
+  });
+
+  describe("Pricing simulator", function () {
+    const earlyBird = ethers.parseEther("0.08");
+    const ceiling = ethers.parseEther("0.14");
+
+    it("Should price like the contract across tiers and the demand curve", function () {
+      const zone = {
+        capacity: 10n,
+        price: zonePrice,
+        schedule: {
+          tiers: [{ price: earlyBird, endsAt: 1_000n, maxSales: 3n }],
+          demandCurve: { maxIncreaseBps: 5_000n, ceiling },
+        },
+      };
+      expect(zonePriceAt(zone, 0n, 999n)).to.equal(earlyBird);
+      expect(zonePriceAt(zone, 2n, 999n)).to.equal(earlyBird + (earlyBird * 5_000n * 2n) / 100_000n);
+      expect(zonePriceAt(zone, 3n, 999n)).to.equal(zonePrice + (zonePrice * 5_000n * 3n) / 100_000n);
+      expect(zonePriceAt(zone, 9n, 1_000n)).to.equal(ceiling);
+
+      const simulation = simulatePriceSchedule(zone, [{ timestamp: 500n, quantity: 12n }]);
+      expect(simulation.ticketsSold).to.equal(10n);
+      expect(simulation.unmetDemand).to.equal(2n);
+      expect(simulation.sales[0].prices).to.have.length(10);
+    });
+
+    it("Should predict the revenue an event takes for a sales curve", async function () {
+      const organizerClients = connectTicketingSystem(addresses, organizer);
+      const start = BigInt(await time.latest());
+      const { eventId } = await organizerClients.eventManager.createEvent({
+        name: "Priced Event",
+        date: start + 10n * 86400n,
+        basePrice: earlyBird,
+        zones: [{ capacity: 10n, price: zonePrice }],
+      });
+      await organizerClients.eventManager.setWalletTicketLimit(eventId, 10);
+      const schedule = {
+        tiers: [{ price: earlyBird, endsAt: start + 86400n, maxSales: 4n }],
+        demandCurve: { maxIncreaseBps: 5_000n, ceiling },
+      };
+      await organizerClients.eventManager.setPriceSchedule(eventId, 0, schedule);
+      expect(await organizerClients.eventManager.getPriceSchedule(eventId, 0)).to.deep.equal(schedule);
+
+      const salesCurve = [
+        { timestamp: start + 3_600n, quantity: 3n, buyer },
+        { timestamp: start + 2n * 86400n, quantity: 4n, buyer: buyer2 },
+        { timestamp: start + 3n * 86400n, quantity: 3n, buyer: owner },
+      ];
+      const prediction = simulatePriceSchedule({ capacity: 10n, price: zonePrice, schedule }, salesCurve);
+
+      let revenue = 0n;
+      for (const point of salesCurve) {
+        await time.increaseTo(point.timestamp);
+        const clients = connectTicketingSystem(addresses, point.buyer);
+        revenue += (await clients.eventManager.purchaseTickets(eventId, 0, point.quantity)).pricePaid;
+      }
+      expect(revenue).to.equal(prediction.revenue);
+      expect(await ethers.provider.getBalance(addresses.RefundEscrow)).to.equal(prediction.revenue);
+    });
+  });
+
+  describe("Presale allowlists", function () {
+    it("Should build proofs from a CSV that PresaleManager accepts", async function () {
+      const [, , , , ...others] = await ethers.getSigners();
+      const csv = ["address,email", ...[buyer, ...others.slice(0, 4)].map((s) => `${s.address},fan@example.com`)].join(
+        "\n"
+      );
+      const allowlist = buildAllowlist(parseAllowlistCsv(csv));
+      expect(allowlist.accounts).to.have.length(5);
+      expect(buildAllowlist([...allowlist.accounts].reverse()).root).to.equal(allowlist.root);
+      expect(() => getAllowlistProof(allowlist, buyer2.address)).to.throw("not on the allowlist");
+
+      const organizerClients = connectTicketingSystem(addresses, organizer);
+      const { eventId } = await organizerClients.eventManager.createEvent({
+        name: "Presale Event",
+        date: eventDate,
+        basePrice: zonePrice,
+        zones: [{ capacity: 10n, price: zonePrice }],
+      });
+      const startsAt = BigInt(await time.latest());
+      const presale = { merkleRoot: allowlist.root, startsAt, endsAt: startsAt + 3_600n };
+      await organizerClients.presaleManager.setPresale(eventId, 0, presale);
+      expect(await organizerClients.presaleManager.getPresale(eventId, 0)).to.deep.equal(presale);
+      await organizerClients.presaleManager.addPromoCodes(eventId, [{ code: "FANCLUB-1", buyer: buyer.address }], 2_000);
+
+      for (const account of allowlist.accounts) {
+        const proof = getAllowlistProof(allowlist, account);
+        expect(await organizerClients.presaleManager.isAllowlisted(eventId, 0, account, proof)).to.be.true;
+      }
+
+      const buyerClients = connectTicketingSystem(addresses, buyer);
+      const { pricePaid } = await buyerClients.eventManager.purchaseTicketWithAccess(eventId, 0, {
+        proof: getAllowlistProof(allowlist, buyer.address),
+        promoCode: "FANCLUB-1",
+      });
+      expect(pricePaid).to.equal(zonePrice - (zonePrice * 2_000n) / 10_000n);
+      expect((await buyerClients.presaleManager.getPromoCode(eventId, "FANCLUB-1", buyer.address)).redeemed).to.be.true;
+
+      const outsider = connectTicketingSystem(addresses, buyer2);
+      const error = await expectSdkError(outsider.eventManager.purchaseTicket(eventId, 0));
+      expect(error).to.be.instanceOf(PresaleRestrictedError);
+      const reused = await expectSdkError(
+        outsider.eventManager.purchaseTicketWithAccess(eventId, 0, { promoCode: "FANCLUB-1" }, zonePrice)
+      );
+      expect(reused).to.be.instanceOf(PromoCodeRejectedError);
+    });
+  });
+
+  describe("Settlement statements", function () {
+    const fee = (price: bigint) => (price * 5n) / 100n;
+
+    it("Should rebuild an event's money from logs and reconcile it with the contracts", async function () {
+      const [, , , , fan, reseller, payee] = await ethers.getSigners();
+      const organizerClients = connectTicketingSystem(addresses, organizer);
+      const date = BigInt(await time.latest()) + 20n * 86400n;
+      const { eventId } = await organizerClients.eventManager.createEvent({
+        name: "Settled Event",
+        date,
+        basePrice: zonePrice,
+        zones: [
+          { capacity: 10n, price: zonePrice },
+          { capacity: 5n, price: zonePrice * 2n },
+        ],
+        resaleFees: { organizerRoyaltyBps: 500n, payee: payee.address, payeeBps: 250n },
+      });
+      // Another event's sales must stay out of this statement
+      const { eventId: otherEventId } = await organizerClients.eventManager.createEvent({
+        name: "Other Event",
+        date,
+        basePrice: zonePrice,
+        zones: [{ capacity: 10n, price: zonePrice }],
+      });
+      await connectTicketingSystem(addresses, buyer2).eventManager.purchaseTicket(otherEventId, 0);
+
+      const { ticketId } = await connectTicketingSystem(addresses, buyer).eventManager.purchaseTicket(eventId, 0);
+      await connectTicketingSystem(addresses, buyer2).eventManager.purchaseTicket(eventId, 1);
+      const returned = await connectTicketingSystem(addresses, fan).eventManager.purchaseTicket(eventId, 1);
+      await organizerClients.eventManager.issueTicket(eventId, 0, reseller.address);
+
+      await connectTicketingSystem(addresses, buyer).resaleManager.listTicket(ticketId, zonePrice);
+      await connectTicketingSystem(addresses, reseller).resaleManager.purchaseTicket(ticketId);
+
+      // Returned in the last week of the refund window, so a cancellation fee is kept
+      await time.increase(8n * 86400n);
+      const refundEscrow = connectTicketingSystem(addresses, fan).refundEscrow.contract;
+      await refundEscrow.cancelTicket(eventId, returned.ticketId);
+
+      await time.increaseTo(date + 1n);
+      await organizerClients.eventManager.withdrawEventRevenue(eventId);
+
+      const statement = await buildSettlementStatement(organizerClients, eventId);
+      expect(statement.zones.map((zone) => [zone.ticketsSold, zone.ticketsReturned, zone.ticketsIssued])).to.deep.equal([
+        [1n, 0n, 1n],
+        [1n, 1n, 0n],
+      ]);
+      expect(statement.grossSales).to.equal(zonePrice * 3n);
+      expect(statement.platformFees).to.equal(fee(zonePrice) + fee(zonePrice * 2n));
+      expect(statement.cancellationFees).to.equal(fee(zonePrice * 2n));
+      expect(statement.refunds.voluntary).to.equal(zonePrice * 2n - fee(zonePrice * 2n));
+      expect(statement.resale).to.deep.equal({
+        resales: 1n,
+        volume: zonePrice,
+        platformFees: (zonePrice * 500n) / 10_000n,
+        organizerRoyalties: (zonePrice * 500n) / 10_000n,
+        payeeRoyalties: (zonePrice * 250n) / 10_000n,
+      });
+      expect(statement.revenue.withdrawn).to.equal(statement.revenue.earned);
+      expect(statement.revenue.outstanding).to.equal(0n);
+      expect(statement.platform.feesOutstanding).to.equal(0n);
+      expect(statement.escrow.held).to.equal(0n);
+      expect(statement.reconciliation.filter((check) => !check.matches)).to.deep.equal([]);
+
+      const platform = await reconcileContractBalances(organizerClients);
+      expect(platform.filter((check) => !check.matches)).to.deep.equal([]);
+
+      const csv = settlementToCsv([statement]).trim().split("\n");
+      expect(csv[0]).to.equal("event_id,line_item,zone_id,tickets,amount_wei,amount_eth");
+      expect(csv).to.include(`${eventId},gross_sales,1,1,${zonePrice * 2n},0.2`);
+      expect(JSON.parse(settlementToJson(statement)).grossSales).to.equal((zonePrice * 3n).toString());
+    });
+
+    it("Should reconcile a cancelled event whose refunds are still being paid", async function () {
+      const organizerClients = connectTicketingSystem(addresses, organizer);
+      const { eventId } = await organizerClients.eventManager.createEvent({
+        name: "Cancelled Event",
+        date: eventDate,
+        basePrice: zonePrice,
+        zones: [{ capacity: 10n, price: zonePrice }],
+      });
+      const { ticketId } = await connectTicketingSystem(addresses, buyer).eventManager.purchaseTicket(eventId, 0);
+      await connectTicketingSystem(addresses, buyer2).eventManager.purchaseTicket(eventId, 0);
+      await organizerClients.eventManager.cancelEvent(eventId);
+      await connectTicketingSystem(addresses, buyer).refundEscrow.claimCancellationRefund(eventId, ticketId);
+
+      const statement = await buildSettlementStatement(organizerClients, eventId);
+      expect(statement.cancelled).to.be.true;
+      expect(statement.refunds.cancellation).to.equal(zonePrice);
+      expect(statement.escrow.held).to.equal(zonePrice);
+      // Revenue stays booked on a cancelled event but is never paid out
+      expect(statement.revenue.outstanding).to.equal(zonePrice * 2n - fee(zonePrice) * 2n);
+      expect(statement.reconciliation.filter((check) => !check.matches)).to.deep.equal([]);
+      expect((await reconcileContractBalances(organizerClients)).every((check) => check.matches)).to.be.true;
+    });
+  });
+
+  describe("parseTicketingError", function () {
+    it("Should map custom errors to typed classes", async function () {
+      const { eventManager } = connectTicketingSystem(addresses, buyer);
+      try {
+        await eventManager.contract.pause();
+        expect.fail("pause should revert for non-owners");
+      } catch (error) {
+        expect(parseTicketingError(error).code).to.equal("UNAUTHORIZED");
+      }
+    });
+  });
+});
@@ -1,12 +1,14 @@
 // SPDX-License-Identifier: MIT
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { TicketFactory, WaitlistManager } from "../typechain-types";
+import { EventManager, ResaleManager, TicketFactory, WaitlistManager } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployEventManager } from "../sdk";
 
 describe("TicketFactory", function () {
   let ticketFactory: TicketFactory;
+  let eventManager: EventManager;
   let waitlistManager: WaitlistManager;
   let owner: SignerWithAddress;
   let addr1: SignerWithAddress;
@@ -14,6 +16,12 @@ describe("TicketFactory", function () {
   let addr3: SignerWithAddress;
 
   const ticketPrice = ethers.parseEther("0.1");
+  const eventId = 1;
+
+  async function createEvent(capacity: number) {
+    const eventDate = (await time.latest()) + 2 * 24 * 60 * 60;
+    await eventManager.createEvent("Test Event", eventDate, ticketPrice, [capacity], [ticketPrice]);
+  }
 
   beforeEach(async function () {
     [owner, addr1, addr2, addr3] = await ethers.getSigners();
@@ -25,126 +33,248 @@ describe("TicketFactory", function () {
     const TicketFactory = await ethers.getContractFactory("TicketFactory");
     ticketFactory = await TicketFactory.deploy(await waitlistManager.getAddress());
     await ticketFactory.waitForDeployment();
+
+    eventManager = await deployEventManager(owner);
+    await eventManager.grantRole(await eventManager.ORGANIZER_ROLE(), owner.address);
+    await eventManager.waitForDeployment();
+
+    const RefundEscrow = await ethers.getContractFactory("RefundEscrow");
+    const refundEscrow = await RefundEscrow.deploy(await eventManager.getAddress());
+
+    await eventManager.setRefundEscrow(await refundEscrow.getAddress());
+    await eventManager.setTicketFactory(await ticketFactory.getAddress());
+    await ticketFactory.setEventManager(await eventManager.getAddress());
   });
 
-  describe("Event Creation", function () {
-    it("Should create event with correct parameters", async function () {
-      await ticketFactory.createEvent(1, 100, ticketPrice);
-      
-      const event = await ticketFactory.events(1);
-      expect(event[0]).to.equal(100n);        // maxSupply
-      expect(event[1]).to.equal(0n);          // currentSupply
-      expect(event[2]).to.equal(ticketPrice); // price
-      expect(event[3]).to.be.true;            // isActive
+  describe("Minting", function () {
+    beforeEach(async function () {
+      await createEvent(100);
     });
 
-    it("Should prevent duplicate event IDs", async function () {
-      await ticketFactory.createEvent(1, 100, ticketPrice);
+    it("Should only allow the EventManager to mint", async function () {
       await expect(
-        ticketFactory.createEvent(1, 100, ticketPrice)
-      ).to.be.revertedWith("An active event with this ID already exists");
+        ticketFactory.mintTicket(addr1.address, eventId, 0, 1, ticketPrice)
+      ).to.be.revertedWith("Caller is not the EventManager");
     });
-  });
 
-  describe("Ticket Purchase", function () {
-    beforeEach(async function () {
-      await ticketFactory.createEvent(1, 100, ticketPrice);
+    it("Should only allow the owner to set the EventManager", async function () {
+      await expect(
+        ticketFactory.connect(addr1).setEventManager(addr1.address)
+      ).to.be.revertedWithCustomError(ticketFactory, "AccessControlUnauthorizedAccount");
+      await expect(
+        ticketFactory.setEventManager(ethers.ZeroAddress)
+      ).to.be.revertedWith("Invalid EventManager address");
     });
 
-    it("Should process direct purchase correctly", async function () {
-      await ticketFactory.connect(addr1).purchaseTicket(1, 1, { value: ticketPrice });
-      
+    it("Should mint a ticket for an EventManager purchase", async function () {
+      await expect(eventManager.connect(addr1).purchaseTicket(eventId, 0, { value: ticketPrice }))
+        .to.emit(ticketFactory, "TicketMinted")
+        .withArgs(1, eventId, 0, ticketPrice);
+
+      expect(await ticketFactory.ownerOf(1)).to.equal(addr1.address);
       const ticket = await ticketFactory.getTicketDetails(1);
       expect(ticket[0]).to.equal(1n);     // eventId
+      expect(ticket[1]).to.equal(ticketPrice); // price
       expect(ticket[3]).to.equal(1n);     // seatNumber
       expect(ticket[2]).to.be.false;      // used
+      expect(ticket[7]).to.equal(0n);     // zoneId
     });
 
-    it("Should handle platform fees correctly", async function () {
-      const initialOwnerBalance = await ethers.provider.getBalance(owner.address);
-      
-      const tx = await ticketFactory.connect(addr1).purchaseTicket(1, 1, { value: ticketPrice });
-      await tx.wait();
-      
-      const finalOwnerBalance = await ethers.provider.getBalance(owner.address);
-      const platformFee = (ticketPrice * 5n) / 100n;
-      expect(finalOwnerBalance - initialOwnerBalance).to.equal(platformFee);
-    });
+    it("Should track ticket supply through zone availability", async function () {
+      await eventManager.connect(addr1).purchaseTicket(eventId, 0, { value: ticketPrice });
+      await eventManager.connect(addr2).purchaseTicket(eventId, 0, { value: ticketPrice });
 
-    it("Should track ticket supply", async function () {
-      await ticketFactory.connect(addr1).purchaseTicket(1, 1, { value: ticketPrice });
-      const event = await ticketFactory.events(1);
-      expect(event[1]).to.equal(1n);  // currentSupply
+      const zone = await eventManager.getZone(eventId, 0);
+      expect(zone.capacity - zone.availableSeats).to.equal(2n);
+      expect(await ticketFactory.balanceOf(addr1.address) + await ticketFactory.balanceOf(addr2.address)).to.equal(2n);
+      expect((await ticketFactory.getTicketDetails(2))[3]).to.equal(2n); // seatNumber
     });
   });
 
-  describe("Ticket Resale", function () {
+  describe("Transfer Restrictions", function () {
+    let resaleManager: ResaleManager;
+
     beforeEach(async function () {
-      await ticketFactory.createEvent(1, 100, ticketPrice);
-      await ticketFactory.connect(addr1).purchaseTicket(1, 1, { value: ticketPrice });
-    });
+      await createEvent(100);
+      await eventManager.connect(addr1).purchaseTicket(eventId, 0, { value: ticketPrice });
 
-    it("Should list ticket for resale", async function () {
-      await ticketFactory.connect(addr1).listForResale(1, ticketPrice);
-      const ticket = await ticketFactory.getTicketDetails(1);
-      expect(ticket[5]).to.be.true;           // isResale
-      expect(ticket[6]).to.equal(ticketPrice); // resalePrice
+      const ResaleManager = await ethers.getContractFactory("ResaleManager");
+      resaleManager = await ResaleManager.deploy(await ticketFactory.getAddress());
+      await ticketFactory.setResaleManager(await resaleManager.getAddress());
     });
 
-    it("Should prevent resale above markup limit", async function () {
-      const highPrice = (ticketPrice * 120n) / 100n;
+    it("Should reject direct transfers between users", async function () {
+      await expect(
+        ticketFactory
+          .connect(addr1)
+          ["safeTransferFrom(address,address,uint256)"](addr1.address, addr2.address, 1)
+      ).to.be.revertedWith("Ticket transfers must use an approved route");
+      await expect(
+        ticketFactory.connect(addr1).transferFrom(addr1.address, addr2.address, 1)
+      ).to.be.revertedWith("Ticket transfers must use an approved route");
+
+      // Approving another wallet does not open a side door either
+      await ticketFactory.connect(addr1).approve(addr2.address, 1);
       await expect(
-        ticketFactory.connect(addr1).listForResale(1, highPrice)
-      ).to.be.revertedWith("Price too high");
+        ticketFactory.connect(addr2).transferFrom(addr1.address, addr2.address, 1)
+      ).to.be.revertedWith("Ticket transfers must use an approved route");
+      expect(await ticketFactory.ownerOf(1)).to.equal(addr1.address);
     });
 
-    it("Should process resale purchase", async function () {
-      await ticketFactory.connect(addr1).listForResale(1, ticketPrice);
-      const tx = await ticketFactory.connect(addr2).purchaseResaleTicket(1, { value: ticketPrice });
-      await tx.wait();
-      
+    it("Should allow sales through the ResaleManager", async function () {
+      await resaleManager.connect(addr1).listTicketForResale(1, ticketPrice);
+
+      await resaleManager.connect(addr2).purchaseResaleTicket(1, { value: ticketPrice });
       expect(await ticketFactory.ownerOf(1)).to.equal(addr2.address);
-      const ticket = await ticketFactory.getTicketDetails(1);
-      expect(ticket[5]).to.be.false;  // isResale
+    });
+
+    it("Should only let approved transfer agents move tickets", async function () {
+      await expect(
+        ticketFactory.connect(addr1).setTransferAgent(addr1.address, true)
+      ).to.be.revertedWithCustomError(ticketFactory, "AccessControlUnauthorizedAccount");
+
+      await expect(ticketFactory.setTransferAgent(addr3.address, true))
+        .to.emit(ticketFactory, "TransferAgentUpdated")
+        .withArgs(addr3.address, true);
+
+      // Agents still need the holder's approval; only the ResaleManager is exempt
+      await expect(
+        ticketFactory.connect(addr3).transferFrom(addr1.address, addr2.address, 1)
+      ).to.be.revertedWithCustomError(ticketFactory, "ERC721InsufficientApproval");
+      await ticketFactory.connect(addr1).approve(addr3.address, 1);
+      await ticketFactory.connect(addr3).transferFrom(addr1.address, addr2.address, 1);
+      expect(await ticketFactory.ownerOf(1)).to.equal(addr2.address);
+    });
+
+    it("Should lock resale inside the event's transfer-lock window", async function () {
+      await eventManager.setTransferLockWindow(eventId, 24 * 60 * 60);
+      expect(await eventManager.isTransferLocked(eventId)).to.be.false;
+
+      await resaleManager.connect(addr1).listTicketForResale(1, ticketPrice);
+
+      await time.increase(24 * 60 * 60 + 60);
+      expect(await eventManager.isTransferLocked(eventId)).to.be.true;
+
+      await expect(
+        resaleManager.connect(addr2).purchaseResaleTicket(1, { value: ticketPrice })
+      ).to.be.revertedWith("Ticket transfers are locked for this event");
+    });
+
+    it("Should let the organizer move tickets, even while locked", async function () {
+      await eventManager.setTransferLockWindow(eventId, 7 * 24 * 60 * 60);
+
+      await expect(eventManager.moveTicket(1, addr3.address))
+        .to.emit(ticketFactory, "TicketMoved")
+        .withArgs(1, addr1.address, addr3.address);
+      expect(await ticketFactory.ownerOf(1)).to.equal(addr3.address);
+
+      await expect(
+        eventManager.connect(addr3).moveTicket(1, addr2.address)
+      ).to.be.revertedWith("Not event organizer or platform admin");
+      await expect(
+        ticketFactory.moveTicket(1, addr2.address)
+      ).to.be.revertedWith("Caller is not the EventManager");
+      await expect(
+        eventManager.setTransferLockWindow(eventId, 7 * 24 * 60 * 60 + 1)
+      ).to.be.revertedWith("Transfer lock window too long");
+    });
+  });
+
+  describe("Royalties", function () {
+    it("Should report the event's royalty through EIP-2981", async function () {
+      const eventDate = (await time.latest()) + 2 * 24 * 60 * 60;
+      await eventManager.grantRole(await eventManager.ORGANIZER_ROLE(), addr1.address);
+      await eventManager
+        .connect(addr1)
+        .createEventWithResaleFees("Royalty Event", eventDate, ticketPrice, [10], [ticketPrice], 300, addr3.address, 200);
+      await eventManager.connect(addr2).purchaseTicket(eventId, 0, { value: ticketPrice });
+
+      const [receiver, amount] = await ticketFactory.royaltyInfo(1, ethers.parseEther("1"));
+      expect(receiver).to.equal(addr1.address);
+      expect(amount).to.equal(ethers.parseEther("0.05"));
+
+      const [noReceiver, noAmount] = await ticketFactory.royaltyInfo(99, ethers.parseEther("1"));
+      expect(noReceiver).to.equal(ethers.ZeroAddress);
+      expect(noAmount).to.equal(0n);
+    });
+
+    it("Should advertise EIP-2981 and ERC-721 support", async function () {
+      expect(await ticketFactory.supportsInterface("0x2a55205a")).to.be.true;
+      expect(await ticketFactory.supportsInterface("0x80ac58cd")).to.be.true;
+      expect(await ticketFactory.supportsInterface("0xffffffff")).to.be.false;
     });
   });
 
   describe("Waitlist Integration", function () {
     beforeEach(async function () {
-      await ticketFactory.createEvent(1, 2, ticketPrice);
-      await ticketFactory.issueTicket(addr1.address, 1, 1);
+      await createEvent(3);
+      await eventManager.issueTicket(eventId, 0, addr1.address);
     });
 
     it("Should enforce waitlist priority", async function () {
-      await waitlistManager.connect(addr2).joinWaitlist(1, 0);
-      await waitlistManager.connect(addr3).joinWaitlist(1, 0);
+      await waitlistManager.connect(addr2).joinWaitlist(eventId, 0);
+      await waitlistManager.connect(addr3).joinWaitlist(eventId, 0);
       
       await expect(
-        ticketFactory.issueTicket(addr3.address, 1, 2)
-      ).to.be.revertedWith("Must issue to waitlist");
+        eventManager.issueTicket(eventId, 0, addr3.address)
+      ).to.be.revertedWith("Must respect waitlist priority");
       
-      await ticketFactory.issueTicket(addr2.address, 1, 2);
+      await eventManager.issueTicket(eventId, 0, addr2.address);
       
       // Clear waitlist entry for addr2
-      await waitlistManager.clearWaitlistForUser(1, 0, addr2.address);
+      await waitlistManager.grantRole(await waitlistManager.KEEPER_ROLE(), owner.address);
+      await waitlistManager.clearWaitlistForUser(eventId, 0, addr2.address);
       
-      const waitlistLength = await waitlistManager.getWaitlistLength(1, 0);
+      const waitlistLength = await waitlistManager.getWaitlistLength(eventId, 0);
       expect(waitlistLength).to.equal(1n);
     });
 
     it("Should track waitlist status in tickets", async function () {
-      await waitlistManager.connect(addr2).joinWaitlist(1, 0);
-      await ticketFactory.issueTicket(addr2.address, 1, 2);
+      await waitlistManager.connect(addr2).joinWaitlist(eventId, 0);
+      await eventManager.issueTicket(eventId, 0, addr2.address);
       
       const ticket = await ticketFactory.getTicketDetails(2);
       expect(ticket[4]).to.be.true; // isWaitlisted
     });
   });
 
+  describe("Per-zone Waitlists", function () {
+    beforeEach(async function () {
+      const eventDate = (await time.latest()) + 2 * 24 * 60 * 60;
+      await eventManager.createEvent("Two Zone Event", eventDate, ticketPrice, [3, 3], [ticketPrice, ticketPrice]);
+    });
+
+    it("Should only hold up sales in the zone that has a waitlist", async function () {
+      await waitlistManager.connect(addr2).joinWaitlist(eventId, 1);
+
+      await eventManager.connect(addr3).purchaseTicket(eventId, 0, { value: ticketPrice });
+      await expect(
+        eventManager.issueTicket(eventId, 1, addr1.address)
+      ).to.be.revertedWith("Must respect waitlist priority");
+
+      expect(await ticketFactory.getWaitlistCount(eventId, 0)).to.equal(0n);
+      expect(await ticketFactory.getWaitlistCount(eventId, 1)).to.equal(1n);
+    });
+
+    it("Should check priority against the queue of the ticket's zone", async function () {
+      await waitlistManager.connect(addr2).joinWaitlist(eventId, 0);
+      await waitlistManager.connect(addr3).joinWaitlist(eventId, 1);
+
+      await expect(
+        eventManager.issueTicket(eventId, 0, addr3.address)
+      ).to.be.revertedWith("Must respect waitlist priority");
+      await eventManager.issueTicket(eventId, 1, addr3.address);
+
+      const ticket = await ticketFactory.getTicketDetails(1);
+      expect(ticket[7]).to.equal(1n); // zoneId
+      expect(ticket[4]).to.be.true;   // isWaitlisted
+    });
+  });
+
   describe("Ticket Usage", function () {
     beforeEach(async function () {
-      await ticketFactory.createEvent(1, 100, ticketPrice);
-      await ticketFactory.connect(addr1).purchaseTicket(1, 1, { value: ticketPrice });
+      await createEvent(100);
+      await eventManager.connect(addr1).purchaseTicket(eventId, 0, { value: ticketPrice });
     });
 
     it("Should mark ticket as used", async function () {
@@ -166,4 +296,4 @@ describe("TicketFactory", function () {
       ).to.be.revertedWith("Caller is not the owner of the ticket");
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import { EventManager, PlatformTimelock } from "../typechain-types";
+import {
+  AdminProposal,
+  buildAdminProposal,
+  cancelTransaction,
+  deployPlatformTimelock,
+  deployTicketingSystem,
+  describeAdminCall,
+  encodeAdminCall,
+  executeTransaction,
+  getAdminProposals,
+  ROLE_CONTRACTS,
+  ROLES,
+  scheduleTransaction,
+  TicketingAddresses,
+} from "../sdk";
+
+describe("PlatformTimelock", function () {
+  const DELAY = 2 * 24 * 60 * 60;
+
+  let addresses: TicketingAddresses;
+  let eventManager: EventManager;
+  let timelock: PlatformTimelock;
+  let deployer: SignerWithAddress;
+  let multisig: SignerWithAddress;
+  let stranger: SignerWithAddress;
+
+  async function schedule(proposal: AdminProposal, delay = DELAY) {
+    return multisig.sendTransaction(scheduleTransaction(addresses.PlatformTimelock!, proposal, delay));
+  }
+
+  async function execute(proposal: AdminProposal) {
+    return multisig.sendTransaction(executeTransaction(addresses.PlatformTimelock!, proposal));
+  }
+
+  beforeEach(async function () {
+    [deployer, multisig, stranger] = await ethers.getSigners();
+    addresses = await deployTicketingSystem(deployer);
+    addresses.PlatformTimelock = await deployPlatformTimelock(deployer, addresses, multisig.address, DELAY);
+    eventManager = await ethers.getContractAt("EventManager", addresses.EventManager);
+    timelock = await ethers.getContractAt("PlatformTimelock", addresses.PlatformTimelock);
+  });
+
+  it("Should hold the admin roles on every contract, with the deployer keeping none", async function () {
+    for (const name of ROLE_CONTRACTS.PLATFORM_ADMIN) {
+      const contract = await ethers.getContractAt("IAccessControl", addresses[name]);
+      expect(await contract.hasRole(ROLES.PLATFORM_ADMIN, addresses.PlatformTimelock!)).to.equal(true);
+      expect(await contract.hasRole(ROLES.DEFAULT_ADMIN, addresses.PlatformTimelock!)).to.equal(true);
+      for (const role of [ROLES.PLATFORM_ADMIN, ROLES.DEFAULT_ADMIN, ROLES.OPERATOR, ROLES.PAUSER]) {
+        expect(await contract.hasRole(role, deployer.address)).to.equal(false);
+        expect(await contract.hasRole(role, multisig.address)).to.equal([ROLES.OPERATOR, ROLES.PAUSER].includes(role));
+      }
+    }
+    expect(await eventManager.treasury()).to.equal(multisig.address);
+  });
+
+  it("Should reject admin changes made directly, even by the multisig", async function () {
+    await expect(eventManager.connect(multisig).setRefundEscrow(stranger.address))
+      .to.be.revertedWithCustomError(eventManager, "AccessControlUnauthorizedAccount")
+      .withArgs(multisig.address, ROLES.PLATFORM_ADMIN);
+  });
+
+  it("Should only execute a proposal once its delay has passed", async function () {
+    const proposal = buildAdminProposal([
+      encodeAdminCall(addresses, "EventManager", "setRefundEscrow", [stranger.address]),
+    ]);
+    await expect(schedule(proposal, DELAY - 1)).to.be.revertedWithCustomError(timelock, "TimelockInsufficientDelay");
+    await schedule(proposal);
+
+    await expect(execute(proposal)).to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+    await time.increase(DELAY);
+    await expect(execute(proposal)).to.emit(eventManager, "RefundEscrowUpdated").withArgs(stranger.address);
+    expect(await eventManager.refundEscrow()).to.equal(stranger.address);
+  });
+
+  it("Should reject proposals and executions from anyone but the multisig", async function () {
+    const proposal = buildAdminProposal([
+      encodeAdminCall(addresses, "EventManager", "setRefundEscrow", [stranger.address]),
+    ]);
+    const proposer = await timelock.PROPOSER_ROLE();
+    await expect(stranger.sendTransaction(scheduleTransaction(addresses.PlatformTimelock!, proposal, DELAY)))
+      .to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount")
+      .withArgs(stranger.address, proposer);
+
+    await schedule(proposal);
+    await time.increase(DELAY);
+    await expect(stranger.sendTransaction(executeTransaction(addresses.PlatformTimelock!, proposal)))
+      .to.be.revertedWithCustomError(timelock, "AccessControlUnauthorizedAccount")
+      .withArgs(stranger.address, await timelock.EXECUTOR_ROLE());
+  });
+
+  it("Should decode queued proposals and track their state", async function () {
+    const rewire = buildAdminProposal(
+      [
+        encodeAdminCall(addresses, "TicketFactory", "setWaitlistManager", [stranger.address]),
+        encodeAdminCall(addresses, "ResaleManager", "setTicketFactory", [stranger.address]),
+      ],
+      { salt: ethers.id("rewire") }
+    );
+    const sweep = buildAdminProposal([encodeAdminCall(addresses, "RefundEscrow", "withdrawStuckFunds", [])]);
+    const fee = buildAdminProposal([encodeAdminCall(addresses, "EventManager", "setPlatformFeePercentage", [7])]);
+    await schedule(rewire);
+    await schedule(sweep);
+    await schedule(fee, DELAY * 2);
+
+    await time.increase(DELAY);
+    await execute(sweep);
+    await multisig.sendTransaction(cancelTransaction(addresses.PlatformTimelock!, fee.id));
+
+    const proposals = await getAdminProposals(timelock, addresses);
+    expect(proposals.map((proposal) => [proposal.id, proposal.state])).to.deep.equal([
+      [rewire.id, "ready"],
+      [sweep.id, "executed"],
+      [fee.id, "cancelled"],
+    ]);
+    expect(proposals[0].salt).to.equal(ethers.id("rewire"));
+    expect(proposals[0].readyAt).to.be.greaterThan(0n);
+    expect(proposals[0].calls.map(describeAdminCall)).to.deep.equal([
+      `TicketFactory.setWaitlistManager(newWaitlistManager=${stranger.address})`,
+      `ResaleManager.setTicketFactory(newTicketFactory=${stranger.address})`,
+    ]);
+    expect(proposals[1].calls[0].signature).to.equal("withdrawStuckFunds()");
+  });
+
+  it("Should sweep stuck escrow funds to the treasury through the timelock", async function () {
+    await setBalance(addresses.RefundEscrow, ethers.parseEther("1"));
+    await setBalance(addresses.ConditionalFundsEscrow, ethers.parseEther("2"));
+    const proposal = buildAdminProposal([
+      encodeAdminCall(addresses, "RefundEscrow", "withdrawStuckFunds", []),
+      encodeAdminCall(addresses, "ConditionalFundsEscrow", "withdrawStuckFunds", []),
+    ]);
+    await schedule(proposal);
+    await time.increase(DELAY);
+
+    await expect(execute(proposal)).to.changeEtherBalances(
+      [multisig, addresses.RefundEscrow, addresses.ConditionalFundsEscrow],
+      [ethers.parseEther("3"), -ethers.parseEther("1"), -ethers.parseEther("2")]
+    );
+  });
+
+  it("Should let the multisig onboard organizers, scanners and keepers without waiting", async function () {
+    await eventManager.connect(multisig).grantRole(ROLES.ORGANIZER, stranger.address);
+    expect(await eventManager.hasRole(ROLES.ORGANIZER, stranger.address)).to.equal(true);
+
+    const ticketFactory = await ethers.getContractAt("TicketFactory", addresses.TicketFactory);
+    await ticketFactory.connect(multisig).grantRole(ROLES.GATE_SCANNER, stranger.address);
+    expect(await ticketFactory.hasRole(ROLES.GATE_SCANNER, stranger.address)).to.equal(true);
+
+    // Making someone else an operator is still an admin change
+    await expect(eventManager.connect(multisig).grantRole(ROLES.OPERATOR, stranger.address))
+      .to.be.revertedWithCustomError(eventManager, "AccessControlUnauthorizedAccount")
+      .withArgs(multisig.address, ROLES.DEFAULT_ADMIN);
+  });
+
+  it("Should still let the multisig pause without waiting", async function () {
+    await expect(eventManager.connect(multisig).pause()).to.emit(eventManager, "Paused");
+    await expect(eventManager.connect(stranger).unpause())
+      .to.be.revertedWithCustomError(eventManager, "AccessControlUnauthorizedAccount")
+      .withArgs(stranger.address, ROLES.PAUSER);
+  });
+});
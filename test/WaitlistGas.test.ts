@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: MIT
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { EventManager, WaitlistFiller, WaitlistManager } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployEventManager } from "../sdk";
+
+describe("Waitlist Gas", function () {
+  // Filling a waitlist with thousands of members takes a while on the in-process network
+  this.timeout(600_000);
+
+  let waitlistManager: WaitlistManager;
+  let eventManager: EventManager;
+  let filler: WaitlistFiller;
+  let owner: SignerWithAddress;
+  let soloBuyer: SignerWithAddress;
+  let headBuyer: SignerWithAddress;
+
+  const ticketPrice = ethers.parseEther("0.1");
+  const eventId = 1;
+  const waitlistSize = 5_000;
+  const batchSize = 50;
+  // Purchases differ only in a few storage slots, so allow well under one cold storage write
+  const tolerance = 5_000;
+
+  async function fillWaitlist(zoneId: number, count: number) {
+    for (let joined = 0; joined < count; joined += batchSize) {
+      await filler.fill(eventId, zoneId, Math.min(batchSize, count - joined));
+    }
+  }
+
+  async function drainWaitlist(zoneId: number, from: number, to: number) {
+    for (let i = from; i < to; i += batchSize) {
+      await filler.drain(eventId, zoneId, i, Math.min(i + batchSize, to));
+    }
+  }
+
+  async function purchaseGas(buyer: SignerWithAddress, zoneId: number): Promise<number> {
+    const tx = await eventManager.connect(buyer).purchaseTicket(eventId, zoneId, { value: ticketPrice });
+    const receipt = await tx.wait();
+    return Number(receipt!.gasUsed);
+  }
+
+  beforeEach(async function () {
+    [owner, soloBuyer, headBuyer] = await ethers.getSigners();
+
+    const WaitlistManager = await ethers.getContractFactory("WaitlistManager");
+    waitlistManager = await WaitlistManager.deploy();
+
+    const TicketFactory = await ethers.getContractFactory("TicketFactory");
+    const ticketFactory = await TicketFactory.deploy(await waitlistManager.getAddress());
+
+    eventManager = await deployEventManager(owner);
+    await eventManager.grantRole(await eventManager.ORGANIZER_ROLE(), owner.address);
+
+    const RefundEscrow = await ethers.getContractFactory("RefundEscrow");
+    const refundEscrow = await RefundEscrow.deploy(await eventManager.getAddress());
+
+    await eventManager.setRefundEscrow(await refundEscrow.getAddress());
+    await eventManager.setTicketFactory(await ticketFactory.getAddress());
+    await eventManager.setWaitlistManager(await waitlistManager.getAddress());
+    await ticketFactory.setEventManager(await eventManager.getAddress());
+    await waitlistManager.setEventManager(await eventManager.getAddress());
+
+    const WaitlistFiller = await ethers.getContractFactory("WaitlistFiller");
+    filler = await WaitlistFiller.deploy(await waitlistManager.getAddress());
+
+    const eventDate = BigInt(await time.latest()) + 7n * 86400n;
+    await eventManager.createEvent("Popular Show", eventDate, ticketPrice, [10n, 10n, 10n], [ticketPrice, ticketPrice, ticketPrice]);
+
+    // The first sale of the event pays for one-off storage writes, so get it out of the way in
+    // zone 0, which nobody waits for
+    await eventManager.purchaseTicket(eventId, 0, { value: ticketPrice });
+
+    // Zone 1 is the baseline: its buyer is the only user on the waitlist
+    await waitlistManager.connect(soloBuyer).joinWaitlist(eventId, 1);
+  });
+
+  it("Should keep purchase gas flat with 5,000 users queued behind the buyer", async function () {
+    await waitlistManager.connect(headBuyer).joinWaitlist(eventId, 2);
+    await fillWaitlist(2, waitlistSize);
+    expect(await waitlistManager.getWaitlistLength(eventId, 2)).to.equal(waitlistSize + 1);
+
+    const baseline = await purchaseGas(soloBuyer, 1);
+    const crowded = await purchaseGas(headBuyer, 2);
+    expect(crowded).to.be.closeTo(baseline, tolerance);
+  });
+
+  it("Should keep purchase gas flat after 5,000 users joined and left ahead of the buyer", async function () {
+    await fillWaitlist(2, waitlistSize);
+    await drainWaitlist(2, 0, waitlistSize);
+    await waitlistManager.connect(headBuyer).joinWaitlist(eventId, 2);
+    expect(await waitlistManager.getNextWaitingUser(eventId, 2)).to.equal(headBuyer.address);
+    expect(await waitlistManager.getWaitlistLength(eventId, 2)).to.equal(1n);
+
+    const baseline = await purchaseGas(soloBuyer, 1);
+    const churned = await purchaseGas(headBuyer, 2);
+    expect(churned).to.be.closeTo(baseline, tolerance);
+  });
+});
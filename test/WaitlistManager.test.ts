@@ -0,0 +1,482 @@
+// SPDX-License-Identifier: MIT
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  ConditionalFundsEscrow,
+  EventManager,
+  RefundEscrow,
+  ResaleManager,
+  TicketFactory,
+  WaitlistManager,
+} from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployEventManager } from "../sdk";
+
+describe("WaitlistManager", function () {
+  let waitlistManager: WaitlistManager;
+  let ticketFactory: TicketFactory;
+  let eventManager: EventManager;
+  let refundEscrow: RefundEscrow;
+  let resaleManager: ResaleManager;
+  let deployer: SignerWithAddress;
+  let organizer: SignerWithAddress;
+  let holder: SignerWithAddress;
+  let waiter1: SignerWithAddress;
+  let waiter2: SignerWithAddress;
+  let outsider: SignerWithAddress;
+
+  const ticketPrice = ethers.parseEther("0.1");
+  const eventId = 1;
+  const zoneId = 0;
+  const offerDuration = 24 * 60 * 60;
+
+  beforeEach(async function () {
+    [deployer, organizer, holder, waiter1, waiter2, outsider] = await ethers.getSigners();
+
+    const WaitlistManager = await ethers.getContractFactory("WaitlistManager");
+    waitlistManager = await WaitlistManager.deploy();
+
+    const TicketFactory = await ethers.getContractFactory("TicketFactory");
+    ticketFactory = await TicketFactory.deploy(await waitlistManager.getAddress());
+
+    eventManager = await deployEventManager(deployer);
+    await eventManager.grantRole(await eventManager.ORGANIZER_ROLE(), organizer.address);
+
+    const RefundEscrow = await ethers.getContractFactory("RefundEscrow");
+    refundEscrow = await RefundEscrow.deploy(await eventManager.getAddress());
+
+    const ResaleManager = await ethers.getContractFactory("ResaleManager");
+    resaleManager = await ResaleManager.deploy(await ticketFactory.getAddress());
+
+    await eventManager.setRefundEscrow(await refundEscrow.getAddress());
+    await eventManager.setTicketFactory(await ticketFactory.getAddress());
+    await eventManager.setWaitlistManager(await waitlistManager.getAddress());
+    await ticketFactory.setEventManager(await eventManager.getAddress());
+    await ticketFactory.setResaleManager(await resaleManager.getAddress());
+    await resaleManager.setWaitlistManager(await waitlistManager.getAddress());
+    await waitlistManager.setEventManager(await eventManager.getAddress());
+    await waitlistManager.setResaleManager(await resaleManager.getAddress());
+
+    // A single-seat zone that sells out to `holder`, with two users waiting behind it
+    const eventDate = BigInt(await time.latest()) + 7n * 86400n;
+    await eventManager.connect(organizer).createEvent("Waitlist Event", eventDate, ticketPrice, [1n], [ticketPrice]);
+    await eventManager.connect(holder).purchaseTicket(eventId, zoneId, { value: ticketPrice });
+    await waitlistManager.connect(waiter1).joinWaitlist(eventId, zoneId);
+    await waitlistManager.connect(waiter2).joinWaitlist(eventId, zoneId);
+  });
+
+  describe("Refunded Seats", function () {
+    it("Should hold a refunded seat for the head of the waitlist and mint it on acceptance", async function () {
+      await expect(refundEscrow.connect(holder).refundPayment(eventId, 1))
+        .to.emit(waitlistManager, "WaitlistPurchaseOffered")
+        .and.to.emit(eventManager, "SeatHeldForWaitlist")
+        .withArgs(eventId, zoneId, 1);
+      expect(await waitlistManager.hasActiveOffer(eventId, zoneId, waiter1.address)).to.be.true;
+
+      // The held seat is not on general sale, not even for the next user in line
+      expect((await eventManager.getZone(eventId, zoneId)).availableSeats).to.equal(0n);
+      await expect(
+        eventManager.connect(waiter2).purchaseTicket(eventId, zoneId, { value: ticketPrice })
+      ).to.be.revertedWith("No seats available in zone");
+
+      const [ticketId, seatNumber, , price] = await waitlistManager.getOffer(eventId, zoneId, waiter1.address);
+      expect(ticketId).to.equal(0n);
+      expect(seatNumber).to.equal(1n);
+      expect(price).to.equal(ticketPrice);
+
+      const accept = waitlistManager.connect(waiter1).completeWaitlistPurchase(eventId, zoneId, { value: ticketPrice * 2n });
+      await expect(accept).to.changeEtherBalances([waiter1, refundEscrow], [-ticketPrice, ticketPrice]);
+      await expect(accept).to.emit(ticketFactory, "WaitlistTicketIssued").withArgs(2, eventId, waiter1.address);
+
+      expect(await ticketFactory.ownerOf(2)).to.equal(waiter1.address);
+      expect(await waitlistManager.isUserWaiting(eventId, zoneId, waiter1.address)).to.be.false;
+      expect(await refundEscrow.getEventBalance(eventId)).to.equal(ticketPrice);
+      expect(await refundEscrow.getOriginalPayer(eventId, 2)).to.equal(waiter1.address);
+    });
+
+    it("Should pass a lapsed offer down the line and reopen the seat when nobody is left", async function () {
+      await refundEscrow.connect(holder).refundPayment(eventId, 1);
+      await expect(
+        waitlistManager.connect(outsider).expireOffer(eventId, zoneId, waiter1.address)
+      ).to.be.revertedWith("The ticket offer for this event and zone has not expired");
+
+      await time.increase(offerDuration + 1);
+      await expect(
+        waitlistManager.connect(waiter1).completeWaitlistPurchase(eventId, zoneId, { value: ticketPrice })
+      ).to.be.revertedWith("The ticket offer for this event and zone has expired");
+      await expect(waitlistManager.connect(outsider).expireOffer(eventId, zoneId, waiter1.address))
+        .to.emit(waitlistManager, "WaitlistOfferExpired")
+        .withArgs(eventId, zoneId, waiter1.address);
+      expect(await waitlistManager.isUserWaiting(eventId, zoneId, waiter1.address)).to.be.false;
+      expect(await waitlistManager.hasActiveOffer(eventId, zoneId, waiter2.address)).to.be.true;
+
+      await time.increase(offerDuration + 1);
+      await waitlistManager.connect(outsider).expireOffer(eventId, zoneId, waiter2.address);
+      expect((await eventManager.getZone(eventId, zoneId)).availableSeats).to.equal(1n);
+      await eventManager.connect(outsider).purchaseTicket(eventId, zoneId, { value: ticketPrice });
+      expect(await ticketFactory.ownerOf(2)).to.equal(outsider.address);
+    });
+
+    it("Should offer added capacity to the waitlist before general sale", async function () {
+      await expect(eventManager.connect(organizer).updateZoneCapacity(eventId, zoneId, 4))
+        .to.emit(eventManager, "SeatHeldForWaitlist")
+        .withArgs(eventId, zoneId, 2)
+        .and.to.emit(eventManager, "SeatHeldForWaitlist")
+        .withArgs(eventId, zoneId, 3);
+      expect(await waitlistManager.hasActiveOffer(eventId, zoneId, waiter1.address)).to.be.true;
+      expect(await waitlistManager.hasActiveOffer(eventId, zoneId, waiter2.address)).to.be.true;
+
+      // Only the seat nobody was waiting for goes on general sale
+      expect((await eventManager.getZone(eventId, zoneId)).availableSeats).to.equal(1n);
+      await eventManager.connect(outsider).purchaseTicket(eventId, zoneId, { value: ticketPrice });
+      await waitlistManager.connect(waiter2).completeWaitlistPurchase(eventId, zoneId, { value: ticketPrice });
+      expect(await eventManager.getTicketCount(eventId, waiter2.address)).to.equal(1n);
+    });
+
+    it("Should number seats added after a shrink past every seat already issued", async function () {
+      await eventManager.connect(organizer).updateZoneCapacity(eventId, zoneId, 3);
+      await waitlistManager.connect(waiter1).completeWaitlistPurchase(eventId, zoneId, { value: ticketPrice });
+      await waitlistManager.connect(waiter2).completeWaitlistPurchase(eventId, zoneId, { value: ticketPrice });
+
+      // Seat 1 goes back on sale with nobody waiting, then the zone shrinks by it
+      await refundEscrow.connect(holder).refundPayment(eventId, 1);
+      await eventManager.connect(organizer).updateZoneCapacity(eventId, zoneId, 2);
+      expect((await eventManager.getZone(eventId, zoneId)).availableSeats).to.equal(0n);
+
+      await waitlistManager.connect(outsider).joinWaitlist(eventId, zoneId);
+      await expect(eventManager.connect(organizer).updateZoneCapacity(eventId, zoneId, 3))
+        .to.emit(eventManager, "SeatHeldForWaitlist")
+        .withArgs(eventId, zoneId, 4);
+      await waitlistManager.connect(outsider).completeWaitlistPurchase(eventId, zoneId, { value: ticketPrice });
+
+      const seatNumbers = [];
+      for (const ticketId of [2, 3, 4]) {
+        seatNumbers.push((await ticketFactory.getTicketDetails(ticketId))[3]);
+      }
+      expect(seatNumbers).to.deep.equal([2n, 3n, 4n]);
+    });
+
+    it("Should offer a bounded batch of added seats per call and leave the rest for offerAddedSeats", async function () {
+      const waiters = (await ethers.getSigners()).slice(6, 16);
+      for (const waiter of waiters) {
+        await waitlistManager.connect(waiter).joinWaitlist(eventId, zoneId);
+      }
+      const batch = await eventManager.MAX_SEATS_OFFERED_PER_CALL();
+      expect(batch).to.equal(10n);
+
+      // Twelve users are waiting for the thirteen added seats
+      await eventManager.connect(organizer).updateZoneCapacity(eventId, zoneId, 14);
+      expect(await waitlistManager.getOfferHolders(eventId, zoneId)).to.have.lengthOf(10);
+      expect(await eventManager.getSeatsAwaitingOffer(eventId, zoneId)).to.equal(3n);
+      expect((await eventManager.getZone(eventId, zoneId)).availableSeats).to.equal(0n);
+
+      await expect(eventManager.connect(outsider).offerAddedSeats(eventId, zoneId))
+        .to.emit(eventManager, "SeatHeldForWaitlist")
+        .withArgs(eventId, zoneId, 12)
+        .and.to.emit(eventManager, "SeatHeldForWaitlist")
+        .withArgs(eventId, zoneId, 13);
+      expect(await waitlistManager.hasActiveOffer(eventId, zoneId, waiters[9].address)).to.be.true;
+      expect(await eventManager.getSeatsAwaitingOffer(eventId, zoneId)).to.equal(0n);
+      expect((await eventManager.getZone(eventId, zoneId)).availableSeats).to.equal(1n);
+
+      await eventManager.connect(outsider).purchaseTicket(eventId, zoneId, { value: ticketPrice });
+      expect((await ticketFactory.getTicketDetails(2))[3]).to.equal(14n);
+    });
+
+    it("Should pass the offer on when its holder leaves the waitlist", async function () {
+      await refundEscrow.connect(holder).refundPayment(eventId, 1);
+      await waitlistManager.connect(waiter1).leaveWaitlist(eventId, zoneId);
+
+      expect(await waitlistManager.hasActiveOffer(eventId, zoneId, waiter2.address)).to.be.true;
+      expect(await waitlistManager.getOfferHolders(eventId, zoneId)).to.deep.equal([waiter2.address]);
+    });
+  });
+
+  describe("Resale Listings", function () {
+    it("Should reserve a new listing for the head of the waitlist and pay the seller on acceptance", async function () {
+      await expect(resaleManager.connect(holder).listTicketForResale(1, ticketPrice))
+        .to.emit(waitlistManager, "WaitlistPurchaseOffered");
+      expect(await waitlistManager.isListingReserved(1)).to.be.true;
+
+      await expect(
+        resaleManager.connect(outsider).purchaseResaleTicket(1, { value: ticketPrice })
+      ).to.be.revertedWith("Listing is reserved for a waitlist offer");
+
+      const platformFee = (ticketPrice * 500n) / 10_000n;
+      const accept = waitlistManager.connect(waiter1).completeWaitlistPurchase(eventId, zoneId, { value: ticketPrice });
+      await expect(accept).to.changeEtherBalances([waiter1, holder], [-ticketPrice, ticketPrice - platformFee]);
+      await expect(accept)
+        .to.emit(resaleManager, "TicketResold")
+        .withArgs(1, holder.address, waiter1.address, ticketPrice);
+
+      expect(await ticketFactory.ownerOf(1)).to.equal(waiter1.address);
+      expect(await waitlistManager.isListingReserved(1)).to.be.false;
+      expect(await waitlistManager.isUserWaiting(eventId, zoneId, waiter1.address)).to.be.false;
+    });
+
+    it("Should withdraw the offer when the listing is cancelled", async function () {
+      await resaleManager.connect(holder).listTicketForResale(1, ticketPrice);
+      await expect(resaleManager.connect(holder).cancelResaleListing(1))
+        .to.emit(waitlistManager, "WaitlistOfferWithdrawn")
+        .withArgs(eventId, zoneId, waiter1.address);
+
+      expect(await waitlistManager.hasActiveOffer(eventId, zoneId, waiter1.address)).to.be.false;
+      expect(await waitlistManager.getNextWaitingUser(eventId, zoneId)).to.equal(waiter1.address);
+    });
+
+    it("Should drop a lapsed offer holder when someone else buys the listing", async function () {
+      await resaleManager.connect(holder).listTicketForResale(1, ticketPrice);
+      await time.increase(offerDuration + 1);
+
+      await expect(resaleManager.connect(outsider).purchaseResaleTicket(1, { value: ticketPrice }))
+        .to.emit(waitlistManager, "WaitlistOfferExpired")
+        .withArgs(eventId, zoneId, waiter1.address)
+        .and.not.to.emit(waitlistManager, "WaitlistOfferWithdrawn");
+
+      expect(await ticketFactory.ownerOf(1)).to.equal(outsider.address);
+      expect(await waitlistManager.isUserWaiting(eventId, zoneId, waiter1.address)).to.be.false;
+      expect(await waitlistManager.getOfferHolders(eventId, zoneId)).to.deep.equal([]);
+      expect(await waitlistManager.getNextWaitingUser(eventId, zoneId)).to.equal(waiter2.address);
+      expect(await waitlistManager.getWaitlistLength(eventId, zoneId)).to.equal(1n);
+    });
+
+    it("Should open the listing to every buyer once the waitlist is exhausted", async function () {
+      await resaleManager.connect(holder).listTicketForResale(1, ticketPrice);
+      await time.increase(offerDuration + 1);
+      await waitlistManager.expireOffer(eventId, zoneId, waiter1.address);
+      await time.increase(offerDuration + 1);
+      await waitlistManager.expireOffer(eventId, zoneId, waiter2.address);
+
+      await resaleManager.connect(outsider).purchaseResaleTicket(1, { value: ticketPrice });
+      expect(await ticketFactory.ownerOf(1)).to.equal(outsider.address);
+    });
+  });
+
+  describe("Queue Order", function () {
+    it("Should close the gap when a user leaves from the middle of the queue", async function () {
+      await waitlistManager.connect(outsider).joinWaitlist(eventId, zoneId);
+      await waitlistManager.connect(waiter2).leaveWaitlist(eventId, zoneId);
+
+      expect(await waitlistManager.getWaitlistLength(eventId, zoneId)).to.equal(2n);
+      expect(await waitlistManager.getWaitlistPosition(eventId, zoneId, outsider.address)).to.equal(2n);
+
+      await waitlistManager.connect(waiter2).joinWaitlist(eventId, zoneId);
+      expect(await waitlistManager.getWaitlistPosition(eventId, zoneId, waiter2.address)).to.equal(3n);
+      expect(await waitlistManager.getNextWaitingUser(eventId, zoneId)).to.equal(waiter1.address);
+    });
+
+    it("Should keep offer holders ahead and put a withdrawn offer back in its place", async function () {
+      await waitlistManager.connect(outsider).joinWaitlist(eventId, zoneId);
+      await resaleManager.connect(holder).listTicketForResale(1, ticketPrice);
+
+      // waiter1 holds the offer and no longer counts as waiting for the next seat
+      expect(await waitlistManager.getWaitlistLength(eventId, zoneId)).to.equal(2n);
+      expect(await waitlistManager.getNextWaitingUser(eventId, zoneId)).to.equal(waiter2.address);
+      expect(await waitlistManager.getWaitlistPosition(eventId, zoneId, waiter1.address)).to.equal(1n);
+      expect(await waitlistManager.getWaitlistPosition(eventId, zoneId, outsider.address)).to.equal(3n);
+
+      await resaleManager.connect(holder).cancelResaleListing(1);
+      expect(await waitlistManager.getOfferHolders(eventId, zoneId)).to.deep.equal([]);
+      expect(await waitlistManager.getWaitlistLength(eventId, zoneId)).to.equal(3n);
+      expect(await waitlistManager.getWaitlistPosition(eventId, zoneId, waiter1.address)).to.equal(1n);
+      expect(await waitlistManager.getWaitlistPosition(eventId, zoneId, waiter2.address)).to.equal(2n);
+    });
+  });
+
+  describe("Deposits", function () {
+    const depositEventId = 2;
+    const deposit = ethers.parseEther("0.02");
+    const forfeitBps = 2_500n;
+    let fundsEscrow: ConditionalFundsEscrow;
+    let depositEventDate: bigint;
+
+    beforeEach(async function () {
+      const ConditionalFundsEscrow = await ethers.getContractFactory("ConditionalFundsEscrow");
+      fundsEscrow = await ConditionalFundsEscrow.deploy(await eventManager.getAddress());
+      await fundsEscrow.setWaitlistManager(await waitlistManager.getAddress());
+      await waitlistManager.setFundsEscrow(await fundsEscrow.getAddress());
+
+      depositEventDate = BigInt(await time.latest()) + 7n * 86400n;
+      await eventManager.connect(organizer).createEvent("Deposit Event", depositEventDate, ticketPrice, [1n], [ticketPrice]);
+      await eventManager.connect(holder).purchaseTicket(depositEventId, zoneId, { value: ticketPrice });
+      await waitlistManager.connect(organizer).setWaitlistDeposit(depositEventId, deposit, forfeitBps);
+    });
+
+    it("Should only let the organizer set the deposit", async function () {
+      await expect(
+        waitlistManager.connect(outsider).setWaitlistDeposit(depositEventId, deposit, forfeitBps)
+      ).to.be.revertedWith("Caller is not the event organizer");
+      await expect(
+        waitlistManager.connect(organizer).setWaitlistDeposit(depositEventId, deposit, 10_001)
+      ).to.be.revertedWith("Forfeit exceeds the deposit");
+      expect(await waitlistManager.getDepositTerms(depositEventId)).to.deep.equal([deposit, forfeitBps]);
+    });
+
+    it("Should hold the deposit in escrow and refund it in full on leaving", async function () {
+      await expect(
+        waitlistManager.connect(waiter1).joinWaitlist(depositEventId, zoneId)
+      ).to.be.revertedWith("Incorrect waitlist deposit");
+
+      await expect(
+        waitlistManager.connect(waiter1).joinWaitlist(depositEventId, zoneId, { value: deposit })
+      ).to.changeEtherBalances([waiter1, fundsEscrow], [-deposit, deposit]);
+      expect(await waitlistManager.getDeposit(depositEventId, zoneId, waiter1.address)).to.equal(deposit);
+
+      const leave = waitlistManager.connect(waiter1).leaveWaitlist(depositEventId, zoneId);
+      await expect(leave).to.changeEtherBalances([waiter1, fundsEscrow], [deposit, -deposit]);
+      await expect(leave)
+        .to.emit(fundsEscrow, "WaitlistDepositRefunded")
+        .withArgs(depositEventId, zoneId, waiter1.address, deposit);
+      expect(await fundsEscrow.totalDepositsHeld()).to.equal(0n);
+    });
+
+    it("Should put the deposit towards the price of an accepted offer", async function () {
+      await waitlistManager.connect(waiter1).joinWaitlist(depositEventId, zoneId, { value: deposit });
+      await refundEscrow.connect(holder).refundPayment(depositEventId, 2);
+
+      await expect(
+        waitlistManager.connect(waiter1).completeWaitlistPurchase(depositEventId, zoneId, { value: ticketPrice - deposit - 1n })
+      ).to.be.revertedWith("Insufficient payment");
+
+      const accept = waitlistManager
+        .connect(waiter1)
+        .completeWaitlistPurchase(depositEventId, zoneId, { value: ticketPrice });
+      await expect(accept).to.changeEtherBalances(
+        [waiter1, fundsEscrow, refundEscrow],
+        [-(ticketPrice - deposit), -deposit, ticketPrice]
+      );
+      await expect(accept)
+        .to.emit(fundsEscrow, "WaitlistDepositApplied")
+        .withArgs(depositEventId, zoneId, waiter1.address, deposit);
+      expect(await ticketFactory.ownerOf(3)).to.equal(waiter1.address);
+      expect(await ethers.provider.getBalance(await waitlistManager.getAddress())).to.equal(0n);
+    });
+
+    it("Should forfeit part of the deposit to the organizer when an offer lapses", async function () {
+      await waitlistManager.connect(waiter1).joinWaitlist(depositEventId, zoneId, { value: deposit });
+      await refundEscrow.connect(holder).refundPayment(depositEventId, 2);
+      await time.increase(offerDuration + 1);
+
+      const forfeited = (deposit * forfeitBps) / 10_000n;
+      const expire = waitlistManager.connect(outsider).expireOffer(depositEventId, zoneId, waiter1.address);
+      await expect(expire).to.changeEtherBalances([organizer, waiter1], [forfeited, deposit - forfeited]);
+      await expect(expire)
+        .to.emit(fundsEscrow, "WaitlistDepositForfeited")
+        .withArgs(depositEventId, zoneId, waiter1.address, forfeited, deposit - forfeited);
+    });
+
+    it("Should let anyone refund users still waiting once the event has passed", async function () {
+      await waitlistManager.connect(waiter1).joinWaitlist(depositEventId, zoneId, { value: deposit });
+      await expect(
+        waitlistManager.connect(outsider).refundUnservedDeposit(depositEventId, zoneId, waiter1.address)
+      ).to.be.revertedWith("Event has not concluded or been cancelled");
+
+      await time.increaseTo(depositEventDate + 1n);
+      await expect(
+        waitlistManager.connect(outsider).refundUnservedDeposit(depositEventId, zoneId, waiter1.address)
+      ).to.changeEtherBalance(waiter1, deposit);
+      expect(await waitlistManager.isUserWaiting(depositEventId, zoneId, waiter1.address)).to.be.false;
+    });
+
+    it("Should forfeit instead of refunding in full when the user's offer had lapsed", async function () {
+      await waitlistManager.connect(waiter1).joinWaitlist(depositEventId, zoneId, { value: deposit });
+      await refundEscrow.connect(holder).refundPayment(depositEventId, 2);
+      await time.increaseTo(depositEventDate + 1n);
+
+      const forfeited = (deposit * forfeitBps) / 10_000n;
+      const refund = waitlistManager.connect(outsider).refundUnservedDeposit(depositEventId, zoneId, waiter1.address);
+      await expect(refund).to.changeEtherBalances([organizer, waiter1], [forfeited, deposit - forfeited]);
+      await expect(refund)
+        .to.emit(waitlistManager, "WaitlistOfferExpired")
+        .withArgs(depositEventId, zoneId, waiter1.address);
+      expect(await fundsEscrow.totalDepositsHeld()).to.equal(0n);
+    });
+
+    it("Should not pass an offer on or reopen its seat once the event is over", async function () {
+      await waitlistManager.connect(waiter1).joinWaitlist(depositEventId, zoneId, { value: deposit });
+      await waitlistManager.connect(waiter2).joinWaitlist(depositEventId, zoneId, { value: deposit });
+      await refundEscrow.connect(holder).refundPayment(depositEventId, 2);
+      await eventManager.connect(organizer).cancelEvent(depositEventId);
+
+      const refund = waitlistManager.connect(outsider).refundUnservedDeposit(depositEventId, zoneId, waiter1.address);
+      await expect(refund).to.not.emit(waitlistManager, "WaitlistPurchaseOffered");
+      await expect(refund).to.changeEtherBalance(waiter1, deposit);
+      expect(await waitlistManager.hasActiveOffer(depositEventId, zoneId, waiter2.address)).to.be.false;
+      expect((await eventManager.getZone(depositEventId, zoneId)).availableSeats).to.equal(0n);
+    });
+
+    it("Should not reopen a lapsed offer's seat once the event has passed", async function () {
+      await waitlistManager.connect(waiter1).joinWaitlist(depositEventId, zoneId, { value: deposit });
+      await refundEscrow.connect(holder).refundPayment(depositEventId, 2);
+      await time.increaseTo(depositEventDate + 1n);
+
+      await waitlistManager.connect(outsider).expireOffer(depositEventId, zoneId, waiter1.address);
+      expect(await waitlistManager.isUserWaiting(depositEventId, zoneId, waiter1.address)).to.be.false;
+      expect((await eventManager.getZone(depositEventId, zoneId)).availableSeats).to.equal(0n);
+    });
+
+    it("Should only sweep funds that no deposit or pending payment is owed", async function () {
+      await waitlistManager.connect(waiter1).joinWaitlist(depositEventId, zoneId, { value: deposit });
+      await fundsEscrow.connect(outsider).depositPayment(depositEventId, 1, { value: ticketPrice });
+      expect(await fundsEscrow.totalPaymentsHeld()).to.equal(ticketPrice);
+
+      const escrowAddress = await fundsEscrow.getAddress();
+      const stuck = ethers.parseEther("1");
+      await setBalance(escrowAddress, (await ethers.provider.getBalance(escrowAddress)) + stuck);
+      await expect(fundsEscrow.connect(deployer).withdrawStuckFunds()).to.changeEtherBalances(
+        [await eventManager.treasury(), escrowAddress],
+        [stuck, -stuck]
+      );
+
+      await expect(
+        fundsEscrow.connect(outsider).refundPayment(depositEventId, 1)
+      ).to.changeEtherBalance(outsider, ticketPrice);
+      expect(await fundsEscrow.totalPaymentsHeld()).to.equal(0n);
+      expect(await ethers.provider.getBalance(escrowAddress)).to.equal(deposit);
+    });
+
+    it("Should report keeper removals as leaving the waitlist", async function () {
+      await waitlistManager.connect(waiter1).joinWaitlist(depositEventId, zoneId, { value: deposit });
+      await waitlistManager.grantRole(await waitlistManager.KEEPER_ROLE(), outsider.address);
+
+      const clear = waitlistManager.connect(outsider).clearWaitlistForUser(depositEventId, zoneId, waiter1.address);
+      await expect(clear).to.changeEtherBalance(waiter1, deposit);
+      await expect(clear).to.emit(waitlistManager, "LeftWaitlist").withArgs(depositEventId, zoneId, waiter1.address);
+    });
+
+    it("Should forfeit a lapsed offer when a keeper or admin clears the user", async function () {
+      await waitlistManager.connect(waiter1).joinWaitlist(depositEventId, zoneId, { value: deposit });
+      await waitlistManager.connect(waiter2).joinWaitlist(depositEventId, zoneId, { value: deposit });
+      await waitlistManager.grantRole(await waitlistManager.KEEPER_ROLE(), outsider.address);
+      await refundEscrow.connect(holder).refundPayment(depositEventId, 2);
+      await time.increase(offerDuration + 1);
+
+      const forfeited = (deposit * forfeitBps) / 10_000n;
+      const clear = waitlistManager.connect(outsider).clearWaitlistForUser(depositEventId, zoneId, waiter1.address);
+      await expect(clear).to.changeEtherBalances([organizer, waiter1], [forfeited, deposit - forfeited]);
+      await expect(clear)
+        .to.emit(waitlistManager, "WaitlistOfferExpired")
+        .withArgs(depositEventId, zoneId, waiter1.address);
+      expect(await waitlistManager.hasActiveOffer(depositEventId, zoneId, waiter2.address)).to.be.true;
+
+      await time.increase(offerDuration + 1);
+      const adminClear = waitlistManager.connect(deployer).clearWaitlistEntry(depositEventId, zoneId, waiter2.address);
+      await expect(adminClear).to.changeEtherBalances([organizer, waiter2], [forfeited, deposit - forfeited]);
+      await expect(adminClear).to.not.emit(waitlistManager, "LeftWaitlist");
+      expect(await fundsEscrow.totalDepositsHeld()).to.equal(0n);
+    });
+  });
+
+  it("Should only accept inventory hooks from the wired contracts", async function () {
+    await expect(
+      waitlistManager.connect(outsider).offerReleasedSeat(eventId, zoneId, 1)
+    ).to.be.revertedWith("Caller is not the EventManager");
+    await expect(
+      waitlistManager.connect(outsider).offerListing(eventId, zoneId, 1)
+    ).to.be.revertedWith("Caller is not the ResaleManager");
+    await expect(
+      eventManager.connect(outsider).releaseHeldSeat(eventId, zoneId, 1)
+    ).to.be.revertedWith("Caller is not the WaitlistManager");
+  });
+});
@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { EventManager, RefundEscrow, ResaleManager, TicketFactory } from "../../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployEventManager } from "../../sdk";
+
+describe("Escrowed purchases: cancel then refund", function () {
+  let eventManager: EventManager;
+  let ticketFactory: TicketFactory;
+  let refundEscrow: RefundEscrow;
+  let resaleManager: ResaleManager;
+
+  let owner: SignerWithAddress;
+  let organizer: SignerWithAddress;
+  let buyer1: SignerWithAddress;
+  let buyer2: SignerWithAddress;
+  let buyer3: SignerWithAddress;
+
+  const BASE_PRICE = ethers.parseEther("0.1");
+  const ZONE_PRICES = [ethers.parseEther("0.1"), ethers.parseEther("0.3")];
+  const eventId = 1n;
+  let eventDate: bigint;
+
+  beforeEach(async function () {
+    [owner, organizer, buyer1, buyer2, buyer3] = await ethers.getSigners();
+
+    const WaitlistManager = await ethers.getContractFactory("WaitlistManager");
+    const waitlistManager = await WaitlistManager.deploy();
+
+    const TicketFactory = await ethers.getContractFactory("TicketFactory");
+    ticketFactory = await TicketFactory.deploy(await waitlistManager.getAddress());
+
+    eventManager = await deployEventManager(owner);
+    await eventManager.grantRole(await eventManager.ORGANIZER_ROLE(), organizer.address);
+
+    const RefundEscrow = await ethers.getContractFactory("RefundEscrow");
+    refundEscrow = await RefundEscrow.deploy(await eventManager.getAddress());
+
+    await eventManager.setRefundEscrow(await refundEscrow.getAddress());
+    await eventManager.setTicketFactory(await ticketFactory.getAddress());
+    await ticketFactory.setEventManager(await eventManager.getAddress());
+
+    const ResaleManager = await ethers.getContractFactory("ResaleManager");
+    resaleManager = await ResaleManager.deploy(await ticketFactory.getAddress());
+    await ticketFactory.setResaleManager(await resaleManager.getAddress());
+
+    eventDate = BigInt(await time.latest()) + 186400n;
+    await eventManager.connect(organizer).createEvent("Escrowed", eventDate, BASE_PRICE, [10n, 10n], ZONE_PRICES);
+  });
+
+  it("should hold every payment in escrow and refund all of it after cancellation", async function () {
+    const ownerBalance = await ethers.provider.getBalance(owner.address);
+
+    await eventManager.connect(buyer1).purchaseTicket(eventId, 0, { value: ZONE_PRICES[0] });
+    // Overpayment is returned, only the zone price is escrowed
+    await eventManager.connect(buyer2).purchaseTicket(eventId, 1, { value: ZONE_PRICES[1] * 2n });
+    await eventManager.connect(organizer).issueTicket(eventId, 0, buyer3.address);
+
+    const escrowed = ZONE_PRICES[0] + ZONE_PRICES[1];
+    expect(await ethers.provider.getBalance(await refundEscrow.getAddress())).to.equal(escrowed);
+    expect(await ethers.provider.getBalance(await eventManager.getAddress())).to.equal(0n);
+    expect(await ethers.provider.getBalance(owner.address)).to.equal(ownerBalance);
+
+    await eventManager.connect(organizer).cancelEvent(eventId);
+
+    await expect(refundEscrow.connect(buyer1).processEventCancellationRefund(eventId, 1)).to.changeEtherBalance(
+      buyer1,
+      ZONE_PRICES[0]
+    );
+    await expect(refundEscrow.connect(buyer2).processEventCancellationRefund(eventId, 2)).to.changeEtherBalance(
+      buyer2,
+      ZONE_PRICES[1]
+    );
+    // Complimentary tickets were never paid for
+    await expect(
+      refundEscrow.connect(buyer3).processEventCancellationRefund(eventId, 3)
+    ).to.be.revertedWith("No payment held for this ticket");
+
+    expect(await ethers.provider.getBalance(await refundEscrow.getAddress())).to.equal(0n);
+    expect(await refundEscrow.getEventBalance(eventId)).to.equal(0n);
+    expect(await ethers.provider.getBalance(owner.address)).to.equal(ownerBalance);
+  });
+
+  it("should refund the holder who bought the ticket on resale", async function () {
+    await eventManager.connect(buyer1).purchaseTicket(eventId, 0, { value: ZONE_PRICES[0] });
+    await resaleManager.connect(buyer1).listTicketForResale(1, ZONE_PRICES[0]);
+    await resaleManager.connect(buyer2).purchaseResaleTicket(1, { value: ZONE_PRICES[0] });
+
+    await eventManager.connect(organizer).cancelEvent(eventId);
+
+    await expect(
+      refundEscrow.connect(buyer1).processEventCancellationRefund(eventId, 1)
+    ).to.be.revertedWith("Caller is not the owner of the ticket");
+    await expect(refundEscrow.connect(buyer2).processEventCancellationRefund(eventId, 1)).to.changeEtherBalance(
+      buyer2,
+      ZONE_PRICES[0]
+    );
+  });
+
+  it("should block voluntary refunds and settlement once the event is cancelled", async function () {
+    await eventManager.connect(buyer1).purchaseTicket(eventId, 0, { value: ZONE_PRICES[0] });
+    await eventManager.connect(organizer).cancelEvent(eventId);
+
+    await expect(
+      refundEscrow.connect(buyer1).refundPayment(eventId, 1)
+    ).to.be.revertedWith("Use the event cancellation refund for a cancelled event");
+
+    await time.increaseTo(eventDate + 1n);
+    await expect(
+      eventManager.connect(organizer).withdrawEventRevenue(eventId)
+    ).to.be.revertedWith("Event cancelled");
+
+    // Holders can still claim after the original date has passed
+    await expect(refundEscrow.connect(buyer1).processEventCancellationRefund(eventId, 1)).to.changeEtherBalance(
+      buyer1,
+      ZONE_PRICES[0]
+    );
+  });
+
+  it("should settle only what is left after voluntary refunds", async function () {
+    await eventManager.connect(buyer1).purchaseTicket(eventId, 0, { value: ZONE_PRICES[0] });
+    await eventManager.connect(buyer2).purchaseTicket(eventId, 1, { value: ZONE_PRICES[1] });
+    await refundEscrow.connect(buyer1).refundPayment(eventId, 1);
+
+    await time.increaseTo(eventDate + 1n);
+    await expect(
+      refundEscrow.connect(buyer2).refundPayment(eventId, 2)
+    ).to.be.revertedWith("Cannot refund a ticket after the event has concluded");
+
+    const fee = (ZONE_PRICES[1] * 5n) / 100n;
+    await expect(eventManager.connect(organizer).withdrawEventRevenue(eventId)).to.changeEtherBalances(
+      [organizer, owner, refundEscrow],
+      [ZONE_PRICES[1] - fee, fee, -ZONE_PRICES[1]]
+    );
+  });
+});
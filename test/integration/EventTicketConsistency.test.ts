@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { EventManager, TicketFactory, WaitlistManager } from "../../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployEventManager } from "../../sdk";
+
+describe("EventManager and TicketFactory consistency", function () {
+  let eventManager: EventManager;
+  let ticketFactory: TicketFactory;
+  let waitlistManager: WaitlistManager;
+
+  let owner: SignerWithAddress;
+  let organizer: SignerWithAddress;
+  let buyers: SignerWithAddress[];
+
+  const BASE_PRICE = ethers.parseEther("0.1");
+  const ZONE_CAPACITIES = [3n, 2n];
+  const ZONE_PRICES = [ethers.parseEther("0.1"), ethers.parseEther("0.25")];
+  const eventId = 1n;
+
+  beforeEach(async function () {
+    [owner, organizer, ...buyers] = await ethers.getSigners();
+
+    const WaitlistManager = await ethers.getContractFactory("WaitlistManager");
+    waitlistManager = await WaitlistManager.deploy();
+    await waitlistManager.waitForDeployment();
+
+    const TicketFactory = await ethers.getContractFactory("TicketFactory");
+    ticketFactory = await TicketFactory.deploy(await waitlistManager.getAddress());
+    await ticketFactory.waitForDeployment();
+
+    eventManager = await deployEventManager(owner);
+    await eventManager.grantRole(await eventManager.ORGANIZER_ROLE(), organizer.address);
+    await eventManager.waitForDeployment();
+
+    const RefundEscrow = await ethers.getContractFactory("RefundEscrow");
+    const refundEscrow = await RefundEscrow.deploy(await eventManager.getAddress());
+
+    await eventManager.setRefundEscrow(await refundEscrow.getAddress());
+    await eventManager.setTicketFactory(await ticketFactory.getAddress());
+    await ticketFactory.setEventManager(await eventManager.getAddress());
+
+    const eventDate = BigInt(await time.latest()) + 186400n;
+    await eventManager.connect(organizer).createEvent("Consistency", eventDate, BASE_PRICE, ZONE_CAPACITIES, ZONE_PRICES);
+  });
+
+  async function assertConsistent() {
+    let sold = 0n;
+    let expectedRevenue = 0n;
+    const fee = await eventManager.platformFeePercentage();
+
+    for (let zoneId = 0n; zoneId < BigInt(ZONE_CAPACITIES.length); zoneId++) {
+      const zone = await eventManager.getZone(eventId, zoneId);
+      sold += zone.capacity - zone.availableSeats;
+    }
+
+    const minted = await ticketFactory.queryFilter(ticketFactory.filters.TicketMinted());
+    expect(BigInt(minted.length)).to.equal(sold);
+
+    const seatsByZone = new Map<bigint, bigint[]>();
+    for (const { args } of minted) {
+      const [ticketEventId, price, , seatNumber, , , , zoneId] = await ticketFactory.getTicketDetails(args.tokenId);
+      expect(ticketEventId).to.equal(eventId);
+      expect(zoneId).to.equal(args.zoneId);
+      expect(price).to.equal(args.price);
+      expect(await eventManager.hasTicket(eventId, await ticketFactory.ownerOf(args.tokenId))).to.be.true;
+      expectedRevenue += price - (price * fee) / 100n;
+      seatsByZone.set(zoneId, [...(seatsByZone.get(zoneId) ?? []), seatNumber]);
+    }
+
+    // Seats are numbered 1..sold within each zone, with no gaps or duplicates
+    for (const [zoneId, seats] of seatsByZone) {
+      const zone = await eventManager.getZone(eventId, zoneId);
+      const expected = Array.from({ length: Number(zone.capacity - zone.availableSeats) }, (_, i) => BigInt(i + 1));
+      expect([...seats].sort((a, b) => Number(a - b))).to.deep.equal(expected);
+    }
+
+    expect(await eventManager.getEventRevenue(eventId)).to.equal(expectedRevenue);
+  }
+
+  it("should mint exactly one NFT per seat sold across zones", async function () {
+    await eventManager.connect(buyers[0]).purchaseTicket(eventId, 0, { value: ZONE_PRICES[0] });
+    await eventManager.connect(buyers[1]).purchaseTicket(eventId, 1, { value: ZONE_PRICES[1] });
+    await eventManager.connect(buyers[2]).purchaseTicket(eventId, 0, { value: ZONE_PRICES[0] });
+    await eventManager.connect(organizer).issueTicket(eventId, 1, buyers[3].address);
+
+    await assertConsistent();
+    expect(await ticketFactory.ownerOf(4)).to.equal(buyers[3].address);
+  });
+
+  it("should keep seat counts and supply unchanged when a mint is rejected", async function () {
+    await eventManager.connect(buyers[0]).purchaseTicket(eventId, 0, { value: ZONE_PRICES[0] });
+    await waitlistManager.connect(buyers[1]).joinWaitlist(eventId, 0);
+
+    await expect(
+      eventManager.connect(buyers[2]).purchaseTicket(eventId, 0, { value: ZONE_PRICES[0] })
+    ).to.be.revertedWith("Must respect waitlist priority");
+    await expect(
+      eventManager.connect(buyers[0]).purchaseTicket(eventId, 1, { value: ZONE_PRICES[1] })
+    ).to.be.revertedWith("Already purchased ticket");
+
+    expect((await eventManager.getZone(eventId, 0)).availableSeats).to.equal(ZONE_CAPACITIES[0] - 1n);
+    await assertConsistent();
+
+    await eventManager.connect(buyers[1]).purchaseTicket(eventId, 0, { value: ZONE_PRICES[0] });
+    await assertConsistent();
+  });
+
+  it("should sell out a zone exactly at capacity", async function () {
+    for (let i = 0; i < Number(ZONE_CAPACITIES[1]); i++) {
+      await eventManager.connect(buyers[i]).purchaseTicket(eventId, 1, { value: ZONE_PRICES[1] });
+    }
+
+    await expect(
+      eventManager.connect(buyers[5]).purchaseTicket(eventId, 1, { value: ZONE_PRICES[1] })
+    ).to.be.revertedWith("No seats available in zone");
+    await expect(
+      eventManager.connect(organizer).issueTicket(eventId, 1, buyers[6].address)
+    ).to.be.revertedWith("No seats available in zone");
+
+    await assertConsistent();
+  });
+
+  it("should not mint without a wired TicketFactory or outside the EventManager", async function () {
+    const unwired = await deployEventManager(owner);
+    await unwired.grantRole(await unwired.ORGANIZER_ROLE(), organizer.address);
+    const RefundEscrow = await ethers.getContractFactory("RefundEscrow");
+    await unwired.setRefundEscrow(await (await RefundEscrow.deploy(await unwired.getAddress())).getAddress());
+    const eventDate = BigInt(await time.latest()) + 186400n;
+    await unwired.connect(organizer).createEvent("Unwired", eventDate, BASE_PRICE, [1n], [BASE_PRICE]);
+
+    await expect(
+      unwired.connect(buyers[0]).purchaseTicket(1, 0, { value: BASE_PRICE })
+    ).to.be.revertedWith("TicketFactory not set");
+    await expect(
+      ticketFactory.connect(owner).mintTicket(owner.address, eventId, 0, 1, 0)
+    ).to.be.revertedWith("Caller is not the EventManager");
+  });
+});
@@ -1,14 +1,16 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { EventManager, TicketFactory, WaitlistManager, RefundEscrow } from "../typechain-types";
+import { EventManager, TicketFactory, WaitlistManager, RefundEscrow, ResaleManager } from "../../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployEventManager } from "../../sdk";
 
 describe("Ticketing System Integration", function () {
   let eventManager: EventManager;
   let ticketFactory: TicketFactory;
   let waitlistManager: WaitlistManager;
   let refundEscrow: RefundEscrow;
+  let resaleManager: ResaleManager;
   
   let owner: SignerWithAddress;
   let organizer: SignerWithAddress;
@@ -35,8 +37,8 @@ describe("Ticketing System Integration", function () {
     ticketFactory = await TicketFactory.deploy(await waitlistManager.getAddress());
     await ticketFactory.waitForDeployment();
     
-    const EventManager = await ethers.getContractFactory("EventManager");
-    eventManager = await EventManager.deploy();
+    eventManager = await deployEventManager(owner);
+    await eventManager.grantRole(await eventManager.ORGANIZER_ROLE(), organizer.address);
     await eventManager.waitForDeployment();
     
     const RefundEscrow = await ethers.getContractFactory("RefundEscrow");
@@ -44,6 +46,13 @@ describe("Ticketing System Integration", function () {
     await refundEscrow.waitForDeployment();
     
     await eventManager.setRefundEscrow(await refundEscrow.getAddress());
+    await eventManager.setTicketFactory(await ticketFactory.getAddress());
+    await ticketFactory.setEventManager(await eventManager.getAddress());
+
+    const ResaleManager = await ethers.getContractFactory("ResaleManager");
+    resaleManager = await ResaleManager.deploy(await ticketFactory.getAddress());
+    await resaleManager.waitForDeployment();
+    await ticketFactory.setResaleManager(await resaleManager.getAddress());
 
     const latestTime = await time.latest();
     eventDate = BigInt(latestTime) + 186400n; // 2 days in the future
@@ -57,9 +66,6 @@ describe("Ticketing System Integration", function () {
     );
     await tx.wait();
     eventId = 1; // First event
-
-    // Initialize event in TicketFactory
-    await ticketFactory.connect(owner).createEvent(eventId, ZONE_CAPACITIES[0], ZONE_PRICES[0]);
   });
 
   describe("Full Ticket Lifecycle", function () {
@@ -70,13 +76,12 @@ describe("Ticketing System Integration", function () {
       });
       await purchaseTx.wait();
       
-      // Issue ticket in TicketFactory
+      // The purchase mints the ticket NFT
       const ticketId = 1n;
-      await ticketFactory.connect(owner).issueTicket(buyer1.address, eventId, 1);
       expect(await ticketFactory.ownerOf(ticketId)).to.equal(buyer1.address);
       
-      // Deposit payment into RefundEscrow
-      await refundEscrow.connect(buyer1).depositPayment(BigInt(eventId), ticketId, { value: ZONE_PRICES[0] });
+      // The purchase payment is held in RefundEscrow
+      expect(await refundEscrow.getPaymentAmount(BigInt(eventId), ticketId)).to.equal(ZONE_PRICES[0]);
       
       // Verify purchase
       expect(await eventManager.hasTicket(eventId, buyer1.address)).to.be.true;
@@ -101,15 +106,14 @@ describe("Ticketing System Integration", function () {
       expect(buyer2Position).to.equal(1n);
       
       // 3. Resale Process
-      await ticketFactory.connect(buyer1).approve(await ticketFactory.getAddress(), ticketId);
-      await ticketFactory.connect(buyer1).listForResale(ticketId, ZONE_PRICES[0]);
+      await resaleManager.connect(buyer1).listTicketForResale(ticketId, ZONE_PRICES[0]);
       
       const ticketDetails = await ticketFactory.getTicketDetails(ticketId);
       expect(ticketDetails[5]).to.be.true;                 // isResale
       expect(ticketDetails[6]).to.equal(ZONE_PRICES[0]);   // resalePrice
       
       // 4. Resale Purchase
-      await ticketFactory.connect(buyer2).purchaseResaleTicket(ticketId, {
+      await resaleManager.connect(buyer2).purchaseResaleTicket(ticketId, {
         value: ZONE_PRICES[0]
       });
       
@@ -146,9 +150,11 @@ describe("Ticketing System Integration", function () {
       await waitlistManager.connect(buyer1).joinWaitlist(BigInt(eventId), 0n);
       await waitlistManager.connect(buyer2).joinWaitlist(BigInt(eventId), 0n);
       
-      await eventManager.connect(buyer3).purchaseTicket(eventId, 0, {
-        value: ZONE_PRICES[0]
-      });
+      await expect(
+        eventManager.connect(buyer3).purchaseTicket(eventId, 0, {
+          value: ZONE_PRICES[0]
+        })
+      ).to.be.revertedWith("Must respect waitlist priority");
       
       const buyer1Position = await waitlistManager.getWaitlistPosition(BigInt(eventId), 0n, buyer1.address);
       const buyer2Position = await waitlistManager.getWaitlistPosition(BigInt(eventId), 0n, buyer2.address);
@@ -164,10 +170,8 @@ describe("Ticketing System Integration", function () {
       await purchaseTx.wait();
       
       const ticketId = 1n;
-      // Issue ticket in TicketFactory
-      await ticketFactory.connect(owner).issueTicket(buyer1.address, eventId, 1);
+      expect(await ticketFactory.ownerOf(ticketId)).to.equal(buyer1.address);
       
-      await refundEscrow.connect(buyer1).depositPayment(BigInt(eventId), ticketId, { value: ZONE_PRICES[0] });
 
       const initialBalance = await ethers.provider.getBalance(buyer1.address);
       
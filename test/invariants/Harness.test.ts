@@ -0,0 +1,51 @@
+import { expect } from "chai";
+import { checkProperty, createRng, PropertyFailure, shrink } from "./harness";
+
+describe("Invariant harness", function () {
+  // Fails once a sequence contains a 3 followed, at any distance, by a 7
+  async function noThreeThenSeven(actions: number[]): Promise<void> {
+    const three = actions.indexOf(3);
+    if (three !== -1 && actions.indexOf(7, three + 1) !== -1) {
+      throw new Error("3 before 7");
+    }
+  }
+
+  it("Should generate the same sequence for the same seed", function () {
+    const first = createRng(42);
+    const second = createRng(42);
+    const other = createRng(43);
+    const a = Array.from({ length: 5 }, () => first());
+    expect(Array.from({ length: 5 }, () => second())).to.deep.equal(a);
+    expect(Array.from({ length: 5 }, () => other())).to.not.deep.equal(a);
+  });
+
+  it("Should shrink a failing sequence to a minimal reproduction", async function () {
+    const { actions, error } = await shrink([1, 3, 5, 2, 8, 3, 9, 7, 4, 7, 6], noThreeThenSeven);
+    expect(actions).to.deep.equal([3, 7]);
+    expect((error as Error).message).to.equal("3 before 7");
+  });
+
+  it("Should report the seed and the shrunk sequence of a failing run", async function () {
+    const failure = await checkProperty({
+      runs: 50,
+      steps: 20,
+      seed: 1,
+      generate: (rng) => Math.floor(rng() * 10),
+      check: noThreeThenSeven,
+    }).then(
+      () => undefined,
+      (error: unknown) => error
+    );
+
+    expect(failure).to.be.instanceOf(PropertyFailure);
+    expect((failure as PropertyFailure).actions).to.deep.equal([3, 7]);
+    expect((failure as PropertyFailure).message).to.contain("INVARIANT_REPLAY='[3,7]'");
+  });
+
+  it("Should refuse to shrink a passing sequence", async function () {
+    await shrink([1, 2], noThreeThenSeven).then(
+      () => expect.fail("shrink resolved"),
+      (error: Error) => expect(error.message).to.equal("Cannot shrink a sequence that does not fail")
+    );
+  });
+});
@@ -0,0 +1,400 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  ConditionalFundsEscrow,
+  EventManager,
+  RefundEscrow,
+  ResaleManager,
+  TicketFactory,
+  WaitlistManager,
+} from "../../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { checkProperty, pickWeighted, randomInt, Rng } from "./harness";
+import { deployEventManager } from "../../sdk";
+
+// Every action names its actors and targets by index; indexes are resolved against the state at
+// the time the action runs, so any subsequence of a failing sequence is still a valid sequence.
+type Action =
+  | { kind: "buy"; actor: number; zone: number; overpay: boolean }
+  | { kind: "refund"; ticket: number }
+  | { kind: "cancelEvent" }
+  | { kind: "refundBatch"; size: number }
+  | { kind: "list"; ticket: number; markupPct: number }
+  | { kind: "resale"; actor: number; listing: number }
+  | { kind: "joinWaitlist"; actor: number; zone: number }
+  | { kind: "leaveWaitlist"; actor: number; zone: number }
+  | { kind: "acceptOffer"; zone: number; offer: number }
+  | { kind: "expireOffer"; zone: number; offer: number }
+  | { kind: "withdrawRoyalties"; organizer: boolean }
+  | { kind: "wait"; hours: number }
+  | { kind: "settle" };
+
+const EVENT_ID = 1n;
+const BASE_PRICE = ethers.parseEther("0.1");
+const ZONE_CAPACITIES = [3n, 2n];
+const ZONE_PRICES = [ethers.parseEther("0.1"), ethers.parseEther("0.25")];
+const WAITLIST_DEPOSIT = ethers.parseEther("0.02");
+const BUYER_COUNT = 6;
+
+const RUNS = Number(process.env.INVARIANT_RUNS ?? "4");
+const STEPS = Number(process.env.INVARIANT_STEPS ?? "25");
+const SEED = Number(process.env.INVARIANT_SEED ?? "1");
+
+function generateAction(rng: Rng): Action {
+  const actor = randomInt(rng, BUYER_COUNT);
+  const zone = randomInt(rng, ZONE_CAPACITIES.length);
+  const index = randomInt(rng, 8);
+  const kind = pickWeighted<Action["kind"]>(rng, [
+    ["buy", 6],
+    ["refund", 2],
+    ["cancelEvent", 0.3],
+    ["refundBatch", 1],
+    ["list", 2],
+    ["resale", 2],
+    ["joinWaitlist", 2],
+    ["leaveWaitlist", 1],
+    ["acceptOffer", 2],
+    ["expireOffer", 1],
+    ["withdrawRoyalties", 1],
+    ["wait", 1.5],
+    ["settle", 0.3],
+  ]);
+
+  switch (kind) {
+    case "buy":
+      return { kind, actor, zone, overpay: rng() < 0.3 };
+    case "refund":
+      return { kind, ticket: index };
+    case "refundBatch":
+      return { kind, size: 1 + randomInt(rng, 4) };
+    case "list":
+      return { kind, ticket: index, markupPct: 50 + randomInt(rng, 61) };
+    case "resale":
+      return { kind, actor, listing: index };
+    case "joinWaitlist":
+    case "leaveWaitlist":
+      return { kind, actor, zone };
+    case "acceptOffer":
+    case "expireOffer":
+      return { kind, zone, offer: index };
+    case "withdrawRoyalties":
+      return { kind, organizer: rng() < 0.5 };
+    case "wait":
+      return { kind, hours: 1 + randomInt(rng, 48) };
+    default:
+      return { kind };
+  }
+}
+
+describe("Money flow invariants", function () {
+  this.timeout(600_000);
+
+  async function deploySystemFixture() {
+    const [owner, organizer, payee, ...rest] = await ethers.getSigners();
+    const buyers = rest.slice(0, BUYER_COUNT);
+
+    const WaitlistManager = await ethers.getContractFactory("WaitlistManager");
+    const waitlistManager = await WaitlistManager.deploy();
+    const TicketFactory = await ethers.getContractFactory("TicketFactory");
+    const ticketFactory = await TicketFactory.deploy(await waitlistManager.getAddress());
+    const eventManager = await deployEventManager(owner);
+    await eventManager.grantRole(await eventManager.ORGANIZER_ROLE(), organizer.address);
+    const RefundEscrow = await ethers.getContractFactory("RefundEscrow");
+    const refundEscrow = await RefundEscrow.deploy(await eventManager.getAddress());
+    const ResaleManager = await ethers.getContractFactory("ResaleManager");
+    const resaleManager = await ResaleManager.deploy(await ticketFactory.getAddress());
+    const ConditionalFundsEscrow = await ethers.getContractFactory("ConditionalFundsEscrow");
+    const fundsEscrow = await ConditionalFundsEscrow.deploy(await eventManager.getAddress());
+
+    await eventManager.setRefundEscrow(await refundEscrow.getAddress());
+    await eventManager.setTicketFactory(await ticketFactory.getAddress());
+    await eventManager.setWaitlistManager(await waitlistManager.getAddress());
+    await ticketFactory.setEventManager(await eventManager.getAddress());
+    await ticketFactory.setResaleManager(await resaleManager.getAddress());
+    await resaleManager.setWaitlistManager(await waitlistManager.getAddress());
+    await waitlistManager.setEventManager(await eventManager.getAddress());
+    await waitlistManager.setResaleManager(await resaleManager.getAddress());
+    await waitlistManager.setFundsEscrow(await fundsEscrow.getAddress());
+    await fundsEscrow.setWaitlistManager(await waitlistManager.getAddress());
+
+    const eventDate = BigInt(await time.latest()) + 10n * 86_400n;
+    await eventManager
+      .connect(organizer)
+      .createEventWithResaleFees("Invariants", eventDate, BASE_PRICE, ZONE_CAPACITIES, ZONE_PRICES, 500, payee.address, 250);
+    await eventManager.connect(organizer).setWalletTicketLimit(EVENT_ID, 2);
+    await waitlistManager.connect(organizer).setWaitlistDeposit(EVENT_ID, WAITLIST_DEPOSIT, 5_000);
+
+    return {
+      owner,
+      organizer,
+      payee,
+      buyers,
+      eventDate,
+      eventManager,
+      ticketFactory,
+      refundEscrow,
+      resaleManager,
+      waitlistManager,
+      fundsEscrow,
+    };
+  }
+
+  type System = Awaited<ReturnType<typeof deploySystemFixture>>;
+
+  interface Ticket {
+    tokenId: bigint;
+    zoneId: bigint;
+    // Undefined once the ticket has been burned by a refund
+    holder?: string;
+  }
+
+  async function readTickets({ ticketFactory }: System): Promise<Ticket[]> {
+    const minted = await ticketFactory.queryFilter(ticketFactory.filters.TicketMinted());
+    return Promise.all(
+      minted.map(async ({ args }) => ({
+        tokenId: args.tokenId,
+        zoneId: args.zoneId,
+        holder: await ticketFactory.ownerOf(args.tokenId).catch(() => undefined),
+      }))
+    );
+  }
+
+  function signerFor(system: System, address: string): SignerWithAddress {
+    const signer = [system.owner, system.organizer, system.payee, ...system.buyers].find(
+      (candidate) => candidate.address === address
+    );
+    if (signer === undefined) throw new Error(`No signer for ${address}`);
+    return signer;
+  }
+
+  async function offerHolders(system: System, zone: number): Promise<string[]> {
+    return system.waitlistManager.getOfferHolders(EVENT_ID, zone);
+  }
+
+  async function apply(system: System, action: Action): Promise<void> {
+    const { eventManager, refundEscrow, resaleManager, waitlistManager, organizer, buyers } = system;
+    const live = (await readTickets(system)).filter((ticket) => ticket.holder !== undefined);
+
+    switch (action.kind) {
+      case "buy": {
+        const price = await eventManager.getZonePrice(EVENT_ID, action.zone);
+        const value = action.overpay ? price + ethers.parseEther("0.01") : price;
+        await eventManager.connect(buyers[action.actor]).purchaseTicket(EVENT_ID, action.zone, { value });
+        return;
+      }
+      case "refund": {
+        if (live.length === 0) return;
+        const ticket = live[action.ticket % live.length];
+        const holder = signerFor(system, ticket.holder!);
+        if (await refundEscrow.isEventCancelled(EVENT_ID)) {
+          await refundEscrow.connect(holder).processEventCancellationRefund(EVENT_ID, ticket.tokenId);
+        } else {
+          await refundEscrow.connect(holder).cancelTicket(EVENT_ID, ticket.tokenId);
+        }
+        return;
+      }
+      case "cancelEvent":
+        await eventManager.connect(organizer).cancelEvent(EVENT_ID);
+        return;
+      case "refundBatch":
+        await refundEscrow.connect(organizer).processEventRefundBatch(EVENT_ID, action.size);
+        return;
+      case "list": {
+        if (live.length === 0) return;
+        const ticket = live[action.ticket % live.length];
+        const [, originalPrice] = await system.ticketFactory.getTicketDetails(ticket.tokenId);
+        await resaleManager
+          .connect(signerFor(system, ticket.holder!))
+          .listTicketForResale(ticket.tokenId, (originalPrice * BigInt(action.markupPct)) / 100n);
+        return;
+      }
+      case "resale": {
+        const listings = [];
+        for (const ticket of live) {
+          const [listed, price] = await resaleManager.getActiveListing(ticket.tokenId);
+          if (listed) listings.push({ tokenId: ticket.tokenId, price });
+        }
+        if (listings.length === 0) return;
+        const listing = listings[action.listing % listings.length];
+        await resaleManager.connect(buyers[action.actor]).purchaseResaleTicket(listing.tokenId, { value: listing.price });
+        return;
+      }
+      case "joinWaitlist": {
+        const [deposit] = await waitlistManager.getDepositTerms(EVENT_ID);
+        await waitlistManager.connect(buyers[action.actor]).joinWaitlist(EVENT_ID, action.zone, { value: deposit });
+        return;
+      }
+      case "leaveWaitlist": {
+        const user = buyers[action.actor];
+        if (await eventManager.hasEventConcluded(EVENT_ID) || (await refundEscrow.isEventCancelled(EVENT_ID))) {
+          await waitlistManager.connect(organizer).refundUnservedDeposit(EVENT_ID, action.zone, user.address);
+        } else {
+          await waitlistManager.connect(user).leaveWaitlist(EVENT_ID, action.zone);
+        }
+        return;
+      }
+      case "acceptOffer": {
+        const holders = await offerHolders(system, action.zone);
+        if (holders.length === 0) return;
+        const user = holders[action.offer % holders.length];
+        const [, , , price] = await waitlistManager.getOffer(EVENT_ID, action.zone, user);
+        const deposit = await waitlistManager.getDeposit(EVENT_ID, action.zone, user);
+        await waitlistManager
+          .connect(signerFor(system, user))
+          .completeWaitlistPurchase(EVENT_ID, action.zone, { value: price > deposit ? price - deposit : 0n });
+        return;
+      }
+      case "expireOffer": {
+        const holders = await offerHolders(system, action.zone);
+        if (holders.length === 0) return;
+        const user = holders[action.offer % holders.length];
+        await waitlistManager.connect(organizer).expireOffer(EVENT_ID, action.zone, user);
+        return;
+      }
+      case "withdrawRoyalties":
+        await resaleManager.connect(action.organizer ? organizer : system.payee).withdrawRoyalties();
+        return;
+      case "wait":
+        await time.increase(action.hours * 3_600);
+        return;
+      case "settle":
+        if (BigInt(await time.latest()) <= system.eventDate) {
+          await time.increaseTo(system.eventDate + 1n);
+        }
+        await eventManager.connect(organizer).withdrawEventRevenue(EVENT_ID);
+        return;
+    }
+  }
+
+  async function totalBalance(system: System): Promise<bigint> {
+    const holders = [
+      system.owner,
+      system.organizer,
+      system.payee,
+      ...system.buyers,
+      system.eventManager,
+      system.refundEscrow,
+      system.resaleManager,
+      system.waitlistManager,
+      system.fundsEscrow,
+      system.ticketFactory,
+    ];
+    const balances = await Promise.all(
+      holders.map(async (holder) => ethers.provider.getBalance(await holder.getAddress()))
+    );
+    return balances.reduce((sum, balance) => sum + balance, 0n);
+  }
+
+  // Gas paid in blocks after `fromBlock`; every transaction in these blocks is one of ours
+  async function gasPaidSince(fromBlock: number): Promise<bigint> {
+    let paid = 0n;
+    const latest = await ethers.provider.getBlockNumber();
+    for (let number = fromBlock + 1; number <= latest; number++) {
+      const block = await ethers.provider.getBlock(number);
+      for (const hash of block!.transactions) {
+        paid += (await ethers.provider.getTransactionReceipt(hash))!.fee;
+      }
+    }
+    return paid;
+  }
+
+  async function checkInvariants(system: System, startingBalance: bigint, startBlock: number): Promise<void> {
+    const { eventManager, refundEscrow, resaleManager, waitlistManager, fundsEscrow } = system;
+    const accounts = [system.owner, system.organizer, system.payee, ...system.buyers].map((signer) => signer.address);
+    const balanceOf = async (contract: { getAddress(): Promise<string> }) =>
+      ethers.provider.getBalance(await contract.getAddress());
+
+    // ETH only leaves the closed set of accounts and contracts as gas
+    expect((await totalBalance(system)) + (await gasPaidSince(startBlock)), "ETH conservation").to.equal(
+      startingBalance
+    );
+
+    // Pass-through contracts never keep funds between transactions
+    expect(await balanceOf(eventManager), "EventManager balance").to.equal(0n);
+    expect(await balanceOf(waitlistManager), "WaitlistManager balance").to.equal(0n);
+
+    const tickets = await readTickets(system);
+    let pendingPayments = 0n;
+    let expectedRevenue = 0n;
+    const fee = await eventManager.platformFeePercentage();
+    for (const ticket of tickets) {
+      if ((await refundEscrow.getPaymentStatus(EVENT_ID, ticket.tokenId)) !== 0n) continue;
+      const amount = await refundEscrow.getPaymentAmount(EVENT_ID, ticket.tokenId);
+      pendingPayments += amount;
+      expectedRevenue += amount - (amount * fee) / 100n;
+    }
+
+    let pendingRefunds = 0n;
+    let royalties = 0n;
+    let pendingPayouts = 0n;
+    let deposits = 0n;
+    for (const account of accounts) {
+      pendingRefunds += await refundEscrow.getPendingRefund(account);
+      royalties += await resaleManager.royaltyBalances(account);
+      pendingPayouts += await fundsEscrow.getPendingPayout(account);
+      for (let zoneId = 0; zoneId < ZONE_CAPACITIES.length; zoneId++) {
+        deposits += (await fundsEscrow.getWaitlistDeposit(EVENT_ID, zoneId, account)).amount;
+      }
+    }
+
+    // Every escrowed wei belongs to a ticket payment, a deferred refund, a royalty or a deposit
+    const eventBalance = await refundEscrow.getEventBalance(EVENT_ID);
+    expect(eventBalance, "RefundEscrow event balance").to.equal(pendingPayments);
+    expect(await balanceOf(refundEscrow), "RefundEscrow balance").to.equal(eventBalance + pendingRefunds);
+    expect(await balanceOf(resaleManager), "ResaleManager balance").to.equal(royalties);
+    expect(await fundsEscrow.totalDepositsHeld(), "deposits held").to.equal(deposits + pendingPayouts);
+    expect(await balanceOf(fundsEscrow), "ConditionalFundsEscrow balance").to.equal(deposits + pendingPayouts);
+    if (!(await refundEscrow.isEventCancelled(EVENT_ID))) {
+      expect(await eventManager.getEventRevenue(EVENT_ID), "organizer revenue").to.equal(expectedRevenue);
+    }
+
+    // A seat is for sale, taken by a ticket, or held for a waitlist offer; never two or none
+    for (let zoneId = 0; zoneId < ZONE_CAPACITIES.length; zoneId++) {
+      const zone = await eventManager.getZone(EVENT_ID, zoneId);
+      const sold = BigInt(
+        tickets.filter((ticket) => ticket.holder !== undefined && ticket.zoneId === BigInt(zoneId)).length
+      );
+      let held = 0n;
+      for (const user of await waitlistManager.getOfferHolders(EVENT_ID, zoneId)) {
+        const [offeredTicketId] = await waitlistManager.getOffer(EVENT_ID, zoneId, user);
+        if (offeredTicketId === 0n) held++;
+      }
+      expect(zone.availableSeats + sold + held, `zone ${zoneId} seats`).to.equal(zone.capacity);
+    }
+  }
+
+  function isRevert(error: unknown): boolean {
+    return error instanceof Error && /revert/i.test(error.message);
+  }
+
+  // Replays the actions on a fresh deployment, checking every invariant after each one.
+  // Reverted actions are expected (buying into a sold-out zone, say) and leave no trace.
+  async function runSequence(actions: Action[]): Promise<void> {
+    const system = await loadFixture(deploySystemFixture);
+    const startingBalance = await totalBalance(system);
+    const startBlock = await ethers.provider.getBlockNumber();
+
+    await checkInvariants(system, startingBalance, startBlock);
+    for (const [step, action] of actions.entries()) {
+      try {
+        await apply(system, action);
+      } catch (error) {
+        if (!isRevert(error)) throw error;
+      }
+      try {
+        await checkInvariants(system, startingBalance, startBlock);
+      } catch (error) {
+        throw new Error(`after step ${step + 1} (${JSON.stringify(action)}): ${(error as Error).message}`);
+      }
+    }
+  }
+
+  it("Should conserve ETH and seats across random sequences of actions", async function () {
+    if (process.env.INVARIANT_REPLAY !== undefined) {
+      await runSequence(JSON.parse(process.env.INVARIANT_REPLAY) as Action[]);
+      return;
+    }
+    await checkProperty({ runs: RUNS, steps: STEPS, seed: SEED, generate: generateAction, check: runSequence });
+  });
+});
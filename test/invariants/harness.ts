@@ -0,0 +1,114 @@
+// Seeded random action sequences with shrinking, for the invariant suites in this directory.
+// A property runs a sequence against a fresh deployment and throws when an invariant breaks;
+// the failing sequence is then cut down to a minimal one that still fails.
+
+export type Rng = () => number;
+
+// mulberry32: small, fast and the same on every machine for a given seed
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomInt(rng: Rng, max: number): number {
+  return Math.floor(rng() * max);
+}
+
+// Picks by weight, so rare actions (cancelling the event) do not end most sequences early
+export function pickWeighted<T>(rng: Rng, options: [T, number][]): T {
+  const total = options.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = rng() * total;
+  for (const [option, weight] of options) {
+    roll -= weight;
+    if (roll < 0) return option;
+  }
+  return options[options.length - 1][0];
+}
+
+export interface PropertyConfig<A> {
+  runs: number;
+  steps: number;
+  seed: number;
+  generate: (rng: Rng) => A;
+  // Replays the actions from a clean state; throws on the first broken invariant
+  check: (actions: A[]) => Promise<void>;
+  // Cap on replays spent shrinking a failure
+  maxShrinkAttempts?: number;
+}
+
+export class PropertyFailure extends Error {
+  constructor(
+    readonly seed: number,
+    readonly actions: unknown[],
+    readonly originalLength: number,
+    readonly error: unknown
+  ) {
+    super(
+      `Invariant broken (seed ${seed}, shrunk from ${originalLength} to ${actions.length} action(s)): ` +
+        `${error instanceof Error ? error.message : String(error)}\n` +
+        `Replay with INVARIANT_REPLAY='${JSON.stringify(actions)}'`
+    );
+    this.name = "PropertyFailure";
+  }
+}
+
+async function failure<A>(check: (actions: A[]) => Promise<void>, actions: A[]): Promise<unknown> {
+  try {
+    await check(actions);
+    return undefined;
+  } catch (error) {
+    return error ?? new Error("Unknown failure");
+  }
+}
+
+// Delta debugging: drop ever smaller chunks of the sequence while it keeps failing
+export async function shrink<A>(
+  actions: A[],
+  check: (actions: A[]) => Promise<void>,
+  maxAttempts = 200
+): Promise<{ actions: A[]; error: unknown }> {
+  let current = actions;
+  let error = await failure(check, current);
+  if (error === undefined) {
+    throw new Error("Cannot shrink a sequence that does not fail");
+  }
+
+  let attempts = 0;
+  let chunk = Math.ceil(current.length / 2);
+  while (chunk >= 1 && attempts < maxAttempts) {
+    let removed = false;
+    for (let start = 0; start < current.length && attempts < maxAttempts; ) {
+      const candidate = [...current.slice(0, start), ...current.slice(start + chunk)];
+      attempts++;
+      const candidateError = await failure(check, candidate);
+      if (candidateError !== undefined) {
+        current = candidate;
+        error = candidateError;
+        removed = true;
+      } else {
+        start += chunk;
+      }
+    }
+    if (!removed) chunk = Math.floor(chunk / 2);
+  }
+  return { actions: current, error };
+}
+
+// Runs `runs` random sequences; run i uses seed + i, so a reported seed reproduces on its own
+export async function checkProperty<A>(config: PropertyConfig<A>): Promise<void> {
+  for (let run = 0; run < config.runs; run++) {
+    const seed = config.seed + run;
+    const rng = createRng(seed);
+    const actions = Array.from({ length: config.steps }, () => config.generate(rng));
+
+    if ((await failure(config.check, actions)) === undefined) continue;
+    const shrunk = await shrink(actions, config.check, config.maxShrinkAttempts);
+    throw new PropertyFailure(seed, shrunk.actions, actions.length, shrunk.error);
+  }
+}